@@ -1,6 +1,24 @@
 const fs = require('fs');
 const path = require('path');
 
+// Browsers only load a JSON module with an import attribute, which TypeScript does not emit,
+// so each imported data file gets a JS module next to it that exports the same data
+function writeJsonModule(jsonPath) {
+  const data = fs.readFileSync(jsonPath, 'utf8');
+  fs.writeFileSync(jsonPath + '.js', `export default ${data.trim()};\n`);
+}
+
+function fixImportPath(filePath, match, importPath) {
+  if (importPath.endsWith('.json')) {
+    writeJsonModule(path.resolve(path.dirname(filePath), importPath));
+    return match.replace(importPath, importPath + '.js');
+  }
+  if (!importPath.endsWith('.js') && !importPath.includes('?') && !importPath.includes('#')) {
+    return match.replace(importPath, importPath + '.js');
+  }
+  return match;
+}
+
 function fixImports(dir) {
   const files = fs.readdirSync(dir);
   
@@ -13,25 +31,15 @@ function fixImports(dir) {
     } else if (file.endsWith('.js')) {
       let content = fs.readFileSync(filePath, 'utf8');
       
-      // Fix relative imports to add .js extension
+      // Fix relative imports to add .js extension, and point data file imports at their JS modules
       content = content.replace(
         /from\s+['"](\.[^'"]*?)['"];?/g,
-        (match, importPath) => {
-          if (!importPath.endsWith('.js') && !importPath.includes('?') && !importPath.includes('#')) {
-            return match.replace(importPath, importPath + '.js');
-          }
-          return match;
-        }
+        (match, importPath) => fixImportPath(filePath, match, importPath)
       );
       
       content = content.replace(
         /import\s+['"](\.[^'"]*?)['"];?/g,
-        (match, importPath) => {
-          if (!importPath.endsWith('.js') && !importPath.includes('?') && !importPath.includes('#')) {
-            return match.replace(importPath, importPath + '.js');
-          }
-          return match;
-        }
+        (match, importPath) => fixImportPath(filePath, match, importPath)
       );
       
       fs.writeFileSync(filePath, content);
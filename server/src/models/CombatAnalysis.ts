@@ -5,7 +5,7 @@ const CombatActionSchema = new Schema<CombatAction>({
   turn: { type: Number, required: true },
   action: { 
     type: String, 
-    enum: ['attack', 'cast_spell', 'use_item', 'defend', 'move'], 
+    enum: ['attack', 'cast_spell', 'use_item', 'defend', 'move', 'flee', 'use_skill'], 
     required: true 
   },
   target: { type: String },
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+import { Bestiary, BestiaryData } from '../../../src/dungeon/Bestiary';
+import { BestiaryEntry } from '../types';
+import { logger } from '../utils/logger';
+
+// The client and server read the same data file so designers only edit one place
+const DEFAULT_BESTIARY_PATH = path.resolve(__dirname, '../../../src/data/bestiary.json');
+
+// Stat increase per level below the first, matches the client's DEPTH_ENEMY_SCALING
+const LEVEL_SCALING = 0.25;
+
+export class BestiaryService {
+  private static instance: BestiaryService;
+  private entries: BestiaryEntry[] = [];
+
+  private constructor() {
+    this.load(process.env.BESTIARY_PATH || DEFAULT_BESTIARY_PATH);
+  }
+
+  public static getInstance(): BestiaryService {
+    if (!BestiaryService.instance) {
+      BestiaryService.instance = new BestiaryService();
+    }
+    return BestiaryService.instance;
+  }
+
+  /**
+   * Load enemy definitions from the shared bestiary file, checked by the client's own bestiary rules
+   */
+  public load(filePath: string): void {
+    try {
+      const data: BestiaryData = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      this.entries = new Bestiary(data).getEntries();
+      logger.info(`Loaded ${this.entries.length} bestiary entries`, { filePath });
+    } catch (error) {
+      logger.error('Error loading bestiary:', error);
+      throw new Error('Failed to load bestiary');
+    }
+  }
+
+  public getEntry(id: string): BestiaryEntry | undefined {
+    return this.entries.find(entry => entry.id === id);
+  }
+
+  /**
+   * Weighted random pick among the regular enemies allowed on a dungeon level
+   */
+  public pickEnemy(level: number): BestiaryEntry {
+    const candidates = this.entries.filter(entry =>
+      !entry.boss &&
+      level >= entry.spawn.minDepth &&
+      (entry.spawn.maxDepth === undefined || level <= entry.spawn.maxDepth)
+    );
+
+    if (candidates.length === 0) {
+      // Nothing listed this deep, fall back to the deepest regular enemy
+      return this.entries
+        .filter(entry => !entry.boss)
+        .reduce((deepest, entry) => entry.spawn.minDepth > deepest.spawn.minDepth ? entry : deepest);
+    }
+
+    const totalWeight = candidates.reduce((sum, entry) => sum + entry.spawn.weight, 0);
+    let roll = Math.random() * totalWeight;
+    for (const entry of candidates) {
+      roll -= entry.spawn.weight;
+      if (roll < 0) {
+        return entry;
+      }
+    }
+
+    return candidates[candidates.length - 1];
+  }
+
+  /**
+   * Scale a base stat for the given dungeon level
+   */
+  public scaleForLevel(value: number, level: number): number {
+    return Math.round(value * (1 + (level - 1) * LEVEL_SCALING));
+  }
+
+  /**
+   * Roll the gold an enemy carries, deeper levels multiply the roll
+   */
+  public rollGold(entry: BestiaryEntry, level: number): number {
+    const [min, max] = entry.gold;
+    return (min + Math.floor(Math.random() * (max - min + 1))) * level;
+  }
+}
+
+export const bestiaryService = BestiaryService.getInstance();
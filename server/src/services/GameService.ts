@@ -2,6 +2,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { GameState, PlayerStats, Inventory, Enemy, Treasure, Door, DungeonCell } from '../types';
 import { GameStateModel } from '../models/GameState';
 import { logger } from '../utils/logger';
+import { bestiaryService } from './BestiaryService';
 
 export class GameService {
   private static instance: GameService;
@@ -290,7 +291,6 @@ export class GameService {
     // Generate enemies
     const enemies: Enemy[] = [];
     const enemyCount = 3 + level * 2;
-    const enemyTypes = ['goblin', 'orc', 'skeleton', 'troll'];
     
     for (let i = 0; i < enemyCount; i++) {
       let x, y;
@@ -299,21 +299,21 @@ export class GameService {
         y = Math.floor(Math.random() * GRID_SIZE);
       } while (map[y][x].type !== 'floor' || (x < 3 && y < 3));
 
-      const enemyType = enemyTypes[Math.floor(Math.random() * enemyTypes.length)];
-      const baseStats = this.getEnemyBaseStats(enemyType);
+      const entry = bestiaryService.pickEnemy(level);
+      const hp = bestiaryService.scaleForLevel(entry.stats.health, level);
       
       enemies.push({
         id: uuidv4(),
         x,
         y,
-        type: enemyType,
-        hp: baseStats.hp * level,
-        maxHp: baseStats.hp * level,
-        attack: baseStats.attack + level,
-        defense: baseStats.defense,
-        exp: baseStats.exp * level,
-        gold: baseStats.gold * level,
-        aiType: 'random'
+        type: entry.id,
+        hp,
+        maxHp: hp,
+        attack: bestiaryService.scaleForLevel(entry.stats.attackPower, level),
+        defense: bestiaryService.scaleForLevel(entry.stats.defense, level),
+        exp: bestiaryService.scaleForLevel(entry.experience, level),
+        gold: bestiaryService.rollGold(entry, level),
+        aiType: entry.aiType === 'aggressive' || entry.aiType === 'defensive' ? entry.aiType : 'random'
       });
     }
 
@@ -359,17 +359,6 @@ export class GameService {
 
     return { map, enemies, treasures, doors };
   }
-
-  private getEnemyBaseStats(enemyType: string) {
-    const stats = {
-      goblin: { hp: 20, attack: 8, defense: 2, exp: 25, gold: 10 },
-      orc: { hp: 35, attack: 12, defense: 4, exp: 50, gold: 20 },
-      skeleton: { hp: 25, attack: 10, defense: 3, exp: 40, gold: 15 },
-      troll: { hp: 50, attack: 15, defense: 6, exp: 75, gold: 30 }
-    };
-
-    return stats[enemyType as keyof typeof stats] || stats.goblin;
-  }
 }
 
 export const gameService = GameService.getInstance();
\ No newline at end of file
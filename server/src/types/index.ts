@@ -62,6 +62,37 @@ export interface Enemy {
   aiType: 'aggressive' | 'defensive' | 'smart' | 'random';
 }
 
+// Entry in the shared bestiary (src/data/bestiary.json)
+export interface BestiaryEntry {
+  id: string;
+  name: string;
+  stats: {
+    health: number;
+    attackPower: number;
+    defense: number;
+    agility?: number;
+  };
+  aiType: 'aggressive' | 'defensive' | 'patrol' | 'guard' | 'ranged';
+  detectionRange: number;
+  attackRange: number;
+  experience: number;
+  boss?: boolean;
+  ability?: {
+    name: string;
+    damageMultiplier: number;
+    cooldown: number;
+    effect?: { type: string; duration: number; potency: number };
+    healing?: number;
+  };
+  spawn: {
+    minDepth: number;
+    maxDepth?: number;
+    weight: number;
+  };
+  gold: [number, number];
+  lootTable: string;
+}
+
 export interface Treasure {
   id: string;
   x: number;
@@ -154,7 +185,7 @@ export interface CombatAnalysis {
 
 export interface CombatAction {
   turn: number;
-  action: 'attack' | 'cast_spell' | 'use_item' | 'defend' | 'move';
+  action: 'attack' | 'cast_spell' | 'use_item' | 'defend' | 'move' | 'flee' | 'use_skill';
   target?: string;
   damage?: number;
   success: boolean;
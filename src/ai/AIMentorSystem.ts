@@ -5,11 +5,20 @@ import {
 } from '../types/AITypes';
 import { 
   GameState, 
-  PlayerAction
+  PlayerAction,
+  Trap,
+  TrapEvent
 } from '../types/GameTypes';
 import { PlayerProfile } from '../player/PlayerProfile';
 import { handleError } from '../utils/ErrorHandling';
 import { PerformanceManager } from '../utils/PerformanceManager';
+import { TRAP_NAMES } from '../dungeon/TrapSystem';
+import { CharacterClassDefinition, defaultCharacterClasses } from '../player/CharacterClasses';
+import { defaultSpellbook } from '../combat/Spellbook';
+import { defaultRecipeBook } from '../player/RecipeBook';
+
+const TRAP_WARNING_DISTANCE = 3; // Warn about known traps this many tiles away or closer
+const FAILED_COMBINATIONS_BEFORE_HINT = 3; // Fruitless experiments before the mentor hints at a recipe
 
 /**
  * AI Mentor System that learns player behavior and provides adaptive guidance
@@ -22,6 +31,8 @@ export class AIMentorSystem {
   private learningEnabled: boolean = true;
   private maxHistorySize: number = 1000;
   private suggestionCooldown: number = 5000; // 5 seconds between suggestions
+  private knownTraps: Map<string, Trap> = new Map();
+  private trapsTriggered: number = 0;
   private performanceManager: PerformanceManager;
 
   constructor() {
@@ -150,6 +161,25 @@ export class AIMentorSystem {
     }
   }
 
+  /**
+   * Record a trap being spotted, sprung or disarmed so later hints can warn about it
+   */
+  public recordTrapEvent(event: TrapEvent): void {
+    try {
+      if (event.trap.disarmed) {
+        this.knownTraps.delete(event.trap.id);
+      } else {
+        this.knownTraps.set(event.trap.id, { ...event.trap, position: { ...event.trap.position } });
+      }
+
+      if (event.type === 'triggered') {
+        this.trapsTriggered++;
+      }
+    } catch (error) {
+      handleError(error, 'Failed to record trap event', { context: 'AIMentorSystem.recordTrapEvent' });
+    }
+  }
+
   /**
    * Update player profile with new behavior data
    * Requirement 2.5: Adapt guidance strategy when player behavior changes
@@ -209,6 +239,8 @@ export class AIMentorSystem {
   public clearHistory(): void {
     this.actionHistory = [];
     this.recentSuggestions = [];
+    this.knownTraps.clear();
+    this.trapsTriggered = 0;
   }
 
   // Private helper methods
@@ -351,6 +383,16 @@ export class AIMentorSystem {
     // Exploration suggestions
     if (!gameState.isInCombat) {
       suggestions.push(...this.generateExplorationSuggestions(gameState));
+
+      const trapWarning = this.generateTrapWarning(gameState);
+      if (trapWarning) {
+        suggestions.push(trapWarning);
+      }
+
+      const craftingSuggestion = this.generateCraftingSuggestion(gameState);
+      if (craftingSuggestion) {
+        suggestions.push(craftingSuggestion);
+      }
     }
 
     // Filter out null suggestions and select the highest priority one
@@ -380,14 +422,36 @@ export class AIMentorSystem {
       });
     }
 
+    // Remind the player of their class's signature move while it is ready
+    const characterClass = this.getCharacterClass(gameState);
+    if (characterClass && defaultSpellbook.checkCast(gameState.player, characterClass.signatureSpell) === null) {
+      suggestions.push({
+        id: `class_combat_${Date.now()}`,
+        type: 'combat',
+        message: characterClass.advice.combat,
+        reasoning: `${characterClass.name} signature ability is ready`,
+        priority: 'medium',
+        context: { characterClass: characterClass.id, spellId: characterClass.signatureSpell },
+        timestamp: new Date()
+      });
+    }
+
     return suggestions;
   }
 
+  // The chosen class of the current run, falling back to the profile's latest pick
+  private getCharacterClass(gameState: GameState): CharacterClassDefinition | undefined {
+    const classId = gameState.player.classId ?? this.playerProfile?.characterClass;
+    return classId ? defaultCharacterClasses.getClass(classId) : undefined;
+  }
+
   private generateHealthSuggestion(gameState: GameState): TacticalSuggestion {
+    const characterClass = this.getCharacterClass(gameState);
     return {
       id: `health_${Date.now()}`,
       type: 'strategy',
-      message: 'Your health is low. Consider using a healing potion or finding a safe place to rest.',
+      message: characterClass?.advice.lowHealth ??
+        'Your health is low. Consider using a healing potion or finding a safe place to rest.',
       reasoning: 'Player health is below 30% threshold',
       priority: 'high',
       context: { 
@@ -427,9 +491,96 @@ export class AIMentorSystem {
       });
     }
 
+    const characterClass = this.getCharacterClass(gameState);
+    if (characterClass) {
+      suggestions.push({
+        id: `class_exploration_${Date.now()}`,
+        type: 'exploration',
+        message: characterClass.advice.exploration,
+        reasoning: `Exploration tip for a ${characterClass.name}`,
+        priority: 'low',
+        context: { characterClass: characterClass.id },
+        timestamp: new Date()
+      });
+    }
+
     return suggestions;
   }
 
+  // Cautious players, and anyone who has already walked into a trap, get warned about known traps nearby
+  private generateTrapWarning(gameState: GameState): TacticalSuggestion | null {
+    const patterns = this.playerProfile?.behaviorPatterns;
+    if (!patterns) return null;
+
+    const cautious = patterns.explorationPattern === 'cautious' || patterns.riskTolerance < 0.5;
+    if (!cautious && this.trapsTriggered === 0) return null;
+
+    const { position } = gameState.player;
+    const nearby = Array.from(this.knownTraps.values())
+      .map(trap => ({
+        trap,
+        distance: Math.abs(trap.position.x - position.x) + Math.abs(trap.position.y - position.y)
+      }))
+      .filter(({ distance }) => distance <= TRAP_WARNING_DISTANCE)
+      .sort((a, b) => a.distance - b.distance)[0];
+    if (!nearby) return null;
+
+    const { trap, distance } = nearby;
+    return {
+      id: `trap_${trap.id}_${Date.now()}`,
+      type: 'exploration',
+      message: `${TRAP_NAMES[trap.kind]} ${distance <= 1 ? 'right next to you' : 'ahead'} - step around it or disarm it.`,
+      reasoning: cautious ?
+        'Cautious player is close to a known trap' :
+        'Player has triggered traps before and is close to another one',
+      priority: distance <= 1 ? 'high' : 'medium',
+      context: { trapId: trap.id, kind: trap.kind, distance },
+      timestamp: new Date()
+    };
+  }
+
+  // Point out a recipe the player can make right now, favoring the ones they craft most. Players whose
+  // experiments keep making nothing get told what to combine for a recipe they have yet to discover.
+  private generateCraftingSuggestion(gameState: GameState): TacticalSuggestion | null {
+    const statistics = this.playerProfile?.statistics;
+    if (!statistics) return null;
+
+    const crafted = statistics.recipesCrafted ?? {};
+    const favorite = defaultRecipeBook.getCraftable(gameState.player)
+      .sort((a, b) => (crafted[b.id] ?? 0) - (crafted[a.id] ?? 0))[0];
+    if (favorite) {
+      const timesCrafted = crafted[favorite.id] ?? 0;
+      return {
+        id: `crafting_${favorite.id}_${Date.now()}`,
+        type: 'resource',
+        message: `You have everything for ${favorite.name}. Press K to craft it.`,
+        reasoning: timesCrafted > 0 ?
+          `Player has crafted ${favorite.name} ${timesCrafted} times and carries its ingredients` :
+          'Player carries the ingredients for a known recipe',
+        priority: timesCrafted > 0 ? 'medium' : 'low',
+        context: { recipeId: favorite.id, timesCrafted },
+        timestamp: new Date()
+      };
+    }
+
+    if ((statistics.failedCombinations ?? 0) < FAILED_COMBINATIONS_BEFORE_HINT) return null;
+
+    const undiscovered = defaultRecipeBook.getDiscoverable(gameState.player)[0];
+    if (!undiscovered) return null;
+
+    const ingredients = undiscovered.ingredients.map(ingredient =>
+      ingredient.material ? defaultRecipeBook.getMaterial(ingredient.material)?.name ?? ingredient.material : ingredient.item);
+    return {
+      id: `crafting_discovery_${Date.now()}`,
+      type: 'resource',
+      message: `Try combining ${ingredients.join(', ')}.`,
+      reasoning: 'Player keeps combining items that make nothing but carries the ingredients of an undiscovered recipe',
+      priority: 'medium',
+      context: { recipeId: undiscovered.id, failedCombinations: statistics.failedCombinations },
+      timestamp: new Date()
+    };
+  }
+
   private mapSuggestionTypeToHintType(type: TacticalSuggestion['type']): AIHint['type'] {
     const mapping = {
       'combat': 'tactical' as const,
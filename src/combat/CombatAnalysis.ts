@@ -5,9 +5,11 @@ import {
   TacticalSuggestion,
   CombatTurn as ICombatTurn 
 } from '../types/AITypes';
-import { OptimalAction } from '../types/GameTypes';
+import { OptimalAction, StatusEffect } from '../types/GameTypes';
 import { GameError } from '../utils/ErrorHandling';
 import { PerformanceManager } from '../utils/PerformanceManager';
+import { Spellbook, SpellDefinition, SpellFailure, defaultSpellbook } from './Spellbook';
+import { TalentTree, SkillFailure, defaultTalentTree } from '../player/TalentTree';
 
 export interface CombatAnalysisResult {
   analysis: ICombatAnalysis;
@@ -15,13 +17,34 @@ export interface CombatAnalysisResult {
   suggestions: TacticalSuggestion[];
 }
 
+const SPELL_FAILURE_REASONS: Record<SpellFailure, string> = {
+  unknown_spell: 'the spell does not exist',
+  not_learned: 'the spell was not learned yet',
+  insufficient_mana: 'there was not enough mana',
+  on_cooldown: 'the spell was still on cooldown',
+  no_target: 'there was nothing to hit',
+  out_of_range: 'the target was out of range',
+  no_line_of_sight: 'a wall blocked the target'
+};
+
+const SKILL_FAILURE_REASONS: Record<SkillFailure, string> = {
+  unknown_skill: 'the skill does not exist',
+  not_learned: 'the skill was not learned yet',
+  on_cooldown: 'the skill was still on cooldown',
+  no_target: 'no enemy was close enough'
+};
+
 // Combat analysis system for post-combat evaluation
 export class CombatAnalysisSystem {
   private analysisHistory: ICombatAnalysis[] = [];
   private performanceManager: PerformanceManager;
+  private spellbook: Spellbook;
+  private talentTree: TalentTree;
 
-  constructor() {
+  constructor(spellbook: Spellbook = defaultSpellbook, talentTree: TalentTree = defaultTalentTree) {
     this.performanceManager = PerformanceManager.getInstance();
+    this.spellbook = spellbook;
+    this.talentTree = talentTree;
     this.reset();
   }
 
@@ -127,7 +150,8 @@ export class CombatAnalysisSystem {
         optimalDamageTaken: totalDamageTaken,
         efficiency: efficiency,
         wastedActions: 0,
-        missedOpportunities: []
+        missedOpportunities: [],
+        ...this.countAttackRolls(combatLog)
       },
       suggestions: [{
         id: `minimal_${Date.now()}`,
@@ -167,16 +191,26 @@ export class CombatAnalysisSystem {
       const damageTaken = turn.combatResults.reduce((total, result) => 
         total + result.playerDamageTaken, 0);
 
-      return {
+      const analysisTurn: ICombatTurn = {
         turnNumber: turn.turnNumber,
         playerAction: turn.playerAction,
-        enemyAction: turn.enemyActions[0] || { type: 'defend', timestamp: Date.now() },
+        enemyAction: turn.enemyActions[0] || { type: 'wait', timestamp: Date.now() },
         gameState: turn.gameStateAfter,
         optimalAction,
         efficiency,
         damageDealt,
         damageTaken
       };
+
+      // The player's result comes first in every turn
+      const playerResult = turn.combatResults[0];
+      if (playerResult?.critical) {
+        analysisTurn.critical = true;
+      }
+      if (playerResult?.missed) {
+        analysisTurn.missed = true;
+      }
+      return analysisTurn;
     });
   }
 
@@ -196,21 +230,90 @@ export class CombatAnalysisSystem {
   private calculateOptimalActionForTurn(turn: CombatTurn): OptimalAction {
     const gameState = turn.gameStateAfter;
     const playerAction = turn.playerAction;
+
+    // A stunned player had no choice this turn, so the action is not held against them
+    if (turn.combatResults[0]?.skippedTurn) {
+      return {
+        type: playerAction.type,
+        reasoning: 'Player was stunned and could not act',
+        expectedOutcome: 'Wait for the stun to wear off',
+        efficiency: 0.6
+      };
+    }
     
-    // Analyze the situation
-    const playerHealth = gameState.playerHealth;
+    // A spell that fizzled spent the turn on nothing
+    const playerResult = turn.combatResults[0];
+    if (playerAction.type === 'cast_spell' && playerResult?.spellFailure) {
+      return {
+        type: this.getEnemiesInAttackRange(turn).length > 0 ? 'attack' : 'defend',
+        reasoning: `The spell fizzled because ${SPELL_FAILURE_REASONS[playerResult.spellFailure]}`,
+        expectedOutcome: 'Use the turn on an action that can succeed',
+        efficiency: 0.8
+      };
+    }
+
+    // So did a skill with nothing to hit or still cooling down
+    if (playerAction.type === 'use_skill' && playerResult?.skillFailure) {
+      return {
+        type: this.getEnemiesInAttackRange(turn).length > 0 ? 'attack' : 'defend',
+        reasoning: `The skill failed because ${SKILL_FAILURE_REASONS[playerResult.skillFailure]}`,
+        expectedOutcome: 'Use the turn on an action that can succeed',
+        efficiency: 0.8
+      };
+    }
+
+    // A failed escape hands the enemies a free round
+    if (playerAction.type === 'flee' && !playerResult?.fled) {
+      return {
+        type: this.getEnemiesInAttackRange(turn).length > 0 ? 'attack' : 'defend',
+        reasoning: 'The escape attempt failed and the enemies struck back unopposed',
+        expectedOutcome: 'Fight on, or flee only when quicker than the enemies',
+        efficiency: 0.4
+      };
+    }
+
+    // Analyze the situation; poison still to come counts against current health
+    const playerHealth = gameState.playerHealth - this.getPendingPoisonDamage(turn);
     const playerHealthPercent = playerHealth / 100; // Assuming max health of 100 for simplicity
+    const castSpell = playerResult?.spellId ? this.spellbook.getSpell(playerResult.spellId) : undefined;
+    const castable = this.getCastableSpells(turn);
+    const usedSkill = playerResult?.skillId ? this.talentTree.getNode(playerResult.skillId) : undefined;
     
     // Determine optimal action based on game state
     if (playerHealthPercent < 0.3) {
+      const healingSpell = castable.find(spell => spell.kind === 'heal');
+
       // Low health - should prioritize healing or defensive actions
-      if (playerAction.type === 'use_item' && playerAction.item?.properties?.['effect'] === 'heal') {
+      if (castSpell?.kind === 'heal') {
+        return {
+          type: 'cast_spell',
+          spellId: castSpell.id,
+          reasoning: `Player correctly cast ${castSpell.name} when health was critically low`,
+          expectedOutcome: 'Restore health without using up items',
+          efficiency: 1.0
+        };
+      } else if (usedSkill?.skill?.kind === 'recover') {
+        return {
+          type: 'use_skill',
+          skillId: usedSkill.id,
+          reasoning: `Player correctly used ${usedSkill.name} when health was critically low`,
+          expectedOutcome: 'Restore health without using up items or mana',
+          efficiency: 1.0
+        };
+      } else if (playerAction.type === 'use_item' && playerAction.item?.properties?.['effect'] === 'heal') {
         return {
           type: 'use_item',
           reasoning: 'Player correctly used healing item when health was critically low',
           expectedOutcome: 'Restore health to continue fighting effectively',
           efficiency: 1.0
         };
+      } else if (playerAction.type === 'flee') {
+        return {
+          type: 'flee',
+          reasoning: 'Player escaped a losing fight when health was critically low',
+          expectedOutcome: 'Survive to recover and fight again',
+          efficiency: 0.85
+        };
       } else if (playerAction.type === 'defend') {
         return {
           type: 'defend',
@@ -218,6 +321,14 @@ export class CombatAnalysisSystem {
           expectedOutcome: 'Reduce incoming damage while planning next move',
           efficiency: 0.8
         };
+      } else if (healingSpell) {
+        return {
+          type: 'cast_spell',
+          spellId: healingSpell.id,
+          reasoning: `Should have cast ${healingSpell.name} when health was critically low`,
+          expectedOutcome: 'Restore health to avoid defeat',
+          efficiency: 0.3
+        };
       } else {
         return {
           type: 'use_item',
@@ -228,6 +339,75 @@ export class CombatAnalysisSystem {
       }
     }
 
+    // Running while still healthy gives up a fight that could have been won
+    if (playerAction.type === 'flee') {
+      return {
+        type: 'attack',
+        reasoning: 'Player fled while health was still sufficient to fight',
+        expectedOutcome: 'Finish the fight and collect its rewards',
+        efficiency: 0.5
+      };
+    }
+
+    // Defending halves damage, which pays off most against special abilities
+    const facedSpecialAbility = turn.enemyActions.some(action => action.type === 'special_ability' && !action.healing);
+    if (facedSpecialAbility && playerAction.type === 'defend') {
+      return {
+        type: 'defend',
+        reasoning: 'Defending against a special ability halved its damage',
+        expectedOutcome: 'Absorb the strongest enemy attack with minimal losses',
+        efficiency: 0.9
+      };
+    }
+
+    // Against a group, an area spell that catches several enemies beats any single attack
+    const groupSize = gameState?.livingEnemies ?? turn.enemyActions.length;
+    const areaSpell = castable.find(spell => spell.kind === 'area');
+    if (castSpell?.kind === 'area' && (playerResult?.spellTargets?.length ?? 0) >= 2) {
+      return {
+        type: 'cast_spell',
+        spellId: castSpell.id,
+        reasoning: `${castSpell.name} struck ${playerResult!.spellTargets!.length} enemies at once`,
+        expectedOutcome: 'Wear down the whole group in a single turn',
+        efficiency: 0.95
+      };
+    }
+    if (groupSize >= 2 && areaSpell && playerAction.type === 'attack') {
+      return {
+        type: 'cast_spell',
+        spellId: areaSpell.id,
+        reasoning: `${areaSpell.name} could have hit several of the ${groupSize} enemies instead of one`,
+        expectedOutcome: 'Damage the whole group in a single turn',
+        efficiency: 0.85
+      };
+    }
+
+    // Spells carry their own range, so they count wherever the enemies stand
+    if (castSpell && castSpell.kind !== 'heal') {
+      return {
+        type: 'cast_spell',
+        spellId: castSpell.id,
+        reasoning: castSpell.kind === 'buff' ?
+          `${castSpell.name} strengthens the player for the turns ahead` :
+          `${castSpell.name} dealt damage while health was sufficient`,
+        expectedOutcome: castSpell.kind === 'buff' ? 'Win the coming exchanges' : 'Deal damage to reduce enemy threat',
+        efficiency: castSpell.kind === 'buff' ? 0.7 : 0.9
+      };
+    }
+
+    // A damaging skill is an attack with extra punch
+    if (usedSkill?.skill && usedSkill.skill.kind !== 'recover') {
+      return {
+        type: 'use_skill',
+        skillId: usedSkill.id,
+        reasoning: (playerResult?.skillTargets?.length ?? 0) >= 2 ?
+          `${usedSkill.name} struck ${playerResult!.skillTargets!.length} enemies at once` :
+          `${usedSkill.name} hit harder than a plain attack while health was sufficient`,
+        expectedOutcome: 'Deal extra damage to reduce enemy threat',
+        efficiency: 0.9
+      };
+    }
+
     // Check if enemies are in attack range
     const enemiesInRange = this.getEnemiesInAttackRange(turn);
     
@@ -268,14 +448,50 @@ export class CombatAnalysisSystem {
     };
   }
 
+  // Spells the player could have cast, as recorded in the turn's snapshot (older logs have none)
+  private getCastableSpells(turn: CombatTurn): SpellDefinition[] {
+    const ids: string[] = turn.gameStateAfter?.castableSpells ?? [];
+    return ids.flatMap(id => this.spellbook.getSpell(id) ?? []);
+  }
+
+  // Status effects active on the player during a turn (older logs have none)
+  private getPlayerEffects(turn: CombatTurn): StatusEffect[] {
+    return turn.gameStateAfter?.playerEffects ?? [];
+  }
+
+  // Poison damage the player will still take from the effects active this turn
+  private getPendingPoisonDamage(turn: CombatTurn): number {
+    return this.getPlayerEffects(turn)
+      .filter(effect => effect.type === 'poison')
+      .reduce((total, effect) => total + effect.potency * effect.stacks * effect.duration, 0);
+  }
+
   // Get enemies within attack range during a turn
   private getEnemiesInAttackRange(turn: CombatTurn): any[] {
-    // Simplified - in real implementation would check actual enemy positions
-    // For now, assume enemies are in range if player took or dealt damage
     const damageDealt = turn.combatResults.reduce((total, result) => 
       total + result.playerDamageDealt, 0);
+    const playerMissed = turn.combatResults[0]?.missed === true;
+
+    // The snapshot knows which enemies the player's weapon could reach, by range and line of sight.
+    // An enemy the player hit or missed this turn was in reach too, even if it has since died.
+    const enemiesInReach: string[] | undefined = turn.gameStateAfter?.enemiesInReach;
+    if (enemiesInReach) {
+      const inReach = new Set(enemiesInReach);
+      const struck = turn.playerAction.type === 'attack' && (damageDealt > 0 || playerMissed);
+      if (struck) {
+        inReach.add(typeof turn.playerAction.target === 'string' ? turn.playerAction.target : 'target');
+      }
+      return Array.from(inReach, id => ({ id }));
+    }
+
+    // Older logs: assume enemies are in range if player dealt damage or swung and missed, or an enemy attacked
+    const attackers = turn.enemyActions.filter(action =>
+      action.type === 'attack' || action.type === 'special_ability');
     
-    return damageDealt > 0 ? [{ id: 'enemy1' }] : [];
+    if (attackers.length > 0) {
+      return attackers.map((_, index) => ({ id: `enemy${index + 1}` }));
+    }
+    return damageDealt > 0 || playerMissed ? [{ id: 'enemy1' }] : [];
   }
 
   // Calculate turn efficiency compared to optimal action
@@ -338,7 +554,9 @@ export class CombatAnalysisSystem {
         optimalDamageTaken += Math.max(0, turnDamageTaken - 5); // Assume better positioning reduces damage
       } else if (optimal.type === 'defend') {
         optimalDamageDealt += turnDamageDealt;
-        optimalDamageTaken += Math.max(0, turnDamageTaken * 0.5); // Defending reduces damage
+        // Defending halves damage; if the player defended the reduction is already applied
+        optimalDamageTaken += turn.playerAction.type === 'defend' ?
+          turnDamageTaken : Math.max(0, turnDamageTaken * 0.5);
       } else {
         optimalDamageDealt += turnDamageDealt;
         optimalDamageTaken += turnDamageTaken;
@@ -365,7 +583,16 @@ export class CombatAnalysisSystem {
       optimalDamageTaken,
       efficiency: Math.max(0, Math.min(1, efficiency)),
       wastedActions,
-      missedOpportunities
+      missedOpportunities,
+      ...this.countAttackRolls(combatLog)
+    };
+  }
+
+  // Player crits and misses across the fight
+  private countAttackRolls(combatLog: CombatTurn[]): { criticalHits: number; missedAttacks: number } {
+    return {
+      criticalHits: combatLog.filter(turn => turn.combatResults[0]?.critical).length,
+      missedAttacks: combatLog.filter(turn => turn.combatResults[0]?.missed).length
     };
   }
 
@@ -465,6 +692,91 @@ export class CombatAnalysisSystem {
       });
     }
 
+    // Accuracy suggestions
+    const attackTurns = combatLog.filter(turn => turn.playerAction.type === 'attack').length;
+    const missedAttacks = damageAnalysis.missedAttacks ?? 0;
+
+    if (attackTurns >= 3 && missedAttacks >= attackTurns / 2) {
+      suggestions.push({
+        id: `suggestion_${Date.now()}_8`,
+        type: 'resource',
+        message: 'Improve your accuracy',
+        reasoning: `${missedAttacks} of your ${attackTurns} attacks missed. Agility raises your hit chance against well-defended enemies`,
+        priority: 'medium',
+        context: { missedAttacks, attackTurns },
+        timestamp: new Date()
+      });
+    }
+
+    // Status effect suggestions
+    const poisonedTurns = combatLog.filter(turn =>
+      this.getPlayerEffects(turn).some(effect => effect.type === 'poison')
+    ).length;
+
+    if (poisonedTurns >= 2) {
+      suggestions.push({
+        id: `suggestion_${Date.now()}_6`,
+        type: 'resource',
+        message: 'Watch out for poison damage',
+        reasoning: `You were poisoned for ${poisonedTurns} turns. Poison stacks, so finish venomous enemies first or heal before it adds up`,
+        priority: 'medium',
+        context: { poisonedTurns, totalTurns: combatLog.length },
+        timestamp: new Date()
+      });
+    }
+
+    const wastedBoostTurns = combatLog.filter(turn =>
+      turn.playerAction.type !== 'attack' &&
+      turn.playerAction.type !== 'use_item' &&
+      !turn.combatResults[0]?.skippedTurn &&
+      this.getPlayerEffects(turn).some(effect => effect.type === 'strength_boost')
+    ).length;
+
+    if (wastedBoostTurns > 0) {
+      suggestions.push({
+        id: `suggestion_${Date.now()}_7`,
+        type: 'combat',
+        message: 'Attack while your strength boost is active',
+        reasoning: `You spent ${wastedBoostTurns} boosted turns without attacking, so the boost went unused`,
+        priority: 'low',
+        context: { wastedBoostTurns },
+        timestamp: new Date()
+      });
+    }
+
+    // Mana suggestions
+    const manaFizzles = combatLog.filter(turn =>
+      turn.combatResults[0]?.spellFailure === 'insufficient_mana'
+    ).length;
+
+    if (manaFizzles >= 2) {
+      suggestions.push({
+        id: `suggestion_${Date.now()}_9`,
+        type: 'resource',
+        message: 'Keep an eye on your mana',
+        reasoning: `${manaFizzles} spells fizzled for lack of mana. Save mana for the spells that matter, it recovers while you explore`,
+        priority: 'medium',
+        context: { manaFizzles },
+        timestamp: new Date()
+      });
+    }
+
+    // Healer suggestions
+    const enemyHealing = combatLog.reduce((total, turn) =>
+      total + turn.combatResults.reduce((turnTotal, result) => turnTotal + (result.enemyHealing ?? 0), 0), 0);
+
+    if (enemyHealing > 0) {
+      suggestions.push({
+        id: `suggestion_${Date.now()}_10`,
+        type: 'combat',
+        message: 'Take out enemy healers first',
+        reasoning: `Enemy healers restored ${enemyHealing} health to their allies, undoing your damage`,
+        priority: 'medium',
+        context: { enemyHealing },
+        timestamp: new Date()
+      });
+    }
+
     // Combat duration suggestions
     if (combatLog.length > 10) {
       suggestions.push({
@@ -1,7 +1,40 @@
 import { Enemy } from './Enemy';
 import { GameState } from '../engine/GameState';
-import { PlayerAction, EnemyAction, Coordinate, PlayerCharacter } from '../types/GameTypes';
+import { PlayerAction, EnemyAction, Coordinate, PlayerCharacter, Item, StatusEffect, StatusEffectType } from '../types/GameTypes';
 import { GameError } from '../utils/ErrorHandling';
+import { RandomSource, SeededRandom, createSeededRandom } from '../utils/Random';
+import { LootGenerator } from '../dungeon/LootGenerator';
+import { Bestiary, defaultBestiary } from '../dungeon/Bestiary';
+import { getDistance } from '../dungeon/Pathfinding';
+import { statusEffects } from './StatusEffects';
+import { DamageResolver, DamageRoll } from './DamageResolver';
+import { Spellbook, SpellDefinition, SpellFailure, LineOfSightCheck, defaultSpellbook } from './Spellbook';
+import { GroupTactics, CombatRole } from './GroupTactics';
+import { TalentTree, TalentNode, SkillDefinition, SkillFailure, defaultTalentTree } from '../player/TalentTree';
+import { EquipmentStats, defaultEquipmentStats } from '../player/EquipmentStats';
+import { Encumbrance, inventorySystem } from '../player/Inventory';
+import {
+  DEFEND_DAMAGE_REDUCTION,
+  FLEE_BASE_CHANCE,
+  FLEE_CHANCE_PER_POINT,
+  FLEE_LOST_TRACK_TURNS,
+  MAX_FLEE_CHANCE,
+  MIN_FLEE_CHANCE,
+  RANGED_COVER_PENALTY,
+  RANGED_CROWD_PENALTY
+} from '../utils/Constants';
+
+export type AttackFailure = 'no_target' | 'out_of_range' | 'out_of_ammo' | 'no_line_of_sight';
+
+// Tiles a projectile crosses between two points, both ends included
+export type LineTrace = (from: Coordinate, to: Coordinate) => Coordinate[];
+
+const DIRECTION_STEPS: Record<NonNullable<PlayerAction['direction']>, Coordinate> = {
+  north: { x: 0, y: -1 },
+  south: { x: 0, y: 1 },
+  east: { x: 1, y: 0 },
+  west: { x: -1, y: 0 }
+};
 
 export interface CombatResult {
   playerDamageDealt: number;
@@ -10,6 +43,58 @@ export interface CombatResult {
   playerDefeated: boolean;
   experienceGained: number;
   combatEnded: boolean;
+  loot?: Item[]; // Items dropped by a defeated enemy
+  gold?: number; // Gold carried by a defeated enemy
+  defeatedEnemyId?: string;
+  skippedTurn?: boolean; // The actor was stunned and could not act
+  critical?: boolean; // The actor's attack was a critical hit
+  missed?: boolean; // The actor's attack missed
+  onHitEffects?: StatusEffectType[]; // Effects the player's equipment inflicted with the hit
+  spellId?: string; // Spell the player cast
+  spellFailure?: SpellFailure; // Why the player's spell fizzled; no mana is spent
+  spellTargets?: string[]; // Enemies the spell struck
+  healing?: number; // Health restored by the player's spell or skill
+  skillId?: string; // Active skill the player used
+  skillFailure?: SkillFailure; // Why the player's skill could not be used; no cooldown starts
+  skillTargets?: string[]; // Enemies the skill struck
+  ranged?: boolean; // The player's attack was a shot from beyond melee range
+  coverPenalty?: number; // Accuracy the shot lost to entities on or beside its path
+  attackFailure?: AttackFailure; // Why the player's attack could not be made
+  fled?: boolean; // Set on a flee attempt: whether the player got away
+  attackOfOpportunity?: boolean; // An enemy's parting strike at the player breaking away
+  pursuedBy?: string[]; // Enemies quick enough to give chase after the player fled
+  alertedAllies?: string[]; // Enemies a guard called to the fight
+  allyHealed?: string; // Enemy a healer mended
+  enemyHealing?: number; // Health the healer restored to that enemy
+}
+
+// One actor's slot in a round, in the order actors resolved
+export interface CombatActionRecord {
+  order: number; // 1 for the first actor of the round
+  actorId: string;
+  actor: 'player' | 'enemy';
+  initiative: number;
+  action?: PlayerAction['type'] | EnemyAction['type']; // Omitted when the actor could not act
+  skipped?: boolean; // Stunned, or killed by damage over time before acting
+  defending?: boolean; // Player defend or enemy guard stance taken this turn
+}
+
+// Combat log snapshot; effects are those active during the turn, before expiry
+export interface CombatStateSnapshot {
+  playerHealth: number;
+  playerPosition: Coordinate;
+  playerDefending: boolean;
+  playerEffects: StatusEffect[];
+  enemyEffects: Record<string, StatusEffect[]>;
+  playerMana: number;
+  castableSpells: string[]; // Spells the player could cast next turn
+  usableSkills: string[]; // Active skills off cooldown for next turn
+  livingEnemies: number;
+  playerAttackRange: number;
+  enemiesInReach: string[]; // Living enemies the player's weapon could hit next turn
+  enemyRoles: Record<string, CombatRole>; // Group roles the enemies fought in this turn
+  turnNumber: number;
+  timestamp: number;
 }
 
 export interface CombatTurn {
@@ -17,24 +102,83 @@ export interface CombatTurn {
   playerAction: PlayerAction;
   enemyActions: EnemyAction[];
   combatResults: CombatResult[];
+  actionOrder?: CombatActionRecord[]; // Who acted when during the round
   gameStateAfter: any; // Simplified for now
 }
 
+interface InitiativeEntry {
+  actorId: string;
+  initiative: number;
+  enemy?: Enemy; // Unset for the player
+}
+
 // Combat system with real-time mechanics
 export class CombatSystem {
   private combatLog: CombatTurn[] = [];
   private currentTurn: number = 0;
   private combatStartTime: number = 0;
+  private lootGenerator: LootGenerator;
+  private bestiary: Bestiary;
+  private random: RandomSource;
+  private damageResolver: DamageResolver;
+  private spellbook: Spellbook;
+  private talentTree: TalentTree;
+  private equipmentStats: EquipmentStats;
+  private hasLineOfSight: LineOfSightCheck = () => true;
+  private traceLine: LineTrace = (from, to) => [from, to];
+  private playerDefending: boolean = false;
+  private carryWeight: boolean = true;
+  private groupTactics: GroupTactics = new GroupTactics();
 
-  constructor() {
+  constructor(
+    lootGenerator: LootGenerator = new LootGenerator(),
+    random: RandomSource = createSeededRandom(SeededRandom.generateSeed()),
+    bestiary: Bestiary = defaultBestiary,
+    damageResolver: DamageResolver = new DamageResolver(random),
+    spellbook: Spellbook = defaultSpellbook,
+    talentTree: TalentTree = defaultTalentTree,
+    equipmentStats: EquipmentStats = defaultEquipmentStats
+  ) {
+    this.lootGenerator = lootGenerator;
+    this.random = random;
+    this.bestiary = bestiary;
+    this.damageResolver = damageResolver;
+    this.spellbook = spellbook;
+    this.talentTree = talentTree;
+    this.equipmentStats = equipmentStats;
     this.reset();
   }
 
+  // Walls that block spells; the engine hands in the movement controller's check
+  setLineOfSightCheck(check: LineOfSightCheck): void {
+    this.hasLineOfSight = check;
+  }
+
+  // Tiles a shot crosses, for cover; the engine hands in the movement controller's line
+  setLineTrace(trace: LineTrace): void {
+    this.traceLine = trace;
+  }
+
+  // Whether carrying more than the player's capacity costs agility; a gameplay setting
+  setCarryWeight(enabled: boolean): void {
+    this.carryWeight = enabled;
+  }
+
+  getSpellbook(): Spellbook {
+    return this.spellbook;
+  }
+
+  getTalentTree(): TalentTree {
+    return this.talentTree;
+  }
+
   // Reset combat system state
   reset(): void {
     this.combatLog = [];
     this.currentTurn = 0;
     this.combatStartTime = 0;
+    this.playerDefending = false;
+    this.groupTactics.reset();
   }
 
   // Check if player position triggers an encounter
@@ -42,9 +186,13 @@ export class CombatSystem {
     const encounterEnemies: Enemy[] = [];
     const playerPos = gameState.player.position;
     
-    // Check for enemies in the same room or adjacent positions
+    // Check for enemies in adjacent positions, or ranged enemies with a shot at the player.
+    // Enemies the player recently outran do not notice them
     for (const enemy of gameState.enemies) {
-      if (this.isInEncounterRange(playerPos, enemy.position)) {
+      if (enemy.hasLostTrack()) {
+        continue;
+      }
+      if (this.isInEncounterRange(playerPos, enemy.position) || this.canShootPlayer(gameState, enemy)) {
         encounterEnemies.push(enemy);
       }
     }
@@ -52,6 +200,75 @@ export class CombatSystem {
     return encounterEnemies;
   }
 
+  // A ranged enemy that has noticed the player can open fire from afar
+  private canShootPlayer(gameState: GameState, enemy: Enemy): boolean {
+    const player = gameState.player;
+    return enemy.isAlive() && enemy.attackRange > 1 && enemy.canDetectPlayer(player) &&
+      enemy.canAttackPlayer(player) && this.hasLineOfSight(enemy.position, player.position);
+  }
+
+  // Reach of the player's weapon; a ranged weapon out of ammo is only good up close
+  getAttackRange(player: PlayerCharacter): number {
+    const weapon = player.equipment.weapon;
+    const range = weapon?.properties['range'] ?? 1;
+    return range > 1 && !this.hasAmmo(weapon) ? 1 : Math.max(1, range);
+  }
+
+  // Living enemies the player's weapon can hit from where they stand, nearest first
+  getEnemiesInReach(gameState: GameState, enemies: Enemy[]): Enemy[] {
+    const player = gameState.player;
+    const range = this.getAttackRange(player);
+
+    return enemies
+      .filter(enemy => enemy.isAlive())
+      .filter(enemy => {
+        const distance = getDistance(player.position, enemy.position);
+        return distance <= 1 || (distance <= range && this.hasLineOfSight(player.position, enemy.position));
+      })
+      .sort((a, b) => getDistance(player.position, a.position) - getDistance(player.position, b.position));
+  }
+
+  // Top up the ammo of the equipped ranged weapon; false when nothing takes ammo
+  reloadWeapon(player: PlayerCharacter, amount: number): boolean {
+    const weapon = player.equipment.weapon;
+    if (!weapon || typeof weapon.properties['ammo'] !== 'number') {
+      return false;
+    }
+
+    weapon.properties['ammo'] += Math.max(0, amount);
+    return true;
+  }
+
+  // Weapons without an ammo count never run dry
+  private hasAmmo(weapon: Item | undefined): boolean {
+    const ammo = weapon?.properties['ammo'];
+    return typeof ammo !== 'number' || ammo > 0;
+  }
+
+  // Accuracy a shot loses for every other living enemy in its path (cover) or right beside it
+  private getCoverPenalty(gameState: GameState, from: Coordinate, to: Coordinate, ignore: string[]): number {
+    const path = this.traceLine(from, to).slice(1, -1);
+    if (path.length === 0) {
+      return 0;
+    }
+
+    let penalty = 0;
+    for (const enemy of gameState.enemies) {
+      if (!enemy.isAlive() || ignore.includes(enemy.id)) {
+        continue;
+      }
+
+      const closest = Math.min(...path.map(tile =>
+        Math.max(Math.abs(tile.x - enemy.position.x), Math.abs(tile.y - enemy.position.y))));
+      if (closest === 0) {
+        penalty += RANGED_COVER_PENALTY;
+      } else if (closest === 1) {
+        penalty += RANGED_CROWD_PENALTY;
+      }
+    }
+    return penalty;
+  }
+
   // Check if two positions are within encounter range
   private isInEncounterRange(pos1: Coordinate, pos2: Coordinate): boolean {
     const distance = Math.abs(pos1.x - pos2.x) + Math.abs(pos1.y - pos2.y);
@@ -72,6 +289,7 @@ export class CombatSystem {
     this.combatStartTime = Date.now();
     this.currentTurn = 0;
     this.combatLog = [];
+    this.groupTactics.reset();
 
     return true;
   }
@@ -88,27 +306,66 @@ export class CombatSystem {
 
     this.currentTurn++;
 
-    // Process player action first
-    const playerResults = this.processPlayerAction(gameState, playerAction, enemies);
+    // Defending is declared up front and covers the whole round, unless the player is stunned
+    this.playerDefending = playerAction.type === 'defend' && !statusEffects.hasEffect(gameState.player, 'stun');
 
-    // Process enemy actions
+    let playerResults = this.createEmptyResult();
+    const extraResults: CombatResult[] = [];
     const enemyActions: EnemyAction[] = [];
     const enemyResults: CombatResult[] = [];
+    const actionOrder: CombatActionRecord[] = [];
+    this.groupTactics.beginRound(enemies);
 
-    for (const enemy of enemies) {
-      if (enemy.isAlive()) {
-        const enemyAction = enemy.decideAction(gameState.player, (pos) => gameState.isValidPosition(pos));
-        enemyActions.push(enemyAction);
-        
-        const result = this.processEnemyAction(gameState, enemyAction, enemy);
+    // Resolve actors one at a time in initiative order
+    for (const entry of this.determineInitiative(gameState, enemies)) {
+      if (gameState.player.health <= 0) {
+        break;
+      }
+
+      const record: CombatActionRecord = {
+        order: actionOrder.length + 1,
+        actorId: entry.actorId,
+        actor: entry.enemy ? 'enemy' : 'player',
+        initiative: entry.initiative
+      };
+
+      if (!entry.enemy) {
+        const [result, ...extra] = this.processPlayerTurn(gameState, playerAction, enemies);
+        playerResults = result!;
+        extraResults.push(...extra);
+        if (playerResults.skippedTurn) {
+          record.skipped = true;
+        } else {
+          record.action = playerAction.type;
+          record.defending = this.playerDefending;
+        }
+      } else {
+        const enemy = entry.enemy;
+        if (!enemy.isAlive()) {
+          continue; // Killed earlier in the round
+        }
+
+        const { result, action } = this.processEnemyTurn(gameState, enemy, enemies);
         enemyResults.push(result);
-        
-        enemy.executeAction(enemyAction);
+        if (action) {
+          enemyActions.push(action);
+          record.action = action.type;
+          record.defending = enemy.isGuarding();
+        } else {
+          record.skipped = true;
+        }
+      }
+
+      actionOrder.push(record);
+
+      // A player who got away leaves the rest of the round behind
+      if (playerResults.fled) {
+        break;
       }
     }
 
     // Combine all combat results
-    const allResults = [playerResults, ...enemyResults];
+    const allResults = [playerResults, ...extraResults, ...enemyResults];
 
     // Create turn record
     const combatTurn: CombatTurn = {
@@ -116,14 +373,27 @@ export class CombatSystem {
       playerAction,
       enemyActions,
       combatResults: allResults,
-      gameStateAfter: this.captureGameStateSnapshot(gameState)
+      actionOrder,
+      gameStateAfter: this.captureGameStateSnapshot(gameState, enemies)
     };
 
     this.combatLog.push(combatTurn);
 
+    // Turn end: the player's stance ends with the round, then healing over time and effect expiry
+    this.playerDefending = false;
+    statusEffects.onTurnEnd(gameState.player);
+    this.spellbook.tickCooldowns(gameState.player);
+    this.talentTree.tickCooldowns(gameState.player);
+    for (const enemy of enemies.filter(e => e.isAlive())) {
+      enemy.endTurn();
+    }
+
     // Check if combat should end
-    const combatEnded = this.checkCombatEnd(gameState, enemies);
+    const combatEnded = playerResults.fled || this.checkCombatEnd(gameState, enemies);
     if (combatEnded) {
+      if (playerResults.fled && gameState.player.health > 0) {
+        playerResults.pursuedBy = this.resolvePursuit(gameState, enemies);
+      }
       this.endCombat(gameState);
     }
 
@@ -131,29 +401,89 @@ export class CombatSystem {
     return combatTurn;
   }
 
+  // Faster actors go first; the player wins ties
+  private determineInitiative(gameState: GameState, enemies: Enemy[]): InitiativeEntry[] {
+    const entries: InitiativeEntry[] = [{
+      actorId: gameState.player.id,
+      initiative: this.getPlayerAgility(gameState.player)
+    }];
+
+    for (const enemy of enemies) {
+      if (enemy.isAlive()) {
+        entries.push({ actorId: enemy.id, initiative: enemy.agility, enemy });
+      }
+    }
+
+    // Array.sort is stable, so equal initiative keeps the player ahead and enemies in order
+    return entries.sort((a, b) => b.initiative - a.initiative);
+  }
+
+  // Player's slot in the round, unless status effects prevent acting. The player's result
+  // comes first; an area spell adds one result for each further enemy it kills, and an
+  // escape one for each attack of opportunity.
+  private processPlayerTurn(gameState: GameState, action: PlayerAction, enemies: Enemy[]): CombatResult[] {
+    const tick = statusEffects.onTurnStart(gameState.player);
+    const results = tick.skipTurn || gameState.player.health <= 0 ?
+      [{ ...this.createEmptyResult(), skippedTurn: tick.skipTurn }] :
+      this.processPlayerAction(gameState, action, enemies);
+
+    const result = results[0]!;
+    result.playerDamageTaken += tick.damage;
+    result.playerDefeated = gameState.player.health <= 0;
+    return results;
+  }
+
+  // Enemy's slot in the round; no action when stunned or killed by damage over time.
+  // The group decides with the enemy, and a guard may first call the floor's enemies in.
+  private processEnemyTurn(
+    gameState: GameState,
+    enemy: Enemy,
+    enemies: Enemy[]
+  ): { result: CombatResult; action?: EnemyAction } {
+    const tick = enemy.startTurn();
+    if (!enemy.isAlive()) {
+      return { result: this.processEnemyStatusDeath(gameState, enemy) };
+    }
+    if (tick.skipTurn) {
+      return { result: { ...this.createEmptyResult(), skippedTurn: true } };
+    }
+
+    const alerted = this.groupTactics.callForHelp(enemy, gameState.player, gameState.enemies);
+    const action = this.groupTactics.decideAction(
+      enemy, gameState.player, enemies, (pos) => gameState.isValidPosition(pos), this.hasLineOfSight
+    );
+    const result = this.processEnemyAction(gameState, action, enemy, enemies);
+    if (alerted.length > 0) {
+      result.alertedAllies = alerted;
+    }
+    enemy.executeAction(action);
+    return { result, action };
+  }
+
   // Process player's combat action
   private processPlayerAction(
     gameState: GameState, 
     action: PlayerAction, 
     enemies: Enemy[]
-  ): CombatResult {
-    const result: CombatResult = {
-      playerDamageDealt: 0,
-      playerDamageTaken: 0,
-      enemyDefeated: false,
-      playerDefeated: false,
-      experienceGained: 0,
-      combatEnded: false
-    };
+  ): CombatResult[] {
+    const result = this.createEmptyResult();
 
     switch (action.type) {
+      case 'cast_spell':
+        return this.castSpell(gameState, action, enemies);
+
+      case 'flee':
+        return this.attemptFlee(gameState, enemies);
+
+      case 'use_skill':
+        return this.useSkill(gameState, action, enemies);
+
       case 'attack':
-        result.playerDamageDealt = this.processPlayerAttack(gameState, action, enemies);
+        result.playerDamageDealt = this.processPlayerAttack(gameState, action, enemies, result);
         break;
       
       case 'defend':
-        // Defending reduces incoming damage by 50% this turn
-        // This will be applied when processing enemy attacks
+        // The stance is set when the round starts and applied to enemy attacks
         break;
       
       case 'use_item':
@@ -161,61 +491,417 @@ export class CombatSystem {
         break;
       
       case 'move':
-        // Movement during combat (tactical positioning)
-        if (action.target && typeof action.target === 'object') {
-          const newPos = action.target as Coordinate;
-          if (gameState.isValidPosition(newPos)) {
-            gameState.player.position = { ...newPos };
-          }
-        }
+        // Movement during combat (tactical positioning): a step in a direction or onto a chosen tile
+        this.processPlayerMove(gameState, action, enemies);
+        break;
+    }
+
+    return [result];
+  }
+
+  // Step the player to a free tile; enemies block the way
+  private processPlayerMove(gameState: GameState, action: PlayerAction, enemies: Enemy[]): void {
+    const position = gameState.player.position;
+    const step = action.direction ? DIRECTION_STEPS[action.direction] : undefined;
+    const newPos = step ? { x: position.x + step.x, y: position.y + step.y } :
+      action.target && typeof action.target === 'object' ? action.target : undefined;
+    if (!newPos || !gameState.isValidPosition(newPos)) {
+      return;
+    }
+
+    const occupied = enemies.some(enemy =>
+      enemy.isAlive() && enemy.position.x === newPos.x && enemy.position.y === newPos.y);
+    if (!occupied) {
+      gameState.player.position = { ...newPos };
+    }
+  }
+
+  // Chance to escape: the player's agility against the fastest enemy still engaging them
+  getFleeChance(gameState: GameState, enemies: Enemy[]): number {
+    const living = enemies.filter(enemy => enemy.isAlive());
+    const inReach = this.getEnemiesInReach(gameState, living);
+    const engaged = living.filter(enemy => inReach.includes(enemy) || this.canShootPlayer(gameState, enemy));
+    if (engaged.length === 0) {
+      return 1;
+    }
+
+    const fastest = Math.max(...engaged.map(enemy => enemy.agility));
+    const chance = FLEE_BASE_CHANCE + (this.getPlayerAgility(gameState.player) - fastest) * FLEE_CHANCE_PER_POINT;
+    return Math.min(MAX_FLEE_CHANCE, Math.max(MIN_FLEE_CHANCE, chance));
+  }
+
+  // Try to break away. A failed roll wastes the turn. On success every adjacent enemy that
+  // can act gets a parting strike, each with its own result, and a surviving player steps
+  // to the free tile furthest from the enemies.
+  private attemptFlee(gameState: GameState, enemies: Enemy[]): CombatResult[] {
+    const result = this.createEmptyResult();
+    result.fled = this.random.chance(this.getFleeChance(gameState, enemies));
+    if (!result.fled) {
+      return [result];
+    }
+
+    const player = gameState.player;
+    const strikes: CombatResult[] = [];
+    for (const enemy of enemies) {
+      if (player.health <= 0) {
         break;
+      }
+      if (!enemy.isAlive() || statusEffects.hasEffect(enemy, 'stun') || getDistance(enemy.position, player.position) > 1) {
+        continue;
+      }
+
+      const strike: CombatResult = { ...this.createEmptyResult(), attackOfOpportunity: true };
+      this.applyDamageToPlayer(this.calculateEnemyDamage(enemy, enemy.getEffectiveAttack(), gameState), gameState, strike);
+      strikes.push(strike);
+    }
+
+    if (player.health <= 0) {
+      result.fled = false;
+    } else {
+      this.stepAway(gameState, enemies);
+    }
+    return [result, ...strikes];
+  }
+
+  // Move the player one tile to the free neighbor furthest from the nearest living enemy
+  private stepAway(gameState: GameState, enemies: Enemy[]): void {
+    const living = enemies.filter(enemy => enemy.isAlive());
+    const position = gameState.player.position;
+    const nearestEnemy = (tile: Coordinate) => Math.min(...living.map(enemy => getDistance(tile, enemy.position)));
+
+    let best = position;
+    for (const step of Object.values(DIRECTION_STEPS)) {
+      const tile = { x: position.x + step.x, y: position.y + step.y };
+      const occupied = living.some(enemy => enemy.position.x === tile.x && enemy.position.y === tile.y);
+      if (gameState.isValidPosition(tile) && !occupied && nearestEnemy(tile) > nearestEnemy(best)) {
+        best = tile;
+      }
     }
+    gameState.player.position = { ...best };
+  }
 
+  // After a successful escape, hunters quicker than the player give chase; the rest lose track
+  private resolvePursuit(gameState: GameState, enemies: Enemy[]): string[] {
+    const agility = this.getPlayerAgility(gameState.player);
+    const pursuers: string[] = [];
+
+    for (const enemy of enemies.filter(e => e.isAlive())) {
+      const hunter = enemy.aiType === 'aggressive' || enemy.aiType === 'patrol' || enemy.aiType === 'ranged';
+      if (hunter && enemy.agility > agility) {
+        pursuers.push(enemy.id);
+      } else {
+        enemy.loseTrack(FLEE_LOST_TRACK_TURNS);
+      }
+    }
+    return pursuers;
+  }
+
+  // Cast the action's spell. Damage and area spells need a target in range and in sight,
+  // heals and buffs affect the player. A failed cast costs nothing. The first result is
+  // the cast itself; each further enemy an area spell kills gets its own result.
+  castSpell(gameState: GameState, action: PlayerAction, enemies: Enemy[]): CombatResult[] {
+    const player = gameState.player;
+    const result = this.createEmptyResult();
+    const spell = this.spellbook.getSpell(action.spellId ?? '');
+    const failure = this.spellbook.checkCast(player, action.spellId ?? '');
+    if (!spell || failure) {
+      result.spellFailure = failure ?? 'unknown_spell';
+      return [result];
+    }
+
+    const targeting = this.spellbook.selectTargets(
+      player, spell, action.target, enemies.filter(enemy => enemy.isAlive()), this.hasLineOfSight
+    );
+    if (targeting.failure) {
+      result.spellFailure = targeting.failure;
+      return [result];
+    }
+
+    this.spellbook.beginCast(player, spell);
+    result.spellId = spell.id;
+    const power = this.spellbook.getPower(spell, player.stats.intelligence);
+
+    if (spell.kind === 'heal') {
+      const before = player.health;
+      player.health = Math.min(player.maxHealth, player.health + power);
+      result.healing = player.health - before;
+      return [result];
+    }
+    if (spell.kind === 'buff') {
+      statusEffects.apply(player, { source: spell.name, ...spell.effect! });
+      return [result];
+    }
+
+    const kills: CombatResult[] = [];
+    result.spellTargets = targeting.targets.map(enemy => enemy.id);
+    for (const enemy of targeting.targets) {
+      // The first kill is reported on the cast itself
+      const killResult = result.enemyDefeated ? this.createEmptyResult() : result;
+      result.playerDamageDealt += this.strikeWithSpell(gameState, spell, power, enemy, killResult, result);
+      if (killResult !== result && killResult.enemyDefeated) {
+        kills.push(killResult);
+      }
+    }
+
+    return [result, ...kills];
+  }
+
+  // Use the action's active skill. Strikes hit one adjacent enemy, the target if it is adjacent,
+  // sweeps every adjacent enemy, and recoveries heal the player. A failed attempt starts no
+  // cooldown. As with area spells, each further enemy a sweep kills gets its own result.
+  useSkill(gameState: GameState, action: PlayerAction, enemies: Enemy[]): CombatResult[] {
+    const player = gameState.player;
+    const result = this.createEmptyResult();
+    const node = this.talentTree.getNode(action.skillId ?? '');
+    const failure = this.talentTree.checkSkill(player, action.skillId ?? '');
+    if (!node?.skill || failure) {
+      result.skillFailure = failure ?? 'unknown_skill';
+      return [result];
+    }
+
+    const skill = node.skill;
+    if (skill.kind === 'recover') {
+      this.talentTree.beginSkill(player, node);
+      result.skillId = node.id;
+      const before = player.health;
+      player.health = Math.min(player.maxHealth, player.health + Math.round(player.maxHealth * (skill.healing ?? 0)));
+      result.healing = player.health - before;
+      return [result];
+    }
+
+    const adjacent = enemies.filter(enemy => enemy.isAlive() && getDistance(player.position, enemy.position) <= 1);
+    const targetId = typeof action.target === 'string' ? action.target : undefined;
+    const targets = skill.kind === 'sweep' ? adjacent :
+      adjacent.filter(enemy => !targetId || enemy.id === targetId).slice(0, 1);
+    if (targets.length === 0) {
+      result.skillFailure = 'no_target';
+      return [result];
+    }
+
+    this.talentTree.beginSkill(player, node);
+    result.skillId = node.id;
+    result.skillTargets = targets.map(enemy => enemy.id);
+
+    const kills: CombatResult[] = [];
+    for (const enemy of targets) {
+      // The first kill is reported on the skill itself
+      const killResult = result.enemyDefeated ? this.createEmptyResult() : result;
+      result.playerDamageDealt += this.strikeWithSkill(gameState, node, skill, enemy, killResult, result);
+      if (killResult !== result && killResult.enemyDefeated) {
+        kills.push(killResult);
+      }
+    }
+
+    return [result, ...kills];
+  }
+
+  // Roll one skill hit on an enemy, recording the roll on the skill and any kill on the kill result
+  private strikeWithSkill(
+    gameState: GameState,
+    node: TalentNode,
+    skill: SkillDefinition,
+    enemy: Enemy,
+    killResult: CombatResult,
+    skillResult: CombatResult
+  ): number {
+    const player = gameState.player;
+    const roll = this.damageResolver.resolve({
+      power: Math.round(this.getPlayerAttackPower(player) * (skill.damageMultiplier ?? 1)),
+      accuracy: this.getPlayerAgility(player),
+      defense: enemy.getEffectiveDefense(),
+      critChance: this.talentTree.getBonus(player, 'critChance')
+    });
+    this.recordRoll(skillResult, roll);
+    if (!roll.hit) {
+      return 0;
+    }
+
+    if (!enemy.takeDamage(roll.damage)) {
+      this.recordKill(gameState, enemy, killResult);
+      return roll.damage;
+    }
+    if (skill.effect) {
+      enemy.applyStatusEffect({ source: node.name, ...skill.effect });
+    }
+    this.applyOnHitEffects(player, enemy, skillResult);
+    return roll.damage;
+  }
+
+  // Roll one spell hit on an enemy, recording the roll on the cast and any kill on the kill result
+  private strikeWithSpell(
+    gameState: GameState,
+    spell: SpellDefinition,
+    power: number,
+    enemy: Enemy,
+    killResult: CombatResult,
+    castResult: CombatResult
+  ): number {
+    const roll = this.damageResolver.resolve({
+      power,
+      accuracy: gameState.player.stats.intelligence,
+      defense: enemy.getEffectiveDefense()
+    });
+    this.recordRoll(castResult, roll);
+    if (!roll.hit) {
+      return 0;
+    }
+
+    if (!enemy.takeDamage(roll.damage)) {
+      this.recordKill(gameState, enemy, killResult);
+    } else if (spell.effect) {
+      enemy.applyStatusEffect({ source: spell.name, ...spell.effect });
+    }
+    return roll.damage;
+  }
+
+  private createEmptyResult(): CombatResult {
+    return {
+      playerDamageDealt: 0,
+      playerDamageTaken: 0,
+      enemyDefeated: false,
+      playerDefeated: false,
+      experienceGained: 0,
+      combatEnded: false
+    };
+  }
+
+  // An enemy killed by damage over time still rewards the player
+  private processEnemyStatusDeath(gameState: GameState, enemy: Enemy): CombatResult {
+    const result = this.createEmptyResult();
+    this.recordKill(gameState, enemy, result);
     return result;
   }
 
+  // Record the rewards for a defeated enemy; the game engine hands them to the player
+  private recordKill(gameState: GameState, enemy: Enemy, result: CombatResult): void {
+    result.enemyDefeated = true;
+    result.defeatedEnemyId = enemy.id;
+    result.experienceGained = this.calculateExperienceReward(enemy);
+    result.gold = this.rollGold(enemy);
+    result.loot = this.dropLoot(gameState, enemy);
+  }
+
+  // Bestiary enemies carry a gold range; anything else carries none
+  private rollGold(enemy: Enemy): number {
+    const entry = enemy.type ? this.bestiary.getEntry(enemy.type) : undefined;
+    return entry ? this.random.nextInt(entry.gold[0], entry.gold[1]) : 0;
+  }
+
   // Process player attack action
   private processPlayerAttack(
     gameState: GameState, 
     action: PlayerAction, 
-    enemies: Enemy[]
+    enemies: Enemy[],
+    result: CombatResult
   ): number {
-    if (!action.target) {
-      return 0;
-    }
-
-    // Find target enemy
-    const targetEnemy = enemies.find(e => e.id === action.target);
+    // Without a target the nearest enemy in reach is attacked
+    const player = gameState.player;
+    const targetEnemy = action.target ?
+      enemies.find(e => e.id === action.target) :
+      this.getEnemiesInReach(gameState, enemies)[0];
     if (!targetEnemy || !targetEnemy.isAlive()) {
+      result.attackFailure = 'no_target';
       return 0;
     }
 
-    // Check if enemy is in attack range
-    const distance = Math.abs(gameState.player.position.x - targetEnemy.position.x) + 
-                    Math.abs(gameState.player.position.y - targetEnemy.position.y);
-    
+    // Beyond melee range the weapon must reach, have ammo and a clear shot
+    const distance = getDistance(player.position, targetEnemy.position);
+    let coverPenalty = 0;
     if (distance > 1) {
-      return 0; // Out of range
+      const failure = this.checkShot(player, targetEnemy.position, distance);
+      if (failure) {
+        result.attackFailure = failure;
+        return 0;
+      }
+
+      this.spendAmmo(player);
+      coverPenalty = this.getCoverPenalty(gameState, player.position, targetEnemy.position, [targetEnemy.id]);
+      result.ranged = true;
+      if (coverPenalty > 0) {
+        result.coverPenalty = coverPenalty;
+      }
     }
 
     // Calculate damage
-    const baseDamage = gameState.player.stats.strength;
-    const weaponDamage = gameState.player.equipment.weapon?.properties['attack'] || 0;
-    const totalDamage = baseDamage + weaponDamage;
+    const roll = this.damageResolver.resolve({
+      power: this.getPlayerAttackPower(player),
+      accuracy: this.getPlayerAgility(player) - coverPenalty,
+      defense: targetEnemy.getEffectiveDefense(),
+      critChance: this.talentTree.getBonus(player, 'critChance')
+    });
+    this.recordRoll(result, roll);
+    if (!roll.hit) {
+      return 0;
+    }
+    const totalDamage = roll.damage;
 
     // Apply damage to enemy
     const enemyAlive = targetEnemy.takeDamage(totalDamage);
     
-    // Award experience if enemy defeated
+    // Award experience, gold and loot if enemy defeated; a shot rouses a survivor that had not noticed
     if (!enemyAlive) {
-      const expGained = this.calculateExperienceReward(targetEnemy);
-      // Experience will be handled by the game engine
-      console.log(`Player gained ${expGained} experience`);
+      this.recordKill(gameState, targetEnemy, result);
+      return totalDamage;
     }
 
+    this.applyOnHitEffects(player, targetEnemy, result);
+    if (distance > 1) {
+      targetEnemy.alertTo(player.position);
+    }
     return totalDamage;
   }
 
+  // Roll each on-hit effect of the player's equipment against an enemy that survived the hit
+  private applyOnHitEffects(player: PlayerCharacter, enemy: Enemy, result: CombatResult): void {
+    for (const { chance, ...effect } of this.equipmentStats.getModifiers(player.equipment).onHit) {
+      if (this.random.chance(chance)) {
+        enemy.applyStatusEffect(effect);
+        result.onHitEffects = [...(result.onHitEffects ?? []), effect.type];
+      }
+    }
+  }
+
+  // Why the player cannot shoot at a tile this far away, or null if they can
+  private checkShot(player: PlayerCharacter, target: Coordinate, distance: number): AttackFailure | null {
+    const weapon = player.equipment.weapon;
+    if (distance > (weapon?.properties['range'] ?? 1)) {
+      return 'out_of_range';
+    }
+    if (!this.hasAmmo(weapon)) {
+      return 'out_of_ammo';
+    }
+    if (!this.hasLineOfSight(player.position, target)) {
+      return 'no_line_of_sight';
+    }
+    return null;
+  }
+
+  private spendAmmo(player: PlayerCharacter): void {
+    const weapon = player.equipment.weapon;
+    if (weapon && typeof weapon.properties['ammo'] === 'number') {
+      weapon.properties['ammo']--;
+    }
+  }
+
+  // Roll the defeated enemy's loot table and leave the items where it fell
+  private dropLoot(gameState: GameState, enemy: Enemy): Item[] {
+    const entry = enemy.type ? this.bestiary.getEntry(enemy.type) : undefined;
+    const tableId = entry?.lootTable ?? (enemy.isBoss ? 'boss' : 'enemy_common');
+    if (!this.lootGenerator.hasTable(tableId)) {
+      return [];
+    }
+
+    const loot = this.lootGenerator.rollTable(tableId, {
+      depth: gameState.floor,
+      idPrefix: `loot_${enemy.id}`,
+      getPosition: () => ({ ...enemy.position }),
+      luck: this.talentTree.getBonus(gameState.player, 'lootLuck')
+    }, this.random);
+
+    gameState.items.push(...loot);
+    return loot;
+  }
+
   // Process player item usage
   private processPlayerItemUse(gameState: GameState, action: PlayerAction): void {
     if (!action.item) {
@@ -233,15 +919,24 @@ export class CombatSystem {
           break;
         
         case 'strength_boost':
-          // Temporary stat boost (would need turn tracking for duration)
+          statusEffects.apply(gameState.player, {
+            type: 'strength_boost',
+            duration: item.properties['duration'] || 3,
+            potency: item.properties['amount'] || 3,
+            source: item.name
+          });
+          break;
+
+        case 'ammo':
+          // Kept for later when there is no ranged weapon to load
+          if (!this.reloadWeapon(gameState.player, item.properties['amount'] || 10)) {
+            return;
+          }
           break;
       }
       
-      // Remove consumable item from inventory
-      const itemIndex = gameState.player.inventory.findIndex(i => i.id === item.id);
-      if (itemIndex >= 0) {
-        gameState.player.inventory.splice(itemIndex, 1);
-      }
+      // Use up one item from the stack
+      inventorySystem.consume(gameState.player.inventory, item.id);
     }
   }
 
@@ -249,26 +944,16 @@ export class CombatSystem {
   private processEnemyAction(
     gameState: GameState, 
     action: EnemyAction, 
-    enemy: Enemy
+    enemy: Enemy,
+    enemies: Enemy[]
   ): CombatResult {
-    const result: CombatResult = {
-      playerDamageDealt: 0,
-      playerDamageTaken: 0,
-      enemyDefeated: false,
-      playerDefeated: false,
-      experienceGained: 0,
-      combatEnded: false
-    };
+    const result = this.createEmptyResult();
 
     switch (action.type) {
       case 'attack':
-        if (action.target === gameState.player.id && action.damage) {
-          const damage = this.calculateEnemyDamage(enemy, gameState);
-          // Apply damage to player
-          const actualDamage = Math.max(1, damage - this.getPlayerDefense(gameState.player));
-          gameState.player.health = Math.max(0, gameState.player.health - actualDamage);
-          result.playerDamageTaken = actualDamage;
-          result.playerDefeated = gameState.player.health <= 0;
+        if (action.target === gameState.player.id && action.damage && this.hasClearShot(enemy, gameState)) {
+          const roll = this.calculateEnemyDamage(enemy, enemy.getEffectiveAttack(), gameState);
+          this.applyDamageToPlayer(roll, gameState, result);
         }
         break;
       
@@ -278,41 +963,119 @@ export class CombatSystem {
       
       case 'special_ability':
         // Handle special enemy abilities
-        this.processEnemySpecialAbility(gameState, action, enemy);
+        if (action.healing) {
+          this.processEnemyHealing(action, enemies, result);
+        } else {
+          this.processEnemySpecialAbility(gameState, action, enemy, result);
+        }
         break;
     }
 
     return result;
   }
 
-  // Calculate damage dealt by enemy to player
-  private calculateEnemyDamage(enemy: Enemy, _gameState: GameState): number {
-    return enemy.attackPower;
+  // Roll an enemy attack of the given power against the player; shots lose accuracy to cover
+  private calculateEnemyDamage(enemy: Enemy, power: number, gameState: GameState): DamageRoll {
+    const player = gameState.player;
+    return this.damageResolver.resolve({
+      power,
+      accuracy: enemy.agility - this.getCoverPenalty(gameState, enemy.position, player.position, [enemy.id]),
+      defense: this.getPlayerDefense(player)
+    });
+  }
+
+  // Walls stop an enemy's attacks from beyond melee range
+  private hasClearShot(enemy: Enemy, gameState: GameState): boolean {
+    const target = gameState.player.position;
+    return getDistance(enemy.position, target) <= 1 || this.hasLineOfSight(enemy.position, target);
+  }
+
+  // Apply a rolled enemy hit to the player and record it on the result
+  private applyDamageToPlayer(roll: DamageRoll, gameState: GameState, result: CombatResult): void {
+    this.recordRoll(result, roll);
+    if (!roll.hit) {
+      return;
+    }
+
+    const actualDamage = this.mitigatePlayerDamage(roll.damage, gameState.player);
+    gameState.player.health = Math.max(0, gameState.player.health - actualDamage);
+    result.playerDamageTaken = actualDamage;
+    result.playerDefeated = gameState.player.health <= 0;
+  }
+
+  private recordRoll(result: CombatResult, roll: DamageRoll): void {
+    if (roll.critical) {
+      result.critical = true;
+    }
+    if (!roll.hit) {
+      result.missed = true;
+    }
+  }
+
+  // Strength, equipment and status effects behind the player's blows
+  private getPlayerAttackPower(player: PlayerCharacter): number {
+    return Math.max(0, this.equipmentStats.getAttackPower(player.equipment, player.stats.strength) +
+      statusEffects.getAttackModifier(player));
+  }
+
+  // What the player carries and the agility it costs them under the carry weight setting
+  getEncumbrance(player: PlayerCharacter): Encumbrance {
+    return inventorySystem.getEncumbrance(player, this.carryWeight);
+  }
+
+  // Player agility including equipment modifiers and any load they struggle under, used for initiative and accuracy
+  private getPlayerAgility(player: PlayerCharacter): number {
+    return Math.max(0, this.equipmentStats.getStat(player.equipment, 'agility', player.stats.agility) -
+      this.getEncumbrance(player).agilityPenalty);
   }
 
   // Get player's effective defense
   private getPlayerDefense(player: PlayerCharacter): number {
-    let defense = player.stats.defense;
-    
-    if (player.equipment.armor) {
-      defense += player.equipment.armor.properties['defense'] || 0;
-    }
-    
-    return defense;
+    return Math.max(0, this.equipmentStats.getStat(player.equipment, 'defense', player.stats.defense) +
+      statusEffects.getDefenseModifier(player));
+  }
+
+  // Damage that gets through the player's defense, halved while defending
+  private mitigatePlayerDamage(damage: number, player: PlayerCharacter): number {
+    const actualDamage = Math.max(1, damage - this.getPlayerDefense(player));
+    return this.playerDefending ?
+      Math.max(1, Math.floor(actualDamage * (1 - DEFEND_DAMAGE_REDUCTION))) : actualDamage;
   }
 
-  // Process enemy special abilities
+  // Process enemy special abilities; damaging abilities carry their damage and effect on the action
   private processEnemySpecialAbility(
-    _gameState: GameState, 
-    _action: EnemyAction, 
-    _enemy: Enemy
+    gameState: GameState, 
+    action: EnemyAction, 
+    enemy: Enemy,
+    result: CombatResult
   ): void {
-    // Placeholder for special abilities like poison, stun, etc.
-    // Implementation would depend on specific enemy types and abilities
+    if (action.target !== gameState.player.id || !action.damage || !this.hasClearShot(enemy, gameState)) {
+      return;
+    }
+
+    this.applyDamageToPlayer(this.calculateEnemyDamage(enemy, action.damage, gameState), gameState, result);
+
+    if (action.effect && !result.missed && !result.playerDefeated) {
+      statusEffects.apply(gameState.player, { source: enemy.name, ...action.effect });
+    }
+  }
+
+  // A healer mends the ally its ability targets
+  private processEnemyHealing(action: EnemyAction, enemies: Enemy[], result: CombatResult): void {
+    const ally = enemies.find(enemy => enemy.id === action.target && enemy.isAlive());
+    if (ally) {
+      result.allyHealed = ally.id;
+      result.enemyHealing = ally.heal(action.healing ?? 0);
+    }
   }
 
   // Calculate experience reward for defeating an enemy
   private calculateExperienceReward(enemy: Enemy): number {
+    // Bestiary enemies carry their own reward
+    if (enemy.experience !== undefined) {
+      return enemy.experience;
+    }
+
     const baseExp = 10;
     const healthMultiplier = enemy.maxHealth / 10;
     const attackMultiplier = enemy.attackPower / 5;
@@ -333,28 +1096,45 @@ export class CombatSystem {
       return true;
     }
     
-    // Combat ends if player moves far enough away from all enemies
-    const playerPos = gameState.player.position;
-    const nearbyEnemies = aliveEnemies.filter(e => 
-      this.isInEncounterRange(playerPos, e.position)
-    );
-    
-    return nearbyEnemies.length === 0;
+    // Combat ends once no enemy is in the player's reach and none can shoot the player
+    const inReach = this.getEnemiesInReach(gameState, aliveEnemies);
+    return inReach.length === 0 && !aliveEnemies.some(e => this.canShootPlayer(gameState, e));
   }
 
   // End combat and clean up
   private endCombat(gameState: GameState): void {
     gameState.isInCombat = false;
+    this.playerDefending = false;
+
+    // Combat effects wear off once the fight is over
+    statusEffects.clear(gameState.player);
     
     // Remove defeated enemies from game state
     gameState.enemies = gameState.enemies.filter(e => e.isAlive());
   }
 
   // Capture simplified game state snapshot for combat log
-  private captureGameStateSnapshot(gameState: GameState): any {
+  private captureGameStateSnapshot(gameState: GameState, enemies: Enemy[]): CombatStateSnapshot {
+    const enemyEffects: Record<string, StatusEffect[]> = {};
+    for (const enemy of enemies) {
+      enemyEffects[enemy.id] = statusEffects.snapshot(enemy);
+    }
+
     return {
       playerHealth: gameState.player.health,
       playerPosition: { ...gameState.player.position },
+      playerDefending: this.playerDefending,
+      playerEffects: statusEffects.snapshot(gameState.player),
+      enemyEffects,
+      playerMana: gameState.player.mana ?? 0,
+      castableSpells: this.spellbook.getCastableSpells(gameState.player).map(spell => spell.id),
+      usableSkills: this.talentTree.getSkills(gameState.player)
+        .filter(node => this.talentTree.checkSkill(gameState.player, node.id) === null)
+        .map(node => node.id),
+      livingEnemies: enemies.filter(enemy => enemy.isAlive()).length,
+      playerAttackRange: this.getAttackRange(gameState.player),
+      enemiesInReach: this.getEnemiesInReach(gameState, enemies).map(enemy => enemy.id),
+      enemyRoles: this.groupTactics.getRoles(),
       turnNumber: gameState.turnNumber,
       timestamp: Date.now()
     };
@@ -409,4 +1189,4 @@ export class CombatSystem {
   forceCombatEnd(gameState: GameState): void {
     this.endCombat(gameState);
   }
-}
\ No newline at end of file
+}
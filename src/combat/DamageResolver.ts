@@ -0,0 +1,57 @@
+import { RandomSource, SeededRandom, createSeededRandom } from '../utils/Random';
+import {
+  BASE_HIT_CHANCE,
+  CRITICAL_HIT_CHANCE,
+  CRITICAL_HIT_MULTIPLIER,
+  DAMAGE_VARIANCE,
+  HIT_CHANCE_PER_POINT,
+  MAX_HIT_CHANCE,
+  MIN_HIT_CHANCE
+} from '../utils/Constants';
+
+export interface AttackProfile {
+  power: number; // Damage before variance, crits and the defender's mitigation
+  accuracy: number; // Attacker agility
+  defense: number; // Defender defense, opposes accuracy
+  canCrit?: boolean; // Defaults to true
+  critChance?: number; // Added to the base critical hit chance
+}
+
+export interface DamageRoll {
+  hit: boolean;
+  critical: boolean;
+  damage: number; // 0 on a miss; defense is subtracted later by the defender
+  hitChance: number;
+}
+
+// Rolls hits, crits and damage variance for every attack in combat
+export class DamageResolver {
+  private random: RandomSource;
+
+  constructor(random: RandomSource = createSeededRandom(SeededRandom.generateSeed())) {
+    this.random = random;
+  }
+
+  // Each point of agility over the defender's defense improves the odds, within limits
+  getHitChance(accuracy: number, defense: number): number {
+    const chance = BASE_HIT_CHANCE + (accuracy - defense) * HIT_CHANCE_PER_POINT;
+    return Math.max(MIN_HIT_CHANCE, Math.min(MAX_HIT_CHANCE, chance));
+  }
+
+  resolve(profile: AttackProfile): DamageRoll {
+    const hitChance = this.getHitChance(profile.accuracy, profile.defense);
+    if (!this.random.chance(hitChance)) {
+      return { hit: false, critical: false, damage: 0, hitChance };
+    }
+
+    const critical = profile.canCrit !== false && this.random.chance(CRITICAL_HIT_CHANCE + (profile.critChance ?? 0));
+    const variance = 1 + (this.random.next() * 2 - 1) * DAMAGE_VARIANCE;
+    let damage = Math.round(Math.max(0, profile.power) * variance);
+
+    if (critical) {
+      damage = Math.round(damage * CRITICAL_HIT_MULTIPLIER);
+    }
+
+    return { hit: true, critical, damage: Math.max(1, damage), hitChance };
+  }
+}
@@ -1,5 +1,16 @@
-import { Enemy as IEnemy, Coordinate, PlayerCharacter, EnemyAction } from '../types/GameTypes';
+import { Enemy as IEnemy, Coordinate, PlayerCharacter, EnemyAction, EnemyAbility, StatusEffect, StatusEffectApplication } from '../types/GameTypes';
 import { GameError } from '../utils/ErrorHandling';
+import { BASE_ATTACK_DAMAGE, BASE_ENEMY_AGILITY, DEFEND_DAMAGE_REDUCTION, ENEMY_PATH_MAX_NODES } from '../utils/Constants';
+import { statusEffects, StatusTickResult } from './StatusEffects';
+import { DijkstraMap, findPath } from '../dungeon/Pathfinding';
+import { LineOfSightCheck } from './Spellbook';
+
+// Saved form of an enemy: its data plus the AI state it needs to carry on where it left off
+export interface SerializedEnemy extends IEnemy {
+  guardPosition?: Coordinate; // Post a guard returns to, where it spawned when omitted
+  lostTrackTurns?: number; // Turns left before it notices the player again
+  abilityCooldown?: number; // Turns before its ability can be used again
+}
 
 // Enemy representation and AI behavior
 export class Enemy implements IEnemy {
@@ -10,26 +21,51 @@ export class Enemy implements IEnemy {
   public maxHealth: number;
   public attackPower: number;
   public defense: number;
-  public aiType: 'aggressive' | 'defensive' | 'patrol' | 'guard';
+  public aiType: IEnemy['aiType'];
+  public type?: string;
+  public detectionRange: number = 3;
+  public attackRange: number = 1;
+  public experience?: number;
+  public isBoss: boolean;
+  public ability?: EnemyAbility;
+  public agility: number;
+  public statusEffects: StatusEffect[];
   
+  private abilityCooldown: number = 0;
+  private guarding: boolean = false;
+  private lostTrackTurns: number = 0;
   private _lastAction: EnemyAction | null = null;
   private patrolPath: Coordinate[] = [];
   private patrolIndex: number = 0;
   private guardPosition: Coordinate;
-  private detectionRange: number = 3;
-  private attackRange: number = 1;
 
-  constructor(config: Partial<IEnemy> & { name: string }) {
+  constructor(config: Partial<SerializedEnemy> & { name: string }) {
     this.id = config.id || `enemy_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     this.name = config.name;
     this.position = config.position || { x: 0, y: 0 };
     this.health = config.health || 50;
     this.maxHealth = config.maxHealth || this.health;
-    this.attackPower = config.attackPower || 10;
+    this.attackPower = config.attackPower || BASE_ATTACK_DAMAGE;
     this.defense = config.defense || 2;
     this.aiType = config.aiType || 'aggressive';
+    this.detectionRange = config.detectionRange ?? this.detectionRange;
+    this.attackRange = config.attackRange ?? this.attackRange;
+    if (config.type) {
+      this.type = config.type;
+    }
+    if (config.experience !== undefined) {
+      this.experience = config.experience;
+    }
+    this.isBoss = config.isBoss || false;
+    if (config.ability) {
+      this.ability = { ...config.ability };
+    }
+    this.agility = config.agility ?? BASE_ENEMY_AGILITY;
+    this.statusEffects = (config.statusEffects || []).map(effect => ({ ...effect }));
+    this.lostTrackTurns = config.lostTrackTurns ?? 0;
+    this.abilityCooldown = config.abilityCooldown ?? 0;
     
-    this.guardPosition = { ...this.position };
+    this.guardPosition = { ...(config.guardPosition ?? this.position) };
     this.validateEnemy();
   }
 
@@ -44,11 +80,52 @@ export class Enemy implements IEnemy {
 
   // Take damage and return true if still alive
   takeDamage(damage: number): boolean {
-    const actualDamage = Math.max(1, damage - this.defense); // Minimum 1 damage
+    let actualDamage = Math.max(1, damage - this.getEffectiveDefense()); // Minimum 1 damage
+    if (this.guarding) {
+      actualDamage = Math.max(1, Math.floor(actualDamage * (1 - DEFEND_DAMAGE_REDUCTION)));
+    }
     this.health = Math.max(0, this.health - actualDamage);
     return this.health > 0;
   }
 
+  // Attack power including status effect modifiers
+  getEffectiveAttack(): number {
+    return Math.max(0, this.attackPower + statusEffects.getAttackModifier(this));
+  }
+
+  // Defense including status effect modifiers
+  getEffectiveDefense(): number {
+    return Math.max(0, this.defense + statusEffects.getDefenseModifier(this));
+  }
+
+  // Restore health up to the maximum and return how much was gained
+  heal(amount: number): number {
+    const before = this.health;
+    this.health = Math.min(this.maxHealth, this.health + Math.max(0, amount));
+    return this.health - before;
+  }
+
+  // Apply a timed status effect
+  applyStatusEffect(application: StatusEffectApplication): StatusEffect {
+    return statusEffects.apply(this, application);
+  }
+
+  // Turn start hook: drops last turn's guard stance, then damage over time
+  startTurn(): StatusTickResult {
+    this.guarding = false;
+    return statusEffects.onTurnStart(this);
+  }
+
+  // Guarding enemies take reduced damage until their next turn
+  isGuarding(): boolean {
+    return this.guarding;
+  }
+
+  // Turn end hook: healing over time and effect expiry
+  endTurn(): StatusTickResult {
+    return statusEffects.onTurnEnd(this);
+  }
+
   // Check if enemy is alive
   isAlive(): boolean {
     return this.health > 0;
@@ -61,7 +138,31 @@ export class Enemy implements IEnemy {
 
   // Check if player is within detection range
   canDetectPlayer(player: PlayerCharacter): boolean {
-    return this.getDistanceTo(player.position) <= this.detectionRange;
+    return this.lostTrackTurns === 0 && this.getDistanceTo(player.position) <= this.detectionRange;
+  }
+
+  // Woken by an alarm: turn hostile and notice anything up to the alarm's position
+  alertTo(position: Coordinate): void {
+    // Archers keep their distance even when roused
+    if (this.aiType !== 'ranged') {
+      this.aiType = 'aggressive';
+    }
+    this.lostTrackTurns = 0;
+    this.detectionRange = Math.max(this.detectionRange, this.getDistanceTo(position));
+  }
+
+  // Outrun by a fleeing player: the enemy stops noticing them for a few turns
+  loseTrack(turns: number): void {
+    this.lostTrackTurns = Math.max(this.lostTrackTurns, turns);
+  }
+
+  hasLostTrack(): boolean {
+    return this.lostTrackTurns > 0;
+  }
+
+  // Count down one exploration turn of searching for the player
+  tickLostTrack(): void {
+    this.lostTrackTurns = Math.max(0, this.lostTrackTurns - 1);
   }
 
   // Check if player is within attack range
@@ -69,8 +170,13 @@ export class Enemy implements IEnemy {
     return this.getDistanceTo(player.position) <= this.attackRange;
   }
 
-  // Get next position towards target
-  private getNextPositionTowards(target: Coordinate): Coordinate {
+  // First step of the shortest path to the target, falling back to a straight step when there is none
+  private getNextPositionTowards(target: Coordinate, isValidPosition: (pos: Coordinate) => boolean): Coordinate {
+    const path = findPath(this.position, target, isValidPosition, { maxNodes: ENEMY_PATH_MAX_NODES });
+    if (path && path[0]) {
+      return path[0];
+    }
+
     const dx = target.x - this.position.x;
     const dy = target.y - this.position.y;
     
@@ -96,12 +202,22 @@ export class Enemy implements IEnemy {
     this.patrolIndex = 0;
   }
 
-  // AI decision making - returns the action the enemy wants to take
-  decideAction(player: PlayerCharacter, isValidPosition: (pos: Coordinate) => boolean): EnemyAction {
+  // AI decision making - returns the action the enemy wants to take.
+  // A chase map towards the player lets every enemy share one search instead of running A* each.
+  decideAction(
+    player: PlayerCharacter,
+    isValidPosition: (pos: Coordinate) => boolean,
+    chaseMap?: DijkstraMap,
+    hasLineOfSight?: LineOfSightCheck
+  ): EnemyAction {
     const timestamp = Date.now();
     
     if (!this.isAlive()) {
-      return { type: 'defend', timestamp };
+      return { type: 'wait', timestamp };
+    }
+
+    if (this.abilityCooldown > 0) {
+      this.abilityCooldown--;
     }
 
     // Check if player is detected
@@ -109,39 +225,71 @@ export class Enemy implements IEnemy {
     
     switch (this.aiType) {
       case 'aggressive':
-        return this.aggressiveAI(player, playerDetected, isValidPosition, timestamp);
+        return this.aggressiveAI(player, playerDetected, isValidPosition, timestamp, chaseMap);
       
       case 'defensive':
         return this.defensiveAI(player, playerDetected, isValidPosition, timestamp);
       
       case 'patrol':
-        return this.patrolAI(player, playerDetected, isValidPosition, timestamp);
+        return this.patrolAI(player, playerDetected, isValidPosition, timestamp, chaseMap);
       
       case 'guard':
         return this.guardAI(player, playerDetected, isValidPosition, timestamp);
+
+      case 'ranged':
+        return this.rangedAI(player, playerDetected, isValidPosition, timestamp, chaseMap, hasLineOfSight);
       
       default:
-        return { type: 'defend', timestamp };
+        return { type: 'wait', timestamp };
     }
   }
 
-  private aggressiveAI(player: PlayerCharacter, playerDetected: boolean, isValidPosition: (pos: Coordinate) => boolean, timestamp: number): EnemyAction {
-    if (!playerDetected) {
-      return { type: 'defend', timestamp };
+  // Spend a recharged healing ability on a wounded ally; null when there is nothing to cast
+  supportAlly(ally: Enemy): EnemyAction | null {
+    if (!this.ability?.healing || this.abilityCooldown > 0 || !ally.isAlive()) {
+      return null;
     }
 
-    // Attack if in range
-    if (this.canAttackPlayer(player)) {
-      return {
-        type: 'attack',
+    this.abilityCooldown = this.ability.cooldown;
+    return { type: 'special_ability', target: ally.id, healing: this.ability.healing, timestamp: Date.now() };
+  }
+
+  // Attack, using the special ability instead whenever it has recharged
+  private attackPlayer(player: PlayerCharacter, timestamp: number): EnemyAction {
+    if (this.ability && !this.ability.healing && this.abilityCooldown === 0) {
+      this.abilityCooldown = this.ability.cooldown;
+      const action: EnemyAction = {
+        type: 'special_ability',
         target: player.id,
-        damage: this.attackPower,
+        damage: Math.round(this.getEffectiveAttack() * this.ability.damageMultiplier),
         timestamp
       };
+      if (this.ability.effect) {
+        action.effect = { ...this.ability.effect, source: this.name };
+      }
+      return action;
+    }
+
+    return {
+      type: 'attack',
+      target: player.id,
+      damage: this.getEffectiveAttack(),
+      timestamp
+    };
+  }
+
+  private aggressiveAI(player: PlayerCharacter, playerDetected: boolean, isValidPosition: (pos: Coordinate) => boolean, timestamp: number, chaseMap?: DijkstraMap): EnemyAction {
+    if (!playerDetected) {
+      return { type: 'wait', timestamp };
+    }
+
+    // Attack if in range
+    if (this.canAttackPlayer(player)) {
+      return this.attackPlayer(player, timestamp);
     }
 
     // Move towards player
-    const nextPosition = this.getNextPositionTowards(player.position);
+    const nextPosition = chaseMap?.nextStep(this.position) ?? this.getNextPositionTowards(player.position, isValidPosition);
     if (isValidPosition(nextPosition)) {
       return {
         type: 'move',
@@ -150,22 +298,17 @@ export class Enemy implements IEnemy {
       };
     }
 
-    return { type: 'defend', timestamp };
+    return { type: 'wait', timestamp };
   }
 
   private defensiveAI(player: PlayerCharacter, playerDetected: boolean, isValidPosition: (pos: Coordinate) => boolean, timestamp: number): EnemyAction {
     if (!playerDetected) {
-      return { type: 'defend', timestamp };
+      return { type: 'wait', timestamp };
     }
 
     // Attack if player is very close
     if (this.canAttackPlayer(player)) {
-      return {
-        type: 'attack',
-        target: player.id,
-        damage: this.attackPower,
-        timestamp
-      };
+      return this.attackPlayer(player, timestamp);
     }
 
     // Move away from player if too close
@@ -188,13 +331,14 @@ export class Enemy implements IEnemy {
       }
     }
 
+    // Cornered or keeping its distance: brace for the player's attack
     return { type: 'defend', timestamp };
   }
 
-  private patrolAI(player: PlayerCharacter, playerDetected: boolean, isValidPosition: (pos: Coordinate) => boolean, timestamp: number): EnemyAction {
+  private patrolAI(player: PlayerCharacter, playerDetected: boolean, isValidPosition: (pos: Coordinate) => boolean, timestamp: number, chaseMap?: DijkstraMap): EnemyAction {
     // If player detected, switch to aggressive behavior
     if (playerDetected) {
-      return this.aggressiveAI(player, playerDetected, isValidPosition, timestamp);
+      return this.aggressiveAI(player, playerDetected, isValidPosition, timestamp, chaseMap);
     }
 
     // Continue patrol if path is set
@@ -204,12 +348,12 @@ export class Enemy implements IEnemy {
       // If reached current patrol point, move to next
       if (targetPosition && this.position.x === targetPosition.x && this.position.y === targetPosition.y) {
         this.patrolIndex = (this.patrolIndex + 1) % this.patrolPath.length;
-        return { type: 'defend', timestamp };
+        return { type: 'wait', timestamp };
       }
       
       // Move towards current patrol point
       if (targetPosition) {
-        const nextPosition = this.getNextPositionTowards(targetPosition);
+        const nextPosition = this.getNextPositionTowards(targetPosition, isValidPosition);
         if (isValidPosition(nextPosition)) {
           return {
             type: 'move',
@@ -220,24 +364,19 @@ export class Enemy implements IEnemy {
       }
     }
 
-    return { type: 'defend', timestamp };
+    return { type: 'wait', timestamp };
   }
 
   private guardAI(player: PlayerCharacter, playerDetected: boolean, isValidPosition: (pos: Coordinate) => boolean, timestamp: number): EnemyAction {
     // If player detected and close, attack
     if (playerDetected && this.canAttackPlayer(player)) {
-      return {
-        type: 'attack',
-        target: player.id,
-        damage: this.attackPower,
-        timestamp
-      };
+      return this.attackPlayer(player, timestamp);
     }
 
     // Return to guard position if moved away
     const distanceFromGuardPost = this.getDistanceTo(this.guardPosition);
     if (distanceFromGuardPost > 0) {
-      const nextPosition = this.getNextPositionTowards(this.guardPosition);
+      const nextPosition = this.getNextPositionTowards(this.guardPosition, isValidPosition);
       if (isValidPosition(nextPosition)) {
         return {
           type: 'move',
@@ -247,12 +386,68 @@ export class Enemy implements IEnemy {
       }
     }
 
-    return { type: 'defend', timestamp };
+    // Holding the post against a player it has spotted
+    return { type: playerDetected ? 'defend' : 'wait', timestamp };
+  }
+
+  // Shoot from range, backing off when the player gets close and closing in when out of range or sight
+  private rangedAI(
+    player: PlayerCharacter,
+    playerDetected: boolean,
+    isValidPosition: (pos: Coordinate) => boolean,
+    timestamp: number,
+    chaseMap?: DijkstraMap,
+    hasLineOfSight?: LineOfSightCheck
+  ): EnemyAction {
+    if (!playerDetected) {
+      return { type: 'wait', timestamp };
+    }
+
+    const inSight = (from: Coordinate) => !hasLineOfSight || hasLineOfSight(from, player.position);
+    const distance = this.getDistanceTo(player.position);
+
+    // Too close for comfort: step back to a tile that still has a shot
+    if (distance <= 1) {
+      const retreat = this.findRetreat(player.position, isValidPosition, inSight);
+      if (retreat) {
+        return { type: 'move', target: retreat, timestamp };
+      }
+    }
+
+    if (this.canAttackPlayer(player) && inSight(this.position)) {
+      return this.attackPlayer(player, timestamp);
+    }
+
+    const nextPosition = chaseMap?.nextStep(this.position) ?? this.getNextPositionTowards(player.position, isValidPosition);
+    if (isValidPosition(nextPosition)) {
+      return { type: 'move', target: nextPosition, timestamp };
+    }
+
+    return { type: 'wait', timestamp };
+  }
+
+  // Neighboring tile further from the threat that stays in attack range and in sight of it
+  private findRetreat(
+    threat: Coordinate,
+    isValidPosition: (pos: Coordinate) => boolean,
+    inSight: (from: Coordinate) => boolean
+  ): Coordinate | null {
+    const steps = [{ x: 0, y: -1 }, { x: 0, y: 1 }, { x: 1, y: 0 }, { x: -1, y: 0 }];
+    const distanceTo = (pos: Coordinate) => Math.abs(pos.x - threat.x) + Math.abs(pos.y - threat.y);
+    const current = distanceTo(this.position);
+
+    const options = steps
+      .map(step => ({ x: this.position.x + step.x, y: this.position.y + step.y }))
+      .filter(pos => distanceTo(pos) > current && distanceTo(pos) <= this.attackRange)
+      .filter(pos => isValidPosition(pos) && inSight(pos));
+
+    return options[0] ?? null;
   }
 
   // Execute an action (update enemy state based on action)
   executeAction(action: EnemyAction): void {
     this._lastAction = action;
+    this.guarding = action.type === 'defend'; // Only a deliberate stance, never an idle turn
     
     if (action.type === 'move' && action.target && typeof action.target === 'object') {
       this.position = { ...action.target as Coordinate };
@@ -261,7 +456,10 @@ export class Enemy implements IEnemy {
 
   // Get enemy status for display
   getStatus(): string {
-    return `${this.name} (${this.health}/${this.maxHealth} HP) - ${this.aiType}`;
+    const title = this.isBoss ? `${this.name} [BOSS]` : this.name;
+    const effects = this.statusEffects.length > 0 ?
+      ` [${this.statusEffects.map(effect => effect.type).join(', ')}]` : '';
+    return `${title} (${this.health}/${this.maxHealth} HP) - ${this.aiType}${effects}`;
   }
 
   // Get last action performed by enemy
@@ -270,8 +468,8 @@ export class Enemy implements IEnemy {
   }
 
   // Serialize enemy data
-  serialize(): IEnemy {
-    return {
+  serialize(): SerializedEnemy {
+    const data: SerializedEnemy = {
       id: this.id,
       name: this.name,
       position: { ...this.position },
@@ -279,12 +477,40 @@ export class Enemy implements IEnemy {
       maxHealth: this.maxHealth,
       attackPower: this.attackPower,
       defense: this.defense,
-      aiType: this.aiType
+      aiType: this.aiType,
+      detectionRange: this.detectionRange,
+      attackRange: this.attackRange,
+      agility: this.agility,
+      guardPosition: { ...this.guardPosition }
     };
+
+    if (this.type) {
+      data.type = this.type;
+    }
+    if (this.experience !== undefined) {
+      data.experience = this.experience;
+    }
+    if (this.isBoss) {
+      data.isBoss = true;
+    }
+    if (this.ability) {
+      data.ability = { ...this.ability };
+    }
+    if (this.statusEffects.length > 0) {
+      data.statusEffects = this.statusEffects.map(effect => ({ ...effect }));
+    }
+    if (this.lostTrackTurns > 0) {
+      data.lostTrackTurns = this.lostTrackTurns;
+    }
+    if (this.abilityCooldown > 0) {
+      data.abilityCooldown = this.abilityCooldown;
+    }
+
+    return data;
   }
 
   // Create enemy from serialized data
-  static deserialize(data: IEnemy): Enemy {
+  static deserialize(data: SerializedEnemy): Enemy {
     return new Enemy(data);
   }
 
@@ -325,6 +551,20 @@ export class Enemy implements IEnemy {
     });
   }
 
+  static createArcher(position: Coordinate): Enemy {
+    return new Enemy({
+      name: 'Archer',
+      position,
+      health: 25,
+      maxHealth: 25,
+      attackPower: 7,
+      defense: 1,
+      aiType: 'ranged',
+      detectionRange: 6,
+      attackRange: 5
+    });
+  }
+
   static createPatrolling(name: string, position: Coordinate, patrolPath: Coordinate[]): Enemy {
     const enemy = new Enemy({
       name,
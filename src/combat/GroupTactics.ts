@@ -0,0 +1,182 @@
+import { Enemy } from './Enemy';
+import { Coordinate, EnemyAction, PlayerCharacter } from '../types/GameTypes';
+import { LineOfSightCheck } from './Spellbook';
+import { findPath, getDistance, getNeighbors } from '../dungeon/Pathfinding';
+import { tileKey } from '../dungeon/FieldOfView';
+import {
+  ENEMY_HEAL_RANGE,
+  ENEMY_HEAL_THRESHOLD,
+  ENEMY_PATH_MAX_NODES,
+  GUARD_ALERT_RADIUS
+} from '../utils/Constants';
+
+export type CombatRole = 'tank' | 'flanker' | 'ranged' | 'healer';
+
+// Coordinates enemies fighting together. Each enemy still decides with its own aiType;
+// the group keeps them off each other's tiles, spreads melee fighters around the player
+// and lets healers and guards support the rest.
+export class GroupTactics {
+  private roles: Map<string, CombatRole> = new Map();
+  private claims: Map<string, { enemyId: string; tile: Coordinate }> = new Map(); // Tiles enemies head for this round
+  private calledForHelp: Set<string> = new Set();
+
+  // Forget the last fight
+  reset(): void {
+    this.roles.clear();
+    this.claims.clear();
+    this.calledForHelp.clear();
+  }
+
+  // Round start: hand out roles among the living and release last round's tiles.
+  // The sturdiest melee fighter holds the front, the others flank.
+  beginRound(enemies: Enemy[]): void {
+    this.roles.clear();
+    this.claims.clear();
+
+    const melee: Enemy[] = [];
+    for (const enemy of enemies.filter(e => e.isAlive())) {
+      if (enemy.ability?.healing) {
+        this.roles.set(enemy.id, 'healer');
+      } else if (enemy.aiType === 'ranged' || enemy.attackRange > 1) {
+        this.roles.set(enemy.id, 'ranged');
+      } else {
+        melee.push(enemy);
+      }
+    }
+
+    const tank = melee.reduce<Enemy | undefined>((best, enemy) =>
+      !best || enemy.defense > best.defense || (enemy.defense === best.defense && enemy.maxHealth > best.maxHealth) ?
+        enemy : best, undefined);
+    for (const enemy of melee) {
+      this.roles.set(enemy.id, enemy === tank ? 'tank' : 'flanker');
+    }
+  }
+
+  getRole(enemyId: string): CombatRole | undefined {
+    return this.roles.get(enemyId);
+  }
+
+  getRoles(): Record<string, CombatRole> {
+    return Object.fromEntries(this.roles);
+  }
+
+  // A guard that spots the player calls once per fight; allies in earshot that have not
+  // noticed the player yet are alerted. Returns the ids of the allies that answered.
+  callForHelp(guard: Enemy, player: PlayerCharacter, allies: Enemy[]): string[] {
+    if (guard.aiType !== 'guard' || !guard.isAlive() || this.calledForHelp.has(guard.id) ||
+        !guard.canDetectPlayer(player)) {
+      return [];
+    }
+
+    this.calledForHelp.add(guard.id);
+    const answered = allies.filter(ally =>
+      ally !== guard && ally.isAlive() && !ally.canDetectPlayer(player) &&
+      getDistance(ally.position, guard.position) <= GUARD_ALERT_RADIUS);
+
+    answered.forEach(ally => ally.alertTo(player.position));
+    return answered.map(ally => ally.id);
+  }
+
+  // The enemy's action for its turn: its aiType decides, with other enemies' tiles and
+  // claims treated as blocked. Healers mend a wounded ally when they can, and flankers
+  // closing in head for the side of the player furthest from their partners.
+  decideAction(
+    enemy: Enemy,
+    player: PlayerCharacter,
+    allies: Enemy[],
+    isValidPosition: (pos: Coordinate) => boolean,
+    hasLineOfSight?: LineOfSightCheck
+  ): EnemyAction {
+    const isFree = (pos: Coordinate) => isValidPosition(pos) && !this.isTaken(pos, enemy, allies);
+    const action = enemy.decideAction(player, isFree, undefined, hasLineOfSight);
+    const role = this.roles.get(enemy.id);
+
+    if (role === 'healer') {
+      const patient = this.findPatient(enemy, allies);
+      const support = patient ? enemy.supportAlly(patient) : null;
+      if (support) {
+        return support;
+      }
+    }
+
+    if (action.type !== 'move' || !action.target || typeof action.target !== 'object') {
+      return action;
+    }
+
+    const closingIn = getDistance(action.target, player.position) < getDistance(enemy.position, player.position);
+    const flank = role === 'flanker' && closingIn ? this.findFlankTile(enemy, player, allies, isFree) : null;
+    if (flank) {
+      // Go around rather than through the other tiles beside the player, where it would stop to fight
+      this.claim(flank, enemy);
+      const skirting = (pos: Coordinate) => isFree(pos) &&
+        (getDistance(pos, player.position) > 1 || (pos.x === flank.x && pos.y === flank.y));
+      const step = findPath(enemy.position, flank, skirting, { maxNodes: ENEMY_PATH_MAX_NODES })?.[0];
+      if (step) {
+        action.target = step;
+      }
+    }
+
+    // A fallback straight step can still lead onto an ally; wait instead
+    if (!isFree(action.target)) {
+      return { type: 'wait', timestamp: action.timestamp };
+    }
+    this.claim(action.target, enemy);
+    return action;
+  }
+
+  // Occupied by another living enemy, or claimed by one this round
+  private isTaken(pos: Coordinate, enemy: Enemy, allies: Enemy[]): boolean {
+    const claim = this.claims.get(tileKey(pos));
+    if (claim && claim.enemyId !== enemy.id) {
+      return true;
+    }
+    return allies.some(ally => ally !== enemy && ally.isAlive() && ally.position.x === pos.x && ally.position.y === pos.y);
+  }
+
+  private claim(pos: Coordinate, enemy: Enemy): void {
+    this.claims.set(tileKey(pos), { enemyId: enemy.id, tile: { ...pos } });
+  }
+
+  // Free tile beside the player furthest from the other melee fighters and their claims,
+  // the nearest such tile on ties. Null when the flanker fights alone.
+  private findFlankTile(
+    enemy: Enemy,
+    player: PlayerCharacter,
+    allies: Enemy[],
+    isFree: (pos: Coordinate) => boolean
+  ): Coordinate | null {
+    const anchors = allies
+      .filter(ally => ally !== enemy && ally.isAlive())
+      .filter(ally => this.roles.get(ally.id) === 'tank' || this.roles.get(ally.id) === 'flanker')
+      .map(ally => ally.position);
+    for (const claim of this.claims.values()) {
+      if (claim.enemyId !== enemy.id) {
+        anchors.push(claim.tile);
+      }
+    }
+    if (anchors.length === 0) {
+      return null;
+    }
+
+    // Chebyshev distance, so the far side of the player beats the tiles either side of a partner
+    const spread = (tile: Coordinate) => Math.min(...anchors.map(anchor =>
+      Math.max(Math.abs(tile.x - anchor.x), Math.abs(tile.y - anchor.y))));
+    let best: Coordinate | null = null;
+    for (const tile of getNeighbors(player.position).filter(isFree)) {
+      if (!best || spread(tile) > spread(best) ||
+          (spread(tile) === spread(best) && getDistance(tile, enemy.position) < getDistance(best, enemy.position))) {
+        best = tile;
+      }
+    }
+    return best;
+  }
+
+  // The most badly hurt ally within the healer's reach, if anyone needs mending
+  private findPatient(healer: Enemy, allies: Enemy[]): Enemy | null {
+    const wounded = allies.filter(ally =>
+      ally !== healer && ally.isAlive() && ally.health < ally.maxHealth * ENEMY_HEAL_THRESHOLD &&
+      getDistance(ally.position, healer.position) <= ENEMY_HEAL_RANGE);
+
+    return wounded.sort((a, b) => a.health / a.maxHealth - b.health / b.maxHealth)[0] ?? null;
+  }
+}
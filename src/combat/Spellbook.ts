@@ -0,0 +1,222 @@
+import { Coordinate, StatusEffectApplication } from '../types/GameTypes';
+import { GameError } from '../utils/ErrorHandling';
+import { loadEntries } from '../data/DataFile';
+import { getDistance } from '../dungeon/Pathfinding';
+import { statusEffects } from './StatusEffects';
+import spellData from '../data/spells.json';
+
+// Shape of src/data/spells.json
+
+export type SpellKind = 'damage' | 'heal' | 'area' | 'buff';
+
+export interface SpellDefinition {
+  id: string;
+  name: string;
+  kind: SpellKind;
+  minIntelligence: number; // Learned once the caster's intelligence reaches this
+  manaCost: number;
+  cooldown: number; // Turns before the spell can be cast again
+  range: number; // Tiles to the target or area center; self spells use 0
+  radius?: number; // Area spells hit every enemy this close to the center
+  power: number; // Base damage or healing
+  scaling: number; // Damage or healing added per point of intelligence
+  effect?: StatusEffectApplication; // Buff on the caster, or inflicted on every enemy hit
+  grantedOnly?: boolean; // Never learned from intelligence, only granted, e.g. as a class signature
+}
+
+export interface SpellbookData {
+  version: number;
+  spells: SpellDefinition[];
+}
+
+// The player data and the player character both carry these fields
+export interface SpellCaster {
+  position: Coordinate;
+  stats: { intelligence: number };
+  mana?: number;
+  maxMana?: number;
+  spellCooldowns?: Record<string, number>;
+  learnedSpells?: string[]; // Known regardless of intelligence
+}
+
+// Anything a spell can be aimed at
+export interface SpellTarget {
+  id: string;
+  position: Coordinate;
+}
+
+export type SpellFailure =
+  | 'unknown_spell'
+  | 'not_learned'
+  | 'insufficient_mana'
+  | 'on_cooldown'
+  | 'no_target'
+  | 'out_of_range'
+  | 'no_line_of_sight';
+
+export type LineOfSightCheck = (from: Coordinate, to: Coordinate) => boolean;
+
+export interface SpellTargeting<T extends SpellTarget> {
+  targets: T[]; // Empty for spells on the caster
+  center?: Coordinate; // Where an area spell lands
+  failure?: SpellFailure;
+}
+
+const SPELL_KINDS: ReadonlyArray<SpellKind> = ['damage', 'heal', 'area', 'buff'];
+
+// Spell definitions and the rules for learning, paying for and aiming them
+export class Spellbook {
+  private spells: Map<string, SpellDefinition>;
+
+  constructor(data: SpellbookData) {
+    this.spells = loadEntries(data, { key: 'spells', kind: 'spell', code: 'INVALID_SPELLS' },
+      spell => this.validateSpell(spell));
+  }
+
+  private validateSpell(spell: SpellDefinition): void {
+    const numbers = [spell.minIntelligence, spell.manaCost, spell.cooldown, spell.range, spell.power, spell.scaling];
+
+    if (!SPELL_KINDS.includes(spell.kind)) {
+      throw new GameError(`Unknown kind for spell: ${spell.id}`, 'INVALID_SPELLS');
+    }
+    if (numbers.some(value => typeof value !== 'number' || value < 0)) {
+      throw new GameError(`Invalid numbers for spell: ${spell.id}`, 'INVALID_SPELLS');
+    }
+    if ((spell.kind === 'damage' || spell.kind === 'area') && spell.range < 1) {
+      throw new GameError(`Offensive spell needs a range: ${spell.id}`, 'INVALID_SPELLS');
+    }
+    if (spell.kind === 'area' && !(typeof spell.radius === 'number' && spell.radius >= 0)) {
+      throw new GameError(`Area spell needs a radius: ${spell.id}`, 'INVALID_SPELLS');
+    }
+    const effect = spell.effect;
+    if (effect && (!statusEffects.isKnownType(effect.type) || effect.duration < 1)) {
+      throw new GameError(`Invalid effect for spell: ${spell.id}`, 'INVALID_SPELLS');
+    }
+    if (spell.kind === 'buff' && !effect) {
+      throw new GameError(`Buff spell needs an effect: ${spell.id}`, 'INVALID_SPELLS');
+    }
+  }
+
+  getSpell(id: string): SpellDefinition | undefined {
+    return this.spells.get(id);
+  }
+
+  getSpells(): SpellDefinition[] {
+    return Array.from(this.spells.values());
+  }
+
+  // Spells a caster with this much intelligence knows, plus any learned otherwise, easiest first
+  getKnownSpells(intelligence: number, learnedSpells: readonly string[] = []): SpellDefinition[] {
+    return this.getSpells()
+      .filter(spell => this.knows(spell, intelligence, learnedSpells))
+      .sort((a, b) => a.minIntelligence - b.minIntelligence);
+  }
+
+  // Known spells the caster has the mana for and that are off cooldown
+  getCastableSpells(caster: SpellCaster): SpellDefinition[] {
+    return this.getKnownSpells(caster.stats.intelligence, caster.learnedSpells)
+      .filter(spell => this.checkCast(caster, spell.id) === null);
+  }
+
+  private knows(spell: SpellDefinition, intelligence: number, learnedSpells: readonly string[]): boolean {
+    return learnedSpells.includes(spell.id) || (!spell.grantedOnly && intelligence >= spell.minIntelligence);
+  }
+
+  // Why the caster cannot cast the spell right now, or null if they can
+  checkCast(caster: SpellCaster, spellId: string): SpellFailure | null {
+    const spell = this.spells.get(spellId);
+    if (!spell) {
+      return 'unknown_spell';
+    }
+    if (!this.knows(spell, caster.stats.intelligence, caster.learnedSpells ?? [])) {
+      return 'not_learned';
+    }
+    if ((caster.mana ?? 0) < spell.manaCost) {
+      return 'insufficient_mana';
+    }
+    if ((caster.spellCooldowns?.[spell.id] ?? 0) > 0) {
+      return 'on_cooldown';
+    }
+    return null;
+  }
+
+  // Damage or healing of a spell at the caster's intelligence
+  getPower(spell: SpellDefinition, intelligence: number): number {
+    return Math.round(spell.power + spell.scaling * intelligence);
+  }
+
+  // Resolve what an offensive spell hits. The target is an enemy id or, for area spells, a tile;
+  // without one the nearest candidate in range and in sight is picked.
+  selectTargets<T extends SpellTarget>(
+    caster: SpellCaster,
+    spell: SpellDefinition,
+    target: Coordinate | string | undefined,
+    candidates: T[],
+    hasLineOfSight: LineOfSightCheck
+  ): SpellTargeting<T> {
+    if (spell.kind === 'heal' || spell.kind === 'buff') {
+      return { targets: [] };
+    }
+
+    const inReach = (position: Coordinate) =>
+      getDistance(caster.position, position) <= spell.range && hasLineOfSight(caster.position, position);
+
+    let center: Coordinate | undefined;
+    if (typeof target === 'string') {
+      center = candidates.find(candidate => candidate.id === target)?.position;
+    } else if (target && spell.kind === 'area') {
+      center = target;
+    } else if (target) {
+      center = candidates.find(candidate => candidate.position.x === target.x && candidate.position.y === target.y)?.position;
+    } else {
+      center = candidates
+        .filter(candidate => inReach(candidate.position))
+        .sort((a, b) => getDistance(caster.position, a.position) - getDistance(caster.position, b.position))[0]?.position;
+    }
+
+    if (!center) {
+      return { targets: [], failure: 'no_target' };
+    }
+    if (getDistance(caster.position, center) > spell.range) {
+      return { targets: [], failure: 'out_of_range' };
+    }
+    if (!hasLineOfSight(caster.position, center)) {
+      return { targets: [], failure: 'no_line_of_sight' };
+    }
+
+    const radius = spell.kind === 'area' ? spell.radius ?? 0 : 0;
+    const targets = candidates.filter(candidate => getDistance(candidate.position, center!) <= radius);
+    return targets.length > 0 ? { targets, center } : { targets, center, failure: 'no_target' };
+  }
+
+  // Pay the mana and start the cooldown
+  beginCast(caster: SpellCaster, spell: SpellDefinition): void {
+    caster.mana = Math.max(0, (caster.mana ?? 0) - spell.manaCost);
+    if (spell.cooldown > 0) {
+      caster.spellCooldowns = { ...caster.spellCooldowns, [spell.id]: spell.cooldown };
+    }
+  }
+
+  // Count every cooldown down by one turn
+  tickCooldowns(caster: SpellCaster): void {
+    if (!caster.spellCooldowns) {
+      return;
+    }
+
+    const cooldowns: Record<string, number> = {};
+    for (const [id, turns] of Object.entries(caster.spellCooldowns)) {
+      if (turns > 1) {
+        cooldowns[id] = turns - 1;
+      }
+    }
+    caster.spellCooldowns = cooldowns;
+  }
+
+  // Give back mana, up to the caster's maximum
+  restoreMana(caster: SpellCaster, amount: number): void {
+    caster.mana = Math.min(caster.maxMana ?? 0, (caster.mana ?? 0) + Math.max(0, amount));
+  }
+}
+
+// Spellbook loaded from the bundled data file
+export const defaultSpellbook = new Spellbook(spellData as unknown as SpellbookData);
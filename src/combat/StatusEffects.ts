@@ -0,0 +1,150 @@
+import { StatusEffect, StatusEffectApplication, StatusEffectType } from '../types/GameTypes';
+
+// Anything that can carry status effects: the player object, PlayerCharacter or Enemy
+export interface StatusEffectTarget {
+  health: number;
+  maxHealth: number;
+  statusEffects?: StatusEffect[];
+}
+
+export interface StatusTickResult {
+  damage: number;
+  healing: number;
+  skipTurn: boolean;
+  expired: StatusEffectType[];
+}
+
+interface StatusEffectDefinition {
+  // stack: add a stack (up to maxStacks) and refresh the duration
+  // refresh: keep one instance with the longest duration and strongest potency
+  // extend: add the new duration to the remaining one
+  stacking: 'stack' | 'refresh' | 'extend';
+  maxStacks: number;
+  attackModifier?: number; // Multiplied by potency and stacks
+  defenseModifier?: number;
+  damagePerTurn?: boolean;
+  healPerTurn?: boolean;
+  preventsAction?: boolean;
+}
+
+const STATUS_EFFECT_DEFINITIONS: Record<StatusEffectType, StatusEffectDefinition> = {
+  poison: { stacking: 'stack', maxStacks: 5, damagePerTurn: true },
+  stun: { stacking: 'refresh', maxStacks: 1, preventsAction: true },
+  strength_boost: { stacking: 'refresh', maxStacks: 1, attackModifier: 1 },
+  defense_boost: { stacking: 'refresh', maxStacks: 1, defenseModifier: 1 },
+  weakness: { stacking: 'refresh', maxStacks: 1, attackModifier: -1 },
+  regeneration: { stacking: 'extend', maxStacks: 1, healPerTurn: true }
+};
+
+// Applies, ticks and expires timed status effects
+export class StatusEffectSystem {
+  // Whether data such as talents or equipment names an effect that exists
+  isKnownType(type: string): type is StatusEffectType {
+    return Object.prototype.hasOwnProperty.call(STATUS_EFFECT_DEFINITIONS, type);
+  }
+
+  // Apply an effect following its stacking rule
+  apply(target: StatusEffectTarget, application: StatusEffectApplication): StatusEffect {
+    const effects = this.getEffects(target);
+    const definition = STATUS_EFFECT_DEFINITIONS[application.type];
+    const existing = effects.find(effect => effect.type === application.type);
+
+    if (!existing) {
+      const effect: StatusEffect = { ...application, stacks: 1 };
+      effects.push(effect);
+      return effect;
+    }
+
+    switch (definition.stacking) {
+      case 'stack':
+        existing.stacks = Math.min(definition.maxStacks, existing.stacks + 1);
+        existing.duration = Math.max(existing.duration, application.duration);
+        existing.potency = Math.max(existing.potency, application.potency);
+        break;
+      case 'refresh':
+        existing.duration = Math.max(existing.duration, application.duration);
+        existing.potency = Math.max(existing.potency, application.potency);
+        break;
+      case 'extend':
+        existing.duration += application.duration;
+        break;
+    }
+
+    if (application.source) {
+      existing.source = application.source;
+    }
+    return existing;
+  }
+
+  // Turn start hook: damage over time and stuns
+  onTurnStart(target: StatusEffectTarget): StatusTickResult {
+    const result: StatusTickResult = { damage: 0, healing: 0, skipTurn: false, expired: [] };
+
+    for (const effect of this.getEffects(target)) {
+      const definition = STATUS_EFFECT_DEFINITIONS[effect.type];
+      if (definition.damagePerTurn) {
+        result.damage += effect.potency * effect.stacks;
+      }
+      if (definition.preventsAction) {
+        result.skipTurn = true;
+      }
+    }
+
+    target.health = Math.max(0, target.health - result.damage);
+    return result;
+  }
+
+  // Turn end hook: healing over time, then count down and drop expired effects
+  onTurnEnd(target: StatusEffectTarget): StatusTickResult {
+    const result: StatusTickResult = { damage: 0, healing: 0, skipTurn: false, expired: [] };
+    const effects = this.getEffects(target);
+
+    for (const effect of effects) {
+      if (STATUS_EFFECT_DEFINITIONS[effect.type].healPerTurn && target.health > 0) {
+        result.healing += effect.potency * effect.stacks;
+      }
+      effect.duration--;
+    }
+
+    target.health = Math.min(target.maxHealth, target.health + result.healing);
+    result.expired = effects.filter(effect => effect.duration <= 0).map(effect => effect.type);
+    target.statusEffects = effects.filter(effect => effect.duration > 0);
+    return result;
+  }
+
+  getAttackModifier(target: StatusEffectTarget): number {
+    return this.sumModifier(target, 'attackModifier');
+  }
+
+  getDefenseModifier(target: StatusEffectTarget): number {
+    return this.sumModifier(target, 'defenseModifier');
+  }
+
+  hasEffect(target: StatusEffectTarget, type: StatusEffectType): boolean {
+    return this.getEffects(target).some(effect => effect.type === type);
+  }
+
+  // Remove every effect, e.g. once combat is over
+  clear(target: StatusEffectTarget): void {
+    target.statusEffects = [];
+  }
+
+  // Copy of the active effects for combat log snapshots
+  snapshot(target: StatusEffectTarget): StatusEffect[] {
+    return this.getEffects(target).map(effect => ({ ...effect }));
+  }
+
+  private sumModifier(target: StatusEffectTarget, key: 'attackModifier' | 'defenseModifier'): number {
+    return this.getEffects(target).reduce((total, effect) =>
+      total + (STATUS_EFFECT_DEFINITIONS[effect.type][key] ?? 0) * effect.potency * effect.stacks, 0);
+  }
+
+  private getEffects(target: StatusEffectTarget): StatusEffect[] {
+    if (!target.statusEffects) {
+      target.statusEffects = [];
+    }
+    return target.statusEffects;
+  }
+}
+
+export const statusEffects = new StatusEffectSystem();
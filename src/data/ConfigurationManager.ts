@@ -18,6 +18,7 @@ export interface GameConfiguration {
     autoSave: boolean;
     autoSaveInterval: number; // minutes
     combatSpeed: number;
+    carryWeight: boolean; // Carrying more than the player's capacity costs agility
   };
   audio: {
     masterVolume: number;
@@ -103,7 +104,8 @@ export class ConfigurationManager {
         difficulty: 'normal',
         autoSave: true,
         autoSaveInterval: 5, // 5 minutes
-        combatSpeed: 1.0
+        combatSpeed: 1.0,
+        carryWeight: true
       },
       audio: {
         masterVolume: 0.8,
@@ -0,0 +1,48 @@
+import { GameError } from '../utils/ErrorHandling';
+import { DATA_FILE_VERSION } from '../utils/Constants';
+
+// Checks every bundled JSON data file shares: a supported version, an array of entries,
+// and an id and name on each entry that no other entry uses
+
+export interface DataEntry {
+  id: string;
+  name: string;
+}
+
+export interface DataFileFormat {
+  key: string; // Property holding the entries, e.g. "enemies"
+  kind: string; // What one entry is called in errors, e.g. "bestiary entry"
+  code: string; // GameError code for anything wrong with the file
+}
+
+// Load a data file's entries by id, in file order. The loader's own checks run on each
+// entry with the entries before it, so an entry can refer back to earlier ones.
+export function loadEntries<T extends DataEntry>(
+  data: unknown,
+  format: DataFileFormat,
+  validate: (entry: T, loaded: ReadonlyMap<string, T>) => void = () => undefined
+): Map<string, T> {
+  const { key, kind, code } = format;
+  const file = data as Record<string, unknown> | null;
+  if (!file || file['version'] !== DATA_FILE_VERSION) {
+    throw new GameError(`Unsupported data version for ${key}: ${String(file?.['version'])}`, code);
+  }
+  const entries = file[key];
+  if (!Array.isArray(entries)) {
+    throw new GameError(`Data must contain a ${key} array`, code);
+  }
+
+  const loaded = new Map<string, T>();
+  for (const entry of entries as T[]) {
+    if (!entry?.id || !entry.name) {
+      throw new GameError(`${kind.charAt(0).toUpperCase()}${kind.slice(1)} is missing an id or name`, code);
+    }
+    if (loaded.has(entry.id)) {
+      throw new GameError(`Duplicate ${kind}: ${entry.id}`, code);
+    }
+    validate(entry, loaded);
+    loaded.set(entry.id, entry);
+  }
+
+  return loaded;
+}
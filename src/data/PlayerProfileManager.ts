@@ -219,6 +219,11 @@ export class PlayerProfileManager {
       throw new Error('Profile data corrupted: invalid statistics');
     }
 
+    // Profiles saved before character classes existed have none
+    if (data.characterClass !== undefined && typeof data.characterClass !== 'string') {
+      throw new Error('Profile data corrupted: invalid characterClass');
+    }
+
     // Validate dates
     try {
       new Date(data.createdAt);
@@ -303,17 +303,95 @@ export class SaveManager {
       throw new Error('Game state corrupted: invalid dungeon data');
     }
 
+    // Doors are optional for saves made before they existed
+    const doors = gameState.dungeon.doors;
+    if (doors !== undefined &&
+        (!Array.isArray(doors) || doors.some((door: any) =>
+          !door || !door.position || !['open', 'closed', 'locked'].includes(door.state)))) {
+      throw new Error('Game state corrupted: invalid door data');
+    }
+
+    // Traps are optional for saves made before they existed
+    const traps = gameState.dungeon.traps;
+    if (traps !== undefined &&
+        (!Array.isArray(traps) || traps.some((trap: any) =>
+          !trap || !trap.position || !['spike', 'poison_dart', 'teleport', 'alarm'].includes(trap.kind)))) {
+      throw new Error('Game state corrupted: invalid trap data');
+    }
+
+    // The layout is only recorded since alternative layouts were added
+    const layout = gameState.dungeon.layout;
+    if (layout !== undefined && !['rooms', 'caves', 'vaults'].includes(layout)) {
+      throw new Error('Game state corrupted: invalid dungeon layout');
+    }
+
     if (!gameState.player || typeof gameState.player !== 'object') {
       throw new Error('Game state corrupted: invalid player data');
     }
 
+    // Mana is optional for saves made before spells existed
+    const { mana, maxMana } = gameState.player;
+    if (mana !== undefined &&
+        (typeof mana !== 'number' || mana < 0 || (typeof maxMana === 'number' && mana > maxMana))) {
+      throw new Error('Game state corrupted: invalid mana data');
+    }
+
+    // Classes are optional for saves made before they existed
+    const { classId, learnedSpells } = gameState.player;
+    if ((classId !== undefined && typeof classId !== 'string') ||
+        (learnedSpells !== undefined &&
+          (!Array.isArray(learnedSpells) || learnedSpells.some((id: unknown) => typeof id !== 'string')))) {
+      throw new Error('Game state corrupted: invalid class data');
+    }
+
+    // So are talents
+    const { talentPoints, talents } = gameState.player;
+    if ((talentPoints !== undefined && (!Number.isInteger(talentPoints) || talentPoints < 0)) ||
+        (talents !== undefined &&
+          (typeof talents !== 'object' || talents === null ||
+            Object.values(talents).some((rank: unknown) => !Number.isInteger(rank) || (rank as number) < 1)))) {
+      throw new Error('Game state corrupted: invalid talent data');
+    }
+
+    // And discovered recipes
+    const { knownRecipes } = gameState.player;
+    if (knownRecipes !== undefined &&
+        (!Array.isArray(knownRecipes) || knownRecipes.some((id: unknown) => typeof id !== 'string'))) {
+      throw new Error('Game state corrupted: invalid recipe data');
+    }
+
     if (!Array.isArray(gameState.enemies)) {
       throw new Error('Game state corrupted: invalid enemies data');
     }
 
+    // Enemy AI state is optional for saves made before it was kept
+    const isCount = (value: unknown) => value === undefined || (Number.isInteger(value) && (value as number) >= 0);
+    if (gameState.enemies.some((enemy: any) =>
+      !enemy ||
+      (enemy.guardPosition !== undefined &&
+        (typeof enemy.guardPosition?.x !== 'number' || typeof enemy.guardPosition?.y !== 'number')) ||
+      !isCount(enemy.lostTrackTurns) || !isCount(enemy.abilityCooldown))) {
+      throw new Error('Game state corrupted: invalid enemy AI state');
+    }
+
     if (!Array.isArray(gameState.items)) {
       throw new Error('Game state corrupted: invalid items data');
     }
+
+    // Floor is optional for saves made before multi-floor dungeons
+    if (gameState.floor !== undefined &&
+        (!Number.isInteger(gameState.floor) || gameState.floor < 1)) {
+      throw new Error('Game state corrupted: invalid floor data');
+    }
+
+    // Fog of war is optional for saves made before it existed
+    for (const field of ['visibleTiles', 'exploredTiles']) {
+      const tiles = gameState[field];
+      if (tiles !== undefined &&
+          (!Array.isArray(tiles) || tiles.some((key: unknown) => typeof key !== 'string'))) {
+        throw new Error(`Game state corrupted: invalid ${field} data`);
+      }
+    }
   }
 
   /**
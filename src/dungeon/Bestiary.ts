@@ -0,0 +1,142 @@
+import { Enemy, EnemyAbility } from '../types/GameTypes';
+import { GameError } from '../utils/ErrorHandling';
+import { RandomSource } from '../utils/Random';
+import { loadEntries } from '../data/DataFile';
+import { statusEffects } from '../combat/StatusEffects';
+import bestiaryData from '../data/bestiary.json';
+
+// Shape of src/data/bestiary.json, shared with the server's dungeon generator
+
+export interface BestiaryEntry {
+  id: string;
+  name: string;
+  stats: {
+    health: number;
+    attackPower: number;
+    defense: number;
+    agility?: number; // Combat initiative, the engine default when omitted
+  };
+  aiType: Enemy['aiType'];
+  detectionRange: number;
+  attackRange: number;
+  experience: number;
+  boss?: boolean;
+  ability?: EnemyAbility;
+  spawn: {
+    minDepth: number;
+    maxDepth?: number; // Unbounded when omitted
+    weight: number; // Relative spawn chance among eligible entries
+  };
+  gold: [number, number]; // Inclusive min/max carried by the enemy
+  lootTable: string; // Loot table rolled when the enemy is defeated
+}
+
+export interface BestiaryData {
+  version: number;
+  enemies: BestiaryEntry[];
+}
+
+const AI_TYPES: ReadonlyArray<Enemy['aiType']> = ['aggressive', 'defensive', 'patrol', 'guard', 'ranged'];
+
+// Enemy definitions and depth-weighted spawn selection
+export class Bestiary {
+  private entries: Map<string, BestiaryEntry>;
+
+  constructor(data: BestiaryData) {
+    this.entries = loadEntries(data, { key: 'enemies', kind: 'bestiary entry', code: 'INVALID_BESTIARY' },
+      entry => this.validateEntry(entry));
+
+    if (!this.getEntries().some(entry => !entry.boss)) {
+      throw new GameError('Bestiary needs at least one regular enemy', 'INVALID_BESTIARY');
+    }
+  }
+
+  private validateEntry(entry: BestiaryEntry): void {
+    const { stats, spawn } = entry;
+    const numbers = [
+      stats?.health, stats?.attackPower, stats?.defense,
+      entry.detectionRange, entry.attackRange, entry.experience
+    ];
+
+    if (numbers.some(value => typeof value !== 'number' || value < 0) || stats.health <= 0) {
+      throw new GameError(`Invalid stats for bestiary entry: ${entry.id}`, 'INVALID_BESTIARY');
+    }
+    if (!AI_TYPES.includes(entry.aiType)) {
+      throw new GameError(`Unknown aiType for bestiary entry: ${entry.id}`, 'INVALID_BESTIARY');
+    }
+    if (!spawn || spawn.minDepth < 1 || spawn.weight <= 0 ||
+        (spawn.maxDepth !== undefined && spawn.maxDepth < spawn.minDepth)) {
+      throw new GameError(`Invalid spawn rules for bestiary entry: ${entry.id}`, 'INVALID_BESTIARY');
+    }
+    const effect = entry.ability?.effect;
+    if (effect && (!statusEffects.isKnownType(effect.type) || effect.duration < 1)) {
+      throw new GameError(`Invalid ability effect for bestiary entry: ${entry.id}`, 'INVALID_BESTIARY');
+    }
+    const healing = entry.ability?.healing;
+    if (healing !== undefined && (typeof healing !== 'number' || healing <= 0)) {
+      throw new GameError(`Invalid ability healing for bestiary entry: ${entry.id}`, 'INVALID_BESTIARY');
+    }
+    if (!Array.isArray(entry.gold) || entry.gold.length !== 2 || !entry.lootTable) {
+      throw new GameError(`Invalid loot for bestiary entry: ${entry.id}`, 'INVALID_BESTIARY');
+    }
+  }
+
+  getEntry(id: string): BestiaryEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  getEntries(): BestiaryEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  // Entries allowed to spawn on the given floor
+  getSpawnable(depth: number, boss: boolean = false): BestiaryEntry[] {
+    return this.getEntries().filter(entry =>
+      !!entry.boss === boss &&
+      depth >= entry.spawn.minDepth &&
+      (entry.spawn.maxDepth === undefined || depth <= entry.spawn.maxDepth)
+    );
+  }
+
+  // Weighted pick of a regular enemy for the floor
+  pickEnemy(depth: number, random: RandomSource): BestiaryEntry {
+    return this.pickWeighted(this.getSpawnable(depth), random) ?? this.getDeepestFallback(false)!;
+  }
+
+  // Weighted pick of a boss for the floor, null when the bestiary has no bosses
+  pickBoss(depth: number, random: RandomSource): BestiaryEntry | null {
+    return this.pickWeighted(this.getSpawnable(depth, true), random) ?? this.getDeepestFallback(true);
+  }
+
+  private pickWeighted(candidates: BestiaryEntry[], random: RandomSource): BestiaryEntry | null {
+    const totalWeight = candidates.reduce((sum, entry) => sum + entry.spawn.weight, 0);
+    if (candidates.length === 0 || totalWeight <= 0) {
+      return null;
+    }
+
+    let roll = random.next() * totalWeight;
+    for (const entry of candidates) {
+      roll -= entry.spawn.weight;
+      if (roll < 0) {
+        return entry;
+      }
+    }
+
+    return candidates[candidates.length - 1]!;
+  }
+
+  // When nothing is listed for a floor, use the entry meant for the deepest floors
+  private getDeepestFallback(boss: boolean): BestiaryEntry | null {
+    const entries = this.getEntries().filter(entry => !!entry.boss === boss);
+    if (entries.length === 0) {
+      return null;
+    }
+
+    return entries.reduce((deepest, entry) =>
+      entry.spawn.minDepth > deepest.spawn.minDepth ? entry : deepest
+    );
+  }
+}
+
+// Bestiary loaded from the bundled data file
+export const defaultBestiary = new Bestiary(bestiaryData as unknown as BestiaryData);
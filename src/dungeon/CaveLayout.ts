@@ -0,0 +1,204 @@
+import { Coordinate, Corridor, Room } from '../types/GameTypes';
+import { RandomSource } from '../utils/Random';
+import { CAVE_WALL_CHANCE, CAVE_SMOOTHING_STEPS, CAVE_MIN_OPEN_RATIO, ROOM_SPACING } from '../utils/Constants';
+import { FloorPlan, LayoutConfig, createRoom, getRoomCenter, linkRooms, roomContains, roomsOverlap } from './LayoutGenerator';
+import { RoomsLayout } from './RoomsLayout';
+import { findPath, getNeighbors } from './Pathfinding';
+import { tileKey } from './FieldOfView';
+
+const CAVE_ATTEMPTS = 5;
+const MIN_CHAMBER_SIZE = 3;
+const MAX_CHAMBER_SIZE = 7;
+
+// Cellular automata caves. Open pockets wide enough for a rectangle become chambers (the rooms)
+// and the twisting rock-bound floor around them becomes passages (the corridors).
+// Falls back to the classic rooms layout when the noise never grows a big enough cavern.
+export class CaveLayout extends RoomsLayout {
+  override generate(config: LayoutConfig, random: RandomSource): FloorPlan {
+    for (let attempt = 0; attempt < CAVE_ATTEMPTS; attempt++) {
+      const open = this.growCavern(config, random);
+      const openTiles = open.flat().filter(Boolean).length;
+      if (openTiles < (config.width - 2) * (config.height - 2) * CAVE_MIN_OPEN_RATIO) {
+        continue;
+      }
+
+      const rooms = this.carveChambers(open, config, random);
+      if (rooms.length > 0) {
+        return { rooms, corridors: this.carvePassages(open, rooms, config, random), gated: false };
+      }
+    }
+
+    return super.generate(config, random);
+  }
+
+  // Random rock, smoothed into caverns, keeping only the largest one so everything is connected
+  private growCavern(config: LayoutConfig, random: RandomSource): boolean[][] {
+    const { width, height } = config;
+    const isBorder = (x: number, y: number) => x === 0 || y === 0 || x === width - 1 || y === height - 1;
+
+    let open = Array.from({ length: height }, (_, y) =>
+      Array.from({ length: width }, (_, x) => !isBorder(x, y) && !random.chance(CAVE_WALL_CHANCE))
+    );
+
+    for (let step = 0; step < CAVE_SMOOTHING_STEPS; step++) {
+      open = open.map((row, y) => row.map((cell, x) => {
+        if (isBorder(x, y)) return false;
+
+        let walls = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            if ((dx !== 0 || dy !== 0) && !open[y + dy]?.[x + dx]) walls++;
+          }
+        }
+        return walls >= 5 ? false : walls < 4 ? true : cell;
+      }));
+    }
+
+    this.keepLargestRegion(open);
+    return open;
+  }
+
+  private keepLargestRegion(open: boolean[][]): void {
+    const regionOf = new Map<string, number>();
+    const sizes: number[] = [];
+
+    open.forEach((row, y) => row.forEach((cell, x) => {
+      if (!cell || regionOf.has(tileKey({ x, y }))) return;
+
+      const region = sizes.length;
+      const queue: Coordinate[] = [{ x, y }];
+      regionOf.set(tileKey({ x, y }), region);
+      sizes.push(0);
+
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        sizes[region]!++;
+        for (const next of getNeighbors(current)) {
+          if (open[next.y]?.[next.x] && !regionOf.has(tileKey(next))) {
+            regionOf.set(tileKey(next), region);
+            queue.push(next);
+          }
+        }
+      }
+    }));
+
+    const largest = sizes.indexOf(Math.max(...sizes));
+    open.forEach((row, y) => row.forEach((cell, x) => {
+      if (cell && regionOf.get(tileKey({ x, y })) !== largest) {
+        row[x] = false;
+      }
+    }));
+  }
+
+  // Fit rectangular chambers into the open cavern, roomiest first
+  private carveChambers(open: boolean[][], config: LayoutConfig, random: RandomSource): Room[] {
+    const rooms: Room[] = [];
+    const target = random.nextInt(config.minRooms, config.maxRooms);
+
+    // Summed-area table so any rectangle can be checked for rock in constant time
+    const sums = Array.from({ length: config.height + 1 }, () => new Array<number>(config.width + 1).fill(0));
+    for (let y = 0; y < config.height; y++) {
+      for (let x = 0; x < config.width; x++) {
+        sums[y + 1]![x + 1] = (open[y]![x] ? 1 : 0) + sums[y]![x + 1]! + sums[y + 1]![x]! - sums[y]![x]!;
+      }
+    }
+    const isOpen = (x: number, y: number, w: number, h: number) =>
+      sums[y + h]![x + w]! - sums[y]![x + w]! - sums[y + h]![x]! + sums[y]![x]! === w * h;
+
+    while (rooms.length < target) {
+      // Cap each chamber at a random size so they do not all come out the same
+      const maxSize = random.nextInt(MIN_CHAMBER_SIZE + 1, MAX_CHAMBER_SIZE);
+      let placed: Room | null = null;
+
+      for (const [w, h] of this.chamberSizes(maxSize)) {
+        const candidates: Room[] = [];
+        for (let y = 1; y + h < config.height; y++) {
+          for (let x = 1; x + w < config.width; x++) {
+            const room = createRoom(`room_${rooms.length}`, x, y, w, h);
+            if (isOpen(x, y, w, h) && !rooms.some(other => roomsOverlap(room, other, ROOM_SPACING))) {
+              candidates.push(room);
+            }
+          }
+        }
+
+        if (candidates.length > 0) {
+          placed = random.pick(candidates);
+          break;
+        }
+      }
+
+      if (!placed) {
+        break; // No pocket left that fits even the smallest chamber
+      }
+      placed.type = rooms.length === 0 ? 'normal' : (random.chance(0.1) ? 'treasure' : 'normal');
+      rooms.push(placed);
+    }
+
+    return rooms;
+  }
+
+  // Chamber sizes up to the cap, largest area first
+  private chamberSizes(maxSize: number): Array<[number, number]> {
+    const sizes: Array<[number, number]> = [];
+    for (let w = MIN_CHAMBER_SIZE; w <= maxSize; w++) {
+      for (let h = MIN_CHAMBER_SIZE; h <= maxSize; h++) {
+        sizes.push([w, h]);
+      }
+    }
+    return sizes.sort((a, b) => b[0] * b[1] - a[0] * a[1] || b[0] - a[0]);
+  }
+
+  // Tunnels along the shortest cave route between linked chambers, then the leftover
+  // nooks as passages belonging to the chamber or tunnel they open onto
+  private carvePassages(open: boolean[][], rooms: Room[], config: LayoutConfig, random: RandomSource): Corridor[] {
+    const isOpen = (position: Coordinate) => open[position.y]?.[position.x] === true;
+    const inChamber = (position: Coordinate) => rooms.some(room => roomContains(room, position));
+    const owners = new Map<string, string>();
+    const corridors: Corridor[] = [];
+
+    for (const [from, to] of this.selectConnections(rooms, random)) {
+      const route = findPath(getRoomCenter(from), getRoomCenter(to), isOpen, { maxNodes: config.width * config.height }) ?? [];
+      const corridor: Corridor = {
+        id: `corridor_${corridors.length}`,
+        startRoom: from.id,
+        endRoom: to.id,
+        path: route.filter(position => !inChamber(position))
+      };
+      corridor.path.forEach(position => owners.set(tileKey(position), from.id));
+      linkRooms(corridor, rooms);
+      corridors.push(corridor);
+    }
+
+    const claimed = new Set(owners.keys());
+    open.forEach((row, y) => row.forEach((cell, x) => {
+      const start = { x, y };
+      if (!cell || inChamber(start) || claimed.has(tileKey(start))) return;
+
+      // Flood the nook and note whichever chamber or tunnel it opens onto
+      const nook: Coordinate[] = [];
+      const queue = [start];
+      let owner: string | undefined;
+      claimed.add(tileKey(start));
+
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        nook.push(current);
+        for (const next of getNeighbors(current)) {
+          if (!isOpen(next)) continue;
+
+          owner ??= rooms.find(room => roomContains(room, next))?.id ?? owners.get(tileKey(next));
+          if (!inChamber(next) && !claimed.has(tileKey(next))) {
+            claimed.add(tileKey(next));
+            queue.push(next);
+          }
+        }
+      }
+
+      if (owner) {
+        corridors.push({ id: `corridor_${corridors.length}`, startRoom: owner, endRoom: owner, path: nook });
+      }
+    }));
+
+    return corridors;
+  }
+}
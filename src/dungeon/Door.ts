@@ -0,0 +1,11 @@
+import { Coordinate, Door, DungeonMap } from '../types/GameTypes';
+
+// Find the door on a tile, if any
+export function findDoorAt(dungeon: DungeonMap, position: Coordinate): Door | undefined {
+  return dungeon.doors?.find(door => door.position.x === position.x && door.position.y === position.y);
+}
+
+// Closed and locked doors block movement and sight
+export function blocksPassage(door: Door | undefined): boolean {
+  return !!door && door.state !== 'open';
+}
@@ -1,172 +1,477 @@
-import { DungeonMap, Room, Corridor, Item, Enemy, Coordinate } from '../types/GameTypes';
+import { DungeonMap, DungeonLayout, Room, Corridor, Item, Enemy, Coordinate, Door, Trap, TrapKind } from '../types/GameTypes';
+import { RandomSource, RandomFactory, SeededRandom, createSeededRandom } from '../utils/Random';
+import { Bestiary, BestiaryEntry, defaultBestiary } from './Bestiary';
+import { LootGenerator } from './LootGenerator';
+import { LayoutGenerator, getRoomCenter, roomContains } from './LayoutGenerator';
+import { RoomsLayout } from './RoomsLayout';
+import { CaveLayout } from './CaveLayout';
+import { VaultLayout } from './VaultLayout';
+import { DungeonValidator, ValidationIssue } from './DungeonValidator';
+import { GameError } from '../utils/ErrorHandling';
+import {
+  MAX_DUNGEON_DEPTH,
+  DUNGEON_GENERATION_ATTEMPTS,
+  DEPTH_ENEMY_SCALING,
+  SECRET_ROOM_CHANCE,
+  DOOR_CHANCE,
+  LOCKED_DOOR_CHANCE,
+  TRAP_CHANCE
+} from '../utils/Constants';
 
 export interface DungeonConfig {
   width: number;
   height: number;
   minRooms: number;
   maxRooms: number;
+  seed?: number; // Same seed always produces the same dungeon
+  depth?: number; // 1-based floor number, scales enemies and loot (defaults to 1)
+  layout?: DungeonLayout; // Layout algorithm for every floor (defaults to rooms)
+  floorLayouts?: Partial<Record<number, DungeonLayout>>; // Per-floor overrides, keyed by depth
 }
+const TRAP_KINDS: TrapKind[] = ['spike', 'spike', 'poison_dart', 'poison_dart', 'teleport', 'alarm'];
 
 // Dungeon generation and management
 export class DungeonGenerator {
+  private createRandom: RandomFactory;
+  private bestiary: Bestiary;
+  private lootGenerator: LootGenerator;
+  private layouts: Record<DungeonLayout, LayoutGenerator>;
+  private validator = new DungeonValidator();
+
+  constructor(
+    createRandom: RandomFactory = createSeededRandom,
+    bestiary: Bestiary = defaultBestiary,
+    lootGenerator: LootGenerator = new LootGenerator(),
+    layouts: Partial<Record<DungeonLayout, LayoutGenerator>> = {}
+  ) {
+    this.createRandom = createRandom;
+    this.bestiary = bestiary;
+    this.lootGenerator = lootGenerator;
+    this.layouts = {
+      rooms: new RoomsLayout(),
+      caves: new CaveLayout(),
+      vaults: new VaultLayout(),
+      ...layouts
+    };
+  }
+
+  // Generate a floor that passes validation. Small problems are repaired in place; anything
+  // else rerolls the floor from the same random stream, so a seed still gives one dungeon.
   generate(config: DungeonConfig): DungeonMap {
-    const rooms = this.generateRooms(config);
-    const corridors = this.generateCorridors(rooms);
+    const seed = config.seed ?? SeededRandom.generateSeed();
+    const random = this.createRandom(seed);
+    const depth = Math.max(1, config.depth ?? 1);
+    const layout = this.selectLayout(config, depth);
+    let issues: ValidationIssue[] = [];
+
+    for (let attempt = 0; attempt < DUNGEON_GENERATION_ATTEMPTS; attempt++) {
+      const dungeon = this.generateFloor(config, seed, depth, layout, random);
+      let report = this.validator.validate(dungeon);
+      if (!report.valid && this.repair(dungeon, report.issues)) {
+        report = this.validator.validate(dungeon);
+      }
+      if (report.valid) {
+        return dungeon;
+      }
+      issues = report.issues;
+    }
+
+    throw new GameError(
+      `Failed to generate a valid dungeon: ${issues.map(issue => issue.message).join('; ')}`,
+      'DUNGEON_GENERATION_FAILED',
+      { seed, layout, issues }
+    );
+  }
+
+  private generateFloor(config: DungeonConfig, seed: number, depth: number, layout: DungeonLayout, random: RandomSource): DungeonMap {
+    const { rooms, corridors, gated } = this.layouts[layout].generate({ ...config, depth }, random);
+    const farthestRoom = this.findFarthestRoom(rooms);
+    this.assignSpecialRooms(rooms, corridors, farthestRoom, gated, random);
     
     // Add interactive elements (items and enemies) to rooms
-    this.addInteractiveElements(rooms);
+    this.addInteractiveElements(rooms, random, depth);
+
+    // Hang doors on the corridor ends, then lock some and hide their keys where the player can reach them.
+    // Open layouts such as caves have too many ways around a door for it to matter.
+    const doors = gated ? this.placeDoors(rooms, corridors, random) : [];
+    this.lockDoors(rooms, corridors, doors, random);
+
+    const traps = this.placeTraps(rooms, random, depth);
     
-    return {
+    const dungeon: DungeonMap = {
       rooms,
       corridors,
       width: config.width,
-      height: config.height
+      height: config.height,
+      seed,
+      layout,
+      doors,
+      traps
     };
+
+    // The deepest floor has no way further down
+    if (depth < MAX_DUNGEON_DEPTH) {
+      dungeon.stairsDown = this.placeStairs(rooms[0]!, farthestRoom);
+    }
+
+    return dungeon;
   }
 
-  private generateRooms(config: DungeonConfig): Room[] {
-    const rooms: Room[] = [];
-    const numRooms = Math.max(1, Math.min(config.maxRooms, 
-      Math.floor(Math.random() * (config.maxRooms - config.minRooms + 1)) + config.minRooms));
-    
-    for (let i = 0; i < numRooms; i++) {
-      // Calculate maximum room size that fits in the dungeon
-      const maxRoomWidth = Math.min(9, Math.floor(config.width / 2));
-      const maxRoomHeight = Math.min(9, Math.floor(config.height / 2));
-      const minRoomSize = Math.min(4, Math.floor(Math.min(config.width, config.height) / 3));
-      
-      const roomWidth = Math.floor(Math.random() * (maxRoomWidth - minRoomSize + 1)) + minRoomSize;
-      const roomHeight = Math.floor(Math.random() * (maxRoomHeight - minRoomSize + 1)) + minRoomSize;
-      
-      const room: Room = {
-        id: `room_${i}`,
-        position: {
-          x: Math.floor(Math.random() * (config.width - roomWidth - 1)) + 1,
-          y: Math.floor(Math.random() * (config.height - roomHeight - 1)) + 1
-        },
-        width: roomWidth,
-        height: roomHeight,
-        type: i === 0 ? 'normal' : (Math.random() < 0.1 ? 'treasure' : 'normal'),
-        items: [],
-        enemies: [],
-        connections: []
+  // Move whatever was dropped on the player spawn to the first free tile, and drop traps instead.
+  // The stairs get first pick. Items start looking in the player's own room, enemies away from it
+  // so the first step is not a fight. Ordinary items and enemies that find no room on a cramped
+  // floor are left out, but a boss or key that cannot move rerolls the floor. Returns whether
+  // every issue was one this can fix.
+  private repair(dungeon: DungeonMap, issues: ValidationIssue[]): boolean {
+    if (issues.some(issue => issue.type !== 'spawn_blocked')) {
+      return false;
+    }
+
+    const spawn = getRoomCenter(dungeon.rooms[0]!);
+    const isAt = (position: Coordinate, tile: Coordinate) => position.x === tile.x && position.y === tile.y;
+    const taken = () => [
+      spawn,
+      ...dungeon.rooms.flatMap(room => [...room.items, ...room.enemies]).map(entity => entity.position),
+      ...(dungeon.stairsDown ? [dungeon.stairsDown] : [])
+    ];
+    const moveOffSpawn = (entity: { position: Coordinate }, avoid?: Room): boolean => {
+      if (!isAt(entity.position, spawn)) {
+        return true;
+      }
+      const free = this.findFreeTile(dungeon, taken(), avoid);
+      if (free) {
+        entity.position = free;
+      }
+      return free !== null;
+    };
+
+    if (dungeon.traps) {
+      dungeon.traps = dungeon.traps.filter(trap => !isAt(trap.position, spawn));
+    }
+    if (dungeon.stairsDown && isAt(dungeon.stairsDown, spawn)) {
+      const free = this.findFreeTile(dungeon, taken());
+      if (!free) {
+        return false;
+      }
+      dungeon.stairsDown = free;
+    }
+    for (const room of dungeon.rooms) {
+      const items = room.items.filter(item => moveOffSpawn(item));
+      const enemies = room.enemies.filter(enemy => moveOffSpawn(enemy, dungeon.rooms[0]));
+      if (room.items.some(item => item.type === 'key' && !items.includes(item)) ||
+          room.enemies.some(enemy => enemy.isBoss && !enemies.includes(enemy))) {
+        return false;
+      }
+      room.items = items;
+      room.enemies = enemies;
+    }
+
+    return true;
+  }
+
+  // First room tile, then open corridor tile, not taken by any of the given positions or a door.
+  // Tiles in the room to avoid come last.
+  private findFreeTile(dungeon: DungeonMap, taken: Coordinate[], avoid?: Room): Coordinate | null {
+    const roomTiles = dungeon.rooms.filter(room => room !== avoid).flatMap(room => this.getRoomTiles(room));
+    const corridorTiles = dungeon.corridors.filter(corridor => !corridor.hidden).flatMap(corridor => corridor.path);
+    const avoidedTiles = avoid ? this.getRoomTiles(avoid) : [];
+    const blocked = [...taken, ...(dungeon.doors ?? []).map(door => door.position)];
+
+    return [...roomTiles, ...corridorTiles, ...avoidedTiles].find(tile =>
+      !blocked.some(position => position.x === tile.x && position.y === tile.y)
+    ) ?? null;
+  }
+
+  private getRoomTiles(room: Room): Coordinate[] {
+    const tiles: Coordinate[] = [];
+    for (let y = room.position.y; y < room.position.y + room.height; y++) {
+      for (let x = room.position.x; x < room.position.x + room.width; x++) {
+        tiles.push({ x, y });
+      }
+    }
+    return tiles;
+  }
+
+  // Per-floor override first, then the layout for every floor
+  private selectLayout(config: DungeonConfig, depth: number): DungeonLayout {
+    return config.floorLayouts?.[depth] ?? config.layout ?? 'rooms';
+  }
+
+  // Find the room the most corridors away from the starting room
+  private findFarthestRoom(rooms: Room[]): Room {
+    const startRoom = rooms[0]!;
+    const hops = new Map<string, number>([[startRoom.id, 0]]);
+    const queue: Room[] = [startRoom];
+    let farthest = startRoom;
+
+    while (queue.length > 0) {
+      const room = queue.shift()!;
+      const roomHops = hops.get(room.id)!;
+
+      for (const neighborId of room.connections) {
+        const neighbor = rooms.find(r => r.id === neighborId);
+        if (!neighbor || hops.has(neighbor.id)) continue;
+
+        hops.set(neighbor.id, roomHops + 1);
+        queue.push(neighbor);
+        if (roomHops + 1 > hops.get(farthest.id)!) {
+          farthest = neighbor;
+        }
+      }
+    }
+
+    return farthest;
+  }
+
+  // Put the stairs in the farthest room, behind the boss
+  private placeStairs(startRoom: Room, farthest: Room): Coordinate {
+    // With a single room, use the corner opposite the player's spawn at the center
+    if (farthest === startRoom) {
+      return {
+        x: startRoom.position.x + startRoom.width - 1,
+        y: startRoom.position.y + startRoom.height - 1
       };
-      
-      // Ensure room fits within dungeon bounds
-      if (room.position.x + room.width < config.width && 
-          room.position.y + room.height < config.height) {
-        rooms.push(room);
+    }
+
+    return getRoomCenter(farthest);
+  }
+
+  // Turn the farthest room into the boss lair and sometimes hide a dead end behind a secret passage
+  private assignSpecialRooms(rooms: Room[], corridors: Corridor[], bossRoom: Room, gated: boolean, random: RandomSource): void {
+    const startRoom = rooms[0]!;
+    if (bossRoom === startRoom) {
+      return; // Never put the boss where the player spawns
+    }
+    bossRoom.type = 'boss';
+
+    if (!gated || !random.chance(SECRET_ROOM_CHANCE)) {
+      return;
+    }
+
+    // A room with a single corridor stays reachable only through that corridor once it is hidden
+    const candidates = rooms.filter(room =>
+      room !== startRoom && room !== bossRoom && room.connections.length === 1
+    );
+    if (candidates.length === 0) {
+      return;
+    }
+
+    const secretRoom = random.pick(candidates);
+    const passage = corridors.find(corridor => corridor.startRoom !== corridor.endRoom &&
+      (corridor.startRoom === secretRoom.id || corridor.endRoom === secretRoom.id)
+    );
+    if (passage) {
+      secretRoom.type = 'secret';
+      passage.hidden = true;
+      passage.discovered = false;
+    }
+  }
+
+  // Put doors where corridors meet rooms; boss and treasure rooms always get one so they can be locked
+  private placeDoors(rooms: Room[], corridors: Corridor[], random: RandomSource): Door[] {
+    const doors: Door[] = [];
+    const taken = new Set<string>();
+
+    for (const corridor of corridors) {
+      if (corridor.hidden) continue; // Secret passages stay open once found
+      if (corridor.startRoom === corridor.endRoom) continue; // Part of an irregular room's own shape
+
+      const ends: Array<[Coordinate | undefined, string]> = [
+        [corridor.path[0], corridor.startRoom],
+        [corridor.path[corridor.path.length - 1], corridor.endRoom]
+      ];
+
+      for (const [position, roomId] of ends) {
+        if (!position) continue;
+
+        const key = `${position.x},${position.y}`;
+        const room = rooms.find(r => r.id === roomId);
+        const special = room?.type === 'boss' || room?.type === 'treasure';
+        // A door shared with another corridor or inside a room would block more than its own passage
+        if (taken.has(key) ||
+            rooms.some(r => roomContains(r, position)) ||
+            corridors.some(other => other !== corridor &&
+              other.path.some(point => point.x === position.x && point.y === position.y))) {
+          continue;
+        }
+        if (!special && !random.chance(DOOR_CHANCE)) continue;
+
+        taken.add(key);
+        doors.push({
+          id: `door_${doors.length}`,
+          position: { ...position },
+          roomId,
+          corridorId: corridor.id,
+          state: 'closed'
+        });
       }
     }
-    
-    // Ensure we have at least one room
-    if (rooms.length === 0) {
-      const fallbackWidth = Math.min(5, config.width - 2);
-      const fallbackHeight = Math.min(5, config.height - 2);
-      rooms.push({
-        id: 'room_0',
-        position: { x: 1, y: 1 },
-        width: fallbackWidth,
-        height: fallbackHeight,
-        type: 'normal',
-        items: [],
-        enemies: [],
-        connections: []
-      });
+
+    return doors;
+  }
+
+  // Lock some doors into special rooms. Each key goes in a room reachable from the start
+  // without passing any locked door, so every lock can be opened before it is reached.
+  // A lock that would cut off a key placed for an earlier door stays closed instead.
+  private lockDoors(rooms: Room[], corridors: Corridor[], doors: Door[], random: RandomSource): void {
+    const candidates = doors.filter(door => {
+      const room = rooms.find(r => r.id === door.roomId);
+      return (room?.type === 'boss' || room?.type === 'treasure') && room !== rooms[0];
+    });
+    const placedKeyRooms: Room[] = [];
+
+    for (const door of candidates) {
+      if (!random.chance(LOCKED_DOOR_CHANCE)) continue;
+
+      door.state = 'locked';
+      const reachable = this.findReachableRooms(rooms, corridors, doors);
+      const keyRooms = rooms.filter(room => reachable.has(room.id));
+      if (keyRooms.length === 0 || placedKeyRooms.some(room => !reachable.has(room.id))) {
+        door.state = 'closed';
+        continue;
+      }
+
+      const keyRoom = random.pick(keyRooms);
+      const key: Item = {
+        id: `key_${door.id}`,
+        name: 'Iron Key',
+        type: 'key',
+        position: {
+          x: keyRoom.position.x + random.nextInt(0, keyRoom.width - 1),
+          y: keyRoom.position.y + random.nextInt(0, keyRoom.height - 1)
+        },
+        properties: { doorId: door.id }
+      };
+      keyRoom.items.push(key);
+      door.keyId = key.id;
+      placedKeyRooms.push(keyRoom);
     }
-    
-    return rooms;
   }
 
-  private generateCorridors(rooms: Room[]): Corridor[] {
-    const corridors: Corridor[] = [];
-    
-    // Connect each room to at least one other room
-    for (let i = 0; i < rooms.length - 1; i++) {
-      const startRoom = rooms[i];
-      const endRoom = rooms[i + 1];
-      
-      if (startRoom && endRoom) {
-        const corridor: Corridor = {
-          id: `corridor_${i}`,
-          startRoom: startRoom.id,
-          endRoom: endRoom.id,
-          path: this.generatePath(startRoom.position, endRoom.position)
-        };
-        
-        corridors.push(corridor);
+  // Rooms reachable from the start without passing a locked door or an undiscovered secret passage
+  private findReachableRooms(rooms: Room[], corridors: Corridor[], doors: Door[]): Set<string> {
+    const startRoom = rooms[0];
+    const reachable = new Set<string>(startRoom ? [startRoom.id] : []);
+    const queue = startRoom ? [startRoom.id] : [];
+
+    while (queue.length > 0) {
+      const roomId = queue.shift()!;
+
+      for (const corridor of corridors) {
+        if (corridor.hidden) continue;
+        if (doors.some(door => door.corridorId === corridor.id && door.state === 'locked')) continue;
+
+        const next = corridor.startRoom === roomId ? corridor.endRoom :
+                     corridor.endRoom === roomId ? corridor.startRoom : null;
+        if (next && !reachable.has(next)) {
+          reachable.add(next);
+          queue.push(next);
+        }
       }
     }
-    
-    // Ensure we have at least one corridor if we have multiple rooms
-    if (rooms.length > 1 && corridors.length === 0 && rooms[0] && rooms[1]) {
-      corridors.push({
-        id: 'corridor_0',
-        startRoom: rooms[0].id,
-        endRoom: rooms[1].id,
-        path: this.generatePath(rooms[0].position, rooms[1].position)
+
+    return reachable;
+  }
+
+  // Hide traps in some rooms, never in the starting room or under an item, enemy or room center
+  private placeTraps(rooms: Room[], random: RandomSource, depth: number): Trap[] {
+    const traps: Trap[] = [];
+
+    for (const room of rooms.slice(1)) {
+      if (!random.chance(TRAP_CHANCE)) continue;
+
+      const position = {
+        x: room.position.x + random.nextInt(0, room.width - 1),
+        y: room.position.y + random.nextInt(0, room.height - 1)
+      };
+      const center = getRoomCenter(room);
+      const occupied = [...room.items, ...room.enemies].some(entity =>
+        entity.position.x === position.x && entity.position.y === position.y
+      );
+      if (occupied || (position.x === center.x && position.y === center.y)) continue;
+
+      const kind = random.pick(TRAP_KINDS);
+      traps.push({
+        id: `trap_${traps.length}`,
+        kind,
+        position,
+        difficulty: 5 + depth + random.nextInt(0, 4),
+        damage: kind === 'spike' ? 8 + depth * 2 : kind === 'poison_dart' ? 3 + depth : 0,
+        detected: false,
+        disarmed: false
       });
     }
-    
-    return corridors;
+
+    return traps;
   }
 
-  private generatePath(start: Coordinate, end: Coordinate): Coordinate[] {
-    const path: Coordinate[] = [];
-    let current = { ...start };
-    
-    // Simple L-shaped path
-    while (current.x !== end.x) {
-      path.push({ ...current });
-      current.x += current.x < end.x ? 1 : -1;
+  // Build enemy data from a bestiary entry, scaled for the floor
+  private createEnemy(entry: BestiaryEntry, id: string, position: Coordinate, depth: number): Enemy {
+    const health = this.scaleForDepth(entry.stats.health, depth, DEPTH_ENEMY_SCALING);
+    const enemy: Enemy = {
+      id,
+      name: entry.name,
+      type: entry.id,
+      position,
+      health,
+      maxHealth: health,
+      attackPower: this.scaleForDepth(entry.stats.attackPower, depth, DEPTH_ENEMY_SCALING),
+      defense: this.scaleForDepth(entry.stats.defense, depth, DEPTH_ENEMY_SCALING),
+      aiType: entry.aiType,
+      detectionRange: entry.detectionRange,
+      attackRange: entry.attackRange,
+      experience: this.scaleForDepth(entry.experience, depth, DEPTH_ENEMY_SCALING)
+    };
+
+    if (entry.boss) {
+      enemy.isBoss = true;
     }
-    
-    while (current.y !== end.y) {
-      path.push({ ...current });
-      current.y += current.y < end.y ? 1 : -1;
+    if (entry.ability) {
+      enemy.ability = { ...entry.ability };
     }
-    
-    path.push({ ...end });
-    return path;
+    if (entry.stats.agility !== undefined) {
+      enemy.agility = entry.stats.agility;
+    }
+
+    return enemy;
   }
 
-  private addInteractiveElements(rooms: Room[]): void {
+  // Scale a base stat or value for the given floor
+  private scaleForDepth(value: number, depth: number, scaling: number): number {
+    return Math.round(value * (1 + (depth - 1) * scaling));
+  }
+
+  private addInteractiveElements(rooms: Room[], random: RandomSource, depth: number): void {
     // Ensure at least one room has interactive elements
     let hasInteractiveElements = false;
     
     for (const room of rooms) {
-      // Add items with some probability
-      if (Math.random() < 0.6) {
-        const item: Item = {
-          id: `item_${room.id}_${room.items.length}`,
-          name: 'Treasure',
-          type: 'treasure',
-          position: {
-            x: room.position.x + Math.floor(Math.random() * room.width),
-            y: room.position.y + Math.floor(Math.random() * room.height)
-          },
-          properties: {}
-        };
-        room.items.push(item);
+      // Roll the loot table for the room type; special rooms always reward the finder
+      const loot = this.lootGenerator.rollTable(`room_${room.type}`, {
+        depth,
+        idPrefix: `item_${room.id}`,
+        getPosition: () => ({
+          x: room.position.x + random.nextInt(0, room.width - 1),
+          y: room.position.y + random.nextInt(0, room.height - 1)
+        })
+      }, random);
+      if (loot.length > 0) {
+        room.items.push(...loot);
         hasInteractiveElements = true;
       }
       
-      // Add enemies with some probability
-      if (Math.random() < 0.4) {
-        const enemy: Enemy = {
-          id: `enemy_${room.id}_${room.enemies.length}`,
-          name: 'Goblin',
-          position: {
-            x: room.position.x + Math.floor(Math.random() * room.width),
-            y: room.position.y + Math.floor(Math.random() * room.height)
-          },
-          health: 10,
-          maxHealth: 10,
-          attackPower: 3,
-          defense: 1,
-          aiType: 'aggressive'
+      // The boss room holds the boss, other rooms get enemies with some probability
+      const boss = room.type === 'boss' ? this.bestiary.pickBoss(depth, random) : null;
+      if (boss) {
+        room.enemies.push(this.createEnemy(boss, `boss_${room.id}`, getRoomCenter(room), depth));
+        hasInteractiveElements = true;
+      } else if (random.chance(0.4)) {
+        const entry = this.bestiary.pickEnemy(depth, random);
+        const position = {
+          x: room.position.x + random.nextInt(0, room.width - 1),
+          y: room.position.y + random.nextInt(0, room.height - 1)
         };
-        room.enemies.push(enemy);
+        room.enemies.push(this.createEnemy(entry, `enemy_${room.id}_${room.enemies.length}`, position, depth));
         hasInteractiveElements = true;
       }
     }
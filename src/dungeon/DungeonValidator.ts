@@ -0,0 +1,240 @@
+import { Coordinate, DungeonMap, Item, Room } from '../types/GameTypes';
+import { getRoomCenter, roomsOverlap } from './LayoutGenerator';
+import { DijkstraMap, getNeighbors } from './Pathfinding';
+import { tileKey } from './FieldOfView';
+
+export type ValidationIssueType =
+  | 'no_rooms'
+  | 'out_of_bounds'
+  | 'overlapping_rooms'
+  | 'misplaced_entity'
+  | 'disconnected'
+  | 'spawn_blocked'
+  | 'unreachable_key'
+  | 'unreachable_exit';
+
+export interface ValidationIssue {
+  type: ValidationIssueType;
+  message: string;
+  position?: Coordinate;
+}
+
+// Shape and pacing numbers for a generated floor
+export interface DungeonMetrics {
+  roomCount: number;
+  corridorCount: number;
+  walkableTiles: number;
+  deadEnds: number; // Walkable tiles with a single walkable neighbor
+  bossPathLength: number | null; // Steps from the spawn to the boss, null without a reachable boss
+  exitPathLength: number | null; // Steps from the spawn to the stairs down, null without reachable stairs
+}
+
+export interface DungeonValidationResult {
+  valid: boolean;
+  issues: ValidationIssue[];
+  metrics: DungeonMetrics;
+}
+
+// Checks that a generated floor is playable and measures its layout
+export class DungeonValidator {
+  validate(dungeon: DungeonMap): DungeonValidationResult {
+    const startRoom = dungeon.rooms[0];
+    if (!startRoom) {
+      return {
+        valid: false,
+        issues: [{ type: 'no_rooms', message: 'Dungeon has no rooms' }],
+        metrics: this.measure(dungeon, new Set(), null)
+      };
+    }
+
+    const issues: ValidationIssue[] = [];
+    const walkable = this.collectTiles(dungeon, true);
+    const spawn = getRoomCenter(startRoom);
+
+    this.checkBounds(dungeon, issues);
+    this.checkOverlaps(dungeon.rooms, issues);
+    this.checkPlacement(dungeon, walkable, issues);
+    this.checkSpawn(dungeon, spawn, issues);
+    this.checkConnectivity(dungeon, walkable, spawn, issues);
+    const progression = this.checkProgression(dungeon, spawn, issues);
+
+    return {
+      valid: issues.length === 0,
+      issues,
+      metrics: this.measure(dungeon, walkable, progression)
+    };
+  }
+
+  // Room and corridor tiles; secret passages count only when asked for
+  private collectTiles(dungeon: DungeonMap, includeHidden: boolean): Set<string> {
+    const tiles = new Set<string>();
+
+    for (const room of dungeon.rooms) {
+      for (let y = room.position.y; y < room.position.y + room.height; y++) {
+        for (let x = room.position.x; x < room.position.x + room.width; x++) {
+          if (this.inBounds(dungeon, { x, y })) tiles.add(tileKey({ x, y }));
+        }
+      }
+    }
+    for (const corridor of dungeon.corridors) {
+      if (corridor.hidden && !corridor.discovered && !includeHidden) continue;
+      for (const point of corridor.path) {
+        if (this.inBounds(dungeon, point)) tiles.add(tileKey(point));
+      }
+    }
+
+    return tiles;
+  }
+
+  private checkBounds(dungeon: DungeonMap, issues: ValidationIssue[]): void {
+    for (const room of dungeon.rooms) {
+      const corner = { x: room.position.x + room.width - 1, y: room.position.y + room.height - 1 };
+      if (room.width < 1 || room.height < 1 || !this.inBounds(dungeon, room.position) || !this.inBounds(dungeon, corner)) {
+        issues.push({ type: 'out_of_bounds', message: `Room ${room.id} leaves the map`, position: room.position });
+      }
+    }
+
+    for (const corridor of dungeon.corridors) {
+      const outside = corridor.path.find(point => !this.inBounds(dungeon, point));
+      if (outside) {
+        issues.push({ type: 'out_of_bounds', message: `Corridor ${corridor.id} leaves the map`, position: outside });
+      }
+    }
+  }
+
+  private checkOverlaps(rooms: Room[], issues: ValidationIssue[]): void {
+    rooms.forEach((room, index) => {
+      for (const other of rooms.slice(index + 1)) {
+        if (roomsOverlap(room, other, 0)) {
+          issues.push({ type: 'overlapping_rooms', message: `Rooms ${room.id} and ${other.id} overlap`, position: other.position });
+        }
+      }
+    });
+  }
+
+  // Items, enemies, traps, doors and stairs must all stand on walkable tiles
+  private checkPlacement(dungeon: DungeonMap, walkable: Set<string>, issues: ValidationIssue[]): void {
+    const placed: Array<[string, Coordinate]> = [
+      ...dungeon.rooms.flatMap(room => [...room.items, ...room.enemies])
+        .map((entity): [string, Coordinate] => [entity.id, entity.position]),
+      ...(dungeon.traps ?? []).map((trap): [string, Coordinate] => [trap.id, trap.position]),
+      ...(dungeon.doors ?? []).map((door): [string, Coordinate] => [door.id, door.position])
+    ];
+    if (dungeon.stairsDown) {
+      placed.push(['stairs', dungeon.stairsDown]);
+    }
+
+    for (const [id, position] of placed) {
+      if (!walkable.has(tileKey(position))) {
+        issues.push({ type: 'misplaced_entity', message: `${id} is not on a walkable tile`, position });
+      }
+    }
+  }
+
+  // The player must not start on top of an item, enemy, trap or the stairs
+  private checkSpawn(dungeon: DungeonMap, spawn: Coordinate, issues: ValidationIssue[]): void {
+    const onSpawn = (position: Coordinate) => position.x === spawn.x && position.y === spawn.y;
+    const blockers = [
+      ...dungeon.rooms.flatMap(room => [...room.items, ...room.enemies]),
+      ...(dungeon.traps ?? [])
+    ].filter(entity => onSpawn(entity.position));
+
+    for (const blocker of blockers) {
+      issues.push({ type: 'spawn_blocked', message: `${blocker.id} is on the player spawn`, position: spawn });
+    }
+    if (dungeon.stairsDown && onSpawn(dungeon.stairsDown)) {
+      issues.push({ type: 'spawn_blocked', message: 'The stairs are on the player spawn', position: spawn });
+    }
+  }
+
+  // Every room and corridor must be reachable from the spawn once secret passages are found
+  private checkConnectivity(dungeon: DungeonMap, walkable: Set<string>, spawn: Coordinate, issues: ValidationIssue[]): void {
+    const reach = new DijkstraMap([spawn], position => walkable.has(tileKey(position)), dungeon);
+    const reachable = (position: Coordinate) => reach.getDistance(position) !== Infinity;
+
+    for (const room of dungeon.rooms) {
+      if (!reachable(getRoomCenter(room))) {
+        issues.push({ type: 'disconnected', message: `Room ${room.id} cannot be reached`, position: room.position });
+      }
+    }
+    for (const corridor of dungeon.corridors) {
+      const cutOff = corridor.path.find(point => this.inBounds(dungeon, point) && !reachable(point));
+      if (cutOff) {
+        issues.push({ type: 'disconnected', message: `Corridor ${corridor.id} cannot be reached`, position: cutOff });
+      }
+    }
+  }
+
+  // Walk the floor the way a player must: secret passages stay shut and each locked door
+  // opens only once its key has been picked up. Returns the final reach from the spawn.
+  private checkProgression(dungeon: DungeonMap, spawn: Coordinate, issues: ValidationIssue[]): DijkstraMap {
+    const open = this.collectTiles(dungeon, false);
+    const lockedDoors = (dungeon.doors ?? []).filter(door => door.state === 'locked');
+    const keys = new Map<string, Item>();
+    for (const item of dungeon.rooms.flatMap(room => room.items)) {
+      if (item.type === 'key') keys.set(item.id, item);
+    }
+
+    const unlocked = new Set<string>();
+    const isLockedAt = (position: Coordinate) => lockedDoors.some(door =>
+      !unlocked.has(door.id) && door.position.x === position.x && door.position.y === position.y
+    );
+    const explore = () => new DijkstraMap([spawn], position => open.has(tileKey(position)) && !isLockedAt(position), dungeon);
+
+    let reach = explore();
+    let progressed = true;
+    while (progressed) {
+      progressed = false;
+      for (const door of lockedDoors) {
+        const key = door.keyId ? keys.get(door.keyId) : undefined;
+        if (!unlocked.has(door.id) && key && reach.getDistance(key.position) !== Infinity) {
+          unlocked.add(door.id);
+          progressed = true;
+        }
+      }
+      if (progressed) reach = explore();
+    }
+
+    for (const door of lockedDoors) {
+      if (!unlocked.has(door.id)) {
+        issues.push({ type: 'unreachable_key', message: `The key for ${door.id} cannot be reached`, position: door.position });
+      }
+    }
+    if (dungeon.stairsDown && reach.getDistance(dungeon.stairsDown) === Infinity) {
+      issues.push({ type: 'unreachable_exit', message: 'The stairs down cannot be reached', position: dungeon.stairsDown });
+    }
+
+    return reach;
+  }
+
+  private measure(dungeon: DungeonMap, walkable: Set<string>, progression: DijkstraMap | null): DungeonMetrics {
+    let deadEnds = 0;
+    for (const key of walkable) {
+      const [x, y] = key.split(',').map(Number) as [number, number];
+      const exits = getNeighbors({ x, y }).filter(neighbor => walkable.has(tileKey(neighbor))).length;
+      if (exits === 1) deadEnds++;
+    }
+
+    const bossRoom = dungeon.rooms.find(room => room.type === 'boss');
+    const boss = bossRoom?.enemies.find(enemy => enemy.isBoss);
+    const bossPosition = boss?.position ?? (bossRoom ? getRoomCenter(bossRoom) : undefined);
+    const pathLength = (target: Coordinate | undefined) => {
+      const distance = target && progression ? progression.getDistance(target) : Infinity;
+      return distance === Infinity ? null : distance;
+    };
+
+    return {
+      roomCount: dungeon.rooms.length,
+      corridorCount: dungeon.corridors.length,
+      walkableTiles: walkable.size,
+      deadEnds,
+      bossPathLength: pathLength(bossPosition),
+      exitPathLength: pathLength(dungeon.stairsDown)
+    };
+  }
+
+  private inBounds(dungeon: DungeonMap, position: Coordinate): boolean {
+    return position.x >= 0 && position.x < dungeon.width &&
+           position.y >= 0 && position.y < dungeon.height;
+  }
+}
@@ -0,0 +1,122 @@
+import { Coordinate, GameState, TileVisibility } from '../types/GameTypes';
+import { FOV_RADIUS } from '../utils/Constants';
+
+// Multipliers that map the first octant onto each of the eight around the origin
+const OCTANTS: ReadonlyArray<readonly [number, number, number, number]> = [
+  [1, 0, 0, 1], [0, 1, 1, 0], [0, -1, 1, 0], [-1, 0, 0, 1],
+  [-1, 0, 0, -1], [0, -1, -1, 0], [0, 1, -1, 0], [1, 0, 0, -1]
+];
+
+// Key used to store tiles in visibility sets and save data
+export function tileKey(position: Coordinate): string {
+  return `${position.x},${position.y}`;
+}
+
+// Recursive shadowcasting field of view
+export class FieldOfView {
+  private radius: number;
+
+  constructor(radius: number = FOV_RADIUS) {
+    this.radius = radius;
+  }
+
+  // Tiles visible from the origin; opaque tiles that block sight are included so walls get drawn
+  compute(origin: Coordinate, isTransparent: (position: Coordinate) => boolean): Set<string> {
+    const visible = new Set<string>([tileKey(origin)]);
+
+    for (const octant of OCTANTS) {
+      this.castLight(origin, 1, 1, 0, octant, isTransparent, visible);
+    }
+
+    return visible;
+  }
+
+  // Scan one octant row by row, narrowing the lit slope range whenever an opaque tile casts a shadow
+  private castLight(
+    origin: Coordinate,
+    row: number,
+    startSlope: number,
+    endSlope: number,
+    [xx, xy, yx, yy]: readonly [number, number, number, number],
+    isTransparent: (position: Coordinate) => boolean,
+    visible: Set<string>
+  ): void {
+    if (startSlope < endSlope) {
+      return;
+    }
+
+    let start = startSlope;
+    let nextStart = startSlope;
+
+    for (let distance = row; distance <= this.radius; distance++) {
+      const dy = -distance;
+      let blocked = false;
+
+      for (let dx = -distance; dx <= 0; dx++) {
+        const position = {
+          x: origin.x + dx * xx + dy * xy,
+          y: origin.y + dx * yx + dy * yy
+        };
+        const leftSlope = (dx - 0.5) / (dy + 0.5);
+        const rightSlope = (dx + 0.5) / (dy - 0.5);
+
+        if (start < rightSlope) {
+          continue;
+        }
+        if (endSlope > leftSlope) {
+          break;
+        }
+
+        if (dx * dx + dy * dy <= this.radius * this.radius) {
+          visible.add(tileKey(position));
+        }
+
+        const opaque = !isTransparent(position);
+        if (blocked) {
+          if (opaque) {
+            nextStart = rightSlope;
+          } else {
+            blocked = false;
+            start = nextStart;
+          }
+        } else if (opaque && distance < this.radius) {
+          blocked = true;
+          this.castLight(origin, distance + 1, start, leftSlope, [xx, xy, yx, yy], isTransparent, visible);
+          nextStart = rightSlope;
+        }
+      }
+
+      if (blocked) {
+        break;
+      }
+    }
+  }
+}
+
+// Fast lookups over a game state's visibility data. A computed field of view always holds
+// the player's tile, so states without one (older saves, hand-built fixtures) count as fully visible.
+export class VisibilityLookup {
+  private visible: Set<string> | null;
+  private explored: Set<string>;
+
+  constructor(state: Pick<GameState, 'visibleTiles' | 'exploredTiles'>) {
+    this.visible = state.visibleTiles?.length ? new Set(state.visibleTiles) : null;
+    this.explored = new Set(state.exploredTiles ?? []);
+  }
+
+  get(position: Coordinate): TileVisibility {
+    if (!this.visible) {
+      return 'visible';
+    }
+
+    const key = tileKey(position);
+    if (this.visible.has(key)) {
+      return 'visible';
+    }
+    return this.explored.has(key) ? 'remembered' : 'unseen';
+  }
+
+  isVisible(position: Coordinate): boolean {
+    return this.get(position) === 'visible';
+  }
+}
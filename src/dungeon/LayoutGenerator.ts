@@ -0,0 +1,77 @@
+import { Coordinate, Corridor, Room } from '../types/GameTypes';
+import { RandomSource } from '../utils/Random';
+
+// Size and room budget for one floor's layout
+export interface LayoutConfig {
+  width: number;
+  height: number;
+  minRooms: number;
+  maxRooms: number;
+  depth: number;
+}
+
+// Rooms and corridors for one floor, before doors, loot, enemies and traps are added.
+// Every walkable tile lies in a room rectangle or on a corridor path, so the result
+// keeps the DungeonMap shape the movement rules and renderers already understand.
+export interface FloorPlan {
+  rooms: Room[]; // The player starts in rooms[0]
+  corridors: Corridor[];
+  gated: boolean; // Rooms are only joined by corridors, so doors and secret passages can seal them off
+}
+
+// A pluggable floor layout algorithm
+export interface LayoutGenerator {
+  generate(config: LayoutConfig, random: RandomSource): FloorPlan;
+}
+
+export function createRoom(id: string, x: number, y: number, width: number, height: number): Room {
+  return {
+    id,
+    position: { x, y },
+    width,
+    height,
+    type: 'normal',
+    items: [],
+    enemies: [],
+    connections: []
+  };
+}
+
+export function getRoomCenter(room: Room): Coordinate {
+  return {
+    x: room.position.x + Math.floor(room.width / 2),
+    y: room.position.y + Math.floor(room.height / 2)
+  };
+}
+
+export function roomContains(room: Room, point: Coordinate): boolean {
+  return point.x >= room.position.x &&
+         point.x < room.position.x + room.width &&
+         point.y >= room.position.y &&
+         point.y < room.position.y + room.height;
+}
+
+// Check if two rooms overlap once padded by the given spacing
+export function roomsOverlap(a: Room, b: Room, spacing: number): boolean {
+  return a.position.x < b.position.x + b.width + spacing &&
+         b.position.x < a.position.x + a.width + spacing &&
+         a.position.y < b.position.y + b.height + spacing &&
+         b.position.y < a.position.y + a.height + spacing;
+}
+
+// Manhattan distance between room centers
+export function getRoomDistance(a: Room, b: Room): number {
+  const centerA = getRoomCenter(a);
+  const centerB = getRoomCenter(b);
+  return Math.abs(centerA.x - centerB.x) + Math.abs(centerA.y - centerB.y);
+}
+
+// Record a corridor in both rooms' connection lists
+export function linkRooms(corridor: Corridor, rooms: Room[]): void {
+  const start = rooms.find(room => room.id === corridor.startRoom);
+  const end = rooms.find(room => room.id === corridor.endRoom);
+  if (start && end && start !== end) {
+    start.connections.push(end.id);
+    end.connections.push(start.id);
+  }
+}
@@ -0,0 +1,368 @@
+import { Coordinate, Item } from '../types/GameTypes';
+import { GameError } from '../utils/ErrorHandling';
+import { RandomSource } from '../utils/Random';
+import { DEPTH_LOOT_SCALING } from '../utils/Constants';
+import { EquipmentStats, defaultEquipmentStats } from '../player/EquipmentStats';
+import { RecipeBook, defaultRecipeBook } from '../player/RecipeBook';
+
+export type ItemRarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
+export type LootCategory =
+  | 'weapon'
+  | 'armor'
+  | 'helmet'
+  | 'boots'
+  | 'accessory'
+  | 'ring'
+  | 'consumable'
+  | 'gold'
+  | 'set_piece' // A piece of one of the equipment sets
+  | 'material'; // A crafting material
+
+export interface LootTable {
+  chance: number; // Chance that the table drops anything at all
+  rolls: [number, number]; // Inclusive range of items dropped
+  entries: Array<{ category: LootCategory; weight: number }>;
+  rarityBonus: number; // Shifts rarity rolls towards the rarer tiers
+}
+
+export interface LootContext {
+  depth: number;
+  idPrefix: string; // Item ids become `${idPrefix}_${index}`
+  getPosition: () => Coordinate;
+  luck?: number; // Added to the table's rarity bonus, e.g. from the player's talents
+}
+
+interface RarityTier {
+  rarity: ItemRarity;
+  weight: number;
+  affixCount: number;
+  statMultiplier: number;
+}
+
+interface ItemBase {
+  name: string;
+  properties: Record<string, number | string>;
+}
+
+interface Affix {
+  name: string;
+  position: 'prefix' | 'suffix';
+  property: string;
+  range: [number, number];
+  categories: LootCategory[];
+}
+
+const RARITY_TIERS: RarityTier[] = [
+  { rarity: 'common', weight: 60, affixCount: 0, statMultiplier: 1 },
+  { rarity: 'uncommon', weight: 25, affixCount: 1, statMultiplier: 1.2 },
+  { rarity: 'rare', weight: 10, affixCount: 2, statMultiplier: 1.5 },
+  { rarity: 'epic', weight: 4, affixCount: 2, statMultiplier: 1.8 },
+  { rarity: 'legendary', weight: 1, affixCount: 3, statMultiplier: 2.2 }
+];
+
+const ITEM_BASES: Record<Exclude<LootCategory, 'gold' | 'set_piece' | 'material'>, ItemBase[]> = {
+  weapon: [
+    { name: 'Dagger', properties: { attack: 3, value: 15 } },
+    { name: 'Short Sword', properties: { attack: 5, value: 25 } },
+    { name: 'War Axe', properties: { attack: 7, value: 40 } },
+    { name: 'Throwing Knives', properties: { attack: 3, range: 3, ammo: 8, value: 20 } },
+    { name: 'Shortbow', properties: { attack: 4, range: 6, ammo: 15, value: 35 } },
+    { name: 'Wand of Sparks', properties: { attack: 5, range: 5, ammo: 10, value: 45 } }
+  ],
+  armor: [
+    { name: 'Leather Armor', properties: { defense: 2, value: 20 } },
+    { name: 'Chain Mail', properties: { defense: 4, value: 35 } },
+    { name: 'Plate Armor', properties: { defense: 6, value: 55 } }
+  ],
+  helmet: [
+    { name: 'Leather Cap', properties: { defense: 1, value: 15 } },
+    { name: 'Iron Helm', properties: { defense: 2, value: 30 } }
+  ],
+  boots: [
+    { name: 'Soft Boots', properties: { agility: 1, value: 15 } },
+    { name: 'Iron Boots', properties: { defense: 1, value: 25 } }
+  ],
+  accessory: [
+    { name: 'Charm', properties: { value: 30 } },
+    { name: 'Amulet', properties: { value: 40 } }
+  ],
+  ring: [
+    { name: 'Copper Ring', properties: { value: 25 } },
+    { name: 'Silver Ring', properties: { value: 45 } }
+  ],
+  consumable: [
+    { name: 'Health Potion', properties: { effect: 'heal', amount: 20, value: 10 } },
+    { name: 'Strength Tonic', properties: { effect: 'strength_boost', amount: 3, value: 15 } },
+    { name: 'Bundle of Arrows', properties: { effect: 'ammo', amount: 10, value: 8 } }
+  ]
+};
+
+const AFFIXES: Affix[] = [
+  { name: 'Sharp', position: 'prefix', property: 'attack', range: [1, 3], categories: ['weapon', 'accessory', 'ring'] },
+  { name: 'Sturdy', position: 'prefix', property: 'defense', range: [1, 3], categories: ['armor', 'helmet', 'boots', 'accessory'] },
+  { name: 'Potent', position: 'prefix', property: 'amount', range: [5, 15], categories: ['consumable'] },
+  { name: 'Mighty', position: 'prefix', property: 'strength', range: [1, 2], categories: ['helmet', 'ring'] },
+  { name: 'of Vitality', position: 'suffix', property: 'maxHealth', range: [5, 15], categories: ['armor', 'helmet', 'accessory'] },
+  {
+    name: 'of Agility',
+    position: 'suffix',
+    property: 'agility',
+    range: [1, 2],
+    categories: ['weapon', 'armor', 'boots', 'accessory', 'ring']
+  },
+  { name: 'of Insight', position: 'suffix', property: 'intelligence', range: [1, 2], categories: ['accessory', 'ring'] }
+];
+
+// Room tables are keyed by `room_${room.type}`; bestiary entries name their own table
+export const LOOT_TABLES: Record<string, LootTable> = {
+  room_normal: {
+    chance: 0.6,
+    rolls: [1, 1],
+    entries: [
+      { category: 'gold', weight: 6 },
+      { category: 'consumable', weight: 3 },
+      { category: 'material', weight: 3 },
+      { category: 'weapon', weight: 1 },
+      { category: 'armor', weight: 1 }
+    ],
+    rarityBonus: 0
+  },
+  room_treasure: {
+    chance: 1,
+    rolls: [2, 3],
+    entries: [
+      { category: 'gold', weight: 3 },
+      { category: 'weapon', weight: 2 },
+      { category: 'armor', weight: 2 },
+      { category: 'helmet', weight: 1 },
+      { category: 'boots', weight: 1 },
+      { category: 'accessory', weight: 1 },
+      { category: 'ring', weight: 1 }
+    ],
+    rarityBonus: 0.3
+  },
+  room_boss: {
+    chance: 1,
+    rolls: [1, 2],
+    entries: [
+      { category: 'gold', weight: 2 },
+      { category: 'weapon', weight: 1 },
+      { category: 'armor', weight: 1 },
+      { category: 'helmet', weight: 1 },
+      { category: 'accessory', weight: 1 },
+      { category: 'set_piece', weight: 1 }
+    ],
+    rarityBonus: 0.5
+  },
+  room_secret: {
+    chance: 1,
+    rolls: [1, 2],
+    entries: [
+      { category: 'gold', weight: 2 },
+      { category: 'accessory', weight: 2 },
+      { category: 'ring', weight: 2 },
+      { category: 'weapon', weight: 1 }
+    ],
+    rarityBonus: 0.8
+  },
+  enemy_common: {
+    chance: 0.35,
+    rolls: [1, 1],
+    entries: [
+      { category: 'gold', weight: 5 },
+      { category: 'consumable', weight: 3 },
+      { category: 'material', weight: 4 },
+      { category: 'weapon', weight: 1 },
+      { category: 'armor', weight: 1 }
+    ],
+    rarityBonus: 0
+  },
+  enemy_elite: {
+    chance: 0.6,
+    rolls: [1, 2],
+    entries: [
+      { category: 'gold', weight: 3 },
+      { category: 'consumable', weight: 2 },
+      { category: 'material', weight: 3 },
+      { category: 'weapon', weight: 2 },
+      { category: 'armor', weight: 2 },
+      { category: 'helmet', weight: 1 },
+      { category: 'boots', weight: 1 }
+    ],
+    rarityBonus: 0.2
+  },
+  boss: {
+    chance: 1,
+    rolls: [2, 3],
+    entries: [
+      { category: 'gold', weight: 2 },
+      { category: 'weapon', weight: 2 },
+      { category: 'armor', weight: 2 },
+      { category: 'accessory', weight: 2 },
+      { category: 'ring', weight: 1 },
+      { category: 'set_piece', weight: 2 }
+    ],
+    rarityBonus: 1
+  }
+};
+
+const BASE_GOLD = 10;
+
+// Base stats that rarity does not improve; a rare bow shoots no further than a common one
+const FIXED_PROPERTIES: ReadonlySet<string> = new Set(['range']);
+
+// Set pieces keep the stats of their set data whatever the rarity roll
+const SET_PIECE_RARITY: ItemRarity = 'epic';
+
+// Rolls loot tables into concrete items with rarity and affixes
+export class LootGenerator {
+  private tables: Record<string, LootTable>;
+  private equipmentStats: EquipmentStats;
+  private recipeBook: RecipeBook;
+
+  constructor(
+    tables: Record<string, LootTable> = LOOT_TABLES,
+    equipmentStats: EquipmentStats = defaultEquipmentStats,
+    recipeBook: RecipeBook = defaultRecipeBook
+  ) {
+    this.tables = tables;
+    this.equipmentStats = equipmentStats;
+    this.recipeBook = recipeBook;
+  }
+
+  hasTable(tableId: string): boolean {
+    return tableId in this.tables;
+  }
+
+  // Roll a table, returning no items when the table's drop chance fails
+  rollTable(tableId: string, context: LootContext, random: RandomSource): Item[] {
+    const table = this.tables[tableId];
+    if (!table) {
+      throw new GameError(`Unknown loot table: ${tableId}`, 'UNKNOWN_LOOT_TABLE');
+    }
+
+    if (!random.chance(table.chance)) {
+      return [];
+    }
+
+    const count = random.nextInt(table.rolls[0], table.rolls[1]);
+    const items: Item[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const category = this.pickCategory(table, random);
+      const rarity = this.rollRarity(
+        table.rarityBonus + (context.luck ?? 0) + (context.depth - 1) * DEPTH_LOOT_SCALING, random
+      );
+      items.push(this.createItem(category, rarity, `${context.idPrefix}_${i}`, context, random));
+    }
+
+    return items;
+  }
+
+  // Build a single item of the given category and rarity
+  createItem(
+    category: LootCategory,
+    rarity: ItemRarity,
+    id: string,
+    context: LootContext,
+    random: RandomSource
+  ): Item {
+    const tier = RARITY_TIERS.find(t => t.rarity === rarity)!;
+    const depthMultiplier = 1 + (context.depth - 1) * DEPTH_LOOT_SCALING;
+
+    if (category === 'gold') {
+      return {
+        id,
+        name: 'Gold',
+        type: 'treasure',
+        position: context.getPosition(),
+        properties: {
+          rarity,
+          value: Math.round(BASE_GOLD * tier.statMultiplier * depthMultiplier) + random.nextInt(0, BASE_GOLD)
+        }
+      };
+    }
+
+    // Materials are the same whatever the rarity roll
+    if (category === 'material') {
+      return this.recipeBook.createMaterial(this.recipeBook.pickMaterial(random), id, context.getPosition());
+    }
+
+    if (category === 'set_piece') {
+      const set = random.pick(this.equipmentStats.getSets());
+      const piece = this.equipmentStats.createPiece(set, random.pick(set.pieces), id, context.getPosition());
+      piece.properties['rarity'] = SET_PIECE_RARITY;
+      return piece;
+    }
+
+    const base = random.pick(ITEM_BASES[category]);
+    const properties: Record<string, any> = { rarity, affixes: [] as string[] };
+
+    // Numeric base stats scale with rarity, everything else is copied as is
+    for (const [key, value] of Object.entries(base.properties)) {
+      properties[key] = typeof value === 'number' && !FIXED_PROPERTIES.has(key) ?
+        Math.round(value * tier.statMultiplier * (key === 'value' ? depthMultiplier : 1)) : value;
+    }
+
+    const affixes = this.rollAffixes(category, tier.affixCount, random);
+    for (const affix of affixes) {
+      const bonus = random.nextInt(affix.range[0], affix.range[1]);
+      properties[affix.property] = (properties[affix.property] || 0) + bonus;
+      properties['affixes'].push(affix.name);
+    }
+
+    const prefixes = affixes.filter(a => a.position === 'prefix').map(a => a.name);
+    const suffixes = affixes.filter(a => a.position === 'suffix').map(a => a.name);
+
+    return {
+      id,
+      name: [...prefixes, base.name, ...suffixes].join(' '),
+      type: category,
+      position: context.getPosition(),
+      properties
+    };
+  }
+
+  private pickCategory(table: LootTable, random: RandomSource): LootCategory {
+    const totalWeight = table.entries.reduce((sum, entry) => sum + entry.weight, 0);
+    let roll = random.next() * totalWeight;
+
+    for (const entry of table.entries) {
+      roll -= entry.weight;
+      if (roll < 0) {
+        return entry.category;
+      }
+    }
+
+    return table.entries[table.entries.length - 1]!.category;
+  }
+
+  // Each point of bonus makes every rarer tier proportionally more likely
+  private rollRarity(bonus: number, random: RandomSource): ItemRarity {
+    const weights = RARITY_TIERS.map((tier, index) => tier.weight * Math.pow(1 + bonus, index));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    let roll = random.next() * totalWeight;
+
+    for (let i = 0; i < RARITY_TIERS.length; i++) {
+      roll -= weights[i]!;
+      if (roll < 0) {
+        return RARITY_TIERS[i]!.rarity;
+      }
+    }
+
+    return 'common';
+  }
+
+  // Pick distinct affixes that apply to the category
+  private rollAffixes(category: LootCategory, count: number, random: RandomSource): Affix[] {
+    const available = AFFIXES.filter(affix => affix.categories.includes(category));
+    const chosen: Affix[] = [];
+
+    while (chosen.length < count && available.length > 0) {
+      const index = random.nextInt(0, available.length - 1);
+      chosen.push(available.splice(index, 1)[0]!);
+    }
+
+    return chosen;
+  }
+}
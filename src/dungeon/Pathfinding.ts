@@ -0,0 +1,257 @@
+import { Coordinate } from '../types/GameTypes';
+import { PATHFINDING_MAX_NODES } from '../utils/Constants';
+import { tileKey } from './FieldOfView';
+
+// Whether a walker may stand on a tile
+export type PassableCheck = (position: Coordinate) => boolean;
+
+// Cost of stepping from one tile onto the next; at least 1, Infinity to forbid the step
+export type StepCost = (from: Coordinate, to: Coordinate) => number;
+
+export interface PathOptions {
+  cost?: StepCost;
+  maxNodes?: number; // Give up once this many tiles have been expanded
+}
+
+export interface GridBounds {
+  width: number;
+  height: number;
+}
+
+const STEPS: ReadonlyArray<Coordinate> = [
+  { x: 0, y: -1 }, // north
+  { x: 0, y: 1 },  // south
+  { x: 1, y: 0 },  // east
+  { x: -1, y: 0 }  // west
+];
+
+const uniformCost: StepCost = () => 1;
+
+// The four orthogonal neighbors of a tile
+export function getNeighbors(position: Coordinate): Coordinate[] {
+  return STEPS.map(step => ({ x: position.x + step.x, y: position.y + step.y }));
+}
+
+// Steps between two tiles moving only orthogonally, ignoring anything in the way
+export function getDistance(a: Coordinate, b: Coordinate): number {
+  return Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+}
+
+// Binary min-heap used as the open list
+class PriorityQueue<T> {
+  private heap: Array<{ item: T; priority: number }> = [];
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  push(item: T, priority: number): void {
+    this.heap.push({ item, priority });
+    let index = this.heap.length - 1;
+
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.heap[parent]!.priority <= this.heap[index]!.priority) break;
+      [this.heap[parent], this.heap[index]] = [this.heap[index]!, this.heap[parent]!];
+      index = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const top = this.heap[0];
+    const last = this.heap.pop();
+    if (!top || !last || this.heap.length === 0) {
+      return top?.item;
+    }
+
+    this.heap[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (left < this.heap.length && this.heap[left]!.priority < this.heap[smallest]!.priority) smallest = left;
+      if (right < this.heap.length && this.heap[right]!.priority < this.heap[smallest]!.priority) smallest = right;
+      if (smallest === index) break;
+
+      [this.heap[smallest], this.heap[index]] = [this.heap[index]!, this.heap[smallest]!];
+      index = smallest;
+    }
+
+    return top.item;
+  }
+}
+
+// A* over the 4-connected grid. Returns the steps after the start up to and including the goal,
+// an empty path when already there, or null when the goal cannot be reached.
+export function findPath(
+  start: Coordinate,
+  goal: Coordinate,
+  isPassable: PassableCheck,
+  options: PathOptions = {}
+): Coordinate[] | null {
+  if (start.x === goal.x && start.y === goal.y) {
+    return [];
+  }
+  if (!isPassable(goal)) {
+    return null;
+  }
+
+  const cost = options.cost ?? uniformCost;
+  const maxNodes = options.maxNodes ?? PATHFINDING_MAX_NODES;
+  const open = new PriorityQueue<Coordinate>();
+  const cameFrom = new Map<string, Coordinate>();
+  const costSoFar = new Map<string, number>([[tileKey(start), 0]]);
+  const closed = new Set<string>();
+
+  open.push(start, getDistance(start, goal));
+
+  while (open.size > 0 && closed.size < maxNodes) {
+    const current = open.pop()!;
+    const currentKey = tileKey(current);
+    if (closed.has(currentKey)) continue;
+
+    if (current.x === goal.x && current.y === goal.y) {
+      return reconstructPath(cameFrom, current);
+    }
+    closed.add(currentKey);
+
+    const currentCost = costSoFar.get(currentKey) ?? 0;
+    for (const next of getNeighbors(current)) {
+      const nextKey = tileKey(next);
+      if (closed.has(nextKey) || !isPassable(next)) continue;
+
+      const stepCost = cost(current, next);
+      if (!Number.isFinite(stepCost)) continue;
+
+      const nextCost = currentCost + stepCost;
+      const known = costSoFar.get(nextKey);
+      if (known === undefined || nextCost < known) {
+        costSoFar.set(nextKey, nextCost);
+        cameFrom.set(nextKey, current);
+        open.push(next, nextCost + getDistance(next, goal));
+      }
+    }
+  }
+
+  return null;
+}
+
+// Walk the came-from links back to the start, which is left out of the path
+function reconstructPath(cameFrom: Map<string, Coordinate>, end: Coordinate): Coordinate[] {
+  const path: Coordinate[] = [end];
+  let previous = cameFrom.get(tileKey(end));
+
+  while (previous && cameFrom.has(tileKey(previous))) {
+    path.unshift(previous);
+    previous = cameFrom.get(tileKey(previous));
+  }
+
+  return path;
+}
+
+// Distance from every tile to the nearest goal, so any number of walkers can share one search
+export class DijkstraMap {
+  private bounds: GridBounds;
+  private distances: Float64Array;
+
+  constructor(goals: Coordinate[], isPassable: PassableCheck, bounds: GridBounds, cost: StepCost = uniformCost) {
+    this.bounds = bounds;
+    this.distances = new Float64Array(bounds.width * bounds.height).fill(Infinity);
+
+    const open = new PriorityQueue<Coordinate>();
+    for (const goal of goals) {
+      if (this.inBounds(goal)) {
+        this.distances[this.indexOf(goal)] = 0;
+        open.push(goal, 0);
+      }
+    }
+
+    // Flood outwards from the goals; costs are those of walking towards them
+    while (open.size > 0) {
+      const current = open.pop()!;
+      const currentDistance = this.getDistance(current);
+
+      for (const next of getNeighbors(current)) {
+        if (!this.inBounds(next) || !isPassable(next)) continue;
+
+        const distance = currentDistance + cost(next, current);
+        if (distance < this.getDistance(next)) {
+          this.distances[this.indexOf(next)] = distance;
+          open.push(next, distance);
+        }
+      }
+    }
+  }
+
+  // Cost to reach the nearest goal; Infinity when unreachable
+  getDistance(position: Coordinate): number {
+    return this.inBounds(position) ? this.distances[this.indexOf(position)]! : Infinity;
+  }
+
+  // Neighbor that rolls downhill towards a goal, or null when at a goal or cut off
+  nextStep(from: Coordinate): Coordinate | null {
+    let best: Coordinate | null = null;
+    let bestDistance = this.getDistance(from);
+
+    for (const next of getNeighbors(from)) {
+      const distance = this.getDistance(next);
+      if (distance < bestDistance) {
+        best = next;
+        bestDistance = distance;
+      }
+    }
+
+    return best;
+  }
+
+  private inBounds(position: Coordinate): boolean {
+    return position.x >= 0 && position.x < this.bounds.width &&
+           position.y >= 0 && position.y < this.bounds.height;
+  }
+
+  private indexOf(position: Coordinate): number {
+    return position.y * this.bounds.width + position.x;
+  }
+}
+
+// Pathfinding over one floor's walkability rules, caching Dijkstra maps by goal until the floor changes
+export class Pathfinder {
+  private bounds: GridBounds;
+  private isPassable: PassableCheck;
+  private dijkstraMaps: Map<string, DijkstraMap> = new Map();
+
+  constructor(bounds: GridBounds, isPassable: PassableCheck) {
+    this.bounds = { width: bounds.width, height: bounds.height };
+    this.isPassable = isPassable;
+  }
+
+  // Shortest path from start to goal, see findPath
+  findPath(start: Coordinate, goal: Coordinate, options?: PathOptions): Coordinate[] | null {
+    return findPath(start, goal, position => this.isPassable(position), options);
+  }
+
+  // Shared map towards a single goal, e.g. for every enemy chasing the player
+  getDijkstraMap(goal: Coordinate): DijkstraMap {
+    const key = tileKey(goal);
+    let map = this.dijkstraMaps.get(key);
+
+    if (!map) {
+      map = new DijkstraMap([goal], position => this.isPassable(position), this.bounds);
+      this.dijkstraMaps.set(key, map);
+    }
+
+    return map;
+  }
+
+  // One-off map towards many goals; not cached since the goals rarely repeat
+  createDijkstraMap(goals: Coordinate[], cost?: StepCost): DijkstraMap {
+    return new DijkstraMap(goals, position => this.isPassable(position), this.bounds, cost);
+  }
+
+  // Drop cached maps after doors open or close or passages are found
+  clearCache(): void {
+    this.dijkstraMaps.clear();
+  }
+}
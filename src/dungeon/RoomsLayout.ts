@@ -0,0 +1,263 @@
+import { Coordinate, Corridor, Room } from '../types/GameTypes';
+import { RandomSource } from '../utils/Random';
+import { ROOM_SPACING, ROOM_PLACEMENT_ATTEMPTS, EXTRA_CORRIDOR_CHANCE } from '../utils/Constants';
+import { FloorPlan, LayoutConfig, LayoutGenerator, getRoomDistance, roomsOverlap } from './LayoutGenerator';
+
+const LAYOUT_ATTEMPTS = 5;
+
+// Classic layout: rectangular rooms joined by L-shaped corridors
+export class RoomsLayout implements LayoutGenerator {
+  generate(config: LayoutConfig, random: RandomSource): FloorPlan {
+    const rooms = this.generateRooms(config, random);
+    const corridors = this.generateCorridors(rooms, random);
+    return { rooms, corridors, gated: true };
+  }
+
+  private generateRooms(config: LayoutConfig, random: RandomSource): Room[] {
+    let rooms: Room[] = [];
+    const numRooms = Math.max(1, Math.min(config.maxRooms, 
+      random.nextInt(config.minRooms, config.maxRooms)));
+    
+    // Early rooms can box in later ones, so lay out again a few times and keep the fullest layout
+    for (let layout = 0; layout < LAYOUT_ATTEMPTS && rooms.length < config.minRooms; layout++) {
+      const candidate = this.layoutRooms(config, numRooms, random);
+      if (candidate.length > rooms.length) {
+        rooms = candidate;
+      }
+    }
+    
+    // Ensure we have at least one room
+    if (rooms.length === 0) {
+      const fallbackWidth = Math.min(5, config.width - 2);
+      const fallbackHeight = Math.min(5, config.height - 2);
+      rooms.push({
+        id: 'room_0',
+        position: { x: 1, y: 1 },
+        width: fallbackWidth,
+        height: fallbackHeight,
+        type: 'normal',
+        items: [],
+        enemies: [],
+        connections: []
+      });
+    }
+    
+    return rooms;
+  }
+
+  protected layoutRooms(config: LayoutConfig, numRooms: number, random: RandomSource): Room[] {
+    const rooms: Room[] = [];
+
+    for (let i = 0; i < numRooms; i++) {
+      const room = this.placeRoom(`room_${i}`, config, numRooms, rooms, random);
+      if (!room) {
+        break; // No space left for another room
+      }
+
+      room.type = i === 0 ? 'normal' : (random.chance(0.1) ? 'treasure' : 'normal');
+      rooms.push(room);
+    }
+
+    return rooms;
+  }
+
+  // Place a room by rejection sampling, shrinking the candidate size as attempts fail
+  protected placeRoom(
+    id: string,
+    config: LayoutConfig,
+    numRooms: number,
+    placed: Room[],
+    random: RandomSource
+  ): Room | null {
+    // Calculate maximum room size that fits in the dungeon, leaving room for every requested room
+    const minRoomSize = Math.min(4, Math.floor(Math.min(config.width, config.height) / 3));
+    const sizeBudget = Math.floor(Math.sqrt((config.width * config.height) / (numRooms * 2)));
+    const maxRoomWidth = Math.max(minRoomSize, Math.min(9, Math.floor(config.width / 2), sizeBudget));
+    const maxRoomHeight = Math.max(minRoomSize, Math.min(9, Math.floor(config.height / 2), sizeBudget));
+
+    for (let attempt = 0; attempt < ROOM_PLACEMENT_ATTEMPTS; attempt++) {
+      const shrink = Math.floor(attempt / 5);
+      const roomWidth = random.nextInt(minRoomSize, Math.max(minRoomSize, maxRoomWidth - shrink));
+      const roomHeight = random.nextInt(minRoomSize, Math.max(minRoomSize, maxRoomHeight - shrink));
+
+      const room: Room = {
+        id,
+        position: {
+          x: random.nextInt(1, config.width - roomWidth - 1),
+          y: random.nextInt(1, config.height - roomHeight - 1)
+        },
+        width: roomWidth,
+        height: roomHeight,
+        type: 'normal',
+        items: [],
+        enemies: [],
+        connections: []
+      };
+
+      // Ensure room fits within dungeon bounds and keeps clear of other rooms
+      const fits = room.position.x + room.width < config.width &&
+                   room.position.y + room.height < config.height;
+      if (fits && !placed.some(other => roomsOverlap(room, other, ROOM_SPACING))) {
+        return room;
+      }
+    }
+
+    return null;
+  }
+
+  private generateCorridors(rooms: Room[], random: RandomSource): Corridor[] {
+    const connections = this.selectConnections(rooms, random);
+
+    return connections.map(([startRoom, endRoom], index) => {
+      startRoom.connections.push(endRoom.id);
+      endRoom.connections.push(startRoom.id);
+
+      return {
+        id: `corridor_${index}`,
+        startRoom: startRoom.id,
+        endRoom: endRoom.id,
+        path: this.generateCorridorPath(startRoom, endRoom, random)
+      };
+    });
+  }
+
+  // Minimum spanning tree over room centers (Prim) plus a few extra loop edges
+  protected selectConnections(rooms: Room[], random: RandomSource): Array<[Room, Room]> {
+    const connections: Array<[Room, Room]> = [];
+    if (rooms.length < 2) {
+      return connections;
+    }
+
+    const linked = new Set<string>();
+    const pairKey = (i: number, j: number) => i < j ? `${i}_${j}` : `${j}_${i}`;
+    const inTree = new Set<number>([0]);
+
+    while (inTree.size < rooms.length) {
+      let bestPair: [number, number] | null = null;
+      let bestDistance = Infinity;
+
+      for (const i of inTree) {
+        for (let j = 0; j < rooms.length; j++) {
+          if (inTree.has(j)) continue;
+          const distance = getRoomDistance(rooms[i]!, rooms[j]!);
+          if (distance < bestDistance) {
+            bestDistance = distance;
+            bestPair = [i, j];
+          }
+        }
+      }
+
+      if (!bestPair) break;
+      const [from, to] = bestPair;
+      inTree.add(to);
+      linked.add(pairKey(from, to));
+      connections.push([rooms[from]!, rooms[to]!]);
+    }
+
+    // Candidate loop edges, shortest first so loops stay local
+    const candidates: Array<[number, number, number]> = [];
+    for (let i = 0; i < rooms.length; i++) {
+      for (let j = i + 1; j < rooms.length; j++) {
+        if (!linked.has(pairKey(i, j))) {
+          candidates.push([i, j, getRoomDistance(rooms[i]!, rooms[j]!)]);
+        }
+      }
+    }
+    candidates.sort((a, b) => a[2] - b[2]);
+
+    const maxExtraConnections = Math.floor(rooms.length / 3);
+    let extraConnections = 0;
+    for (const [i, j] of candidates) {
+      if (extraConnections >= maxExtraConnections) break;
+      if (random.chance(EXTRA_CORRIDOR_CHANCE)) {
+        connections.push([rooms[i]!, rooms[j]!]);
+        extraConnections++;
+      }
+    }
+
+    return connections;
+  }
+
+  // Build a corridor that leaves and enters each room through the walls facing each other
+  private generateCorridorPath(from: Room, to: Room, random: RandomSource): Coordinate[] {
+    const gapX = Math.max(
+      to.position.x - (from.position.x + from.width),
+      from.position.x - (to.position.x + to.width)
+    );
+    const gapY = Math.max(
+      to.position.y - (from.position.y + from.height),
+      from.position.y - (to.position.y + to.height)
+    );
+
+    let path: Coordinate[];
+    let reversed: boolean;
+
+    if (gapX >= gapY) {
+      // Rooms sit side by side: exit through the east wall of the left room
+      const [left, right] = from.position.x < to.position.x ? [from, to] : [to, from];
+      reversed = left !== from;
+
+      const start = {
+        x: left.position.x + left.width,
+        y: random.nextInt(left.position.y, left.position.y + left.height - 1)
+      };
+      const end = {
+        x: right.position.x - 1,
+        y: random.nextInt(right.position.y, right.position.y + right.height - 1)
+      };
+      const bendX = random.nextInt(start.x, end.x);
+
+      path = this.generatePathThrough([start, { x: bendX, y: start.y }, { x: bendX, y: end.y }, end]);
+    } else {
+      // Rooms are stacked: exit through the south wall of the upper room
+      const [top, bottom] = from.position.y < to.position.y ? [from, to] : [to, from];
+      reversed = top !== from;
+
+      const start = {
+        x: random.nextInt(top.position.x, top.position.x + top.width - 1),
+        y: top.position.y + top.height
+      };
+      const end = {
+        x: random.nextInt(bottom.position.x, bottom.position.x + bottom.width - 1),
+        y: bottom.position.y - 1
+      };
+      const bendY = random.nextInt(start.y, end.y);
+
+      path = this.generatePathThrough([start, { x: start.x, y: bendY }, { x: end.x, y: bendY }, end]);
+    }
+
+    return reversed ? path.reverse() : path;
+  }
+
+  // Join waypoints with straight orthogonal segments
+  private generatePathThrough(waypoints: Coordinate[]): Coordinate[] {
+    const path: Coordinate[] = [];
+
+    for (let i = 0; i < waypoints.length - 1; i++) {
+      const segment = this.generatePath(waypoints[i]!, waypoints[i + 1]!);
+      // Skip the first point of later segments, it is the previous segment's end
+      path.push(...(path.length > 0 ? segment.slice(1) : segment));
+    }
+
+    return path;
+  }
+
+  private generatePath(start: Coordinate, end: Coordinate): Coordinate[] {
+    const path: Coordinate[] = [];
+    let current = { ...start };
+    
+    // Simple L-shaped path
+    while (current.x !== end.x) {
+      path.push({ ...current });
+      current.x += current.x < end.x ? 1 : -1;
+    }
+    
+    while (current.y !== end.y) {
+      path.push({ ...current });
+      current.y += current.y < end.y ? 1 : -1;
+    }
+    
+    path.push({ ...end });
+    return path;
+  }
+}
@@ -0,0 +1,151 @@
+import { Coordinate, DungeonMap, PlayerCharacter, Trap, TrapEvent, TrapKind } from '../types/GameTypes';
+import { RandomSource, SeededRandom, createSeededRandom } from '../utils/Random';
+import { statusEffects } from '../combat/StatusEffects';
+import { Enemy } from '../combat/Enemy';
+import {
+  ALARM_RADIUS,
+  TRAP_CHANCE_PER_POINT,
+  TRAP_DETECTION_CHANCE,
+  TRAP_DETECTION_RANGE,
+  TRAP_DISARM_CHANCE
+} from '../utils/Constants';
+
+export const TRAP_NAMES: Record<TrapKind, string> = {
+  spike: 'Spike trap',
+  poison_dart: 'Poison dart trap',
+  teleport: 'Teleport trap',
+  alarm: 'Alarm trap'
+};
+
+// Everything a sprung trap can reach; teleports are reported, the caller moves the player
+export interface TrapContext {
+  player: PlayerCharacter;
+  enemies: Enemy[];
+  isValidPosition: (position: Coordinate) => boolean;
+  dungeon: DungeonMap;
+}
+
+// Find an armed trap on a tile, if any
+export function findTrapAt(dungeon: DungeonMap, position: Coordinate): Trap | undefined {
+  return dungeon.traps?.find(trap =>
+    !trap.disarmed && trap.position.x === position.x && trap.position.y === position.y
+  );
+}
+
+// Detects, disarms and springs traps
+export class TrapSystem {
+  private random: RandomSource;
+
+  constructor(random: RandomSource = createSeededRandom(SeededRandom.generateSeed())) {
+    this.random = random;
+  }
+
+  // Roll to spot hidden traps near the player, returning the ones found
+  detectTraps(dungeon: DungeonMap, player: PlayerCharacter): Trap[] {
+    const found: Trap[] = [];
+
+    for (const trap of dungeon.traps ?? []) {
+      if (trap.detected || trap.disarmed) continue;
+
+      const distance = Math.abs(trap.position.x - player.position.x) + Math.abs(trap.position.y - player.position.y);
+      if (distance > TRAP_DETECTION_RANGE) continue;
+
+      if (this.random.chance(this.getChance(TRAP_DETECTION_CHANCE, player, trap))) {
+        trap.detected = true;
+        found.push(trap);
+      }
+    }
+
+    return found;
+  }
+
+  // Try to disarm a detected trap; a botched attempt has an even chance of setting it off
+  disarm(trap: Trap, context: TrapContext): TrapEvent {
+    if (this.random.chance(this.getChance(TRAP_DISARM_CHANCE, context.player, trap))) {
+      trap.disarmed = true;
+      return { type: 'disarmed', trap };
+    }
+
+    if (this.random.chance(0.5)) {
+      return this.trigger(trap, context);
+    }
+    return { type: 'disarm_failed', trap };
+  }
+
+  // Spring a trap on the player; traps never finish off the player outside combat
+  trigger(trap: Trap, context: TrapContext): TrapEvent {
+    const { player } = context;
+    const event: TrapEvent = { type: 'triggered', trap };
+    trap.detected = true;
+
+    switch (trap.kind) {
+      case 'spike':
+        event.damage = this.dealDamage(player, trap.damage);
+        break;
+
+      case 'poison_dart':
+        event.damage = this.dealDamage(player, trap.damage);
+        statusEffects.apply(player, { type: 'poison', duration: 3, potency: 2, source: TRAP_NAMES.poison_dart });
+        break;
+
+      case 'teleport': {
+        const destination = this.pickTeleportDestination(context);
+        if (destination) {
+          event.teleportedTo = destination;
+        }
+        break;
+      }
+
+      case 'alarm':
+        // An alarm rings once, then the mechanism is spent
+        trap.disarmed = true;
+        event.alertedEnemies = context.enemies
+          .filter(enemy => enemy.isAlive() &&
+            Math.abs(enemy.position.x - trap.position.x) + Math.abs(enemy.position.y - trap.position.y) <= ALARM_RADIUS)
+          .map(enemy => {
+            enemy.alertTo(trap.position);
+            return enemy.id;
+          });
+        break;
+    }
+
+    return event;
+  }
+
+  // Chance for an intelligence check against the trap's difficulty
+  private getChance(base: number, player: PlayerCharacter, trap: Trap): number {
+    const chance = base + (player.stats.intelligence - trap.difficulty) * TRAP_CHANCE_PER_POINT;
+    return Math.min(0.95, Math.max(0.05, chance));
+  }
+
+  private dealDamage(player: PlayerCharacter, damage: number): number {
+    const dealt = Math.min(damage, player.health - 1);
+    player.health -= Math.max(0, dealt);
+    return Math.max(0, dealt);
+  }
+
+  // A random open tile in a room other than the one the player is in, never a secret room
+  private pickTeleportDestination(context: TrapContext): Coordinate | null {
+    const { player, dungeon } = context;
+    const rooms = dungeon.rooms.filter(room => room.type !== 'secret' && !(
+      player.position.x >= room.position.x && player.position.x < room.position.x + room.width &&
+      player.position.y >= room.position.y && player.position.y < room.position.y + room.height
+    ));
+    if (rooms.length === 0) {
+      return null;
+    }
+
+    const room = this.random.pick(rooms);
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const position = {
+        x: room.position.x + this.random.nextInt(0, room.width - 1),
+        y: room.position.y + this.random.nextInt(0, room.height - 1)
+      };
+      if (context.isValidPosition(position) && !findTrapAt(dungeon, position)) {
+        return position;
+      }
+    }
+
+    return null;
+  }
+}
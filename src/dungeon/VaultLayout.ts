@@ -0,0 +1,140 @@
+import { Coordinate, Corridor, Room } from '../types/GameTypes';
+import { RandomSource } from '../utils/Random';
+import { MAX_VAULTS_PER_FLOOR, ROOM_PLACEMENT_ATTEMPTS, ROOM_SPACING } from '../utils/Constants';
+import { FloorPlan, LayoutConfig, createRoom, getRoomCenter, linkRooms, roomContains, roomsOverlap } from './LayoutGenerator';
+import { RoomsLayout } from './RoomsLayout';
+import { VaultLibrary, VaultTemplate, defaultVaultLibrary } from './VaultLibrary';
+import { findPath } from './Pathfinding';
+import { tileKey } from './FieldOfView';
+
+// A template stamped at a position on the map
+interface StampedVault {
+  footprint: Room; // Bounding box, kept clear of rooms and corridors apart from the entrances
+  chamber: Room;
+  floor: Coordinate[];
+}
+
+// Rooms and corridors with prefab vaults stamped in. Corridors are routed around the vaults'
+// walls so the only ways in are the entrances the template marks.
+export class VaultLayout extends RoomsLayout {
+  private library: VaultLibrary;
+
+  constructor(library: VaultLibrary = defaultVaultLibrary) {
+    super();
+    this.library = library;
+  }
+
+  override generate(config: LayoutConfig, random: RandomSource): FloorPlan {
+    const numRooms = Math.max(1, Math.min(config.maxRooms, random.nextInt(config.minRooms, config.maxRooms)));
+    const vaults = this.stampVaults(config, random);
+    if (vaults.length === 0) {
+      return super.generate(config, random);
+    }
+
+    // Ordinary rooms fill the space around the vaults; the player always starts in one of them
+    const rooms: Room[] = [];
+    const footprints = vaults.map(vault => vault.footprint);
+    for (let i = 0; i < Math.max(1, numRooms - vaults.length); i++) {
+      const room = this.placeRoom(`room_${i}`, config, numRooms, [...rooms, ...footprints], random);
+      if (!room) break;
+
+      room.type = i === 0 ? 'normal' : (random.chance(0.1) ? 'treasure' : 'normal');
+      rooms.push(room);
+    }
+    if (rooms.length === 0) {
+      return super.generate(config, random);
+    }
+
+    vaults.forEach(vault => {
+      vault.chamber.id = `room_${rooms.length}`;
+      rooms.push(vault.chamber);
+    });
+
+    const corridors = this.routeCorridors(rooms, vaults, config, random);
+    if (!corridors) {
+      return super.generate(config, random);
+    }
+
+    // The rest of each vault's floor belongs to its chamber
+    vaults.forEach((vault, index) => corridors.push({
+      id: `vault_${index}_halls`,
+      startRoom: vault.chamber.id,
+      endRoom: vault.chamber.id,
+      path: vault.floor.filter(position => !roomContains(vault.chamber, position))
+    }));
+
+    return { rooms, corridors, gated: true };
+  }
+
+  // Place up to the per-floor limit of vaults by rejection sampling
+  private stampVaults(config: LayoutConfig, random: RandomSource): StampedVault[] {
+    const vaults: StampedVault[] = [];
+    const count = random.nextInt(1, MAX_VAULTS_PER_FLOOR);
+
+    for (let i = 0; i < count; i++) {
+      const template = this.library.pickVault(config.depth, random);
+      if (!template || template.width + 2 > config.width || template.height + 2 > config.height) continue;
+
+      for (let attempt = 0; attempt < ROOM_PLACEMENT_ATTEMPTS; attempt++) {
+        const x = random.nextInt(1, config.width - template.width - 1);
+        const y = random.nextInt(1, config.height - template.height - 1);
+        const footprint = createRoom(`vault_${i}`, x, y, template.width, template.height);
+
+        // Leave a lane between vaults so corridors can always get around them
+        if (!vaults.some(vault => roomsOverlap(footprint, vault.footprint, ROOM_SPACING + 1))) {
+          vaults.push(this.stamp(template, footprint));
+          break;
+        }
+      }
+    }
+
+    return vaults;
+  }
+
+  private stamp(template: VaultTemplate, footprint: Room): StampedVault {
+    const { x, y } = footprint.position;
+    const chamber = createRoom(
+      footprint.id,
+      x + template.chamber.x,
+      y + template.chamber.y,
+      template.chamber.width,
+      template.chamber.height
+    );
+    chamber.type = template.entry.roomType;
+
+    return {
+      footprint,
+      chamber,
+      floor: template.floor.map(tile => ({ x: x + tile.x, y: y + tile.y }))
+    };
+  }
+
+  // Join the rooms with A* routes that may cross open ground and vault floors but never vault walls
+  private routeCorridors(rooms: Room[], vaults: StampedVault[], config: LayoutConfig, random: RandomSource): Corridor[] | null {
+    const vaultFloor = new Set(vaults.flatMap(vault => vault.floor.map(tileKey)));
+    const isPassable = (position: Coordinate) =>
+      position.x >= 0 && position.x < config.width && position.y >= 0 && position.y < config.height &&
+      (vaultFloor.has(tileKey(position)) || !vaults.some(vault => roomContains(vault.footprint, position)));
+    const corridors: Corridor[] = [];
+
+    for (const [from, to] of this.selectConnections(rooms, random)) {
+      const route = findPath(getRoomCenter(from), getRoomCenter(to), isPassable, { maxNodes: config.width * config.height });
+      if (!route) {
+        return null;
+      }
+
+      const corridor: Corridor = {
+        id: `corridor_${corridors.length}`,
+        startRoom: from.id,
+        endRoom: to.id,
+        path: route.filter(position =>
+          !vaultFloor.has(tileKey(position)) && !rooms.some(room => roomContains(room, position))
+        )
+      };
+      linkRooms(corridor, rooms);
+      corridors.push(corridor);
+    }
+
+    return corridors;
+  }
+}
@@ -0,0 +1,170 @@
+import { Coordinate, Room } from '../types/GameTypes';
+import { GameError } from '../utils/ErrorHandling';
+import { RandomSource } from '../utils/Random';
+import { getNeighbors } from './Pathfinding';
+import { tileKey } from './FieldOfView';
+import { loadEntries } from '../data/DataFile';
+import vaultData from '../data/vaults.json';
+
+// Shape of src/data/vaults.json. Rows are drawn in ASCII:
+// '#' rock, '.' floor, '+' an entrance on the outer edge, ' ' unused space
+export interface VaultEntry {
+  id: string;
+  name: string;
+  roomType: Room['type'];
+  spawn: {
+    minDepth: number;
+    maxDepth?: number; // Unbounded when omitted
+    weight: number; // Relative chance among eligible vaults
+  };
+  rows: string[];
+}
+
+export interface VaultData {
+  version: number;
+  vaults: VaultEntry[];
+}
+
+// A parsed template, with tiles relative to its top-left corner
+export interface VaultTemplate {
+  entry: VaultEntry;
+  width: number;
+  height: number;
+  floor: Coordinate[]; // Every walkable tile, entrances included
+  entrances: Coordinate[];
+  chamber: { x: number; y: number; width: number; height: number }; // Largest open rectangle, the vault's room
+}
+
+const LEGEND = new Set(['#', '.', '+', ' ']);
+const ROOM_TYPES: ReadonlyArray<Room['type']> = ['normal', 'treasure', 'boss', 'secret'];
+const MIN_CHAMBER_SIZE = 2;
+
+// Hand-authored vault templates and depth-weighted selection
+export class VaultLibrary {
+  private templates: Map<string, VaultTemplate> = new Map();
+
+  constructor(data: VaultData) {
+    const entries = loadEntries<VaultEntry>(data, { key: 'vaults', kind: 'vault', code: 'INVALID_VAULTS' });
+    for (const entry of entries.values()) {
+      this.templates.set(entry.id, this.parse(entry));
+    }
+  }
+
+  // Validate an entry and work out its floor, entrances and chamber
+  private parse(entry: VaultEntry): VaultTemplate {
+    const { rows, spawn } = entry;
+    if (!ROOM_TYPES.includes(entry.roomType)) {
+      throw new GameError(`Unknown room type for vault: ${entry.id}`, 'INVALID_VAULTS');
+    }
+    if (!spawn || spawn.minDepth < 1 || spawn.weight <= 0 ||
+        (spawn.maxDepth !== undefined && spawn.maxDepth < spawn.minDepth)) {
+      throw new GameError(`Invalid spawn rules for vault: ${entry.id}`, 'INVALID_VAULTS');
+    }
+
+    const width = rows?.[0]?.length ?? 0;
+    if (width === 0 || rows.some(row => row.length !== width || [...row].some(tile => !LEGEND.has(tile)))) {
+      throw new GameError(`Vault rows must be equal length and use only "#", ".", "+" and " ": ${entry.id}`, 'INVALID_VAULTS');
+    }
+
+    const height = rows.length;
+    const floor: Coordinate[] = [];
+    const entrances: Coordinate[] = [];
+    rows.forEach((row, y) => [...row].forEach((tile, x) => {
+      const onEdge = x === 0 || y === 0 || x === width - 1 || y === height - 1;
+      if (tile === '.' && onEdge) {
+        throw new GameError(`Vault floor must be walled in, use "+" for entrances: ${entry.id}`, 'INVALID_VAULTS');
+      }
+      if (tile === '+' && !onEdge) {
+        throw new GameError(`Vault entrances must be on the outer edge: ${entry.id}`, 'INVALID_VAULTS');
+      }
+      if (tile === '.' || tile === '+') floor.push({ x, y });
+      if (tile === '+') entrances.push({ x, y });
+    }));
+
+    if (entrances.length === 0) {
+      throw new GameError(`Vault has no entrance: ${entry.id}`, 'INVALID_VAULTS');
+    }
+    if (!this.isConnected(floor)) {
+      throw new GameError(`Vault floor must be reachable from its entrances: ${entry.id}`, 'INVALID_VAULTS');
+    }
+
+    const chamber = this.findChamber(rows);
+    if (chamber.width < MIN_CHAMBER_SIZE || chamber.height < MIN_CHAMBER_SIZE) {
+      throw new GameError(`Vault needs an open area of at least 2x2: ${entry.id}`, 'INVALID_VAULTS');
+    }
+
+    return { entry, width, height, floor, entrances, chamber };
+  }
+
+  private isConnected(floor: Coordinate[]): boolean {
+    const tiles = new Set(floor.map(tileKey));
+    const reached = new Set<string>([tileKey(floor[0]!)]);
+    const queue = [floor[0]!];
+
+    while (queue.length > 0) {
+      for (const next of getNeighbors(queue.shift()!)) {
+        if (tiles.has(tileKey(next)) && !reached.has(tileKey(next))) {
+          reached.add(tileKey(next));
+          queue.push(next);
+        }
+      }
+    }
+
+    return reached.size === tiles.size;
+  }
+
+  // Largest rectangle of plain floor; templates are small enough to try every one
+  private findChamber(rows: string[]): VaultTemplate['chamber'] {
+    let best = { x: 0, y: 0, width: 0, height: 0 };
+    const isFloor = (x: number, y: number) => rows[y]?.[x] === '.';
+
+    for (let y = 0; y < rows.length; y++) {
+      for (let x = 0; x < rows[y]!.length; x++) {
+        let maxWidth = Infinity;
+        for (let height = 1; isFloor(x, y + height - 1); height++) {
+          let rowWidth = 0;
+          while (isFloor(x + rowWidth, y + height - 1)) rowWidth++;
+          maxWidth = Math.min(maxWidth, rowWidth);
+
+          if (maxWidth * height > best.width * best.height) {
+            best = { x, y, width: maxWidth, height };
+          }
+        }
+      }
+    }
+
+    return best;
+  }
+
+  getTemplate(id: string): VaultTemplate | undefined {
+    return this.templates.get(id);
+  }
+
+  getTemplates(): VaultTemplate[] {
+    return Array.from(this.templates.values());
+  }
+
+  // Weighted pick among the vaults allowed on the floor, null when none are
+  pickVault(depth: number, random: RandomSource): VaultTemplate | null {
+    const candidates = this.getTemplates().filter(({ entry }) =>
+      depth >= entry.spawn.minDepth && (entry.spawn.maxDepth === undefined || depth <= entry.spawn.maxDepth)
+    );
+    const totalWeight = candidates.reduce((sum, { entry }) => sum + entry.spawn.weight, 0);
+    if (candidates.length === 0 || totalWeight <= 0) {
+      return null;
+    }
+
+    let roll = random.next() * totalWeight;
+    for (const template of candidates) {
+      roll -= template.entry.spawn.weight;
+      if (roll < 0) {
+        return template;
+      }
+    }
+
+    return candidates[candidates.length - 1]!;
+  }
+}
+
+// Vaults loaded from the bundled data file
+export const defaultVaultLibrary = new VaultLibrary(vaultData as unknown as VaultData);
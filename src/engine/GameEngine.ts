@@ -1,12 +1,29 @@
 import { GameState } from './GameState';
 import { DungeonGenerator, DungeonConfig } from '../dungeon/DungeonGenerator';
-import { PlayerAction, Coordinate } from '../types/GameTypes';
+import { PlayerAction, Coordinate, Corridor, EquipmentSlot, Item, Trap, TrapEvent } from '../types/GameTypes';
 import { GameError, handleError } from '../utils/ErrorHandling';
-import { MAX_INPUT_RESPONSE_TIME } from '../utils/Constants';
+import {
+  MAX_INPUT_RESPONSE_TIME,
+  MAX_DUNGEON_DEPTH,
+  KNOWN_TRAP_PATH_COST,
+  TRAVEL_STEP_INTERVAL,
+  EXPLORATION_MANA_REGEN
+} from '../utils/Constants';
+import { SeededRandom, deriveSeed } from '../utils/Random';
 import { MovementController } from '../player/MovementController';
 import { PlayerCharacter } from '../player/PlayerCharacter';
-import { CombatSystem, CombatTurn } from '../combat/CombatSystem';
+import { defaultCharacterClasses } from '../player/CharacterClasses';
+import { CombatSystem, CombatTurn, CombatResult } from '../combat/CombatSystem';
 import { Enemy } from '../combat/Enemy';
+import { FieldOfView, tileKey } from '../dungeon/FieldOfView';
+import { Pathfinder, DijkstraMap, StepCost } from '../dungeon/Pathfinding';
+import { findDoorAt } from '../dungeon/Door';
+import { TrapSystem, TrapContext, findTrapAt } from '../dungeon/TrapSystem';
+import { statusEffects } from '../combat/StatusEffects';
+import { SpellFailure } from '../combat/Spellbook';
+import { SkillFailure, TalentFailure } from '../player/TalentTree';
+import { Encumbrance, inventorySystem, isMaterial } from '../player/Inventory';
+import { CraftFailure, RecipeBook, defaultRecipeBook } from '../player/RecipeBook';
 import { PerformanceManager } from '../utils/PerformanceManager';
 
 export interface GameEngineConfig {
@@ -14,6 +31,71 @@ export interface GameEngineConfig {
   dungeonConfig: DungeonConfig;
 }
 
+// Everything the player earned over one fight
+export interface CombatRewards {
+  experience: number;
+  gold: number;
+  items: Item[]; // Drops moved into the inventory; the rest stay on the floor
+  defeatedEnemies: string[];
+}
+
+export interface CombatEndEvent {
+  outcome: 'victory' | 'defeat' | 'fled';
+  rewards: CombatRewards;
+  turns: number;
+  duration: number; // milliseconds
+}
+
+// Outcome of a spell the player tried to cast
+export interface SpellCastEvent {
+  spellId: string;
+  failure?: SpellFailure; // Set when the spell fizzled; no mana was spent
+  damage: number;
+  healing: number;
+  targets: string[]; // Enemies struck
+  defeated: string[]; // Enemies killed
+}
+
+// Outcome of an active skill the player tried to use
+export interface SkillUseEvent {
+  skillId: string;
+  failure?: SkillFailure; // Set when the skill could not be used; no cooldown started
+  damage: number;
+  healing: number;
+  targets: string[]; // Enemies struck
+  defeated: string[]; // Enemies killed
+}
+
+// Items the player picked up or dropped, or could not fit in the inventory
+export interface ItemEvent {
+  type: 'picked_up' | 'dropped' | 'inventory_full';
+  items: Item[];
+}
+
+// Outcome of a recipe the player crafted or items they tried to combine
+export interface CraftEvent {
+  recipeId?: string; // Omitted when the combined items make nothing
+  failure?: CraftFailure; // Set when nothing was crafted; no ingredients were used
+  item?: Item; // What was crafted
+  discovered: boolean; // The recipe was new to the player
+}
+
+// Why click-to-move or auto-explore stopped walking
+export type TravelStopReason = 'arrived' | 'explored' | 'enemy_spotted' | 'blocked' | 'interrupted';
+
+interface TravelPlan {
+  mode: 'path' | 'explore';
+  path: Coordinate[]; // Remaining steps when following a clicked path
+  knownEnemies: Set<string>; // Enemies already in view when the walk began
+}
+
+export interface LevelUpEvent {
+  previousLevel: number;
+  level: number;
+  maxHealth: number;
+  stats: PlayerCharacter['stats'];
+}
+
 // Core game engine - main game loop and state management
 export class GameEngine {
   private gameState: GameState;
@@ -21,12 +103,29 @@ export class GameEngine {
   private movementController: MovementController;
   private playerCharacter: PlayerCharacter;
   private combatSystem: CombatSystem;
+  private fieldOfView: FieldOfView = new FieldOfView();
+  private trapSystem: TrapSystem = new TrapSystem();
+  private recipeBook: RecipeBook = defaultRecipeBook;
+  private enemyPathfinder!: Pathfinder;
+  private playerPathfinder!: Pathfinder;
+  private travel: TravelPlan | null = null;
+  private travelTimer: number = 0;
   private isRunning: boolean = false;
   private lastFrameTime: number = 0;
   private frameId: number | null = null;
   private config: GameEngineConfig;
   private inputQueue: PlayerAction[] = [];
   private performanceManager: PerformanceManager;
+  private secretListeners: Array<(corridor: Corridor) => void> = [];
+  private levelUpListeners: Array<(event: LevelUpEvent) => void> = [];
+  private combatEndListeners: Array<(event: CombatEndEvent) => void> = [];
+  private trapListeners: Array<(event: TrapEvent) => void> = [];
+  private travelStopListeners: Array<(reason: TravelStopReason) => void> = [];
+  private spellListeners: Array<(event: SpellCastEvent) => void> = [];
+  private skillListeners: Array<(event: SkillUseEvent) => void> = [];
+  private itemListeners: Array<(event: ItemEvent) => void> = [];
+  private craftListeners: Array<(event: CraftEvent) => void> = [];
+  private combatRewards: CombatRewards = GameEngine.createEmptyRewards();
 
   constructor(config?: Partial<GameEngineConfig>) {
     this.config = {
@@ -35,7 +134,9 @@ export class GameEngine {
         width: 30,
         height: 30,
         minRooms: 5,
-        maxRooms: 12
+        maxRooms: 12,
+        // Themed floors break up the rooms and corridors on the way down
+        floorLayouts: { 3: 'caves', 5: 'vaults', 7: 'caves', 9: 'vaults' }
       },
       ...config
     };
@@ -43,6 +144,8 @@ export class GameEngine {
     this.dungeonGenerator = new DungeonGenerator();
     this.gameState = new GameState();
     this.combatSystem = new CombatSystem();
+    this.combatSystem.setLineOfSightCheck((from, to) => this.movementController.hasLineOfSight(from, to));
+    this.combatSystem.setLineTrace((from, to) => this.movementController.getLinePositions(from, to));
     this.performanceManager = PerformanceManager.getInstance();
     
     // Initialize player character and movement controller
@@ -55,7 +158,10 @@ export class GameEngine {
   private initializeGame(): void {
     try {
       // Generate initial dungeon
-      const dungeon = this.dungeonGenerator.generate(this.config.dungeonConfig);
+      const dungeon = this.dungeonGenerator.generate({
+        ...this.config.dungeonConfig,
+        depth: this.gameState.floor
+      });
       this.gameState.dungeon = dungeon;
 
       // Place player in first room
@@ -82,6 +188,8 @@ export class GameEngine {
 
       // Update movement controller with new dungeon
       this.movementController.updateDungeon(dungeon);
+      this.resetPathfinding();
+      this.updateFieldOfView();
 
     } catch (error) {
       handleError(error as Error, 'Failed to initialize game', { context: 'GameEngine.initializeGame' });
@@ -191,9 +299,39 @@ export class GameEngine {
         case 'defend':
           this.handleDefend(action);
           break;
+        case 'interact':
+          this.handleInteract(action);
+          break;
+        case 'disarm':
+          this.handleDisarm(action);
+          break;
+        case 'explore':
+          this.autoExplore();
+          break;
+        case 'cast_spell':
+          this.handleCastSpell(action);
+          break;
+        case 'flee':
+          this.handleFlee(action);
+          break;
+        case 'use_skill':
+          this.handleUseSkill(action);
+          break;
+        case 'pick_up':
+          this.handlePickUp();
+          break;
+        case 'drop':
+          this.handleDrop(action);
+          break;
         default:
           console.warn('Unknown action type:', action.type);
       }
+
+      // Moves, combat and newly opened passages all change what the player can see
+      // and where everyone can walk
+      this.updateFieldOfView();
+      this.enemyPathfinder.clearCache();
+      this.playerPathfinder.clearCache();
     } catch (error) {
       handleError(error as Error, 'Player action error', { context: 'GameEngine.handlePlayerAction', action });
     }
@@ -201,6 +339,10 @@ export class GameEngine {
 
   private handleMovement(action: PlayerAction): void {
     if (!action.direction) {
+      // A move with a target tile comes from a click and walks there over several turns
+      if (action.target && typeof action.target === 'object') {
+        this.travelTo(action.target);
+      }
       return;
     }
 
@@ -223,8 +365,26 @@ export class GameEngine {
         this.gameState.currentRoom = newRoom;
       }
 
+      // Walking past a secret passage's entrance reveals it
+      const secrets = this.movementController.discoverSecretsNear(movementResult.newPosition);
+      secrets.forEach(corridor => this.secretListeners.forEach(listener => listener(corridor)));
+
+      // Lingering effects such as poison keep ticking while exploring
+      this.tickExplorationEffects();
+
+      // Spring any trap underfoot, then look around for hidden ones
+      const trap = findTrapAt(this.gameState.dungeon, movementResult.newPosition);
+      if (trap) {
+        this.resolveTrapEvent(this.trapSystem.trigger(trap, this.createTrapContext()));
+      }
+      this.trapSystem.detectTraps(this.gameState.dungeon, this.gameState.player)
+        .forEach(detected => this.resolveTrapEvent({ type: 'detected', trap: detected }));
+
       // Check for encounters after movement
       this.checkEncounters();
+    } else if (movementResult.door) {
+      // Bumping into a door spends the turn trying to open it
+      this.gameState.advanceTurn();
     } else {
       // Movement was blocked - could trigger UI feedback here
       console.log(`Movement blocked: ${movementResult.blockedReason}`);
@@ -235,8 +395,14 @@ export class GameEngine {
     if (this.gameState.isInCombat) {
       this.handleCombatAction(action);
     } else {
-      // Not in combat - initiate combat if enemy is nearby
+      // Not in combat - initiate combat if enemy is nearby, or open fire on one in range
       const nearbyEnemies = this.combatSystem.checkForEncounter(this.gameState);
+      const inReach = this.combatSystem.getEnemiesInReach(this.gameState, this.gameState.getVisibleEnemies());
+      const target = action.target ? inReach.find(enemy => enemy.id === action.target) : inReach[0];
+      if (target && !nearbyEnemies.includes(target)) {
+        nearbyEnemies.push(target);
+      }
+
       if (nearbyEnemies.length > 0) {
         this.combatSystem.initiateCombat(this.gameState, nearbyEnemies);
         this.handleCombatAction(action);
@@ -250,23 +416,165 @@ export class GameEngine {
     } else {
       // Basic item use implementation outside of combat
       if (action.item) {
-        const itemIndex = this.gameState.player.inventory.findIndex(i => i.id === action.item?.id);
-        if (itemIndex >= 0) {
+        const carried = this.gameState.player.inventory.some(i => i.id === action.item?.id);
+        if (carried) {
           // Handle consumable items
           if (action.item.type === 'consumable') {
             // Apply item effects
             if (action.item.properties['effect'] === 'heal') {
               const healAmount = action.item.properties['amount'] || 20;
+              this.refreshPlayerCharacter();
               this.playerCharacter.heal(healAmount);
+              this.syncPlayerState();
+            } else if (action.item.properties['effect'] === 'ammo' &&
+              !this.combatSystem.reloadWeapon(this.gameState.player, action.item.properties['amount'] || 10)) {
+              return; // Nothing to load, keep the ammo
             }
-            // Remove consumable items from inventory
-            this.gameState.player.inventory.splice(itemIndex, 1);
+            // Use up one item from the stack
+            inventorySystem.consume(this.gameState.player.inventory, action.item.id);
           }
         }
       }
     }
   }
 
+  // Take everything on the player's tile; gold goes to the purse and what does not fit stays put
+  private handlePickUp(): void {
+    if (this.gameState.isInCombat) {
+      return;
+    }
+
+    const { x, y } = this.gameState.player.position;
+    const underfoot = this.gameState.items.filter(item => item.position.x === x && item.position.y === y);
+    if (underfoot.length === 0) {
+      return;
+    }
+
+    // Traps and fights hurt the plain player data, so bring the character up to date first
+    this.refreshPlayerCharacter();
+    const pickedUp: Item[] = [];
+    const leftBehind: Item[] = [];
+    for (const item of underfoot) {
+      if (item.type === 'treasure' && !isMaterial(item)) {
+        this.playerCharacter.addGold(item.properties['value'] || 0);
+      } else if (!this.playerCharacter.addItem(item)) {
+        leftBehind.push(item);
+        continue;
+      }
+      pickedUp.push(item);
+      this.removeFloorItem(item);
+    }
+
+    this.syncPlayerState();
+    this.gameState.advanceTurn();
+    if (pickedUp.length > 0) {
+      this.reportItems({ type: 'picked_up', items: pickedUp });
+    }
+    if (leftBehind.length > 0) {
+      this.reportItems({ type: 'inventory_full', items: leftBehind });
+    }
+  }
+
+  // Put a whole stack down on the player's tile
+  private handleDrop(action: PlayerAction): void {
+    if (this.gameState.isInCombat || !action.item) {
+      return;
+    }
+
+    const item = this.playerCharacter.removeItem(action.item.id);
+    if (!item) {
+      return;
+    }
+
+    item.position = { ...this.gameState.player.position };
+    this.gameState.items.push(item);
+    this.gameState.advanceTurn();
+    this.reportItems({ type: 'dropped', items: [item] });
+  }
+
+  // Items the dungeon generated also sit in their room's list
+  private removeFloorItem(item: Item): void {
+    this.gameState.items = this.gameState.items.filter(i => i.id !== item.id);
+    this.gameState.dungeon.rooms.forEach(room => {
+      room.items = room.items.filter(i => i.id !== item.id);
+    });
+  }
+
+  private reportItems(event: ItemEvent): void {
+    this.itemListeners.forEach(listener => listener(event));
+  }
+
+  // In combat a spell takes the player's turn. While exploring it resolves at once: heals and
+  // buffs help the player, offensive spells snipe enemies in sight and rouse the survivors.
+  private handleCastSpell(action: PlayerAction): void {
+    if (this.gameState.isInCombat) {
+      this.handleCombatAction(action);
+      return;
+    }
+
+    const targets = this.gameState.getVisibleEnemies();
+    const results = this.combatSystem.castSpell(this.gameState, action, targets);
+    this.reportSpell(action, results[0]!, targets);
+    if (!results[0]?.spellId) {
+      return;
+    }
+
+    // The cast spent mana and healed the plain player data, so bring the character up to date first
+    this.refreshPlayerCharacter();
+    results.filter(result => result.enemyDefeated).forEach(result => this.awardKill(result));
+    this.syncPlayerState();
+    // Kills made outside a fight are paid out at once rather than saved for the next one
+    this.combatRewards = GameEngine.createEmptyRewards();
+
+    const struck = new Set(results[0].spellTargets ?? []);
+    this.gameState.enemies = this.gameState.enemies.filter(enemy => enemy.isAlive());
+    this.gameState.enemies
+      .filter(enemy => struck.has(enemy.id))
+      .forEach(enemy => enemy.alertTo(this.gameState.player.position));
+
+    this.gameState.advanceTurn();
+    this.checkEncounters();
+  }
+
+  // Tell listeners how a cast went
+  private reportSpell(action: PlayerAction, cast: CombatResult, enemies: Enemy[]): void {
+    const targets = cast.spellTargets ?? [];
+    const event: SpellCastEvent = {
+      spellId: action.spellId ?? '',
+      damage: cast.playerDamageDealt,
+      healing: cast.healing ?? 0,
+      targets,
+      defeated: enemies.filter(enemy => targets.includes(enemy.id) && !enemy.isAlive()).map(enemy => enemy.id)
+    };
+    if (cast.spellFailure) {
+      event.failure = cast.spellFailure;
+    }
+    this.spellListeners.forEach(listener => listener(event));
+  }
+
+  // Skills are combat techniques; outside a fight there is nothing to use them on
+  private handleUseSkill(action: PlayerAction): void {
+    if (this.gameState.isInCombat) {
+      this.handleCombatAction(action);
+    }
+  }
+
+  // Tell listeners how a skill went
+  private reportSkill(action: PlayerAction, use: CombatResult, enemies: Enemy[]): void {
+    const targets = use.skillTargets ?? [];
+    const event: SkillUseEvent = {
+      skillId: action.skillId ?? '',
+      damage: use.playerDamageDealt,
+      healing: use.healing ?? 0,
+      targets,
+      defeated: enemies.filter(enemy => targets.includes(enemy.id) && !enemy.isAlive()).map(enemy => enemy.id)
+    };
+    if (use.skillFailure) {
+      event.failure = use.skillFailure;
+    }
+    this.skillListeners.forEach(listener => listener(event));
+  }
+
   private handleDefend(action: PlayerAction): void {
     if (this.gameState.isInCombat) {
       this.handleCombatAction(action);
@@ -276,6 +584,121 @@ export class GameEngine {
     }
   }
 
+  // There is nothing to run from outside combat
+  private handleFlee(action: PlayerAction): void {
+    if (this.gameState.isInCombat) {
+      this.handleCombatAction(action);
+    }
+  }
+
+  // Open or close the door in the given direction, or the first door next to the player
+  private handleInteract(action: PlayerAction): void {
+    if (this.gameState.isInCombat) {
+      return;
+    }
+
+    const { x, y } = this.gameState.player.position;
+    const offsets = { north: { x: 0, y: -1 }, south: { x: 0, y: 1 }, east: { x: 1, y: 0 }, west: { x: -1, y: 0 } };
+    const target = action.direction ?
+      { x: x + offsets[action.direction].x, y: y + offsets[action.direction].y } :
+      this.movementController.getAdjacentDoors()[0]?.position;
+    if (!target) {
+      return;
+    }
+
+    const door = this.movementController.getAdjacentDoors()
+      .find(d => d.position.x === target.x && d.position.y === target.y);
+    const interaction = door?.state === 'open' ?
+      this.movementController.closeDoor(target, position => this.isOccupied(position)) :
+      this.movementController.openDoor(target);
+
+    if (interaction.success) {
+      this.gameState.advanceTurn();
+    }
+  }
+
+  // A living enemy or an item on the tile
+  private isOccupied(position: Coordinate): boolean {
+    const at = (other: Coordinate) => other.x === position.x && other.y === position.y;
+    return this.gameState.enemies.some(enemy => enemy.isAlive() && at(enemy.position)) ||
+      this.gameState.items.some(item => at(item.position));
+  }
+
+  // Disarm a detected trap in the given direction, underfoot, or next to the player
+  private handleDisarm(action: PlayerAction): void {
+    if (this.gameState.isInCombat) {
+      return;
+    }
+
+    const trap = this.findDisarmTarget(action);
+    if (!trap) {
+      return;
+    }
+
+    this.resolveTrapEvent(this.trapSystem.disarm(trap, this.createTrapContext()));
+    this.gameState.advanceTurn();
+  }
+
+  private findDisarmTarget(action: PlayerAction): Trap | undefined {
+    const { x, y } = this.gameState.player.position;
+    const detectedAt = (position: Coordinate) => {
+      const trap = findTrapAt(this.gameState.dungeon, position);
+      return trap?.detected ? trap : undefined;
+    };
+
+    if (action.direction) {
+      const offsets = { north: { x: 0, y: -1 }, south: { x: 0, y: 1 }, east: { x: 1, y: 0 }, west: { x: -1, y: 0 } };
+      return detectedAt({ x: x + offsets[action.direction].x, y: y + offsets[action.direction].y });
+    }
+
+    return [{ x, y }, { x, y: y - 1 }, { x, y: y + 1 }, { x: x + 1, y }, { x: x - 1, y }]
+      .map(detectedAt)
+      .find(trap => trap !== undefined);
+  }
+
+  private createTrapContext(): TrapContext {
+    return {
+      player: this.gameState.player,
+      enemies: this.gameState.enemies,
+      dungeon: this.gameState.dungeon,
+      isValidPosition: position => this.gameState.isValidPosition(position)
+    };
+  }
+
+  // Apply a trap's outcome to the engine's player, then tell the listeners
+  private resolveTrapEvent(event: TrapEvent): void {
+    if (event.teleportedTo) {
+      this.gameState.updatePlayerPosition(event.teleportedTo);
+      this.playerCharacter.moveTo(event.teleportedTo);
+    }
+    this.playerCharacter.health = this.gameState.player.health;
+
+    // Anything trap related is worth stopping a walk for
+    this.stopTravel('interrupted');
+    this.trapListeners.forEach(listener => listener(event));
+  }
+
+  // Tick status effects outside combat; they can wear the player down but never kill.
+  // Mana trickles back, spell and skill cooldowns run down and outrun enemies search at the same pace.
+  private tickExplorationEffects(): void {
+    const player = this.gameState.player;
+    this.gameState.enemies.forEach(enemy => enemy.tickLostTrack());
+    const spellbook = this.combatSystem.getSpellbook();
+    spellbook.tickCooldowns(player);
+    this.combatSystem.getTalentTree().tickCooldowns(player);
+    spellbook.restoreMana(player, EXPLORATION_MANA_REGEN);
+    this.playerCharacter.mana = player.mana ?? this.playerCharacter.mana;
+
+    if (!player.statusEffects?.length) {
+      return;
+    }
+
+    statusEffects.onTurnStart(player);
+    statusEffects.onTurnEnd(player);
+    player.health = Math.max(1, player.health);
+    this.playerCharacter.health = player.health;
+  }
+
   // Handle actions during combat
   private handleCombatAction(action: PlayerAction): void {
     const aliveEnemies = this.gameState.enemies.filter(e => e.isAlive());
@@ -295,6 +718,24 @@ export class GameEngine {
       
       // Log combat turn for debugging
       console.log(`Combat Turn ${combatTurn.turnNumber}: Player ${action.type}, ${combatTurn.enemyActions.length} enemy actions`);
+
+      // Combat moves the player data directly; keep the character the movement controller uses in step
+      this.playerCharacter.moveTo(this.gameState.player.position);
+
+      if (action.type === 'cast_spell' && combatTurn.combatResults[0] && !combatTurn.combatResults[0].skippedTurn) {
+        this.reportSpell(action, combatTurn.combatResults[0], aliveEnemies);
+      }
+      if (action.type === 'use_skill' && combatTurn.combatResults[0] && !combatTurn.combatResults[0].skippedTurn) {
+        this.reportSkill(action, combatTurn.combatResults[0], aliveEnemies);
+      }
+
+      combatTurn.combatResults
+        .filter(result => result.enemyDefeated)
+        .forEach(result => this.awardKill(result));
+
+      if (!this.gameState.isInCombat) {
+        this.finishCombat(combatTurn.combatResults[0]?.fled === true);
+      }
       
     } catch (error) {
       handleError(error as Error, 'Combat action error', { context: 'GameEngine.handleCombatAction', action });
@@ -303,8 +744,197 @@ export class GameEngine {
     }
   }
 
+  // Hand a kill's experience, gold and drops to the player
+  private awardKill(result: CombatResult): void {
+    // Combat damages the plain player data, so bring the character up to date first
+    this.refreshPlayerCharacter();
+    const previousLevel = this.playerCharacter.level;
+
+    this.playerCharacter.gainExperience(result.experienceGained);
+    this.playerCharacter.addGold(result.gold ?? 0);
+    this.combatRewards.experience += result.experienceGained;
+    this.combatRewards.gold += result.gold ?? 0;
+    if (result.defeatedEnemyId) {
+      this.combatRewards.defeatedEnemies.push(result.defeatedEnemyId);
+    }
+
+    for (const item of result.loot ?? []) {
+      this.collectLoot(item);
+    }
+
+    this.syncPlayerState();
+
+    if (this.playerCharacter.level > previousLevel) {
+      const event: LevelUpEvent = {
+        previousLevel,
+        level: this.playerCharacter.level,
+        maxHealth: this.playerCharacter.maxHealth,
+        stats: { ...this.playerCharacter.stats }
+      };
+      this.levelUpListeners.forEach(listener => listener(event));
+    }
+  }
+
+  // Gold piles go to the purse; other drops go to the inventory if there is room
+  private collectLoot(item: Item): void {
+    if (item.type === 'treasure' && !isMaterial(item)) {
+      const value = item.properties['value'] || 0;
+      this.playerCharacter.addGold(value);
+      this.combatRewards.gold += value;
+    } else if (this.playerCharacter.addItem(item)) {
+      this.combatRewards.items.push(item);
+    } else {
+      return; // Inventory full, the drop stays where the enemy fell
+    }
+
+    this.removeFloorItem(item);
+  }
+
+  // Copy progression from the character back into the saved player data
+  private syncPlayerState(): void {
+    const player = this.gameState.player;
+    player.level = this.playerCharacter.level;
+    player.experience = this.playerCharacter.experience;
+    player.health = this.playerCharacter.health;
+    player.maxHealth = this.playerCharacter.maxHealth;
+    player.gold = this.playerCharacter.gold;
+    player.mana = this.playerCharacter.mana;
+    player.maxMana = this.playerCharacter.maxMana;
+    player.learnedSpells = [...this.playerCharacter.learnedSpells];
+    player.talentPoints = this.playerCharacter.talentPoints;
+    player.talents = { ...this.playerCharacter.talents };
+    player.knownRecipes = [...this.playerCharacter.knownRecipes];
+  }
+
+  // Put a talent point into a node between fights; returns why it failed, or null
+  spendTalentPoint(nodeId: string): TalentFailure | null {
+    if (this.gameState.isInCombat) {
+      return 'in_combat';
+    }
+
+    this.refreshPlayerCharacter();
+    const failure = this.playerCharacter.spendTalentPoint(nodeId);
+    this.syncPlayerState();
+    return failure;
+  }
+
+  // Refund every spent talent point between fights; returns why it failed, or null
+  respecTalents(): TalentFailure | null {
+    if (this.gameState.isInCombat) {
+      return 'in_combat';
+    }
+
+    this.refreshPlayerCharacter();
+    const refunded = this.playerCharacter.respecTalents();
+    this.syncPlayerState();
+    return refunded > 0 ? null : 'nothing_to_refund';
+  }
+
+  // Craft a known recipe between fights; returns why it failed, or null
+  craft(recipeId: string): CraftFailure | null {
+    this.refreshPlayerCharacter();
+    const failure = this.gameState.isInCombat ? 'in_combat' : this.recipeBook.checkCraft(this.playerCharacter, recipeId);
+    return this.finishCrafting(recipeId, failure);
+  }
+
+  // Combine carried items between fights, crafting and discovering the recipe they make; returns why it failed, or null
+  combineItems(itemIds: string[]): CraftFailure | null {
+    this.refreshPlayerCharacter();
+    const recipe = this.recipeBook.findCombination(this.playerCharacter, itemIds);
+    const failure = this.gameState.isInCombat ? 'in_combat' :
+      recipe ? this.recipeBook.checkIngredients(this.playerCharacter, recipe) : 'no_recipe';
+    return this.finishCrafting(recipe?.id, failure);
+  }
+
+  // Craft the checked recipe, spending a turn, and tell listeners how it went
+  private finishCrafting(recipeId: string | undefined, failure: CraftFailure | null): CraftFailure | null {
+    const recipe = recipeId ? this.recipeBook.getRecipe(recipeId) : undefined;
+    const event: CraftEvent = { discovered: false };
+    if (recipeId) {
+      event.recipeId = recipeId;
+    }
+
+    if (failure || !recipe) {
+      event.failure = failure ?? 'no_recipe';
+    } else {
+      event.discovered = !this.recipeBook.isKnown(this.playerCharacter, recipe.id);
+      event.item = this.recipeBook.craft(this.playerCharacter, recipe, `crafted_${recipe.id}_${this.gameState.turnNumber}`);
+      this.syncPlayerState();
+      this.gameState.advanceTurn();
+    }
+
+    this.craftListeners.forEach(listener => listener(event));
+    return event.failure ?? null;
+  }
+
+  getRecipeBook(): RecipeBook {
+    return this.recipeBook;
+  }
+
+  // Wear a carried item between fights; false if it cannot be equipped
+  equipItem(itemId: string): boolean {
+    return !this.gameState.isInCombat && this.playerCharacter.equipItem(itemId);
+  }
+
+  // Put an equipped item back in the inventory between fights; false if there is no room
+  unequipItem(slot: EquipmentSlot): boolean {
+    return !this.gameState.isInCombat && this.playerCharacter.unequipItem(slot);
+  }
+
+  // How much the player carries against what they can carry
+  getEncumbrance(): Encumbrance {
+    return this.combatSystem.getEncumbrance(this.gameState.player);
+  }
+
+  // Turn the agility penalty for carrying too much on or off
+  setCarryWeight(enabled: boolean): void {
+    this.combatSystem.setCarryWeight(enabled);
+  }
+
+  // Bring the character's health and mana up to date with the player data it drifts from
+  private refreshPlayerCharacter(): void {
+    this.playerCharacter.health = this.gameState.player.health;
+    this.playerCharacter.mana = this.gameState.player.mana ?? this.playerCharacter.mana;
+  }
+
+  // Report the finished fight and start collecting rewards for the next one. A fight the player
+  // survives without fleeing ends once no living enemy in it is left in reach, whatever else
+  // still roams the floor, so that counts as a victory.
+  private finishCombat(fled: boolean): void {
+    let outcome: CombatEndEvent['outcome'] = 'victory';
+    if (this.gameState.player.health <= 0) {
+      outcome = 'defeat';
+    } else if (fled) {
+      outcome = 'fled';
+    }
+
+    const stats = this.combatSystem.getCombatStats();
+    const event: CombatEndEvent = {
+      outcome,
+      rewards: this.combatRewards,
+      turns: stats.totalTurns,
+      duration: stats.combatDuration
+    };
+
+    this.combatRewards = GameEngine.createEmptyRewards();
+    this.combatEndListeners.forEach(listener => listener(event));
+  }
+
+  private static createEmptyRewards(): CombatRewards {
+    return { experience: 0, gold: 0, items: [], defeatedEnemies: [] };
+  }
+
   // Update game systems
   private update(deltaTime: number): void {
+    // Take the next step of a click-to-move or auto-explore walk
+    if (this.travel) {
+      this.travelTimer += deltaTime;
+      if (this.travelTimer >= TRAVEL_STEP_INTERVAL) {
+        this.travelTimer = 0;
+        this.advanceTravel();
+      }
+    }
+
     // Update enemy AI (basic implementation)
     this.updateEnemies(deltaTime);
 
@@ -323,6 +953,10 @@ export class GameEngine {
       return;
     }
 
+    // Every chasing enemy follows the same map towards the player, built on first use
+    let chaseMap: DijkstraMap | undefined;
+    const getChaseMap = () => chaseMap ??= this.enemyPathfinder.getDijkstraMap(this.gameState.player.position);
+
     // Update enemy AI behavior outside of combat
     for (const enemy of this.gameState.enemies) {
       if (!enemy.isAlive()) {
@@ -332,7 +966,9 @@ export class GameEngine {
       // Use enemy AI to decide actions
       const action = enemy.decideAction(
         this.gameState.player, 
-        (pos) => this.gameState.isValidPosition(pos)
+        (pos) => this.gameState.isValidPosition(pos),
+        enemy.canDetectPlayer(this.gameState.player) ? getChaseMap() : undefined,
+        (from, to) => this.movementController.hasLineOfSight(from, to)
       );
 
       // Execute non-combat actions (like patrol movement)
@@ -356,11 +992,202 @@ export class GameEngine {
     }
   }
 
+  // Walk to a tile the player has seen, one step per travel tick; returns false if there is no way there
+  travelTo(target: Coordinate): boolean {
+    if (this.gameState.isInCombat || !this.gameState.exploredTiles.includes(tileKey(target))) {
+      return false;
+    }
+
+    const path = this.playerPathfinder.findPath(this.gameState.player.position, target, { cost: this.travelCost });
+    if (!path || path.length === 0) {
+      return false;
+    }
+
+    this.startTravel('path', path);
+    return true;
+  }
+
+  // Keep walking to the nearest unexplored tile until an enemy shows up or nothing is left
+  autoExplore(): boolean {
+    if (this.gameState.isInCombat) {
+      return false;
+    }
+    if (!this.getExploreStep()) {
+      this.travelStopListeners.forEach(listener => listener('explored'));
+      return false;
+    }
+
+    this.startTravel('explore', []);
+    return true;
+  }
+
+  isTraveling(): boolean {
+    return this.travel !== null;
+  }
+
+  // Stop walking, e.g. because the player pressed a key
+  cancelTravel(): void {
+    this.stopTravel('interrupted');
+  }
+
+  private startTravel(mode: TravelPlan['mode'], path: Coordinate[]): void {
+    this.travel = {
+      mode,
+      path,
+      knownEnemies: new Set(this.gameState.getVisibleEnemies().map(enemy => enemy.id))
+    };
+    this.travelTimer = 0;
+  }
+
+  private stopTravel(reason: TravelStopReason): void {
+    if (!this.travel) {
+      return;
+    }
+
+    this.travel = null;
+    this.travelTimer = 0;
+    this.travelStopListeners.forEach(listener => listener(reason));
+  }
+
+  // Take one step of the current walk as an ordinary move, then decide whether to keep going
+  private advanceTravel(): void {
+    const plan = this.travel;
+    if (!plan) {
+      return;
+    }
+    if (this.gameState.isInCombat) {
+      this.stopTravel('interrupted');
+      return;
+    }
+
+    const next = plan.mode === 'explore' ? this.getExploreStep() : plan.path[0];
+    if (!next) {
+      this.stopTravel(plan.mode === 'explore' ? 'explored' : 'arrived');
+      return;
+    }
+
+    const direction = this.movementController.getDirectionTo(this.gameState.player.position, next);
+    if (!direction) {
+      this.stopTravel('blocked');
+      return;
+    }
+
+    this.handlePlayerAction({ type: 'move', direction: direction as NonNullable<PlayerAction['direction']>, timestamp: Date.now() });
+    if (this.travel !== plan) {
+      return; // A trap or similar already ended the walk
+    }
+
+    const position = this.gameState.player.position;
+    const moved = position.x === next.x && position.y === next.y;
+    if (moved && plan.mode === 'path') {
+      plan.path.shift();
+    } else if (!moved && findDoorAt(this.gameState.dungeon, next)?.state !== 'open') {
+      // Bumping a door open costs a step; anything else in the way ends the walk
+      this.stopTravel('blocked');
+      return;
+    }
+
+    if (this.gameState.getVisibleEnemies().some(enemy => !plan.knownEnemies.has(enemy.id))) {
+      this.stopTravel('enemy_spotted');
+    } else if (this.gameState.isInCombat) {
+      this.stopTravel('interrupted');
+    } else if (plan.mode === 'path' && plan.path.length === 0) {
+      this.stopTravel('arrived');
+    }
+  }
+
+  // Next step towards the closest walkable tile the player has never seen
+  private getExploreStep(): Coordinate | null {
+    const explored = new Set(this.gameState.exploredTiles);
+    const { width, height } = this.gameState.dungeon;
+    const frontier: Coordinate[] = [];
+
+    for (let x = 0; x < width; x++) {
+      for (let y = 0; y < height; y++) {
+        const position = { x, y };
+        if (!explored.has(tileKey(position)) && this.movementController.isPassable(position)) {
+          frontier.push(position);
+        }
+      }
+    }
+
+    if (frontier.length === 0) {
+      return null;
+    }
+    return this.playerPathfinder.createDijkstraMap(frontier, this.travelCost).nextStep(this.gameState.player.position);
+  }
+
+  // Travel prefers open ground: closed doors cost the bump to open them and spotted traps are avoided
+  private travelCost: StepCost = (_from, to) => {
+    const door = findDoorAt(this.gameState.dungeon, to);
+    const trap = findTrapAt(this.gameState.dungeon, to);
+    return 1 + (door && door.state !== 'open' ? 1 : 0) + (trap?.detected ? KNOWN_TRAP_PATH_COST : 0);
+  };
+
+  // Rebuild pathfinding for the current floor
+  private resetPathfinding(): void {
+    const dungeon = this.gameState.dungeon;
+    this.enemyPathfinder = new Pathfinder(dungeon, position => this.gameState.isValidPosition(position));
+    this.playerPathfinder = new Pathfinder(dungeon, position => this.movementController.isPassable(position));
+    this.travel = null;
+    this.travelTimer = 0;
+  }
+
   // Public API methods
   queueAction(action: PlayerAction): void {
+    // Any other input takes over from an ongoing walk
+    const isTravelAction = action.type === 'explore' || (action.type === 'move' && !action.direction);
+    if (!isTravelAction) {
+      this.cancelTravel();
+    }
     this.inputQueue.push(action);
   }
 
+  // Subscribe to secret passage discoveries
+  onSecretDiscovered(listener: (corridor: Corridor) => void): void {
+    this.secretListeners.push(listener);
+  }
+
+  // Subscribe to traps being spotted, sprung and disarmed
+  onTrap(listener: (event: TrapEvent) => void): void {
+    this.trapListeners.push(listener);
+  }
+
+  // Subscribe to click-to-move and auto-explore walks ending
+  onTravelStop(listener: (reason: TravelStopReason) => void): void {
+    this.travelStopListeners.push(listener);
+  }
+
+  // Subscribe to spell casts, including ones that fizzle
+  onSpellCast(listener: (event: SpellCastEvent) => void): void {
+    this.spellListeners.push(listener);
+  }
+
+  // Subscribe to active skill uses, including ones that fail
+  onSkillUsed(listener: (event: SkillUseEvent) => void): void {
+    this.skillListeners.push(listener);
+  }
+
+  // Subscribe to items being picked up or dropped
+  onItem(listener: (event: ItemEvent) => void): void {
+    this.itemListeners.push(listener);
+  }
+
+  // Subscribe to crafting, including attempts that make nothing
+  onCraft(listener: (event: CraftEvent) => void): void {
+    this.craftListeners.push(listener);
+  }
+
+  // Subscribe to level-ups earned in combat
+  onLevelUp(listener: (event: LevelUpEvent) => void): void {
+    this.levelUpListeners.push(listener);
+  }
+
+  // Subscribe to the end of each fight, with its outcome and rewards
+  onCombatEnd(listener: (event: CombatEndEvent) => void): void {
+    this.combatEndListeners.push(listener);
+  }
+
   getGameState(): GameState {
     return this.gameState.clone();
   }
@@ -375,15 +1202,36 @@ export class GameEngine {
       if (!this.gameState.validate()) {
         throw new GameError('Loaded game state is invalid', 'INVALID_LOADED_STATE');
       }
+
+      // Point the player and movement systems at the loaded floor
+      this.playerCharacter = new PlayerCharacter(this.gameState.player);
+      this.syncPlayerState(); // Fills in mana for saves made before spells existed
+      this.movementController.updatePlayer(this.playerCharacter);
+      this.movementController.updateDungeon(this.gameState.dungeon);
+      this.resetPathfinding();
+      this.updateFieldOfView();
     } catch (error) {
       handleError(error as Error, 'Failed to load game', { context: 'GameEngine.loadGame' });
       throw new GameError('Failed to load game', 'LOAD_ERROR');
     }
   }
 
+  // Start over on a new first floor with a fresh character of the chosen class
+  startNewGame(classId: string): void {
+    this.gameState = new GameState({ player: defaultCharacterClasses.createPlayer(classId) });
+    this.playerCharacter = new PlayerCharacter(this.gameState.player);
+    this.movementController.updatePlayer(this.playerCharacter);
+    this.combatSystem.reset();
+    this.combatRewards = GameEngine.createEmptyRewards();
+    this.inputQueue = [];
+    this.travel = null;
+
+    this.generateNewDungeon();
+  }
+
   // Generate a new dungeon
   generateNewDungeon(config?: DungeonConfig): void {
-    const dungeonConfig = config || this.config.dungeonConfig;
+    const dungeonConfig = config || { ...this.config.dungeonConfig, depth: this.gameState.floor };
     const newDungeon = this.dungeonGenerator.generate(dungeonConfig);
     
     this.gameState.dungeon = newDungeon;
@@ -410,6 +1258,56 @@ export class GameEngine {
     
     // Update movement controller with new dungeon
     this.movementController.updateDungeon(newDungeon);
+    this.resetPathfinding();
+
+    // A new floor starts unexplored
+    this.gameState.resetVisibility();
+    this.updateFieldOfView();
+  }
+
+  // Recompute what the player can see; walls and unopened secret passages block sight
+  private updateFieldOfView(): void {
+    const visible = this.fieldOfView.compute(
+      this.gameState.player.position,
+      position => this.gameState.isValidPosition(position)
+    );
+    this.gameState.updateVisibility(visible);
+  }
+
+  // Living enemies inside the player's field of view
+  getVisibleEnemies(): Enemy[] {
+    return this.gameState.getVisibleEnemies().map(enemy => Enemy.deserialize(enemy.serialize()));
+  }
+
+  // Descend to the next floor when the player stands on the stairs.
+  // Inventory, equipment and stats carry over; returns false if descending is not possible.
+  descend(): boolean {
+    if (this.gameState.isInCombat || !this.gameState.isOnStairs()) {
+      return false;
+    }
+
+    const nextFloor = this.gameState.floor + 1;
+    if (nextFloor > MAX_DUNGEON_DEPTH) {
+      return false;
+    }
+
+    // Derive the next floor's seed so a seeded run stays reproducible across floors
+    const currentSeed = this.gameState.dungeon.seed ?? SeededRandom.generateSeed();
+
+    this.gameState.floor = nextFloor;
+    this.generateNewDungeon({
+      ...this.config.dungeonConfig,
+      depth: nextFloor,
+      seed: deriveSeed(currentSeed, nextFloor)
+    });
+    this.gameState.advanceTurn();
+
+    return true;
+  }
+
+  // Get the current floor number
+  getCurrentFloor(): number {
+    return this.gameState.floor;
   }
 
   // Check if game is currently running
@@ -1,6 +1,9 @@
 import { GameState as IGameState, PlayerCharacter, DungeonMap, Item, RoomId, DifficultyLevel, Coordinate } from '../types/GameTypes';
 import { GameError } from '../utils/ErrorHandling';
 import { Enemy } from '../combat/Enemy';
+import { VisibilityLookup } from '../dungeon/FieldOfView';
+import { blocksPassage, findDoorAt } from '../dungeon/Door';
+import { BASE_MANA } from '../utils/Constants';
 
 // Game state management
 export class GameState implements IGameState {
@@ -13,6 +16,9 @@ export class GameState implements IGameState {
   public difficulty: DifficultyLevel;
   public isInCombat: boolean;
   public turnNumber: number;
+  public floor: number;
+  public visibleTiles: string[];
+  public exploredTiles: string[];
 
   constructor(initialState?: Partial<IGameState>) {
     this.dungeon = initialState?.dungeon || this.createEmptyDungeon();
@@ -25,6 +31,9 @@ export class GameState implements IGameState {
     this.difficulty = initialState?.difficulty || 'medium';
     this.isInCombat = initialState?.isInCombat || false;
     this.turnNumber = initialState?.turnNumber || 0;
+    this.floor = initialState?.floor || 1;
+    this.visibleTiles = initialState?.visibleTiles ? [...initialState.visibleTiles] : [];
+    this.exploredTiles = initialState?.exploredTiles ? [...initialState.exploredTiles] : [];
   }
 
   private createEmptyDungeon(): DungeonMap {
@@ -51,7 +60,10 @@ export class GameState implements IGameState {
         defense: 5,
         agility: 8,
         intelligence: 7
-      }
+      },
+      gold: 0,
+      mana: BASE_MANA,
+      maxMana: BASE_MANA
     };
   }
 
@@ -73,6 +85,11 @@ export class GameState implements IGameState {
       return false;
     }
 
+    // Closed doors block the corridor they sit in
+    if (blocksPassage(findDoorAt(this.dungeon, position))) {
+      return false;
+    }
+
     // Check if position is in a room or corridor
     return this.isInRoom(position) || this.isInCorridor(position);
   }
@@ -88,6 +105,7 @@ export class GameState implements IGameState {
 
   private isInCorridor(position: Coordinate): boolean {
     return this.dungeon.corridors.some(corridor =>
+      (!corridor.hidden || corridor.discovered) &&
       corridor.path.some(pathPoint =>
         pathPoint.x === position.x && pathPoint.y === position.y
       )
@@ -115,6 +133,40 @@ export class GameState implements IGameState {
     this.gameTime += deltaTime;
   }
 
+  // Check if the player is standing on the stairs down
+  isOnStairs(): boolean {
+    const stairs = this.dungeon.stairsDown;
+    return !!stairs &&
+           stairs.x === this.player.position.x &&
+           stairs.y === this.player.position.y;
+  }
+
+  // Replace the field of view and remember every tile in it as explored
+  updateVisibility(visible: Iterable<string>): void {
+    this.visibleTiles = Array.from(visible);
+
+    const explored = new Set(this.exploredTiles);
+    this.visibleTiles.forEach(key => explored.add(key));
+    this.exploredTiles = Array.from(explored);
+  }
+
+  // Forget everything seen, e.g. when arriving on a new floor
+  resetVisibility(): void {
+    this.visibleTiles = [];
+    this.exploredTiles = [];
+  }
+
+  // Check if a tile is in the player's current field of view
+  isTileVisible(position: Coordinate): boolean {
+    return new VisibilityLookup(this).isVisible(position);
+  }
+
+  // Living enemies the player can currently see
+  getVisibleEnemies(): Enemy[] {
+    const visibility = new VisibilityLookup(this);
+    return this.enemies.filter(enemy => enemy.isAlive() && visibility.isVisible(enemy.position));
+  }
+
   // Advance turn counter
   advanceTurn(): void {
     this.turnNumber++;
@@ -132,7 +184,10 @@ export class GameState implements IGameState {
         gameTime: this.gameTime,
         difficulty: this.difficulty,
         isInCombat: this.isInCombat,
-        turnNumber: this.turnNumber
+        turnNumber: this.turnNumber,
+        floor: this.floor,
+        visibleTiles: this.visibleTiles,
+        exploredTiles: this.exploredTiles
       };
       return JSON.stringify(stateData);
     } catch (error) {
@@ -172,6 +227,11 @@ export class GameState implements IGameState {
         return false;
       }
 
+      // Check floor is a valid depth
+      if (!Number.isInteger(this.floor) || this.floor < 1) {
+        return false;
+      }
+
       // Check current room exists if set
       if (this.currentRoom && !this.dungeon.rooms.find(r => r.id === this.currentRoom)) {
         return false;
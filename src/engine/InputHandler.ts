@@ -43,6 +43,10 @@ export class InputHandler {
       's': () => this.createMoveAction('south'),
       'a': () => this.createMoveAction('west'),
       'd': () => this.createMoveAction('east'),
+      'e': () => this.createInteractAction(),
+      'x': () => this.createDisarmAction(),
+      'o': () => this.createExploreAction(),
+      'r': () => this.createFleeAction(),
       ' ': () => this.createDefendAction(),
       'Enter': () => this.createDefendAction()
     };
@@ -56,6 +60,34 @@ export class InputHandler {
     };
   }
 
+  private createInteractAction(): PlayerAction {
+    return {
+      type: 'interact',
+      timestamp: Date.now()
+    };
+  }
+
+  private createDisarmAction(): PlayerAction {
+    return {
+      type: 'disarm',
+      timestamp: Date.now()
+    };
+  }
+
+  private createExploreAction(): PlayerAction {
+    return {
+      type: 'explore',
+      timestamp: Date.now()
+    };
+  }
+
+  private createFleeAction(): PlayerAction {
+    return {
+      type: 'flee',
+      timestamp: Date.now()
+    };
+  }
+
   private createDefendAction(): PlayerAction {
     return {
       type: 'defend',
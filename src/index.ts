@@ -10,6 +10,7 @@ import { SaveManager } from './data/SaveManager';
 import { PlayerProfileManager } from './data/PlayerProfileManager';
 import { ConfigurationManager } from './data/ConfigurationManager';
 import { PlayerProfile } from './player/PlayerProfile';
+import { defaultCharacterClasses } from './player/CharacterClasses';
 import { MainMenu } from './ui/MainMenu';
 import { GameInterface } from './ui/GameInterface';
 import { handleError } from './utils/ErrorHandling';
@@ -57,7 +58,7 @@ export class AIDungeonMasterGame {
       this.profileManager,
       this.configManager,
       {
-        onNewGame: () => this.handleNewGame(),
+        onNewGame: (classId: string) => this.handleNewGame(classId),
         onContinueGame: () => this.handleContinueGame(),
         onLoadGame: (saveId: string) => this.loadGame(saveId)
       }
@@ -120,16 +121,17 @@ export class AIDungeonMasterGame {
   /**
    * Handle new game request from menu
    */
-  private async handleNewGame(): Promise<void> {
+  private async handleNewGame(classId: string): Promise<void> {
     try {
       // Ensure we have a current profile
       if (!this.currentProfile) {
         this.currentProfile = new PlayerProfile('default-player');
-        await this.profileManager.saveProfile(this.currentProfile);
       }
+      this.currentProfile.setCharacterClass(classId);
+      await this.profileManager.saveProfile(this.currentProfile);
 
-      // Generate new dungeon
-      this.gameEngine.generateNewDungeon();
+      // Fresh character of the chosen class on a new dungeon
+      this.gameEngine.startNewGame(classId);
 
       // Start game session
       await this.startGameSession();
@@ -163,8 +165,8 @@ export class AIDungeonMasterGame {
         // Start game session
         await this.startGameSession();
       } else {
-        // No autosave available, start new game
-        await this.handleNewGame();
+        // No autosave available, start a new game as the last class played
+        await this.handleNewGame(this.currentProfile.characterClass ?? defaultCharacterClasses.getClasses()[0]!.id);
       }
     } catch (error) {
       handleError(error as Error, 'Failed to continue game');
@@ -325,6 +327,7 @@ export class AIDungeonMasterGame {
       
       // Apply configuration to systems
       // Note: In a full implementation, these would update the respective systems
+      this.gameEngine.setCarryWeight(config.gameplay.carryWeight);
       console.log('Configuration applied:', {
         graphics: config.graphics.quality,
         ai: config.ai.assistanceLevel,
@@ -0,0 +1,152 @@
+import { Coordinate, Item, PlayerCharacter } from '../types/GameTypes';
+import { GameError } from '../utils/ErrorHandling';
+import { Spellbook, defaultSpellbook } from '../combat/Spellbook';
+import { EQUIPMENT_SLOTS } from './EquipmentStats';
+import { loadEntries } from '../data/DataFile';
+import classData from '../data/classes.json';
+
+// Shape of src/data/classes.json
+
+export type CharacterStats = PlayerCharacter['stats'];
+
+// Gained on every level up; health and mana also grow with strength and intelligence
+export interface ClassGrowth extends CharacterStats {
+  health: number;
+  mana: number;
+}
+
+export interface StartingItem {
+  name: string;
+  type: Item['type'];
+  properties: Record<string, number | string>;
+}
+
+export interface CharacterClassDefinition {
+  id: string;
+  name: string;
+  description: string;
+  stats: CharacterStats;
+  health: number;
+  mana: number;
+  growth: ClassGrowth;
+  startingEquipment: StartingItem[]; // The first item for each equipment slot starts equipped
+  signatureSpell: string; // Known from the start whatever the class's intelligence
+  advice: {
+    combat: string;
+    lowHealth: string;
+    exploration: string;
+  };
+}
+
+export interface CharacterClassData {
+  version: number;
+  classes: CharacterClassDefinition[];
+}
+
+// Level up growth for characters without a class, e.g. from saves made before classes existed
+export const DEFAULT_GROWTH: ClassGrowth = {
+  strength: 2,
+  defense: 1,
+  agility: 1,
+  intelligence: 1,
+  health: 10,
+  mana: 3
+};
+
+const STAT_NAMES: ReadonlyArray<keyof CharacterStats> = ['strength', 'defense', 'agility', 'intelligence'];
+const ITEM_TYPES: ReadonlyArray<Item['type']> = [...EQUIPMENT_SLOTS, 'consumable', 'key', 'treasure'];
+
+// Playable classes and the characters they start with
+export class CharacterClasses {
+  private classes: Map<string, CharacterClassDefinition>;
+
+  constructor(data: CharacterClassData, spellbook: Spellbook = defaultSpellbook) {
+    this.classes = loadEntries(data, { key: 'classes', kind: 'class', code: 'INVALID_CLASSES' },
+      definition => this.validateClass(definition, spellbook));
+
+    if (this.classes.size === 0) {
+      throw new GameError('Class data needs at least one class', 'INVALID_CLASSES');
+    }
+  }
+
+  private validateClass(definition: CharacterClassDefinition, spellbook: Spellbook): void {
+    const { stats, growth } = definition;
+    const invalidStats = STAT_NAMES.some(stat =>
+      typeof stats?.[stat] !== 'number' || stats[stat] < 0 ||
+      typeof growth?.[stat] !== 'number' || growth[stat] < 0
+    );
+    if (invalidStats || !(definition.health > 0) || !(definition.mana >= 0) ||
+        !(growth.health >= 0) || !(growth.mana >= 0)) {
+      throw new GameError(`Invalid stats for class: ${definition.id}`, 'INVALID_CLASSES');
+    }
+    if (!Array.isArray(definition.startingEquipment) ||
+        definition.startingEquipment.some(item => !item?.name || !ITEM_TYPES.includes(item.type))) {
+      throw new GameError(`Invalid starting equipment for class: ${definition.id}`, 'INVALID_CLASSES');
+    }
+    if (!spellbook.getSpell(definition.signatureSpell)) {
+      throw new GameError(`Unknown signature spell for class: ${definition.id}`, 'INVALID_CLASSES');
+    }
+    if (!definition.advice?.combat || !definition.advice.lowHealth || !definition.advice.exploration) {
+      throw new GameError(`Missing mentor advice for class: ${definition.id}`, 'INVALID_CLASSES');
+    }
+  }
+
+  getClass(id: string): CharacterClassDefinition | undefined {
+    return this.classes.get(id);
+  }
+
+  getClasses(): CharacterClassDefinition[] {
+    return Array.from(this.classes.values());
+  }
+
+  // Level up growth for the class, or the classless default
+  getGrowth(classId?: string): ClassGrowth {
+    return (classId ? this.classes.get(classId)?.growth : undefined) ?? DEFAULT_GROWTH;
+  }
+
+  // Fresh level 1 player data for the class, wearing its starting gear
+  createPlayer(classId: string, position: Coordinate = { x: 1, y: 1 }): PlayerCharacter {
+    const definition = this.classes.get(classId);
+    if (!definition) {
+      throw new GameError(`Unknown class: ${classId}`, 'UNKNOWN_CLASS');
+    }
+
+    const equipment: PlayerCharacter['equipment'] = {};
+    const inventory: Item[] = [];
+    definition.startingEquipment.forEach((base, index) => {
+      const item: Item = {
+        id: `${classId}_start_${index}`,
+        name: base.name,
+        type: base.type,
+        position: { ...position },
+        properties: { ...base.properties }
+      };
+      const slot = EQUIPMENT_SLOTS.find(candidate => candidate === item.type);
+      if (slot && !equipment[slot]) {
+        equipment[slot] = item;
+      } else {
+        inventory.push(item);
+      }
+    });
+
+    return {
+      id: 'player_1',
+      position: { ...position },
+      health: definition.health,
+      maxHealth: definition.health,
+      level: 1,
+      experience: 0,
+      inventory,
+      equipment,
+      stats: { ...definition.stats },
+      gold: 0,
+      mana: definition.mana,
+      maxMana: definition.mana,
+      classId,
+      learnedSpells: [definition.signatureSpell]
+    };
+  }
+}
+
+// Classes loaded from the bundled data file
+export const defaultCharacterClasses = new CharacterClasses(classData as unknown as CharacterClassData);
@@ -0,0 +1,178 @@
+import { EquipmentSlot, Item, StatusEffectApplication } from '../types/GameTypes';
+import { GameError } from '../utils/ErrorHandling';
+import { statusEffects } from '../combat/StatusEffects';
+import { loadEntries } from '../data/DataFile';
+import setData from '../data/equipmentSets.json';
+
+// Equipped items contribute to these through their properties:
+//   properties[stat]       - added to the stat, e.g. a weapon's attack or an affix's agility
+//   properties.multipliers - stat multipliers, e.g. { attack: 1.1 }
+//   properties.onHit       - effects the player's hits may inflict
+//   properties.set         - the set the item belongs to
+export type EquipmentStat = 'strength' | 'attack' | 'defense' | 'agility';
+
+export type StatValues = Partial<Record<EquipmentStat, number>>;
+
+export interface OnHitEffect extends StatusEffectApplication {
+  chance: number; // Chance per hit that lands
+}
+
+// Everything the equipped items add up to
+export interface StatModifiers {
+  add: Record<EquipmentStat, number>;
+  multiply: Record<EquipmentStat, number>; // Every multiplier compounds
+  onHit: OnHitEffect[]; // Sourced from the item or set
+}
+
+// Shape of src/data/equipmentSets.json
+
+export interface SetBonus {
+  pieces: number; // Equipped pieces of the set needed
+  description: string;
+  add?: StatValues;
+  multiply?: StatValues;
+  onHit?: OnHitEffect[];
+}
+
+export interface SetPiece {
+  name: string;
+  type: EquipmentSlot;
+  properties: Record<string, any>;
+}
+
+export interface EquipmentSet {
+  id: string;
+  name: string;
+  pieces: SetPiece[];
+  bonuses: SetBonus[];
+}
+
+export interface EquipmentSetData {
+  version: number;
+  sets: EquipmentSet[];
+}
+
+// A set the player wears at least one piece of
+export interface ActiveSet {
+  set: EquipmentSet;
+  pieces: number;
+  bonuses: SetBonus[]; // Bonuses reached by the equipped pieces
+}
+
+export type Equipment = Partial<Record<EquipmentSlot, Item>>;
+
+export const EQUIPMENT_SLOTS: ReadonlyArray<EquipmentSlot> = ['weapon', 'armor', 'helmet', 'boots', 'accessory', 'ring'];
+const STATS: ReadonlyArray<EquipmentStat> = ['strength', 'attack', 'defense', 'agility'];
+
+export const isEquipmentSlot = (type: Item['type']): type is EquipmentSlot =>
+  EQUIPMENT_SLOTS.includes(type as EquipmentSlot);
+
+// Turns equipped items and set bonuses into stat modifiers
+export class EquipmentStats {
+  private sets: Map<string, EquipmentSet>;
+
+  constructor(data: EquipmentSetData) {
+    this.sets = loadEntries(data, { key: 'sets', kind: 'equipment set', code: 'INVALID_EQUIPMENT_SETS' },
+      set => this.validateSet(set));
+  }
+
+  private validateSet(set: EquipmentSet): void {
+    if (!Array.isArray(set.pieces) || set.pieces.length < 2 ||
+        set.pieces.some(piece => !piece?.name || !isEquipmentSlot(piece.type))) {
+      throw new GameError(`Invalid pieces for equipment set: ${set.id}`, 'INVALID_EQUIPMENT_SETS');
+    }
+    const invalidBonus = !Array.isArray(set.bonuses) || set.bonuses.some(bonus =>
+      !Number.isInteger(bonus.pieces) || bonus.pieces < 2 || bonus.pieces > set.pieces.length ||
+      !this.isValidStats(bonus.add) || !this.isValidStats(bonus.multiply) || !this.isValidOnHit(bonus.onHit)
+    );
+    if (invalidBonus || set.pieces.some(piece => !this.isValidOnHit(piece.properties['onHit']))) {
+      throw new GameError(`Invalid bonuses for equipment set: ${set.id}`, 'INVALID_EQUIPMENT_SETS');
+    }
+  }
+
+  private isValidStats(values?: StatValues): boolean {
+    return Object.entries(values ?? {}).every(([stat, value]) =>
+      STATS.includes(stat as EquipmentStat) && typeof value === 'number');
+  }
+
+  private isValidOnHit(effects?: OnHitEffect[]): boolean {
+    return effects === undefined || (Array.isArray(effects) && effects.every(effect =>
+      effect.chance > 0 && effect.chance <= 1 && statusEffects.isKnownType(effect.type) && effect.duration >= 1));
+  }
+
+  getSet(id: string): EquipmentSet | undefined {
+    return this.sets.get(id);
+  }
+
+  getSets(): EquipmentSet[] {
+    return Array.from(this.sets.values());
+  }
+
+  // A set piece as an item, marked with its set
+  createPiece(set: EquipmentSet, piece: SetPiece, id: string, position: Item['position']): Item {
+    return {
+      id,
+      name: piece.name,
+      type: piece.type,
+      position: { ...position },
+      properties: { ...piece.properties, set: set.id }
+    };
+  }
+
+  // Sets with equipped pieces, and the bonuses those pieces reach
+  getActiveSets(equipment: Equipment): ActiveSet[] {
+    const counts = new Map<string, number>();
+    for (const item of Object.values(equipment)) {
+      const setId = item?.properties['set'];
+      if (typeof setId === 'string' && this.sets.has(setId)) {
+        counts.set(setId, (counts.get(setId) ?? 0) + 1);
+      }
+    }
+
+    return Array.from(counts, ([id, pieces]) => {
+      const set = this.sets.get(id)!;
+      return { set, pieces, bonuses: set.bonuses.filter(bonus => bonus.pieces <= pieces) };
+    });
+  }
+
+  // Add up every equipped item and reached set bonus
+  getModifiers(equipment: Equipment): StatModifiers {
+    const modifiers: StatModifiers = {
+      add: { strength: 0, attack: 0, defense: 0, agility: 0 },
+      multiply: { strength: 1, attack: 1, defense: 1, agility: 1 },
+      onHit: []
+    };
+    const addValues = (add: StatValues = {}, multiply: StatValues = {}, onHit: OnHitEffect[] = [], source: string) => {
+      for (const stat of STATS) {
+        modifiers.add[stat] += add[stat] ?? 0;
+        modifiers.multiply[stat] *= multiply[stat] ?? 1;
+      }
+      modifiers.onHit.push(...onHit.map(effect => ({ ...effect, source })));
+    };
+
+    for (const item of Object.values(equipment)) {
+      if (item) {
+        addValues(item.properties, item.properties['multipliers'], item.properties['onHit'], item.name);
+      }
+    }
+    for (const active of this.getActiveSets(equipment)) {
+      active.bonuses.forEach(bonus => addValues(bonus.add, bonus.multiply, bonus.onHit, active.set.name));
+    }
+
+    return modifiers;
+  }
+
+  // A stat after equipment: flat bonuses first, then multipliers, rounded down
+  getStat(equipment: Equipment, stat: EquipmentStat, base: number): number {
+    const modifiers = this.getModifiers(equipment);
+    return Math.floor((base + modifiers.add[stat]) * modifiers.multiply[stat]);
+  }
+
+  // Attack power before status effects: strength after equipment, plus weapon damage, times attack multipliers
+  getAttackPower(equipment: Equipment, strength: number): number {
+    return this.getStat(equipment, 'attack', this.getStat(equipment, 'strength', strength));
+  }
+}
+
+// Equipment sets loaded from the bundled data file
+export const defaultEquipmentStats = new EquipmentStats(setData as unknown as EquipmentSetData);
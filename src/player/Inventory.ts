@@ -0,0 +1,168 @@
+import { Item } from '../types/GameTypes';
+import {
+  MAX_INVENTORY_SLOTS,
+  MAX_STACK_SIZE,
+  BASE_CARRY_CAPACITY,
+  CARRY_CAPACITY_PER_STRENGTH,
+  WEIGHT_PER_AGILITY_PENALTY
+} from '../utils/Constants';
+import { isEquipmentSlot } from './EquipmentStats';
+
+export type InventorySort = 'type' | 'name' | 'value' | 'weight';
+export type InventoryFilter = 'all' | 'equipment' | 'consumable' | 'material' | 'key';
+
+export const INVENTORY_SORTS: ReadonlyArray<InventorySort> = ['type', 'name', 'value', 'weight'];
+export const INVENTORY_FILTERS: ReadonlyArray<InventoryFilter> = ['all', 'equipment', 'consumable', 'material', 'key'];
+
+// Crafting materials are treasure that names its material; any other treasure is gold
+export const isMaterial = (item: Item): boolean =>
+  item.type === 'treasure' && typeof item.properties['material'] === 'string';
+
+// The player data and the player character both carry these
+export interface ItemCarrier {
+  inventory: Item[];
+  equipment: Partial<Record<string, Item>>;
+  stats: { strength: number };
+}
+
+export interface Encumbrance {
+  weight: number;
+  capacity: number;
+  agilityPenalty: number;
+}
+
+// Weight of one item of each type unless its properties say otherwise
+const ITEM_WEIGHTS: Record<Item['type'], number> = {
+  weapon: 6,
+  armor: 12,
+  helmet: 4,
+  boots: 3,
+  accessory: 1,
+  ring: 0,
+  consumable: 1,
+  key: 0,
+  treasure: 0
+};
+
+// Order of item types when sorting by type: gear first, then what gets used up
+const TYPE_ORDER: ReadonlyArray<Item['type']> = [
+  'weapon', 'armor', 'helmet', 'boots', 'accessory', 'ring', 'consumable', 'key', 'treasure'
+];
+
+// Stacks, weighs, sorts and filters the items a character carries
+export class InventorySystem {
+  getQuantity(item: Item): number {
+    return item.quantity ?? 1;
+  }
+
+  // Consumables and materials stack; gear and keys are each one of a kind
+  isStackable(item: Item): boolean {
+    return item.type === 'consumable' || isMaterial(item);
+  }
+
+  // Same kind of item down to its rolled properties, so a potent potion never joins a plain one
+  canStack(stack: Item, item: Item): boolean {
+    return this.isStackable(stack) && stack.type === item.type && stack.name === item.name &&
+      JSON.stringify(stack.properties) === JSON.stringify(item.properties);
+  }
+
+  // Top up matching stacks, then take new slots; nothing is added unless all of it fits
+  add(inventory: Item[], item: Item): boolean {
+    let remaining = this.getQuantity(item);
+    const stacks = this.isStackable(item) ? inventory.filter(stack => this.canStack(stack, item)) : [];
+    const room = stacks.reduce((total, stack) => total + MAX_STACK_SIZE - this.getQuantity(stack), 0);
+    const slotsNeeded = Math.ceil(Math.max(0, remaining - room) / (this.isStackable(item) ? MAX_STACK_SIZE : remaining));
+    if (inventory.length + slotsNeeded > MAX_INVENTORY_SLOTS) {
+      return false;
+    }
+
+    for (const stack of stacks) {
+      const moved = Math.min(remaining, MAX_STACK_SIZE - this.getQuantity(stack));
+      stack.quantity = this.getQuantity(stack) + moved;
+      remaining -= moved;
+    }
+
+    // The item itself takes the first new slot, copies with numbered ids take the rest
+    for (let slot = 0; remaining > 0; slot++) {
+      const quantity = this.isStackable(item) ? Math.min(remaining, MAX_STACK_SIZE) : remaining;
+      const added: Item = slot === 0 ? item : { ...item, id: `${item.id}_${slot}` };
+      if (quantity > 1) {
+        added.quantity = quantity;
+      } else {
+        delete added.quantity;
+      }
+      inventory.push(added);
+      remaining -= quantity;
+    }
+
+    return true;
+  }
+
+  // Take a whole stack out of the inventory
+  remove(inventory: Item[], itemId: string): Item | null {
+    const index = inventory.findIndex(item => item.id === itemId);
+    return index >= 0 ? inventory.splice(index, 1)[0] ?? null : null;
+  }
+
+  // Use up one item from a stack, returning that single item
+  consume(inventory: Item[], itemId: string): Item | null {
+    const stack = inventory.find(item => item.id === itemId);
+    if (!stack) {
+      return null;
+    }
+
+    if (this.getQuantity(stack) > 1) {
+      stack.quantity = this.getQuantity(stack) - 1;
+      const single: Item = { ...stack };
+      delete single.quantity;
+      return single;
+    }
+    return this.remove(inventory, itemId);
+  }
+
+  getWeight(item: Item): number {
+    const weight = typeof item.properties['weight'] === 'number' ? item.properties['weight'] : ITEM_WEIGHTS[item.type];
+    return weight * this.getQuantity(item);
+  }
+
+  // Carried weight counts equipped gear too; the penalty only applies when carry weight is on
+  getEncumbrance(carrier: ItemCarrier, carryWeight: boolean = true): Encumbrance {
+    const items = [...carrier.inventory, ...Object.values(carrier.equipment)];
+    const weight = items.reduce((total, item) => total + (item ? this.getWeight(item) : 0), 0);
+    const capacity = BASE_CARRY_CAPACITY + carrier.stats.strength * CARRY_CAPACITY_PER_STRENGTH;
+    const overweight = Math.max(0, weight - capacity);
+
+    return {
+      weight,
+      capacity,
+      agilityPenalty: carryWeight ? Math.ceil(overweight / WEIGHT_PER_AGILITY_PENALTY) : 0
+    };
+  }
+
+  // A sorted copy; ties keep their inventory order
+  sort(items: Item[], by: InventorySort): Item[] {
+    const compare: Record<InventorySort, (a: Item, b: Item) => number> = {
+      type: (a, b) => TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type),
+      name: (a, b) => a.name.localeCompare(b.name),
+      value: (a, b) => (b.properties['value'] || 0) - (a.properties['value'] || 0),
+      weight: (a, b) => this.getWeight(b) - this.getWeight(a)
+    };
+    return [...items].sort(compare[by]);
+  }
+
+  filter(items: Item[], filter: InventoryFilter): Item[] {
+    switch (filter) {
+      case 'equipment':
+        return items.filter(item => isEquipmentSlot(item.type));
+      case 'material':
+        return items.filter(isMaterial);
+      case 'consumable':
+      case 'key':
+        return items.filter(item => item.type === filter);
+      default:
+        return [...items];
+    }
+  }
+}
+
+export const inventorySystem = new InventorySystem();
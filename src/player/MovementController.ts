@@ -1,11 +1,20 @@
-import { Coordinate, DungeonMap, PlayerAction } from '../types/GameTypes';
+import { Coordinate, Corridor, Door, DungeonMap, PlayerAction } from '../types/GameTypes';
 import { PlayerCharacter } from './PlayerCharacter';
 import { GameError } from '../utils/ErrorHandling';
+import { blocksPassage, findDoorAt } from '../dungeon/Door';
+import { getDistance } from '../dungeon/Pathfinding';
 
 export interface MovementResult {
   success: boolean;
   newPosition?: Coordinate;
   blockedReason?: string;
+  door?: Door; // Set when a door was in the way, opened or not
+}
+
+export interface DoorInteraction {
+  success: boolean;
+  message: string;
+  door?: Door;
 }
 
 // Grid-based movement validation and control
@@ -48,6 +57,16 @@ export class MovementController {
       };
     }
 
+    // Walking into a door tries to open it; the player stays put this turn
+    if (validationResult.door) {
+      const interaction = this.openDoor(newPosition);
+      return {
+        success: false,
+        blockedReason: interaction.message,
+        door: validationResult.door
+      };
+    }
+
     return validationResult;
   }
 
@@ -87,6 +106,16 @@ export class MovementController {
       };
     }
 
+    // Closed and locked doors block the way until opened
+    const door = findDoorAt(this.dungeon, position);
+    if (door && door.state !== 'open') {
+      return {
+        success: false,
+        blockedReason: `Movement blocked by ${door.state} door`,
+        door
+      };
+    }
+
     // Check for collision with enemies (optional - could allow sharing space)
     // For now, we'll allow sharing space with enemies to trigger encounters
 
@@ -104,6 +133,15 @@ export class MovementController {
            position.y < this.dungeon.height;
   }
 
+  // Tiles the player can plan a route through: walkable ground and doors that are not locked,
+  // since walking into a closed door opens it
+  isPassable(position: Coordinate): boolean {
+    if (!this.isWithinBounds(position) || !this.isWalkable(position)) {
+      return false;
+    }
+    return findDoorAt(this.dungeon, position)?.state !== 'locked';
+  }
+
   // Check if position is walkable (in a room or corridor)
   private isWalkable(position: Coordinate): boolean {
     return this.isInRoom(position) || this.isInCorridor(position);
@@ -119,9 +157,81 @@ export class MovementController {
     );
   }
 
-  // Check if position is on any corridor path
+  // Reveal hidden corridors whose entrance is next to the position, returning the newly found ones
+  discoverSecretsNear(position: Coordinate): Corridor[] {
+    const discovered: Corridor[] = [];
+
+    for (const corridor of this.dungeon.corridors) {
+      if (!corridor.hidden || corridor.discovered) continue;
+
+      const entrances = [corridor.path[0], corridor.path[corridor.path.length - 1]];
+      if (entrances.some(entrance => entrance && this.areAdjacent(position, entrance))) {
+        corridor.discovered = true;
+        discovered.push(corridor);
+      }
+    }
+
+    return discovered;
+  }
+
+  // Open an adjacent door, using up the matching key from the inventory if it is locked
+  openDoor(position: Coordinate): DoorInteraction {
+    const door = findDoorAt(this.dungeon, position);
+    if (!door) {
+      return { success: false, message: 'There is no door there' };
+    }
+    if (!this.areAdjacent(this.player.position, position)) {
+      return { success: false, message: 'The door is out of reach', door };
+    }
+    if (door.state === 'open') {
+      return { success: false, message: 'The door is already open', door };
+    }
+
+    if (door.state === 'locked') {
+      const key = this.player.inventory.find(item => item.type === 'key' && item.id === door.keyId);
+      if (!key) {
+        return { success: false, message: 'The door is locked', door };
+      }
+
+      this.player.removeItem(key.id);
+      door.state = 'open';
+      return { success: true, message: `Unlocked the door with the ${key.name}`, door };
+    }
+
+    door.state = 'open';
+    return { success: true, message: 'Opened the door', door };
+  }
+
+  // Close an adjacent open door; unlocked doors stay unlocked. A door cannot shut on whatever
+  // stands or lies in the doorway
+  closeDoor(position: Coordinate, isOccupied: (position: Coordinate) => boolean): DoorInteraction {
+    const door = findDoorAt(this.dungeon, position);
+    if (!door) {
+      return { success: false, message: 'There is no door there' };
+    }
+    if (!this.areAdjacent(this.player.position, position)) {
+      return { success: false, message: 'The door is out of reach', door };
+    }
+    if (door.state !== 'open') {
+      return { success: false, message: 'The door is already closed', door };
+    }
+    if (isOccupied(position)) {
+      return { success: false, message: 'Something is in the doorway', door };
+    }
+
+    door.state = 'closed';
+    return { success: true, message: 'Closed the door', door };
+  }
+
+  // Doors next to the player
+  getAdjacentDoors(): Door[] {
+    return (this.dungeon.doors ?? []).filter(door => this.areAdjacent(this.player.position, door.position));
+  }
+
+  // Check if position is on any passable corridor path
   private isInCorridor(position: Coordinate): boolean {
     return this.dungeon.corridors.some(corridor =>
+      (!corridor.hidden || corridor.discovered) &&
       corridor.path.some(pathPoint =>
         pathPoint.x === position.x && pathPoint.y === position.y
       )
@@ -151,7 +261,7 @@ export class MovementController {
 
   // Calculate Manhattan distance between two positions
   getDistance(pos1: Coordinate, pos2: Coordinate): number {
-    return Math.abs(pos1.x - pos2.x) + Math.abs(pos1.y - pos2.y);
+    return getDistance(pos1, pos2);
   }
 
   // Find the room containing a position
@@ -168,13 +278,13 @@ export class MovementController {
 
   // Check if position has line of sight to another position
   hasLineOfSight(from: Coordinate, to: Coordinate): boolean {
-    // Simple line of sight - check if all positions on the line are walkable
+    // Simple line of sight - every position on the line is walkable and not behind a closed door
     const positions = this.getLinePositions(from, to);
-    return positions.every(pos => this.isWalkable(pos));
+    return positions.every(pos => this.isWalkable(pos) && !blocksPassage(findDoorAt(this.dungeon, pos)));
   }
 
   // Get all positions on a line between two points (Bresenham's algorithm simplified)
-  private getLinePositions(from: Coordinate, to: Coordinate): Coordinate[] {
+  getLinePositions(from: Coordinate, to: Coordinate): Coordinate[] {
     const positions: Coordinate[] = [];
     const dx = Math.abs(to.x - from.x);
     const dy = Math.abs(to.y - from.y);
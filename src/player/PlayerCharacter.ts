@@ -1,5 +1,18 @@
-import { PlayerCharacter as IPlayerCharacter, Coordinate, Item } from '../types/GameTypes';
+import {
+  PlayerCharacter as IPlayerCharacter,
+  Coordinate,
+  EquipmentSlot,
+  Item,
+  StatusEffect,
+  StatusEffectApplication
+} from '../types/GameTypes';
 import { GameError } from '../utils/ErrorHandling';
+import { statusEffects, StatusTickResult } from '../combat/StatusEffects';
+import { BASE_MANA, TALENT_POINTS_PER_LEVEL } from '../utils/Constants';
+import { defaultCharacterClasses } from './CharacterClasses';
+import { TalentFailure, TalentNode, defaultTalentTree } from './TalentTree';
+import { defaultEquipmentStats, isEquipmentSlot } from './EquipmentStats';
+import { inventorySystem } from './Inventory';
 
 // Player character representation and management
 export class PlayerCharacter implements IPlayerCharacter {
@@ -10,17 +23,24 @@ export class PlayerCharacter implements IPlayerCharacter {
   public level: number;
   public experience: number;
   public inventory: Item[];
-  public equipment: {
-    weapon?: Item;
-    armor?: Item;
-    accessory?: Item;
-  };
+  public equipment: Partial<Record<EquipmentSlot, Item>>;
   public stats: {
     strength: number;
     defense: number;
     agility: number;
     intelligence: number;
   };
+  public statusEffects: StatusEffect[];
+  public gold: number;
+  public mana: number;
+  public maxMana: number;
+  public spellCooldowns: Record<string, number>;
+  public classId?: string;
+  public learnedSpells: string[];
+  public talentPoints: number;
+  public talents: Record<string, number>;
+  public skillCooldowns: Record<string, number>;
+  public knownRecipes: string[];
 
   constructor(config?: Partial<IPlayerCharacter>) {
     this.id = config?.id || 'player_1';
@@ -37,6 +57,20 @@ export class PlayerCharacter implements IPlayerCharacter {
       agility: 8,
       intelligence: 7
     };
+    this.statusEffects = (config?.statusEffects || []).map(effect => ({ ...effect }));
+    this.gold = config?.gold || 0;
+    this.maxMana = config?.maxMana ?? BASE_MANA;
+    this.mana = config?.mana ?? this.maxMana;
+    this.spellCooldowns = { ...config?.spellCooldowns };
+    if (config?.classId) {
+      this.classId = config.classId;
+    }
+    this.learnedSpells = [...(config?.learnedSpells ?? [])];
+    this.talents = { ...config?.talents };
+    // Characters from saves made before talents existed get the points their levels earned
+    this.talentPoints = config?.talentPoints ?? (this.level - 1) * TALENT_POINTS_PER_LEVEL;
+    this.skillCooldowns = { ...config?.skillCooldowns };
+    this.knownRecipes = [...(config?.knownRecipes ?? [])];
 
     this.validateCharacter();
   }
@@ -52,6 +86,15 @@ export class PlayerCharacter implements IPlayerCharacter {
     if (this.experience < 0) {
       throw new GameError('Invalid experience', 'INVALID_CHARACTER_DATA');
     }
+    if (this.gold < 0) {
+      throw new GameError('Invalid gold', 'INVALID_CHARACTER_DATA');
+    }
+    if (this.mana < 0 || this.mana > this.maxMana) {
+      throw new GameError('Invalid mana values', 'INVALID_CHARACTER_DATA');
+    }
+    if (this.talentPoints < 0) {
+      throw new GameError('Invalid talent points', 'INVALID_CHARACTER_DATA');
+    }
   }
 
   // Move player to new position
@@ -71,47 +114,55 @@ export class PlayerCharacter implements IPlayerCharacter {
     this.health = Math.min(this.maxHealth, this.health + amount);
   }
 
-  // Get effective defense including equipment bonuses
-  getEffectiveDefense(): number {
-    let defense = this.stats.defense;
-    
-    if (this.equipment.armor) {
-      defense += this.equipment.armor.properties['defense'] || 0;
+  // Spend mana and return true if there was enough
+  spendMana(amount: number): boolean {
+    if (amount > this.mana) {
+      return false;
     }
-    
-    return defense;
+    this.mana -= amount;
+    return true;
   }
 
-  // Get effective attack power including equipment bonuses
+  // Restore mana up to the maximum
+  restoreMana(amount: number): void {
+    this.mana = Math.min(this.maxMana, this.mana + amount);
+  }
+
+  // Get effective defense including equipment modifiers and status effects
+  getEffectiveDefense(): number {
+    return Math.max(0, defaultEquipmentStats.getStat(this.equipment, 'defense', this.stats.defense) +
+      statusEffects.getDefenseModifier(this));
+  }
+
+  // Get effective attack power including equipment modifiers and status effects
   getEffectiveAttack(): number {
-    let attack = this.stats.strength;
-    
-    if (this.equipment.weapon) {
-      attack += this.equipment.weapon.properties['attack'] || 0;
-    }
-    
-    return attack;
+    return Math.max(0, defaultEquipmentStats.getAttackPower(this.equipment, this.stats.strength) +
+      statusEffects.getAttackModifier(this));
+  }
+
+  // Apply a timed status effect
+  applyStatusEffect(application: StatusEffectApplication): StatusEffect {
+    return statusEffects.apply(this, application);
+  }
+
+  // Turn start hook: damage over time, returns whether the turn is skipped
+  startTurn(): StatusTickResult {
+    return statusEffects.onTurnStart(this);
   }
 
-  // Add item to inventory
+  // Turn end hook: healing over time and effect expiry
+  endTurn(): StatusTickResult {
+    return statusEffects.onTurnEnd(this);
+  }
+
+  // Add item to inventory, stacking consumables; false when it does not fit
   addItem(item: Item): boolean {
-    const maxInventorySize = 20; // Could be made configurable
-    
-    if (this.inventory.length >= maxInventorySize) {
-      return false; // Inventory full
-    }
-    
-    this.inventory.push(item);
-    return true;
+    return inventorySystem.add(this.inventory, item);
   }
 
-  // Remove item from inventory
+  // Remove a whole stack from inventory
   removeItem(itemId: string): Item | null {
-    const itemIndex = this.inventory.findIndex(item => item.id === itemId);
-    if (itemIndex >= 0) {
-      return this.inventory.splice(itemIndex, 1)[0] || null;
-    }
-    return null;
+    return inventorySystem.remove(this.inventory, itemId);
   }
 
   // Equip an item from inventory
@@ -122,23 +173,18 @@ export class PlayerCharacter implements IPlayerCharacter {
     }
 
     // Check if item can be equipped
-    if (item.type !== 'weapon' && item.type !== 'armor') {
+    if (!isEquipmentSlot(item.type)) {
       return false;
     }
 
     // Unequip current item of same type if exists
-    if (item.type === 'weapon' && this.equipment.weapon) {
-      this.inventory.push(this.equipment.weapon);
-    } else if (item.type === 'armor' && this.equipment.armor) {
-      this.inventory.push(this.equipment.armor);
+    const current = this.equipment[item.type];
+    if (current) {
+      this.inventory.push(current);
     }
 
     // Equip new item
-    if (item.type === 'weapon') {
-      this.equipment.weapon = item;
-    } else if (item.type === 'armor') {
-      this.equipment.armor = item;
-    }
+    this.equipment[item.type] = item;
 
     // Remove from inventory
     this.removeItem(itemId);
@@ -146,7 +192,7 @@ export class PlayerCharacter implements IPlayerCharacter {
   }
 
   // Unequip an item and return it to inventory
-  unequipItem(slot: 'weapon' | 'armor' | 'accessory'): boolean {
+  unequipItem(slot: EquipmentSlot): boolean {
     const item = this.equipment[slot];
     if (!item) {
       return false;
@@ -160,17 +206,21 @@ export class PlayerCharacter implements IPlayerCharacter {
     return true;
   }
 
-  // Gain experience and check for level up
+  // Gain experience and check for level up; a big reward can grant several levels
   gainExperience(amount: number): boolean {
     this.experience += amount;
+    const startingLevel = this.level;
     
-    const experienceForNextLevel = this.getExperienceForLevel(this.level + 1);
-    if (this.experience >= experienceForNextLevel) {
+    while (this.experience >= this.getExperienceForLevel(this.level + 1)) {
       this.levelUp();
-      return true;
     }
     
-    return false;
+    return this.level > startingLevel;
+  }
+
+  // Add gold to the purse
+  addGold(amount: number): void {
+    this.gold += Math.max(0, Math.floor(amount));
   }
 
   // Calculate experience required for a given level
@@ -178,20 +228,73 @@ export class PlayerCharacter implements IPlayerCharacter {
     return Math.floor(100 * Math.pow(1.5, level - 1));
   }
 
-  // Level up the character
+  // Level up the character along its class's growth curve
   private levelUp(): void {
+    const growth = defaultCharacterClasses.getGrowth(this.classId);
     this.level++;
     
     // Increase stats on level up
-    this.stats.strength += 2;
-    this.stats.defense += 1;
-    this.stats.agility += 1;
-    this.stats.intelligence += 1;
+    this.stats.strength += growth.strength;
+    this.stats.defense += growth.defense;
+    this.stats.agility += growth.agility;
+    this.stats.intelligence += growth.intelligence;
     
     // Increase max health and heal to full
-    const healthIncrease = 10 + Math.floor(this.stats.strength / 2);
+    const healthIncrease = growth.health + Math.floor(this.stats.strength / 2);
     this.maxHealth += healthIncrease;
     this.health = this.maxHealth;
+
+    // Intelligence feeds the mana pool, which also refills
+    const manaIncrease = growth.mana + Math.floor(this.stats.intelligence / 2);
+    this.maxMana += manaIncrease;
+    this.mana = this.maxMana;
+
+    this.talentPoints += TALENT_POINTS_PER_LEVEL;
+  }
+
+  // Put a talent point into a node, applying its stat bonuses; returns why it failed, or null
+  spendTalentPoint(nodeId: string): TalentFailure | null {
+    const failure = defaultTalentTree.checkSpend(this, nodeId);
+    if (failure) {
+      return failure;
+    }
+
+    this.talents[nodeId] = (this.talents[nodeId] ?? 0) + 1;
+    this.talentPoints--;
+    this.applyTalentBonuses(defaultTalentTree.getNode(nodeId)!, 1);
+    return null;
+  }
+
+  // Take every point back out of the tree; returns the points refunded
+  respecTalents(): number {
+    const refunded = defaultTalentTree.getSpentPoints(this);
+    for (const [nodeId, rank] of Object.entries(this.talents)) {
+      const node = defaultTalentTree.getNode(nodeId);
+      if (node) {
+        this.applyTalentBonuses(node, -rank);
+      }
+    }
+
+    this.talents = {};
+    this.talentPoints += refunded;
+    return refunded;
+  }
+
+  // Stat bonuses go straight onto the character; gained health and mana are usable at once
+  private applyTalentBonuses(node: TalentNode, ranks: number): void {
+    const bonuses = node.bonuses ?? {};
+    this.stats.strength += (bonuses.strength ?? 0) * ranks;
+    this.stats.defense += (bonuses.defense ?? 0) * ranks;
+    this.stats.agility += (bonuses.agility ?? 0) * ranks;
+    this.stats.intelligence += (bonuses.intelligence ?? 0) * ranks;
+
+    const healthChange = (bonuses.maxHealth ?? 0) * ranks;
+    this.maxHealth += healthChange;
+    this.health = Math.min(this.maxHealth, this.health + Math.max(0, healthChange));
+
+    const manaChange = (bonuses.maxMana ?? 0) * ranks;
+    this.maxMana += manaChange;
+    this.mana = Math.min(this.maxMana, this.mana + Math.max(0, manaChange));
   }
 
   // Check if player is alive
@@ -201,7 +304,8 @@ export class PlayerCharacter implements IPlayerCharacter {
 
   // Get character summary for display
   getSummary(): string {
-    return `Level ${this.level} Character (${this.health}/${this.maxHealth} HP)`;
+    const className = this.classId ? defaultCharacterClasses.getClass(this.classId)?.name : undefined;
+    return `Level ${this.level} ${className ?? 'Character'} (${this.health}/${this.maxHealth} HP)`;
   }
 
   // Serialize character data
@@ -215,7 +319,18 @@ export class PlayerCharacter implements IPlayerCharacter {
       experience: this.experience,
       inventory: [...this.inventory],
       equipment: { ...this.equipment },
-      stats: { ...this.stats }
+      stats: { ...this.stats },
+      statusEffects: this.statusEffects.map(effect => ({ ...effect })),
+      gold: this.gold,
+      mana: this.mana,
+      maxMana: this.maxMana,
+      spellCooldowns: { ...this.spellCooldowns },
+      ...(this.classId ? { classId: this.classId } : {}),
+      learnedSpells: [...this.learnedSpells],
+      talentPoints: this.talentPoints,
+      talents: { ...this.talents },
+      skillCooldowns: { ...this.skillCooldowns },
+      knownRecipes: [...this.knownRecipes]
     };
   }
 
@@ -13,6 +13,7 @@ export class PlayerProfile implements IPlayerProfile {
   public behaviorPatterns: BehaviorPatterns;
   public preferences: PlayerPreferences;
   public statistics: PlayerStatistics;
+  public characterClass?: string;
   public createdAt: Date;
   public lastPlayed: Date;
 
@@ -42,10 +43,15 @@ export class PlayerProfile implements IPlayerProfile {
       totalPlayTime: 0,
       combatsWon: 0,
       combatsLost: 0,
+      combatsFled: 0,
       averageEfficiency: 0,
       dungeonsCleaned: 0,
       itemsFound: 0,
       secretsDiscovered: 0,
+      itemsCrafted: 0,
+      recipesDiscovered: 0,
+      failedCombinations: 0,
+      recipesCrafted: {},
       lastUpdated: new Date()
     };
   }
@@ -103,17 +109,20 @@ export class PlayerProfile implements IPlayerProfile {
   }
 
   /**
-   * Records combat statistics
+   * Records combat statistics. A boolean result means won or lost; escapes count
+   * towards efficiency but not towards the win rate.
    */
-  public recordCombatResult(won: boolean, efficiency: number): void {
-    if (won) {
+  public recordCombatResult(result: boolean | 'victory' | 'defeat' | 'fled', efficiency: number): void {
+    if (result === true || result === 'victory') {
       this.statistics.combatsWon++;
+    } else if (result === 'fled') {
+      this.statistics.combatsFled = (this.statistics.combatsFled ?? 0) + 1;
     } else {
       this.statistics.combatsLost++;
     }
 
     // Update average efficiency with weighted average
-    const totalCombats = this.statistics.combatsWon + this.statistics.combatsLost;
+    const totalCombats = this.statistics.combatsWon + this.statistics.combatsLost + (this.statistics.combatsFled ?? 0);
     this.statistics.averageEfficiency = 
       (this.statistics.averageEfficiency * (totalCombats - 1) + efficiency) / totalCombats;
 
@@ -139,6 +148,32 @@ export class PlayerProfile implements IPlayerProfile {
     this.statistics.lastUpdated = new Date();
   }
 
+  /**
+   * Records a crafting outcome: the recipe crafted and whether it was new, or
+   * no recipe when the combined items made nothing
+   */
+  public recordCraftingOutcome(recipeId: string | null, discovered: boolean = false): void {
+    if (recipeId === null) {
+      this.statistics.failedCombinations = (this.statistics.failedCombinations ?? 0) + 1;
+    } else {
+      this.statistics.itemsCrafted = (this.statistics.itemsCrafted ?? 0) + 1;
+      const crafted = this.statistics.recipesCrafted ?? {};
+      this.statistics.recipesCrafted = { ...crafted, [recipeId]: (crafted[recipeId] ?? 0) + 1 };
+      if (discovered) {
+        this.statistics.recipesDiscovered = (this.statistics.recipesDiscovered ?? 0) + 1;
+      }
+    }
+    this.statistics.lastUpdated = new Date();
+  }
+
+  /**
+   * Remembers the class picked for a new game
+   */
+  public setCharacterClass(classId: string): void {
+    this.characterClass = classId;
+    this.lastPlayed = new Date();
+  }
+
   /**
    * Updates total play time
    */
@@ -158,6 +193,7 @@ export class PlayerProfile implements IPlayerProfile {
       behaviorPatterns: { ...this.behaviorPatterns },
       preferences: { ...this.preferences },
       statistics: { ...this.statistics },
+      ...(this.characterClass ? { characterClass: this.characterClass } : {}),
       createdAt: this.createdAt,
       lastPlayed: this.lastPlayed
     };
@@ -175,6 +211,9 @@ export class PlayerProfile implements IPlayerProfile {
       ...data.statistics,
       lastUpdated: new Date(data.statistics.lastUpdated)
     };
+    if (data.characterClass) {
+      profile.characterClass = data.characterClass;
+    }
     profile.createdAt = new Date(data.createdAt);
     profile.lastPlayed = new Date(data.lastPlayed);
     return profile;
@@ -0,0 +1,256 @@
+import { Coordinate, Item } from '../types/GameTypes';
+import { GameError } from '../utils/ErrorHandling';
+import { RandomSource } from '../utils/Random';
+import { isEquipmentSlot } from './EquipmentStats';
+import { inventorySystem, isMaterial } from './Inventory';
+import { loadEntries } from '../data/DataFile';
+import recipeData from '../data/recipes.json';
+
+// Shape of src/data/recipes.json
+
+export interface MaterialDefinition {
+  id: string;
+  name: string;
+  value: number;
+  weight: number; // Carry weight of one
+  dropWeight: number; // How often loot rolls this material over the others
+}
+
+// Names either a material by id or a carried item by name, never both
+export interface RecipeIngredient {
+  material?: string;
+  item?: string;
+  quantity: number;
+}
+
+export interface RecipeResult {
+  name: string;
+  type: Item['type'];
+  properties: Record<string, any>;
+  quantity?: number;
+}
+
+export interface Recipe {
+  id: string;
+  name: string;
+  description: string;
+  known?: boolean; // Known from the start; the rest are discovered by combining their ingredients
+  ingredients: RecipeIngredient[];
+  result: RecipeResult;
+}
+
+export interface RecipeData {
+  version: number;
+  materials: MaterialDefinition[];
+  recipes: Recipe[];
+}
+
+// The player data and the player character both carry these fields
+export interface CraftingHolder {
+  position: Coordinate;
+  inventory: Item[];
+  knownRecipes?: string[]; // Recipes discovered by combining ingredients
+}
+
+export type CraftFailure =
+  | 'unknown_recipe'
+  | 'not_discovered'
+  | 'missing_ingredients'
+  | 'inventory_full'
+  | 'no_recipe' // The combined items make nothing
+  | 'in_combat';
+
+const RESULT_TYPES: ReadonlyArray<Item['type']> = ['consumable', 'key', 'treasure'];
+
+// Materials and the recipes that turn them into consumables and gear
+export class RecipeBook {
+  private materials: Map<string, MaterialDefinition>;
+  private recipes: Map<string, Recipe>;
+
+  constructor(data: RecipeData) {
+    this.materials = loadEntries(data, { key: 'materials', kind: 'material', code: 'INVALID_RECIPES' }, material => {
+      if (!(material.value >= 0) || !(material.weight >= 0) || !(material.dropWeight > 0)) {
+        throw new GameError(`Invalid material: ${material.id}`, 'INVALID_RECIPES');
+      }
+    });
+    this.recipes = loadEntries(data, { key: 'recipes', kind: 'recipe', code: 'INVALID_RECIPES' },
+      (recipe, loaded) => this.validateRecipe(recipe, loaded));
+  }
+
+  // Combining items has to point at one recipe, so no two recipes share the same ingredients
+  private validateRecipe(recipe: Recipe, loaded: ReadonlyMap<string, Recipe>): void {
+    const invalidIngredient = !Array.isArray(recipe.ingredients) || recipe.ingredients.length === 0 ||
+      recipe.ingredients.some(ingredient =>
+        !Number.isInteger(ingredient.quantity) || ingredient.quantity < 1 ||
+        (ingredient.material !== undefined) === (ingredient.item !== undefined) ||
+        (ingredient.material !== undefined && !this.materials.has(ingredient.material)) ||
+        (ingredient.item !== undefined && !ingredient.item));
+    if (invalidIngredient) {
+      throw new GameError(`Invalid ingredients for recipe: ${recipe.id}`, 'INVALID_RECIPES');
+    }
+    const result = recipe.result;
+    if (!result?.name || !(isEquipmentSlot(result.type) || RESULT_TYPES.includes(result.type)) ||
+        (result.quantity !== undefined && !(Number.isInteger(result.quantity) && result.quantity >= 1))) {
+      throw new GameError(`Invalid result for recipe: ${recipe.id}`, 'INVALID_RECIPES');
+    }
+    const key = this.getIngredientKey(recipe);
+    const clash = Array.from(loaded.values()).find(other => this.getIngredientKey(other) === key);
+    if (clash) {
+      throw new GameError(`Recipe ${recipe.id} has the same ingredients as ${clash.id}`, 'INVALID_RECIPES');
+    }
+  }
+
+  private getIngredientKey(recipe: Recipe): string {
+    return recipe.ingredients.map(ingredient => ingredient.material ?? `item:${ingredient.item}`).sort().join('+');
+  }
+
+  getMaterial(id: string): MaterialDefinition | undefined {
+    return this.materials.get(id);
+  }
+
+  getMaterials(): MaterialDefinition[] {
+    return Array.from(this.materials.values());
+  }
+
+  getRecipe(id: string): Recipe | undefined {
+    return this.recipes.get(id);
+  }
+
+  getRecipes(): Recipe[] {
+    return Array.from(this.recipes.values());
+  }
+
+  // A material picked by drop weight, for loot
+  pickMaterial(random: RandomSource): MaterialDefinition {
+    const materials = this.getMaterials();
+    let roll = random.next() * materials.reduce((total, material) => total + material.dropWeight, 0);
+
+    for (const material of materials) {
+      roll -= material.dropWeight;
+      if (roll < 0) {
+        return material;
+      }
+    }
+
+    return materials[materials.length - 1]!;
+  }
+
+  // A material as an item; it is treasure the inventory stacks rather than gold
+  createMaterial(material: MaterialDefinition, id: string, position: Coordinate): Item {
+    return {
+      id,
+      name: material.name,
+      type: 'treasure',
+      position: { ...position },
+      properties: { material: material.id, value: material.value, weight: material.weight }
+    };
+  }
+
+  isKnown(holder: CraftingHolder, id: string): boolean {
+    return this.recipes.get(id)?.known === true || (holder.knownRecipes ?? []).includes(id);
+  }
+
+  // Recipes the holder can look up, in data order
+  getKnownRecipes(holder: CraftingHolder): Recipe[] {
+    return this.getRecipes().filter(recipe => this.isKnown(holder, recipe.id));
+  }
+
+  // How many of an ingredient the holder carries, counting whole stacks
+  countIngredient(holder: CraftingHolder, ingredient: RecipeIngredient): number {
+    return holder.inventory
+      .filter(item => this.matches(item, ingredient))
+      .reduce((total, item) => total + inventorySystem.getQuantity(item), 0);
+  }
+
+  private matches(item: Item, ingredient: RecipeIngredient): boolean {
+    return ingredient.material !== undefined ?
+      item.properties['material'] === ingredient.material :
+      item.name === ingredient.item && !isMaterial(item);
+  }
+
+  // Why the holder cannot craft a recipe right now, or null if they can
+  checkCraft(holder: CraftingHolder, id: string): CraftFailure | null {
+    const recipe = this.recipes.get(id);
+    if (!recipe) {
+      return 'unknown_recipe';
+    }
+    if (!this.isKnown(holder, id)) {
+      return 'not_discovered';
+    }
+    return this.checkIngredients(holder, recipe);
+  }
+
+  // Whether the holder has every ingredient and room for the result once they are used up
+  checkIngredients(holder: CraftingHolder, recipe: Recipe): CraftFailure | null {
+    if (recipe.ingredients.some(ingredient => this.countIngredient(holder, ingredient) < ingredient.quantity)) {
+      return 'missing_ingredients';
+    }
+
+    const trial = { ...holder, inventory: holder.inventory.map(item => ({ ...item })) };
+    this.useIngredients(trial, recipe);
+    return inventorySystem.add(trial.inventory, this.createResult(recipe, 'trial', holder.position)) ?
+      null : 'inventory_full';
+  }
+
+  // The recipe whose ingredients are exactly the kinds of the chosen items, if any
+  findCombination(holder: CraftingHolder, itemIds: string[]): Recipe | undefined {
+    const chosen = holder.inventory.filter(item => itemIds.includes(item.id));
+    if (chosen.length === 0) {
+      return undefined;
+    }
+
+    return this.getRecipes().find(recipe =>
+      recipe.ingredients.every(ingredient => chosen.some(item => this.matches(item, ingredient))) &&
+      chosen.every(item => recipe.ingredients.some(ingredient => this.matches(item, ingredient))));
+  }
+
+  // Use up the ingredients, add the result to the inventory and remember the recipe.
+  // Check the recipe first; this assumes it can be made.
+  craft(holder: CraftingHolder, recipe: Recipe, id: string): Item {
+    this.useIngredients(holder, recipe);
+    const item = this.createResult(recipe, id, holder.position);
+    inventorySystem.add(holder.inventory, item);
+
+    if (!this.isKnown(holder, recipe.id)) {
+      holder.knownRecipes = [...(holder.knownRecipes ?? []), recipe.id];
+    }
+    return item;
+  }
+
+  // Known recipes the holder could craft right now
+  getCraftable(holder: CraftingHolder): Recipe[] {
+    return this.getKnownRecipes(holder).filter(recipe => this.checkIngredients(holder, recipe) === null);
+  }
+
+  // Undiscovered recipes the holder carries every ingredient for
+  getDiscoverable(holder: CraftingHolder): Recipe[] {
+    return this.getRecipes().filter(recipe =>
+      !this.isKnown(holder, recipe.id) && this.checkIngredients(holder, recipe) === null);
+  }
+
+  private useIngredients(holder: CraftingHolder, recipe: Recipe): void {
+    for (const ingredient of recipe.ingredients) {
+      for (let used = 0; used < ingredient.quantity; used++) {
+        const item = holder.inventory.find(carried => this.matches(carried, ingredient));
+        if (item) {
+          inventorySystem.consume(holder.inventory, item.id);
+        }
+      }
+    }
+  }
+
+  private createResult(recipe: Recipe, id: string, position: Coordinate): Item {
+    const { name, type, properties, quantity } = recipe.result;
+    return {
+      id,
+      name,
+      type,
+      position: { ...position },
+      properties: JSON.parse(JSON.stringify(properties)),
+      ...(quantity && quantity > 1 ? { quantity } : {})
+    };
+  }
+}
+
+// Recipes loaded from the bundled data file
+export const defaultRecipeBook = new RecipeBook(recipeData as unknown as RecipeData);
@@ -0,0 +1,208 @@
+import { StatusEffectApplication } from '../types/GameTypes';
+import { GameError } from '../utils/ErrorHandling';
+import { statusEffects } from '../combat/StatusEffects';
+import { loadEntries } from '../data/DataFile';
+import talentData from '../data/talents.json';
+
+// Shape of src/data/talents.json
+
+export type TalentBonus =
+  | 'strength'
+  | 'defense'
+  | 'agility'
+  | 'intelligence'
+  | 'maxHealth'
+  | 'maxMana'
+  | 'critChance' // Added to the critical hit chance of the player's attacks
+  | 'lootLuck'; // Added to the rarity bonus of loot from enemies the player defeats
+
+export type SkillKind = 'strike' | 'sweep' | 'recover';
+
+// An active skill: no mana, just a cooldown
+export interface SkillDefinition {
+  kind: SkillKind; // Hit one adjacent enemy, hit every adjacent enemy, or heal the player
+  cooldown: number; // Turns before the skill can be used again
+  damageMultiplier?: number; // Applied to the player's attack power by strikes and sweeps
+  healing?: number; // Share of max health a recovery restores
+  effect?: StatusEffectApplication; // Inflicted on every enemy hit
+}
+
+export interface TalentRequirement {
+  id: string;
+  rank: number;
+}
+
+export interface TalentNode {
+  id: string;
+  name: string;
+  description: string;
+  maxRank: number;
+  minLevel?: number; // Character level needed for the first rank
+  requires?: TalentRequirement[]; // Nodes listed earlier in the tree, at these ranks
+  bonuses?: Partial<Record<TalentBonus, number>>; // Passive bonuses per rank
+  skill?: SkillDefinition; // Active skill unlocked by the node
+}
+
+export interface TalentTreeData {
+  version: number;
+  talents: TalentNode[];
+}
+
+// The player data and the player character both carry these fields
+export interface TalentHolder {
+  level: number;
+  talentPoints?: number;
+  talents?: Record<string, number>; // Rank of every node with points in it
+  skillCooldowns?: Record<string, number>; // Turns left before each skill can be used again
+}
+
+export type TalentFailure =
+  | 'unknown_talent'
+  | 'no_points'
+  | 'max_rank'
+  | 'level_too_low'
+  | 'missing_prerequisite'
+  | 'nothing_to_refund'
+  | 'in_combat';
+
+export type SkillFailure = 'unknown_skill' | 'not_learned' | 'on_cooldown' | 'no_target';
+
+const BONUSES: ReadonlyArray<TalentBonus> = [
+  'strength', 'defense', 'agility', 'intelligence', 'maxHealth', 'maxMana', 'critChance', 'lootLuck'
+];
+const SKILL_KINDS: ReadonlyArray<SkillKind> = ['strike', 'sweep', 'recover'];
+
+// Talent nodes and the rules for spending points on them and using their skills
+export class TalentTree {
+  private nodes: Map<string, TalentNode>;
+
+  constructor(data: TalentTreeData) {
+    this.nodes = loadEntries(data, { key: 'talents', kind: 'talent', code: 'INVALID_TALENTS' },
+      (node, loaded) => this.validateNode(node, loaded));
+  }
+
+  // Prerequisites must already be loaded, which also rules out cycles
+  private validateNode(node: TalentNode, loaded: ReadonlyMap<string, TalentNode>): void {
+    if (!Number.isInteger(node.maxRank) || node.maxRank < 1 || (node.minLevel !== undefined && node.minLevel < 1)) {
+      throw new GameError(`Invalid ranks for talent: ${node.id}`, 'INVALID_TALENTS');
+    }
+    for (const requirement of node.requires ?? []) {
+      const required = loaded.get(requirement.id);
+      if (!required || requirement.rank < 1 || requirement.rank > required.maxRank) {
+        throw new GameError(`Invalid prerequisite for talent: ${node.id}`, 'INVALID_TALENTS');
+      }
+    }
+    for (const [bonus, value] of Object.entries(node.bonuses ?? {})) {
+      if (!BONUSES.includes(bonus as TalentBonus) || typeof value !== 'number') {
+        throw new GameError(`Invalid bonus for talent: ${node.id}`, 'INVALID_TALENTS');
+      }
+    }
+
+    const skill = node.skill;
+    if (!skill) {
+      return;
+    }
+    if (node.maxRank !== 1 || !SKILL_KINDS.includes(skill.kind) || !(skill.cooldown >= 0)) {
+      throw new GameError(`Invalid skill for talent: ${node.id}`, 'INVALID_TALENTS');
+    }
+    const invalidPower = skill.kind === 'recover' ?
+      !(typeof skill.healing === 'number' && skill.healing > 0) :
+      !(typeof skill.damageMultiplier === 'number' && skill.damageMultiplier > 0);
+    if (invalidPower) {
+      throw new GameError(`Skill needs a damage multiplier or healing: ${node.id}`, 'INVALID_TALENTS');
+    }
+    if (skill.effect && (!statusEffects.isKnownType(skill.effect.type) || skill.effect.duration < 1)) {
+      throw new GameError(`Invalid effect for talent: ${node.id}`, 'INVALID_TALENTS');
+    }
+  }
+
+  getNode(id: string): TalentNode | undefined {
+    return this.nodes.get(id);
+  }
+
+  getNodes(): TalentNode[] {
+    return Array.from(this.nodes.values());
+  }
+
+  getRank(holder: TalentHolder, id: string): number {
+    return holder.talents?.[id] ?? 0;
+  }
+
+  // Why the holder cannot put a point into the node right now, or null if they can
+  checkSpend(holder: TalentHolder, id: string): TalentFailure | null {
+    const node = this.nodes.get(id);
+    if (!node) {
+      return 'unknown_talent';
+    }
+    if ((holder.talentPoints ?? 0) < 1) {
+      return 'no_points';
+    }
+    if (this.getRank(holder, id) >= node.maxRank) {
+      return 'max_rank';
+    }
+    if (holder.level < (node.minLevel ?? 1)) {
+      return 'level_too_low';
+    }
+    if ((node.requires ?? []).some(requirement => this.getRank(holder, requirement.id) < requirement.rank)) {
+      return 'missing_prerequisite';
+    }
+    return null;
+  }
+
+  // Total of a passive bonus across every rank the holder has
+  getBonus(holder: TalentHolder, bonus: TalentBonus): number {
+    return Object.entries(holder.talents ?? {}).reduce((total, [id, rank]) =>
+      total + (this.nodes.get(id)?.bonuses?.[bonus] ?? 0) * rank, 0);
+  }
+
+  // Points the holder has put into the tree, refunded on a respec
+  getSpentPoints(holder: TalentHolder): number {
+    return Object.values(holder.talents ?? {}).reduce((total, rank) => total + rank, 0);
+  }
+
+  // Active skills the holder has unlocked, in tree order
+  getSkills(holder: TalentHolder): TalentNode[] {
+    return this.getNodes().filter(node => node.skill && this.getRank(holder, node.id) > 0);
+  }
+
+  // Why the holder cannot use the skill right now, or null if they can; targets are checked in combat
+  checkSkill(holder: TalentHolder, id: string): SkillFailure | null {
+    const node = this.nodes.get(id);
+    if (!node?.skill) {
+      return 'unknown_skill';
+    }
+    if (this.getRank(holder, id) < 1) {
+      return 'not_learned';
+    }
+    if ((holder.skillCooldowns?.[id] ?? 0) > 0) {
+      return 'on_cooldown';
+    }
+    return null;
+  }
+
+  // Start the skill's cooldown
+  beginSkill(holder: TalentHolder, node: TalentNode): void {
+    const cooldown = node.skill?.cooldown ?? 0;
+    if (cooldown > 0) {
+      holder.skillCooldowns = { ...holder.skillCooldowns, [node.id]: cooldown };
+    }
+  }
+
+  // Count every skill cooldown down by one turn
+  tickCooldowns(holder: TalentHolder): void {
+    if (!holder.skillCooldowns) {
+      return;
+    }
+
+    const cooldowns: Record<string, number> = {};
+    for (const [id, turns] of Object.entries(holder.skillCooldowns)) {
+      if (turns > 1) {
+        cooldowns[id] = turns - 1;
+      }
+    }
+    holder.skillCooldowns = cooldowns;
+  }
+}
+
+// Talent tree loaded from the bundled data file
+export const defaultTalentTree = new TalentTree(talentData as unknown as TalentTreeData);
@@ -24,10 +24,16 @@ export interface PlayerStatistics {
   totalPlayTime: number;
   combatsWon: number;
   combatsLost: number;
+  combatsFled?: number; // Missing from profiles saved before fleeing was tracked
   averageEfficiency: number;
   dungeonsCleaned: number;
   itemsFound: number;
   secretsDiscovered: number;
+  // Crafting is missing from profiles saved before it existed
+  itemsCrafted?: number;
+  recipesDiscovered?: number;
+  failedCombinations?: number; // Items combined that made nothing
+  recipesCrafted?: Record<string, number>; // Times each recipe was crafted
   lastUpdated: Date;
 }
 
@@ -37,6 +43,7 @@ export interface PlayerProfile {
   behaviorPatterns: BehaviorPatterns;
   preferences: PlayerPreferences;
   statistics: PlayerStatistics;
+  characterClass?: string; // Class picked for the latest new game
   createdAt: Date;
   lastPlayed: Date;
 }
@@ -60,6 +67,8 @@ export interface CombatTurn {
   efficiency: number;
   damageDealt: number;
   damageTaken: number;
+  critical?: boolean; // Player's attack was a critical hit
+  missed?: boolean; // Player's attack missed
 }
 
 export interface DamageBreakdown {
@@ -70,6 +79,8 @@ export interface DamageBreakdown {
   efficiency: number;
   wastedActions: number;
   missedOpportunities: string[];
+  criticalHits?: number; // Player crits over the fight
+  missedAttacks?: number; // Player attacks that missed
 }
 
 export interface CombatAnalysis {
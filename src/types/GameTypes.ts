@@ -11,12 +11,19 @@ export interface Coordinate {
 
 export type Position = Coordinate;
 
+// Floor layout algorithms the dungeon generator can use
+export type DungeonLayout = 'rooms' | 'caves' | 'vaults';
+
 export interface DungeonMap {
   rooms: Room[];
   corridors: Corridor[];
   width: number;
   height: number;
   seed?: number; // For procedural generation
+  layout?: DungeonLayout; // Absent in saves made before alternative layouts existed
+  stairsDown?: Coordinate; // Leads to the next floor; absent on the deepest floor
+  doors?: Door[]; // Absent in saves made before doors existed
+  traps?: Trap[]; // Absent in saves made before traps existed
 }
 
 export interface Room {
@@ -35,14 +42,50 @@ export interface Corridor {
   startRoom: RoomId;
   endRoom: RoomId;
   path: Coordinate[];
+  hidden?: boolean; // Secret passage, blocks movement until discovered
+  discovered?: boolean;
+}
+
+export type DoorState = 'open' | 'closed' | 'locked';
+
+export interface Door {
+  id: string;
+  position: Coordinate; // Corridor tile just outside the room's wall
+  roomId: RoomId;
+  corridorId: string;
+  state: DoorState;
+  keyId?: string; // Id of the key item that unlocks a locked door
+}
+
+export type TrapKind = 'spike' | 'poison_dart' | 'teleport' | 'alarm';
+
+export interface Trap {
+  id: string;
+  kind: TrapKind;
+  position: Coordinate;
+  difficulty: number; // Opposed by intelligence to detect and disarm
+  damage: number; // Spike and dart damage, scaled for the floor
+  detected: boolean; // Hidden traps are invisible until detected or sprung
+  disarmed: boolean;
 }
 
+export interface TrapEvent {
+  type: 'detected' | 'triggered' | 'disarmed' | 'disarm_failed';
+  trap: Trap;
+  damage?: number;
+  teleportedTo?: Coordinate;
+  alertedEnemies?: string[]; // Enemy ids woken by an alarm
+}
+
+export type EquipmentSlot = 'weapon' | 'armor' | 'helmet' | 'boots' | 'accessory' | 'ring';
+
 export interface Item {
   id: string;
   name: string;
-  type: 'weapon' | 'armor' | 'consumable' | 'key' | 'treasure';
+  type: EquipmentSlot | 'consumable' | 'key' | 'treasure'; // Equipment goes in the slot named by its type
   position: Coordinate;
   properties: Record<string, any>;
+  quantity?: number; // Size of a stack of consumables; absent means one
 }
 
 export interface Enemy {
@@ -53,9 +96,37 @@ export interface Enemy {
   maxHealth: number;
   attackPower: number;
   defense: number;
-  aiType: 'aggressive' | 'defensive' | 'patrol' | 'guard';
+  aiType: 'aggressive' | 'defensive' | 'patrol' | 'guard' | 'ranged';
+  type?: string; // Bestiary entry id
+  detectionRange?: number;
+  attackRange?: number;
+  experience?: number; // Overrides the stat-based experience reward
+  isBoss?: boolean;
+  ability?: EnemyAbility;
+  agility?: number; // Initiative in combat
+  statusEffects?: StatusEffect[];
+}
+
+export interface EnemyAbility {
+  name: string;
+  damageMultiplier: number; // Applied to the enemy's attack power
+  cooldown: number; // Turns before the ability can be used again
+  effect?: StatusEffectApplication; // Inflicted on the target when the ability hits
+  healing?: number; // Mends a wounded ally instead of striking the player
 }
 
+export type StatusEffectType = 'poison' | 'stun' | 'strength_boost' | 'defense_boost' | 'weakness' | 'regeneration';
+
+export interface StatusEffect {
+  type: StatusEffectType;
+  duration: number; // Turns remaining
+  potency: number; // Damage or healing per turn, or the stat modifier
+  stacks: number;
+  source?: string;
+}
+
+export type StatusEffectApplication = Omit<StatusEffect, 'stacks'>;
+
 export interface PlayerCharacter {
   id: string;
   position: Coordinate;
@@ -64,17 +135,24 @@ export interface PlayerCharacter {
   level: number;
   experience: number;
   inventory: Item[];
-  equipment: {
-    weapon?: Item;
-    armor?: Item;
-    accessory?: Item;
-  };
+  equipment: Partial<Record<EquipmentSlot, Item>>;
   stats: {
     strength: number;
     defense: number;
     agility: number;
     intelligence: number;
   };
+  statusEffects?: StatusEffect[];
+  gold?: number;
+  mana?: number; // Absent in saves made before spells existed
+  maxMana?: number;
+  spellCooldowns?: Record<string, number>; // Turns left before each spell can be cast again
+  classId?: string; // Absent in saves made before character classes existed
+  learnedSpells?: string[]; // Spells known regardless of intelligence, such as the class signature
+  talentPoints?: number; // Unspent; absent in saves made before talents existed
+  talents?: Record<string, number>; // Rank of every talent node with points in it
+  skillCooldowns?: Record<string, number>; // Turns left before each active skill can be used again
+  knownRecipes?: string[]; // Crafting recipes discovered by combining their ingredients
   isMoving?: boolean; // For animation state
 }
 
@@ -89,25 +167,48 @@ export interface GameState {
   difficulty: DifficultyLevel;
   isInCombat: boolean;
   turnNumber: number;
+  floor?: number; // 1-based dungeon depth
+  visibleTiles?: string[]; // "x,y" keys in the player's field of view
+  exploredTiles?: string[]; // "x,y" keys the player has seen on this floor
 }
 
+export type TileVisibility = 'unseen' | 'remembered' | 'visible';
+
 export interface PlayerAction {
-  type: 'move' | 'attack' | 'use_item' | 'cast_spell' | 'defend';
+  type:
+    | 'move'
+    | 'attack'
+    | 'use_item'
+    | 'cast_spell'
+    | 'defend'
+    | 'interact'
+    | 'disarm'
+    | 'explore'
+    | 'flee'
+    | 'use_skill'
+    | 'pick_up' // Take everything lying on the player's tile
+    | 'drop'; // Put the action's item down on the player's tile
   target?: Coordinate | string;
   item?: Item;
+  spellId?: string; // Spell to cast; the target is an enemy id or, for area spells, a tile
+  skillId?: string; // Talent node of the active skill to use; the target is an enemy id
   direction?: 'north' | 'south' | 'east' | 'west';
   timestamp: number;
 }
 
 export interface EnemyAction {
-  type: 'move' | 'attack' | 'special_ability' | 'defend';
+  type: 'move' | 'attack' | 'special_ability' | 'defend' | 'wait'; // Defend is a guard stance, wait does nothing
   target?: Coordinate | string;
   damage?: number;
+  effect?: StatusEffectApplication;
+  healing?: number; // Health a supporting ability restores to the ally it targets
   timestamp: number;
 }
 
 export interface OptimalAction {
   type: PlayerAction['type'];
+  spellId?: string; // The spell to cast when the optimal action is a spell
+  skillId?: string; // The skill to use when the optimal action is a skill
   reasoning: string;
   expectedOutcome: string;
   efficiency: number;
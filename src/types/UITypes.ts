@@ -84,6 +84,26 @@ export interface SpriteData {
   priority?: number; // 1-5, higher is more important for performance optimization
 }
 
+export interface InventoryPanelRow {
+  name: string;
+  quantity: number;
+  weight: number;
+  tag: string; // Slot for equipped gear, item type otherwise
+  equipped: boolean;
+  selected: boolean;
+}
+
+// What the inventory panel shows; the game interface builds it, the canvas draws it
+export interface InventoryPanelView {
+  rows: InventoryPanelRow[];
+  sort: string;
+  filter: string;
+  weight: number;
+  capacity: number;
+  agilityPenalty: number;
+  message?: string; // Outcome of the last thing done in the panel
+}
+
 // Re-export thought bubble related types for convenience
 export { ThoughtBubbleUI } from '../ui/ThoughtBubbleUI';
 export { ThoughtBubbleManager } from '../ui/ThoughtBubbleManager';
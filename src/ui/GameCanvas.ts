@@ -1,8 +1,9 @@
-import { CanvasConfig, RenderConfig, RetroStyle, SpriteData } from '../types/UITypes';
+import { CanvasConfig, InventoryPanelView, RenderConfig, RetroStyle, SpriteData } from '../types/UITypes';
 import { VisualAdaptationEngine } from '../ai/VisualAdaptationEngine';
 import { handleError } from '../utils/ErrorHandling';
 import { RenderOptimizer, OptimizedRenderConfig } from './RenderOptimizer';
 import { PerformanceManager } from '../utils/PerformanceManager';
+import { VisibilityLookup } from '../dungeon/FieldOfView';
 
 /**
  * Game canvas for retro UI with pixel art rendering
@@ -546,6 +547,19 @@ export class GameCanvas {
     };
   }
 
+  /**
+   * Convert screen coordinates to the dungeon tile drawn there
+   */
+  public screenToTile(screenX: number, screenY: number): { x: number; y: number } {
+    const tileSize = 20; // Matches renderDungeon
+    const canvasPosition = this.screenToGameCoordinates(screenX, screenY);
+
+    return {
+      x: Math.floor(canvasPosition.x / tileSize),
+      y: Math.floor(canvasPosition.y / tileSize)
+    };
+  }
+
   /**
    * Convert game coordinates to screen coordinates
    */
@@ -568,9 +582,12 @@ export class GameCanvas {
       // Clear canvas
       this.clear();
 
+      const visibility = new VisibilityLookup(gameState);
+
       // Render dungeon
       if (gameState.dungeon) {
         this.renderDungeon(gameState.dungeon);
+        this.renderFogOfWar(gameState.dungeon, visibility);
       }
 
       // Render player
@@ -578,19 +595,21 @@ export class GameCanvas {
         this.renderPlayer(gameState.player);
       }
 
-      // Render enemies
+      // Render enemies the player can currently see
       if (gameState.enemies) {
         gameState.enemies.forEach((enemy: any) => {
-          if (enemy.isAlive && enemy.isAlive()) {
+          if (enemy.isAlive && enemy.isAlive() && visibility.isVisible(enemy.position)) {
             this.renderEnemy(enemy);
           }
         });
       }
 
-      // Render items
+      // Render items on tiles the player has seen
       if (gameState.items) {
         gameState.items.forEach((item: any) => {
-          this.renderItem(item);
+          if (visibility.get(item.position) !== 'unseen') {
+            this.renderItem(item);
+          }
         });
       }
 
@@ -604,30 +623,91 @@ export class GameCanvas {
     }
   }
 
+  /**
+   * Render the inventory panel over the dungeon, one line per carried or equipped item
+   */
+  public renderInventoryPanel(view: InventoryPanelView): void {
+    try {
+      const colors = this.retroStyle.colorPalette;
+      const rowHeight = 16;
+      const width = Math.min(360, this.canvas.width - 20);
+      const height = 100 + Math.max(1, view.rows.length) * rowHeight;
+      const x = Math.floor((this.canvas.width - width) / 2);
+      const y = 20;
+
+      this.renderRectangle(x, y, width, height, colors[0] || '#000000', colors[1] || '#FFFFFF');
+      this.renderRectangle(x, y, width, 20, colors[7] || '#CCCCCC', colors[0] || '#000000');
+      this.renderText(`INVENTORY  sort: ${view.sort}  show: ${view.filter}`, x + 5, y + 5, colors[0], 12);
+
+      let rowY = y + 28;
+      if (view.rows.length === 0) {
+        this.renderText('Nothing to show', x + 10, rowY, colors[1], 12);
+      }
+      for (const row of view.rows) {
+        const color = row.selected ? colors[5] : row.equipped ? colors[7] : colors[1];
+        const quantity = row.quantity > 1 ? ` x${row.quantity}` : '';
+        const marker = `${row.selected ? '>' : ' '}${row.equipped ? 'E' : ' '}`;
+        this.renderText(`${marker} ${row.name}${quantity}`, x + 6, rowY, color, 12);
+        this.renderText(row.tag, x + width - 120, rowY, color, 12);
+        this.renderText(`${row.weight}`, x + width - 30, rowY, color, 12);
+        rowY += rowHeight;
+      }
+
+      // Load and controls along the bottom
+      rowY = y + height - 64;
+      const penalty = view.agilityPenalty > 0 ? `  agility -${view.agilityPenalty}` : '';
+      this.renderText(`Weight ${view.weight}/${view.capacity}${penalty}`, x + 6, rowY,
+        view.agilityPenalty > 0 ? colors[2] : colors[3], 12);
+      this.renderText('W/S select  E use/equip  D drop', x + 6, rowY + 16, colors[1], 10);
+      this.renderText('O sort  F show  I close', x + 6, rowY + 30, colors[1], 10);
+      if (view.message) {
+        this.renderText(view.message, x + 6, rowY + 44, colors[5], 10);
+      }
+
+    } catch (error) {
+      handleError(error as Error, 'Failed to render inventory panel', {
+        context: 'GameCanvas.renderInventoryPanel'
+      });
+    }
+  }
+
   /**
    * Render the dungeon layout
    */
   private renderDungeon(dungeon: any): void {
     const tileSize = 20; // Size of each tile in pixels
 
+    // Secret passages and the rooms behind them stay hidden until discovered
+    const isVisible = (corridor: any) => !corridor.hidden || corridor.discovered;
+    const revealedRooms = new Set<string>();
+    (dungeon.corridors || []).filter(isVisible).forEach((corridor: any) => {
+      revealedRooms.add(corridor.startRoom);
+      revealedRooms.add(corridor.endRoom);
+    });
+
     // Render rooms
     if (dungeon.rooms) {
       dungeon.rooms.forEach((room: any) => {
+        if (room.type === 'secret' && !revealedRooms.has(room.id)) {
+          return;
+        }
+
+        const isBossRoom = room.type === 'boss';
         this.renderRectangle(
           room.position.x * tileSize,
           room.position.y * tileSize,
           room.width * tileSize,
           room.height * tileSize,
-          'rgba(0, 100, 0, 0.3)',
-          '#00ff00'
+          isBossRoom ? 'rgba(100, 0, 0, 0.3)' : 'rgba(0, 100, 0, 0.3)',
+          isBossRoom ? '#ff0000' : '#00ff00'
         );
       });
     }
 
     // Render corridors
     if (dungeon.corridors) {
-      dungeon.corridors.forEach((corridor: any) => {
-        corridor.tiles.forEach((tile: any) => {
+      dungeon.corridors.filter(isVisible).forEach((corridor: any) => {
+        corridor.path.forEach((tile: any) => {
           this.renderRectangle(
             tile.x * tileSize,
             tile.y * tileSize,
@@ -639,6 +719,59 @@ export class GameCanvas {
         });
       });
     }
+
+    // Render doors: open ones as a frame, closed ones filled, locked ones with a gold frame
+    (dungeon.doors || []).forEach((door: any) => {
+      const isOpen = door.state === 'open';
+      this.renderRectangle(
+        door.position.x * tileSize,
+        door.position.y * tileSize,
+        tileSize,
+        tileSize,
+        isOpen ? undefined : '#8b4513',
+        door.state === 'locked' ? '#ffd700' : '#d2a679'
+      );
+    });
+
+    // Render traps the player has spotted and not yet disarmed
+    (dungeon.traps || []).filter((trap: any) => trap.detected && !trap.disarmed).forEach((trap: any) => {
+      this.renderText('^', trap.position.x * tileSize + 6, trap.position.y * tileSize + 2, '#ff8800', 16);
+    });
+
+    // Render stairs down
+    if (dungeon.stairsDown) {
+      this.renderRectangle(
+        dungeon.stairsDown.x * tileSize,
+        dungeon.stairsDown.y * tileSize,
+        tileSize,
+        tileSize,
+        '#0000ff',
+        '#ffffff'
+      );
+      this.renderText('>', dungeon.stairsDown.x * tileSize + 6, dungeon.stairsDown.y * tileSize + 2, '#ffffff', 16);
+    }
+  }
+
+  /**
+   * Black out unseen tiles and dim remembered ones outside the field of view
+   */
+  private renderFogOfWar(dungeon: any, visibility: VisibilityLookup): void {
+    const tileSize = 20;
+
+    for (let x = 0; x < dungeon.width; x++) {
+      for (let y = 0; y < dungeon.height; y++) {
+        const tileVisibility = visibility.get({ x, y });
+        if (tileVisibility === 'visible') continue;
+
+        this.renderRectangle(
+          x * tileSize,
+          y * tileSize,
+          tileSize,
+          tileSize,
+          tileVisibility === 'unseen' ? '#000000' : 'rgba(0, 0, 0, 0.6)'
+        );
+      }
+    }
   }
 
   /**
@@ -1,4 +1,13 @@
-import { GameEngine } from '../engine/GameEngine';
+import {
+  GameEngine,
+  CombatEndEvent,
+  CraftEvent,
+  ItemEvent,
+  LevelUpEvent,
+  SkillUseEvent,
+  SpellCastEvent,
+  TravelStopReason
+} from '../engine/GameEngine';
 import { AIMentorSystem } from '../ai/AIMentorSystem';
 import { VisualAdaptationEngine } from '../ai/VisualAdaptationEngine';
 import { CombatAnalysisSystem } from '../combat/CombatAnalysis';
@@ -9,7 +18,16 @@ import { PlayerProfile } from '../player/PlayerProfile';
 import { SaveManager } from '../data/SaveManager';
 import { ConfigurationManager } from '../data/ConfigurationManager';
 import { handleError } from '../utils/ErrorHandling';
-import { PlayerAction } from '../types/GameTypes';
+import { THOUGHT_BUBBLE_DISPLAY_TIME } from '../utils/Constants';
+import { EquipmentSlot, Item, PlayerAction, TrapEvent } from '../types/GameTypes';
+import { InventoryPanelView } from '../types/UITypes';
+import { TRAP_NAMES } from '../dungeon/TrapSystem';
+import { SpellFailure } from '../combat/Spellbook';
+import { defaultCharacterClasses } from '../player/CharacterClasses';
+import { SkillFailure, TalentFailure } from '../player/TalentTree';
+import { EQUIPMENT_SLOTS } from '../player/EquipmentStats';
+import { INVENTORY_FILTERS, INVENTORY_SORTS, InventoryFilter, InventorySort, inventorySystem, isMaterial } from '../player/Inventory';
+import { CraftFailure } from '../player/RecipeBook';
 
 export interface GameInterfaceConfig {
   canvasWidth: number;
@@ -19,6 +37,24 @@ export interface GameInterfaceConfig {
   autoSaveInterval: number; // minutes
 }
 
+/**
+ * Where the player is in the inventory panel
+ */
+interface InventoryPanelState {
+  selected: number;
+  sort: InventorySort;
+  filter: InventoryFilter;
+  message?: string;
+}
+
+/**
+ * An inventory panel line: an equipped item with its slot, or a carried one
+ */
+interface InventoryEntry {
+  item: Item;
+  slot?: EquipmentSlot;
+}
+
 /**
  * Main game interface that coordinates all UI elements and game systems
  */
@@ -44,6 +80,10 @@ export class GameInterface {
   // UI Elements
   private containerElement!: HTMLElement;
   private hudElement!: HTMLElement;
+  private talentScreen: HTMLElement | null = null;
+  private inventoryPanel: InventoryPanelState | null = null;
+  private craftingScreen: HTMLElement | null = null;
+  private craftingSelection: Set<string> = new Set(); // Items picked to combine
   private config: GameInterfaceConfig;
 
   constructor(
@@ -291,6 +331,40 @@ export class GameInterface {
    * Setup event listeners for game controls
    */
   private setupEventListeners(): void {
+    // Count secret passages found in the player's statistics
+    this.gameEngine.onSecretDiscovered(() => {
+      this.currentProfile.recordExplorationEvent('secret_discovered');
+    });
+
+    this.gameEngine.onCombatEnd(event => this.handleCombatEnd(event));
+    this.gameEngine.onLevelUp(event => this.showLevelUp(event));
+
+    // Traps feed the mentor so it can warn about the ones the player knows of
+    this.gameEngine.onTrap(event => {
+      this.aiMentor.recordTrapEvent(event);
+      this.showTrapEvent(event);
+    });
+
+    this.gameEngine.onTravelStop(reason => this.showTravelStop(reason));
+    this.gameEngine.onSpellCast(event => this.showSpellCast(event));
+    this.gameEngine.onSkillUsed(event => this.showSkillUse(event));
+    this.gameEngine.onItem(event => this.showItemEvent(event));
+
+    // Crafting outcomes let the mentor suggest recipes
+    this.gameEngine.onCraft(event => {
+      if (event.item && event.recipeId) {
+        this.currentProfile.recordCraftingOutcome(event.recipeId, event.discovered);
+      } else if (event.failure === 'no_recipe') {
+        this.currentProfile.recordCraftingOutcome(null);
+      }
+
+      // A successful experiment uses up the picked items
+      if (!event.failure) {
+        this.craftingSelection.clear();
+      }
+      this.renderCraftingScreen(event);
+    });
+
     // Keyboard controls
     document.addEventListener('keydown', (event) => {
       if (!this.isGameActive || this.isPaused) return;
@@ -337,6 +411,31 @@ export class GameInterface {
    */
   private handleKeyboardInput(event: KeyboardEvent): void {
     const key = event.key.toLowerCase();
+
+    // The talent screen holds on to the keyboard until it is closed
+    if (this.talentScreen) {
+      if (key === 't' || key === 'escape') {
+        this.toggleTalentScreen();
+      }
+      event.preventDefault();
+      return;
+    }
+
+    // So does the crafting screen
+    if (this.craftingScreen) {
+      if (key === 'k' || key === 'escape') {
+        this.toggleCraftingScreen();
+      }
+      event.preventDefault();
+      return;
+    }
+
+    // And the inventory panel
+    if (this.inventoryPanel) {
+      this.handleInventoryKey(key);
+      event.preventDefault();
+      return;
+    }
     
     // Movement keys
     const movementKeys: { [key: string]: string } = {
@@ -362,6 +461,20 @@ export class GameInterface {
       return;
     }
 
+    // Number keys cast the known spells in the order they are learned
+    if (/^[1-4]$/.test(key)) {
+      this.castKnownSpell(Number(key) - 1);
+      event.preventDefault();
+      return;
+    }
+
+    // The next four use the active skills from the talent tree
+    if (/^[5-8]$/.test(key)) {
+      this.useKnownSkill(Number(key) - 5);
+      event.preventDefault();
+      return;
+    }
+
     // Action keys
     switch (key) {
       case ' ': // Spacebar - attack
@@ -391,7 +504,13 @@ export class GameInterface {
         break;
 
       case 'i': // Inventory
-        this.showInventory();
+        this.toggleInventoryPanel();
+        event.preventDefault();
+        break;
+
+      case 'g': // Pick up what lies underfoot
+      case ',':
+        this.gameEngine.queueAction({ type: 'pick_up', timestamp: Date.now() });
         event.preventDefault();
         break;
 
@@ -400,11 +519,48 @@ export class GameInterface {
         event.preventDefault();
         break;
 
+      case 'e': // Open or close an adjacent door
+        this.gameEngine.queueAction({ type: 'interact', timestamp: Date.now() });
+        event.preventDefault();
+        break;
+
+      case 'x': // Disarm a detected trap
+        this.gameEngine.queueAction({ type: 'disarm', timestamp: Date.now() });
+        event.preventDefault();
+        break;
+
+      case 'o': // Auto-explore
+        this.gameEngine.queueAction({ type: 'explore', timestamp: Date.now() });
+        event.preventDefault();
+        break;
+
+      case 'r': // Run from the fight
+        this.gameEngine.queueAction({ type: 'flee', timestamp: Date.now() });
+        event.preventDefault();
+        break;
+
       case 'm': // Map
         this.showMap();
         event.preventDefault();
         break;
 
+      case 't': // Talents
+        this.toggleTalentScreen();
+        event.preventDefault();
+        break;
+
+      case 'k': // Crafting
+        this.toggleCraftingScreen();
+        event.preventDefault();
+        break;
+
+      case '>': // Take the stairs down
+        if (!this.gameEngine.descend()) {
+          this.showNoStairs();
+        }
+        event.preventDefault();
+        break;
+
       case 'f1': // Debug info
         this.toggleDebugInfo();
         event.preventDefault();
@@ -413,21 +569,37 @@ export class GameInterface {
   }
 
   /**
-   * Handle mouse click on canvas
+   * Cast the nth spell the player knows at the nearest visible enemy
    */
-  private handleMouseClick(event: MouseEvent): void {
-    const canvas = this.gameCanvas.getCanvas();
-    const rect = canvas.getBoundingClientRect();
-    const x = event.clientX - rect.left;
-    const y = event.clientY - rect.top;
+  private castKnownSpell(index: number): void {
+    const { stats, learnedSpells } = this.gameEngine.getGameState().player;
+    const spell = this.gameEngine.getCombatSystem().getSpellbook().getKnownSpells(stats.intelligence, learnedSpells)[index];
+    if (!spell) return;
 
-    // Convert screen coordinates to game coordinates
-    const gameCoords = this.gameCanvas.screenToGameCoordinates(x, y);
+    this.gameEngine.queueAction({ type: 'cast_spell', spellId: spell.id, timestamp: Date.now() });
+  }
+
+  /**
+   * Use the nth active skill the player has unlocked on the adjacent enemy
+   */
+  private useKnownSkill(index: number): void {
+    const player = this.gameEngine.getGameState().player;
+    const skill = this.gameEngine.getCombatSystem().getTalentTree().getSkills(player)[index];
+    if (!skill) return;
+
+    this.gameEngine.queueAction({ type: 'use_skill', skillId: skill.id, timestamp: Date.now() });
+  }
+
+  /**
+   * Handle mouse click on canvas: walk to the clicked tile
+   */
+  private handleMouseClick(event: MouseEvent): void {
+    const tile = this.gameCanvas.screenToTile(event.clientX, event.clientY);
     
     // Queue movement action to clicked position
     const action: PlayerAction = {
       type: 'move',
-      target: gameCoords,
+      target: tile,
       timestamp: Date.now()
     };
     
@@ -549,6 +721,9 @@ export class GameInterface {
         
         // Render game canvas
         this.gameCanvas.render(gameState);
+        if (this.inventoryPanel) {
+          this.gameCanvas.renderInventoryPanel(this.buildInventoryView(gameState.player));
+        }
         
         // Update UI components
         if (this.config.enableUI) {
@@ -608,12 +783,18 @@ export class GameInterface {
       const gameState = this.gameEngine.getGameState();
       const player = gameState.player;
       const performanceMetrics = this.gameEngine.getPerformanceMetrics();
+      const ammo = player.equipment.weapon?.properties['ammo'];
+      const characterClass = player.classId ? defaultCharacterClasses.getClass(player.classId) : undefined;
 
       this.hudElement.innerHTML = `
         <div class="hud-left">
           <span>HP: ${player.health}/${player.maxHealth}</span>
-          <span style="margin-left: 20px;">Level: ${player.level}</span>
+          <span style="margin-left: 20px;">MP: ${player.mana ?? 0}/${player.maxMana ?? 0}</span>
+          <span style="margin-left: 20px;">Level: ${player.level}${characterClass ? ` ${characterClass.name}` : ''}</span>
           <span style="margin-left: 20px;">XP: ${player.experience}</span>
+          <span style="margin-left: 20px;">Gold: ${player.gold ?? 0}</span>
+          ${player.talentPoints ? `<span style="margin-left: 20px;">Talent points: ${player.talentPoints} (T)</span>` : ''}
+          ${typeof ammo === 'number' ? `<span style="margin-left: 20px;">Ammo: ${ammo}</span>` : ''}
         </div>
         
         <div class="hud-center">
@@ -623,6 +804,7 @@ export class GameInterface {
         
         <div class="hud-right">
           <span>FPS: ${Math.round(1000 / performanceMetrics.averageFrameTime)}</span>
+          <span style="margin-left: 20px;">Floor: ${gameState.floor}</span>
           <span style="margin-left: 20px;">Room: ${gameState.currentRoom || 'Unknown'}</span>
         </div>
       `;
@@ -689,23 +871,363 @@ export class GameInterface {
   }
 
   /**
-   * Show inventory (placeholder)
+   * Record a finished fight in the player's profile
+   */
+  private handleCombatEnd(event: CombatEndEvent): void {
+    try {
+      const combatLog = this.gameEngine.getCombatLog();
+      const efficiency = combatLog.length > 0 ?
+        this.combatAnalysis.analyzeCombat(combatLog, event.duration, event.outcome).efficiency : 0;
+
+      this.currentProfile.recordCombatResult(event.outcome, efficiency);
+      event.rewards.items.forEach(() => this.currentProfile.recordExplorationEvent('item_found'));
+    } catch (error) {
+      handleError(error as Error, 'Failed to record combat result');
+    }
+
+    this.showCombatEnd(event);
+  }
+
+  /**
+   * Report how a fight ended and what it earned in the thought bubble
+   */
+  private showCombatEnd(event: CombatEndEvent): void {
+    if (!this.thoughtBubbleUI) return;
+
+    const { experience, gold } = event.rewards;
+    const messages: Record<CombatEndEvent['outcome'], string> = {
+      victory: `Victory! You gain ${experience} XP and ${gold} gold.`,
+      defeat: 'You have been defeated.',
+      fled: 'You escape the fight.'
+    };
+
+    this.thoughtBubbleUI.displayHint({
+      id: `combat_${event.outcome}_${Date.now()}`,
+      message: messages[event.outcome],
+      type: event.outcome === 'victory' ? 'tip' : 'warning',
+      urgency: event.outcome === 'defeat' ? 'high' : 'low',
+      context: 'combat',
+      showDuration: THOUGHT_BUBBLE_DISPLAY_TIME
+    });
+  }
+
+  /**
+   * Announce a level-up in the thought bubble
+   */
+  private showLevelUp(event: LevelUpEvent): void {
+    if (!this.thoughtBubbleUI) return;
+
+    this.thoughtBubbleUI.displayHint({
+      id: `level_up_${event.level}`,
+      message: `Level up! You reached level ${event.level} and now have ${event.maxHealth} max HP.`,
+      type: 'tip',
+      urgency: 'medium',
+      context: 'level_up',
+      showDuration: THOUGHT_BUBBLE_DISPLAY_TIME
+    });
+    this.updateHUD();
+  }
+
+  /**
+   * Explain why auto-explore or click-to-move stopped, when it is not obvious
+   */
+  private showTravelStop(reason: TravelStopReason): void {
+    if (!this.thoughtBubbleUI) return;
+
+    const messages: Partial<Record<TravelStopReason, string>> = {
+      explored: 'Nothing left to explore that you can reach.',
+      enemy_spotted: 'An enemy comes into view.',
+      blocked: 'Something blocks the way.'
+    };
+    const message = messages[reason];
+    if (!message) return;
+
+    this.thoughtBubbleUI.displayHint({
+      id: `travel_${reason}_${Date.now()}`,
+      message,
+      type: reason === 'enemy_spotted' ? 'warning' : 'tip',
+      urgency: reason === 'enemy_spotted' ? 'medium' : 'low',
+      context: 'exploration',
+      showDuration: THOUGHT_BUBBLE_DISPLAY_TIME
+    });
+  }
+
+  /**
+   * Explain a descent attempt away from the stairs
    */
-  private showInventory(): void {
-    console.log('Inventory requested - not implemented yet');
+  private showNoStairs(): void {
+    if (!this.thoughtBubbleUI) return;
+
+    this.thoughtBubbleUI.displayHint({
+      id: `no_stairs_${Date.now()}`,
+      message: 'There are no stairs here.',
+      type: 'tip',
+      urgency: 'low',
+      context: 'exploration',
+      showDuration: THOUGHT_BUBBLE_DISPLAY_TIME
+    });
   }
 
   /**
-   * Show combat analysis
+   * Report what a spell did, or why it fizzled, in the thought bubble
+   */
+  private showSpellCast(event: SpellCastEvent): void {
+    if (!this.thoughtBubbleUI) return;
+
+    const spell = this.gameEngine.getCombatSystem().getSpellbook().getSpell(event.spellId);
+    const name = spell?.name ?? event.spellId;
+    const failures: Record<SpellFailure, string> = {
+      unknown_spell: `You do not know any spell called ${name}.`,
+      not_learned: `${name} is beyond your intelligence for now.`,
+      insufficient_mana: `Not enough mana for ${name}.`,
+      on_cooldown: `${name} is not ready yet.`,
+      no_target: `There is nothing for ${name} to strike.`,
+      out_of_range: `The target is out of range of ${name}.`,
+      no_line_of_sight: `You cannot see the target of ${name}.`
+    };
+    const message = event.failure ? failures[event.failure] :
+      event.healing > 0 ? `${name} restores ${event.healing} health.` :
+      event.targets.length > 0 ? `${name} deals ${event.damage} damage` +
+        (event.defeated.length > 0 ? `, defeating ${event.defeated.length} enemies.` : '.') :
+      `${name} takes hold.`;
+
+    this.thoughtBubbleUI.displayHint({
+      id: `spell_${event.spellId}_${Date.now()}`,
+      message,
+      type: event.failure ? 'warning' : 'tip',
+      urgency: 'low',
+      context: 'spell',
+      showDuration: THOUGHT_BUBBLE_DISPLAY_TIME
+    });
+    this.updateHUD();
+  }
+
+  /**
+   * Report what a skill did, or why it could not be used, in the thought bubble
+   */
+  private showSkillUse(event: SkillUseEvent): void {
+    if (!this.thoughtBubbleUI) return;
+
+    const node = this.gameEngine.getCombatSystem().getTalentTree().getNode(event.skillId);
+    const name = node?.name ?? event.skillId;
+    const failures: Record<SkillFailure, string> = {
+      unknown_skill: `There is no skill called ${name}.`,
+      not_learned: `You have not learned ${name} yet.`,
+      on_cooldown: `${name} is not ready yet.`,
+      no_target: `There is nothing next to you for ${name} to strike.`
+    };
+    const message = event.failure ? failures[event.failure] :
+      event.healing > 0 ? `${name} restores ${event.healing} health.` :
+      event.damage > 0 ? `${name} deals ${event.damage} damage` +
+        (event.defeated.length > 0 ? `, defeating ${event.defeated.length} enemies.` : '.') :
+      `${name} misses.`;
+
+    this.thoughtBubbleUI.displayHint({
+      id: `skill_${event.skillId}_${Date.now()}`,
+      message,
+      type: event.failure ? 'warning' : 'tip',
+      urgency: 'low',
+      context: 'skill',
+      showDuration: THOUGHT_BUBBLE_DISPLAY_TIME
+    });
+    this.updateHUD();
+  }
+
+  /**
+   * Report a sprung or spotted trap in the thought bubble
+   */
+  private showTrapEvent(event: TrapEvent): void {
+    if (!this.thoughtBubbleUI) return;
+
+    const name = TRAP_NAMES[event.trap.kind];
+    const messages: Record<TrapEvent['type'], string> = {
+      detected: `You spot a ${name.toLowerCase()}.`,
+      triggered: event.teleportedTo ? `${name} whisks you away!` :
+        event.alertedEnemies ? `${name}! ${event.alertedEnemies.length} enemies are coming.` :
+        `${name}! You take ${event.damage ?? 0} damage.`,
+      disarmed: `You disarm the ${name.toLowerCase()}.`,
+      disarm_failed: `You fail to disarm the ${name.toLowerCase()}.`
+    };
+
+    this.thoughtBubbleUI.displayHint({
+      id: `trap_${event.trap.id}_${event.type}`,
+      message: messages[event.type],
+      type: event.type === 'triggered' ? 'warning' : 'tip',
+      urgency: event.type === 'triggered' ? 'high' : 'low',
+      context: 'trap',
+      showDuration: THOUGHT_BUBBLE_DISPLAY_TIME
+    });
+    this.updateHUD();
+  }
+
+  /**
+   * Report items picked up, dropped or left behind in the thought bubble
+   */
+  private showItemEvent(event: ItemEvent): void {
+    if (!this.thoughtBubbleUI) return;
+
+    const names = event.items.map(item => item.quantity ? `${item.name} x${item.quantity}` : item.name).join(', ');
+    const messages: Record<ItemEvent['type'], string> = {
+      picked_up: `You pick up ${names}.`,
+      dropped: `You drop ${names}.`,
+      inventory_full: `No room for ${names}.`
+    };
+
+    this.thoughtBubbleUI.displayHint({
+      id: `item_${event.type}_${Date.now()}`,
+      message: messages[event.type],
+      type: event.type === 'inventory_full' ? 'warning' : 'tip',
+      urgency: 'low',
+      context: 'inventory',
+      showDuration: THOUGHT_BUBBLE_DISPLAY_TIME
+    });
+    this.updateHUD();
+  }
+
+  /**
+   * Open or close the inventory panel drawn over the dungeon
+   */
+  private toggleInventoryPanel(): void {
+    this.inventoryPanel = this.inventoryPanel ? null : { selected: 0, sort: 'type', filter: 'all' };
+  }
+
+  /**
+   * Equipped items first, then the carried ones that pass the filter, in the chosen order
+   */
+  private getInventoryEntries(player: { inventory: Item[]; equipment: Partial<Record<EquipmentSlot, Item>> }): InventoryEntry[] {
+    if (!this.inventoryPanel) return [];
+
+    const { sort, filter } = this.inventoryPanel;
+    const equipped = EQUIPMENT_SLOTS
+      .map(slot => ({ item: player.equipment[slot], slot }))
+      .filter((entry): entry is Required<InventoryEntry> => entry.item !== undefined)
+      .filter(entry => inventorySystem.filter([entry.item], filter).length > 0);
+    const carried = inventorySystem.sort(inventorySystem.filter(player.inventory, filter), sort)
+      .map(item => ({ item }));
+
+    return [...equipped, ...carried];
+  }
+
+  /**
+   * Describe the inventory panel for the canvas
+   */
+  private buildInventoryView(player: { inventory: Item[]; equipment: Partial<Record<EquipmentSlot, Item>> }): InventoryPanelView {
+    const panel = this.inventoryPanel ?? { selected: 0, sort: 'type', filter: 'all' };
+    const encumbrance = this.gameEngine.getEncumbrance();
+    const view: InventoryPanelView = {
+      rows: this.getInventoryEntries(player).map((entry, index) => ({
+        name: entry.item.name,
+        quantity: inventorySystem.getQuantity(entry.item),
+        weight: inventorySystem.getWeight(entry.item),
+        tag: entry.slot ?? (isMaterial(entry.item) ? 'material' : entry.item.type),
+        equipped: entry.slot !== undefined,
+        selected: index === panel.selected
+      })),
+      sort: panel.sort,
+      filter: panel.filter,
+      ...encumbrance
+    };
+    if (panel.message) {
+      view.message = panel.message;
+    }
+    return view;
+  }
+
+  /**
+   * Keys while the inventory panel is open: move the selection, act on the selected item,
+   * change the order or filter, or close the panel
+   */
+  private handleInventoryKey(key: string): void {
+    const panel = this.inventoryPanel;
+    if (!panel) return;
+
+    const entries = this.getInventoryEntries(this.gameEngine.getGameState().player);
+    const entry = entries[panel.selected];
+    const cycle = <T>(values: ReadonlyArray<T>, current: T): T =>
+      values[(values.indexOf(current) + 1) % values.length] ?? current;
+
+    switch (key) {
+      case 'i':
+      case 'escape':
+        this.toggleInventoryPanel();
+        return;
+
+      case 'arrowup':
+      case 'w':
+        panel.selected = Math.max(0, panel.selected - 1);
+        return;
+
+      case 'arrowdown':
+      case 's':
+        panel.selected = Math.max(0, Math.min(entries.length - 1, panel.selected + 1));
+        return;
+
+      case 'o':
+        panel.sort = cycle(INVENTORY_SORTS, panel.sort);
+        return;
+
+      case 'f':
+        panel.filter = cycle(INVENTORY_FILTERS, panel.filter);
+        panel.selected = 0;
+        return;
+
+      case 'enter':
+      case 'e':
+        if (entry) {
+          panel.message = this.useInventoryEntry(entry);
+        }
+        break;
+
+      case 'd':
+        if (entry?.slot) {
+          panel.message = 'Take it off before dropping it.';
+        } else if (entry) {
+          this.gameEngine.queueAction({ type: 'drop', item: entry.item, timestamp: Date.now() });
+          delete panel.message;
+        }
+        break;
+
+      default:
+        return;
+    }
+
+    // The list may have shrunk under the selection
+    const remaining = this.getInventoryEntries(this.gameEngine.getGameState().player).length;
+    panel.selected = Math.max(0, Math.min(panel.selected, remaining - 1));
+  }
+
+  /**
+   * Take off equipped gear, put on carried gear or use a consumable; returns what happened
+   */
+  private useInventoryEntry(entry: InventoryEntry): string {
+    const { item, slot } = entry;
+    const inCombat = this.gameEngine.getGameState().isInCombat;
+
+    if (slot) {
+      if (this.gameEngine.unequipItem(slot)) return `You take off the ${item.name}.`;
+      return inCombat ? 'Not in the middle of a fight.' : 'No room in your pack.';
+    }
+    if (item.type === 'consumable') {
+      this.gameEngine.queueAction({ type: 'use_item', item, timestamp: Date.now() });
+      return `You use the ${item.name}.`;
+    }
+    if (this.gameEngine.equipItem(item.id)) {
+      return `You put on the ${item.name}.`;
+    }
+    return inCombat && EQUIPMENT_SLOTS.includes(item.type as EquipmentSlot) ?
+      'Not in the middle of a fight.' : `The ${item.name} cannot be used here.`;
+  }
+
+  /**
+   * Show the analysis of the last finished fight, with its real outcome
    */
   private showCombatAnalysis(): void {
     if (!this.analysisPanel) return;
 
     try {
-      const combatLog = this.gameEngine.getCombatLog();
-      if (combatLog.length > 0) {
-        const analysisResult = this.combatAnalysis.analyzeCombat(combatLog, 1000, 'victory');
-        console.log('Combat analysis result:', analysisResult);
+      const analysis = this.combatAnalysis.getAnalysisHistory().slice(-1)[0];
+      if (analysis) {
+        this.analysisPanel.show(analysis, analysis.suggestions);
       }
     } catch (error) {
       handleError(error as Error, 'Failed to show combat analysis');
@@ -737,6 +1259,205 @@ export class GameInterface {
     // Placeholder for context menu implementation
   }
 
+  /**
+   * Open or close the talent screen
+   */
+  private toggleTalentScreen(): void {
+    if (this.talentScreen) {
+      this.talentScreen.remove();
+      this.talentScreen = null;
+      return;
+    }
+
+    this.talentScreen = document.createElement('div');
+    this.talentScreen.id = 'talent-screen';
+    this.talentScreen.style.cssText = `
+      position: absolute;
+      top: 50%;
+      left: 50%;
+      transform: translate(-50%, -50%);
+      background: rgba(0, 0, 0, 0.9);
+      border: 2px solid #00ff00;
+      padding: 1.5em;
+      max-height: 80%;
+      overflow-y: auto;
+      z-index: 300;
+    `;
+
+    // Rows and the respec button are redrawn on every change, so listen on the screen itself
+    this.talentScreen.addEventListener('click', (event) => {
+      const target = (event.target as HTMLElement).closest<HTMLElement>('[data-talent], [data-respec]');
+      if (!target) return;
+
+      const failure = target.dataset['talent'] ?
+        this.gameEngine.spendTalentPoint(target.dataset['talent']) :
+        this.gameEngine.respecTalents();
+      this.renderTalentScreen(failure);
+      this.updateHUD();
+    });
+
+    this.containerElement.appendChild(this.talentScreen);
+    this.renderTalentScreen(null);
+  }
+
+  /**
+   * Draw every talent with its rank and requirements, plus why the last change failed
+   */
+  private renderTalentScreen(failure: TalentFailure | null): void {
+    if (!this.talentScreen) return;
+
+    const player = this.gameEngine.getGameState().player;
+    const talentTree = this.gameEngine.getCombatSystem().getTalentTree();
+    const failures: Record<TalentFailure, string> = {
+      unknown_talent: 'That talent does not exist.',
+      no_points: 'You have no talent points to spend. Level up to earn more.',
+      max_rank: 'That talent is already at its highest rank.',
+      level_too_low: 'You are not experienced enough for that talent yet.',
+      missing_prerequisite: 'Learn the talents it builds on first.',
+      nothing_to_refund: 'You have not spent any talent points.',
+      in_combat: 'You cannot change your talents in the middle of a fight.'
+    };
+
+    const rows = talentTree.getNodes().map(node => {
+      const rank = talentTree.getRank(player, node.id);
+      const available = talentTree.checkSpend(player, node.id) === null;
+      const requirements = [
+        ...(node.minLevel ? [`level ${node.minLevel}`] : []),
+        ...(node.requires ?? []).map(requirement =>
+          `${talentTree.getNode(requirement.id)?.name ?? requirement.id} ${requirement.rank}`)
+      ];
+      return `
+        <div data-talent="${node.id}" style="cursor: pointer; margin: 0.4em 0; color: ${available ? '#00ff00' : '#888888'};">
+          <strong>${node.name}</strong> ${rank}/${node.maxRank}${node.skill ? ' (skill)' : ''}
+          <div style="font-size: 0.85em;">${node.description}</div>
+          ${requirements.length > 0 ? `<div style="font-size: 0.8em;">Requires ${requirements.join(', ')}</div>` : ''}
+        </div>
+      `;
+    }).join('');
+
+    this.talentScreen.innerHTML = `
+      <h2>Talents</h2>
+      <p>Points to spend: ${player.talentPoints ?? 0}</p>
+      ${rows}
+      ${failure ? `<p style="color: #ffff00;">${failures[failure]}</p>` : ''}
+      <button data-respec="true">Respec</button>
+      <p>Click a talent to spend a point. Skills are used with keys 5-8. Press T to close.</p>
+    `;
+  }
+
+  /**
+   * Open or close the crafting screen
+   */
+  private toggleCraftingScreen(): void {
+    if (this.craftingScreen) {
+      this.craftingScreen.remove();
+      this.craftingScreen = null;
+      this.craftingSelection.clear();
+      return;
+    }
+
+    this.craftingScreen = document.createElement('div');
+    this.craftingScreen.id = 'crafting-screen';
+    this.craftingScreen.style.cssText = `
+      position: absolute;
+      top: 50%;
+      left: 50%;
+      transform: translate(-50%, -50%);
+      background: rgba(0, 0, 0, 0.9);
+      border: 2px solid #00ff00;
+      padding: 1.5em;
+      max-height: 80%;
+      overflow-y: auto;
+      z-index: 300;
+    `;
+
+    // Redrawn on every change, so listen on the screen itself
+    this.craftingScreen.addEventListener('click', (event) => {
+      const target = (event.target as HTMLElement).closest<HTMLElement>('[data-recipe], [data-pick], [data-combine]');
+      if (!target) return;
+
+      const pick = target.dataset['pick'];
+      if (pick) {
+        if (!this.craftingSelection.delete(pick)) {
+          this.craftingSelection.add(pick);
+        }
+        this.renderCraftingScreen();
+        return;
+      }
+
+      // The engine reports the outcome, which redraws the screen
+      const recipeId = target.dataset['recipe'];
+      if (recipeId) {
+        this.gameEngine.craft(recipeId);
+      } else {
+        this.gameEngine.combineItems(Array.from(this.craftingSelection));
+      }
+      this.updateHUD();
+    });
+
+    this.containerElement.appendChild(this.craftingScreen);
+    this.renderCraftingScreen();
+  }
+
+  /**
+   * Draw the known recipes with the ingredients carried, the items to experiment with,
+   * and what the last attempt made or why it failed
+   */
+  private renderCraftingScreen(event?: CraftEvent): void {
+    if (!this.craftingScreen) return;
+
+    const player = this.gameEngine.getGameState().player;
+    const recipeBook = this.gameEngine.getRecipeBook();
+    const failures: Record<CraftFailure, string> = {
+      unknown_recipe: 'That recipe does not exist.',
+      not_discovered: 'You have not discovered that recipe yet.',
+      missing_ingredients: 'You do not have enough of the ingredients.',
+      inventory_full: 'No room in your pack for the result.',
+      no_recipe: 'Those items do not make anything.',
+      in_combat: 'You cannot craft in the middle of a fight.'
+    };
+
+    const recipes = recipeBook.getKnownRecipes(player).map(recipe => {
+      const available = recipeBook.checkCraft(player, recipe.id) === null;
+      const ingredients = recipe.ingredients.map(ingredient => {
+        const name = ingredient.material ? recipeBook.getMaterial(ingredient.material)?.name : ingredient.item;
+        return `${name} ${recipeBook.countIngredient(player, ingredient)}/${ingredient.quantity}`;
+      });
+      return `
+        <div data-recipe="${recipe.id}" style="cursor: pointer; margin: 0.4em 0; color: ${available ? '#00ff00' : '#888888'};">
+          <strong>${recipe.name}</strong>
+          <div style="font-size: 0.85em;">${recipe.description}</div>
+          <div style="font-size: 0.8em;">${ingredients.join(', ')}</div>
+        </div>
+      `;
+    }).join('');
+
+    // Anything but gear and keys can go into an experiment
+    const ingredients = player.inventory
+      .filter(item => isMaterial(item) || item.type === 'consumable')
+      .map(item => {
+        const picked = this.craftingSelection.has(item.id);
+        return `
+          <span data-pick="${item.id}" style="cursor: pointer; margin-right: 0.8em; color: ${picked ? '#ffff00' : '#00ff00'};">
+            ${picked ? '[x]' : '[ ]'} ${item.name}${item.quantity ? ` x${item.quantity}` : ''}
+          </span>
+        `;
+      }).join('');
+
+    const message = event?.failure ? failures[event.failure] :
+      event?.item ? `You craft ${event.item.name}.${event.discovered ? ' New recipe discovered!' : ''}` : '';
+
+    this.craftingScreen.innerHTML = `
+      <h2>Crafting</h2>
+      ${recipes || '<p>You know no recipes yet.</p>'}
+      <h3>Experiment</h3>
+      <div>${ingredients || 'You carry nothing to combine.'}</div>
+      <button data-combine="true">Combine</button>
+      ${message ? `<p style="color: #ffff00;">${message}</p>` : ''}
+      <p>Click a recipe to craft it, or pick items and combine them to discover new ones. Press K to close.</p>
+    `;
+  }
+
   /**
    * Show pause menu
    */
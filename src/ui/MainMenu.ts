@@ -3,6 +3,7 @@ import { SaveManager } from '../data/SaveManager';
 import { PlayerProfileManager } from '../data/PlayerProfileManager';
 import { PlayerProfile } from '../player/PlayerProfile';
 import { ConfigurationManager } from '../data/ConfigurationManager';
+import { defaultCharacterClasses } from '../player/CharacterClasses';
 import { handleError } from '../utils/ErrorHandling';
 
 export interface MenuOption {
@@ -19,7 +20,7 @@ export interface MainMenuConfig {
 }
 
 export interface MainMenuCallbacks {
-  onNewGame: () => Promise<void>;
+  onNewGame: (classId: string) => Promise<void>;
   onContinueGame: () => Promise<void>;
   onLoadGame: (saveId: string) => Promise<void>;
 }
@@ -164,7 +165,7 @@ export class MainMenu {
       {
         id: 'new-game',
         label: 'New Game',
-        action: () => this.startNewGame(),
+        action: () => this.showClassSelectMenu(),
         enabled: true
       },
       {
@@ -273,17 +274,83 @@ export class MainMenu {
   }
 
   /**
-   * Start a new game
+   * Show the class picker for a new game, marking the profile's last pick
    */
-  private async startNewGame(): Promise<void> {
-    // Create or load default profile
-    if (!this.currentProfile) {
-      this.currentProfile = await this.createDefaultProfile();
+  private showClassSelectMenu(): void {
+    const classes = defaultCharacterClasses.getClasses();
+    const lastClass = this.currentProfile?.characterClass;
+
+    const classMenuHtml = `
+      <div class="submenu" style="text-align: center;">
+        <h2 style="margin-bottom: 1em;">Choose Your Class</h2>
+        <div class="class-list" style="display: flex; flex-direction: column; gap: 0.5em; margin-bottom: 2em;">
+          ${classes.map((characterClass, index) => `
+            <button 
+              id="class-option-${characterClass.id}"
+              class="class-option"
+              style="
+                background: rgba(0, 255, 0, ${characterClass.id === lastClass ? '0.25' : '0.1'});
+                border: 1px solid #00ff00;
+                color: #00ff00;
+                padding: 0.8em;
+                font-family: 'Courier New', monospace;
+                cursor: pointer;
+                text-align: left;
+                max-width: 500px;
+              "
+            >
+              ${index + 1}. ${characterClass.name}${characterClass.id === lastClass ? ' (last played)' : ''}
+              <br><small>${characterClass.description}</small>
+              <br><small>HP ${characterClass.health} | MP ${characterClass.mana} | STR ${characterClass.stats.strength} | DEF ${characterClass.stats.defense} | AGI ${characterClass.stats.agility} | INT ${characterClass.stats.intelligence}</small>
+            </button>
+          `).join('')}
+        </div>
+        <button id="back-to-main" class="menu-option" style="
+          background: rgba(255, 0, 0, 0.1);
+          border: 2px solid #ff0000;
+          color: #ff0000;
+          padding: 0.8em 2em;
+          font-family: 'Courier New', monospace;
+          cursor: pointer;
+        ">
+          Back to Main Menu
+        </button>
+      </div>
+    `;
+
+    if (this.menuElement) {
+      this.menuElement.innerHTML = classMenuHtml;
+
+      classes.forEach((characterClass) => {
+        const button = document.getElementById(`class-option-${characterClass.id}`);
+        if (button) {
+          button.addEventListener('click', () => this.startNewGame(characterClass.id));
+        }
+      });
+
+      const backButton = document.getElementById('back-to-main');
+      if (backButton) {
+        backButton.addEventListener('click', () => this.renderMenu());
+      }
     }
+  }
+
+  /**
+   * Start a new game as the chosen class
+   */
+  private async startNewGame(classId: string): Promise<void> {
+    try {
+      // Create or load default profile
+      if (!this.currentProfile) {
+        this.currentProfile = await this.createDefaultProfile();
+      }
 
-    // Call the main application's new game handler
-    await this.callbacks.onNewGame();
-    console.log('New game started!');
+      // Call the main application's new game handler
+      await this.callbacks.onNewGame(classId);
+    } catch (error) {
+      handleError(error as Error, `Failed to start new game as ${classId}`);
+      this.showErrorMessage(`Failed to start new game: ${(error as Error).message}`);
+    }
   }
 
   /**
@@ -1,8 +1,9 @@
 import { GameCanvas } from './GameCanvas';
-import { GameState, Room } from '../types/GameTypes';
+import { Door, GameState, Room } from '../types/GameTypes';
 import { SpriteData, AnimationFrame, RetroStyle, RenderConfig } from '../types/UITypes';
 import { VisualAdaptationEngine } from '../ai/VisualAdaptationEngine';
 import { handleError } from '../utils/ErrorHandling';
+import { VisibilityLookup } from '../dungeon/FieldOfView';
 
 /**
  * Retro renderer for pixel art with adaptive UI complexity
@@ -117,20 +118,36 @@ export class RetroRenderer {
       
       if (!currentRoom) return;
 
+      const visibility = new VisibilityLookup(gameState);
+
       // Render floor tiles
       for (let x = 0; x < currentRoom.width; x++) {
         for (let y = 0; y < currentRoom.height; y++) {
           const screenX = x * tileSize;
           const screenY = y * tileSize;
+
+          // Tiles the player has never seen stay dark
+          const tileVisibility = visibility.get({
+            x: currentRoom.position.x + x,
+            y: currentRoom.position.y + y
+          });
+          if (tileVisibility === 'unseen') continue;
           
           // Get tile type from room layout
-          const tileType = this.getTileType(currentRoom, x, y);
+          const tileType = this.isStairsTile(gameState, currentRoom, x, y) ? 'stairs' :
+            this.isKnownTrapTile(gameState, currentRoom, x, y) ? 'trap' :
+            this.getTileType(currentRoom, x, y);
           this.renderTile(tileType, screenX, screenY, tileSize);
+
+          if (tileVisibility === 'remembered') {
+            this.renderFog(screenX, screenY, tileSize);
+          }
         }
       }
 
       // Render room connections (doors/corridors)
       this.renderConnections(currentRoom, tileSize);
+      this.renderDoors(gameState, currentRoom, visibility, tileSize);
 
     } catch (error) {
       handleError(error, 'Failed to render dungeon', { 
@@ -162,9 +179,28 @@ export class RetroRenderer {
           fillColor = colors[5] || '#FFFF00'; // Yellow
           borderColor = colors[0] || '#000000';
           break;
+        case 'door_open':
+          fillColor = colors[7] || '#CCCCCC'; // Floor with a yellow frame
+          borderColor = colors[5] || '#FFFF00';
+          break;
+        case 'door_locked':
+          fillColor = colors[5] || '#FFFF00';
+          borderColor = colors[2] || '#FF0000'; // Red frame
+          break;
         case 'secret':
           fillColor = colors[6] || '#FF00FF'; // Magenta
           break;
+        case 'boss':
+          fillColor = colors[2] || '#FF0000'; // Red
+          break;
+        case 'trap':
+          fillColor = colors[7] || '#CCCCCC'; // Floor with a red frame
+          borderColor = colors[2] || '#FF0000';
+          break;
+        case 'stairs':
+          fillColor = colors[4] || '#0000FF'; // Blue
+          borderColor = colors[1] || '#FFFFFF';
+          break;
         default:
           fillColor = colors[1] || '#FFFFFF'; // White
       }
@@ -184,6 +220,20 @@ export class RetroRenderer {
     }
   }
 
+  /**
+   * Dim a remembered tile that is outside the current field of view
+   */
+  private renderFog(x: number, y: number, size: number): void {
+    const colors = this.canvas.getRetroStyle().colorPalette;
+    const context = this.canvas.getContext();
+
+    context.save();
+    context.globalAlpha = 0.6;
+    context.fillStyle = colors[0] || '#000000';
+    context.fillRect(x, y, size, size);
+    context.restore();
+  }
+
   /**
    * Add retro wall texture pattern
    */
@@ -216,9 +266,35 @@ export class RetroRenderer {
       return 'door';
     }
     
+    // Special rooms get their own floor color
+    if (room.type === 'boss' || room.type === 'secret') {
+      return room.type;
+    }
+
     return 'floor';
   }
 
+  /**
+   * Check if a room-relative tile holds the stairs down
+   */
+  private isStairsTile(gameState: GameState, room: Room, x: number, y: number): boolean {
+    const stairs = gameState.dungeon.stairsDown;
+    return !!stairs &&
+           stairs.x === room.position.x + x &&
+           stairs.y === room.position.y + y;
+  }
+
+  /**
+   * Check if a room-relative tile holds a trap the player has spotted
+   */
+  private isKnownTrapTile(gameState: GameState, room: Room, x: number, y: number): boolean {
+    return (gameState.dungeon.traps ?? []).some(trap =>
+      trap.detected && !trap.disarmed &&
+      trap.position.x === room.position.x + x &&
+      trap.position.y === room.position.y + y
+    );
+  }
+
   /**
    * Render room connections
    */
@@ -232,6 +308,40 @@ export class RetroRenderer {
     });
   }
 
+  /**
+   * Render the doors into the current room at their map positions
+   */
+  private renderDoors(gameState: GameState, room: Room, visibility: VisibilityLookup, tileSize: number): void {
+    (gameState.dungeon.doors ?? [])
+      .filter(door => door.roomId === room.id)
+      .forEach(door => {
+        const doorVisibility = visibility.get(door.position);
+        if (doorVisibility === 'unseen') return;
+
+        const screenX = door.position.x * tileSize;
+        const screenY = door.position.y * tileSize;
+        this.renderTile(this.getDoorTileType(door), screenX, screenY, tileSize);
+
+        if (doorVisibility === 'remembered') {
+          this.renderFog(screenX, screenY, tileSize);
+        }
+      });
+  }
+
+  /**
+   * Get the tile type for a door's state
+   */
+  private getDoorTileType(door: Door): string {
+    switch (door.state) {
+      case 'open':
+        return 'door_open';
+      case 'locked':
+        return 'door_locked';
+      default:
+        return 'door';
+    }
+  }
+
   /**
    * Render player character with animation
    */
@@ -271,14 +381,15 @@ export class RetroRenderer {
   }
 
   /**
-   * Render enemies with animations
+   * Render enemies inside the player's field of view with animations
    */
   private renderEnemies(gameState: GameState, renderConfig: RenderConfig): void {
     try {
       const tileSize = renderConfig.tileSize;
       const colors = this.canvas.getRetroStyle().colorPalette;
+      const visibility = new VisibilityLookup(gameState);
 
-      gameState.enemies.forEach(enemy => {
+      gameState.enemies.filter(enemy => visibility.isVisible(enemy.position)).forEach(enemy => {
         const enemyX = enemy.position.x * tileSize;
         const enemyY = enemy.position.y * tileSize;
 
@@ -353,12 +464,14 @@ export class RetroRenderer {
       if (uiComplexity !== 'minimal') {
         // Show additional stats
         this.canvas.renderText(`Level: ${gameState.player.level}`, 10, 30, colors[1]);
-        this.canvas.renderText(`Room: ${gameState.currentRoom}`, 10, 50, colors[1]);
+        this.canvas.renderText(`Room: ${gameState.currentRoom} (Floor ${gameState.floor ?? 1})`, 10, 50, colors[1]);
       }
 
       if (uiComplexity === 'detailed' || uiComplexity === 'comprehensive') {
         // Show detailed information
-        this.canvas.renderText(`Enemies: ${gameState.enemies.length}`, 10, 70, colors[1]);
+        const visibility = new VisibilityLookup(gameState);
+        const enemiesInSight = gameState.enemies.filter(enemy => visibility.isVisible(enemy.position)).length;
+        this.canvas.renderText(`Enemies: ${enemiesInSight}`, 10, 70, colors[1]);
         this.canvas.renderText(`Items: ${gameState.items.length}`, 10, 90, colors[1]);
       }
 
@@ -13,12 +13,62 @@ export const MIN_ROOMS = 3;
 export const MAX_ROOMS = 20;
 export const MIN_ROOM_SIZE = 3;
 export const MAX_ROOM_SIZE = 8;
+export const ROOM_SPACING = 1; // Minimum empty tiles between two rooms
+export const ROOM_PLACEMENT_ATTEMPTS = 60; // Attempts per room before giving up
+export const DUNGEON_GENERATION_ATTEMPTS = 5; // Floors generated before giving up on one that passes validation
+export const EXTRA_CORRIDOR_CHANCE = 0.15; // Chance to add a loop corridor beyond the spanning tree
+export const MAX_DUNGEON_DEPTH = 10; // Deepest floor, matches the server's dungeon levels
+export const DEPTH_ENEMY_SCALING = 0.25; // Enemy stat increase per floor below the first
+export const DEPTH_LOOT_SCALING = 0.2; // Loot value increase per floor below the first
+export const SECRET_ROOM_CHANCE = 0.35; // Chance per floor to hide a dead-end room behind a secret passage
+export const FOV_RADIUS = 8; // How far the player can see, in tiles
+export const DOOR_CHANCE = 0.5; // Chance for each corridor end to get a door; special rooms always get one
+export const LOCKED_DOOR_CHANCE = 0.5; // Chance to lock a door into a boss or treasure room
+export const CAVE_WALL_CHANCE = 0.45; // Starting chance for each cave cell to be rock
+export const CAVE_SMOOTHING_STEPS = 4; // Cellular automata passes that turn noise into caverns
+export const CAVE_MIN_OPEN_RATIO = 0.35; // Smallest share of the floor the main cavern must cover
+export const MAX_VAULTS_PER_FLOOR = 2; // Prefab vaults stamped into a vault floor
+export const TRAP_CHANCE = 0.3; // Chance for each room after the first to hold a trap
+export const TRAP_DETECTION_RANGE = 2; // Hidden traps within this many tiles can be spotted
+export const TRAP_DETECTION_CHANCE = 0.3; // Chance to spot a trap when intelligence equals its difficulty
+export const TRAP_DISARM_CHANCE = 0.6; // Chance to disarm a trap when intelligence equals its difficulty
+export const TRAP_CHANCE_PER_POINT = 0.05; // Detection and disarm chance per point of intelligence over difficulty
+export const ALARM_RADIUS = 10; // Enemies this close wake up when an alarm goes off
+export const PATHFINDING_MAX_NODES = 2000; // A* gives up after expanding this many tiles
+export const ENEMY_PATH_MAX_NODES = 200; // Smaller search budget for enemies, which replan every update
+export const KNOWN_TRAP_PATH_COST = 20; // Extra step cost that routes travel around spotted traps
+export const TRAVEL_STEP_INTERVAL = 100; // Milliseconds between steps of click-to-move and auto-explore
 
 // Combat constants
 export const BASE_ATTACK_DAMAGE = 10;
 export const BASE_DEFENSE = 5;
 export const CRITICAL_HIT_MULTIPLIER = 2.0;
 export const CRITICAL_HIT_CHANCE = 0.1; // 10%
+export const BASE_HIT_CHANCE = 0.85; // Hit chance when attacker agility equals defender defense
+export const HIT_CHANCE_PER_POINT = 0.03; // Hit chance gained per point of agility over defense
+export const MIN_HIT_CHANCE = 0.5;
+export const MAX_HIT_CHANCE = 0.95;
+export const DAMAGE_VARIANCE = 0.2; // Damage rolls within +/-20% of the attack's power
+export const DEFEND_DAMAGE_REDUCTION = 0.5; // Share of damage blocked while defending or guarding
+export const BASE_ENEMY_AGILITY = 5; // Initiative for enemies without an agility stat
+export const RANGED_COVER_PENALTY = 5; // Accuracy lost for each entity standing in a shot's path
+export const RANGED_CROWD_PENALTY = 2; // Accuracy lost for each entity right beside a shot's path
+export const FLEE_BASE_CHANCE = 0.5; // Escape chance when the player is as quick as the fastest enemy
+export const FLEE_CHANCE_PER_POINT = 0.05; // Escape chance gained per point of agility over that enemy
+export const MIN_FLEE_CHANCE = 0.1;
+export const MAX_FLEE_CHANCE = 0.9;
+export const FLEE_LOST_TRACK_TURNS = 5; // Turns an outrun enemy stops noticing the player
+export const GUARD_ALERT_RADIUS = 6; // Allies this close to a guard answer its call for help
+export const ENEMY_HEAL_RANGE = 3; // How far a healer's mending reaches
+export const ENEMY_HEAL_THRESHOLD = 0.5; // Share of max health below which a healer tends an ally
+export const BASE_MANA = 30; // Starting mana for a new character
+export const EXPLORATION_MANA_REGEN = 1; // Mana regained per step outside combat
+export const TALENT_POINTS_PER_LEVEL = 1; // Talent points granted on every level up
+export const MAX_INVENTORY_SLOTS = 20; // A stack takes one slot
+export const MAX_STACK_SIZE = 10; // Most of one consumable a slot holds
+export const BASE_CARRY_CAPACITY = 40; // Weight carried without slowing down, before strength
+export const CARRY_CAPACITY_PER_STRENGTH = 3;
+export const WEIGHT_PER_AGILITY_PENALTY = 5; // Each started step of this much overweight costs a point of agility
 
 // AI constants
 export const DEFAULT_PERFORMANCE_THRESHOLD = 0.7; // 70% efficiency
@@ -34,6 +84,7 @@ export const NOTIFICATION_DISPLAY_TIME = 2000; // 2 seconds
 
 // Save system constants
 export const SAVE_FILE_VERSION = '1.0.0';
+export const DATA_FILE_VERSION = 1; // Version of the bundled JSON data files the loaders read
 export const AUTO_SAVE_INTERVAL = 30000; // 30 seconds
 export const MAX_SAVE_SLOTS = 10;
 
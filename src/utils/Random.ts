@@ -0,0 +1,72 @@
+// Seeded random number generation for reproducible procedural content
+
+export interface RandomSource {
+  /** Returns a float in the range [0, 1) */
+  next(): number;
+  /** Returns an integer in the inclusive range [min, max] */
+  nextInt(min: number, max: number): number;
+  /** Returns true with the given probability (0-1) */
+  chance(probability: number): boolean;
+  /** Returns a random element of a non-empty array */
+  pick<T>(items: readonly T[]): T;
+}
+
+export type RandomFactory = (seed: number) => RandomSource;
+
+/**
+ * Small, fast seeded PRNG (mulberry32). The same seed always yields the same
+ * sequence, which makes dungeons and combat rolls reproducible.
+ */
+export class SeededRandom implements RandomSource {
+  private readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  nextInt(min: number, max: number): number {
+    if (max < min) {
+      return min;
+    }
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    if (items.length === 0) {
+      throw new Error('Cannot pick from an empty array');
+    }
+    return items[Math.floor(this.next() * items.length)] as T;
+  }
+
+  // Get the seed this generator was created with
+  getSeed(): number {
+    return this.seed;
+  }
+
+  // Generate a fresh seed for callers that did not supply one
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff) >>> 0;
+  }
+}
+
+// Derive a stable child seed, e.g. the next floor's seed from the current one
+export function deriveSeed(seed: number, salt: number): number {
+  return (seed ^ Math.imul(salt + 1, 0x9e3779b1)) >>> 0;
+}
+
+// Default factory used by systems that accept an injectable RNG
+export const createSeededRandom: RandomFactory = (seed: number) => new SeededRandom(seed);
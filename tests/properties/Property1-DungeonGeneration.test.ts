@@ -3,6 +3,7 @@
 
 import * as fc from 'fast-check';
 import { DungeonGenerator, DungeonConfig } from '../../src/dungeon/DungeonGenerator';
+import { DungeonValidator } from '../../src/dungeon/DungeonValidator';
 
 describe('Property 1: Dungeon Generation Consistency', () => {
   test('Dungeon generation consistency', () => {
@@ -53,6 +54,14 @@ describe('Property 1: Dungeon Generation Consistency', () => {
             )
           );
           expect(allCorridorsValid).toBe(true);
+
+          // Assertion 6: The dungeon is playable: connected, spawn clear, keys and exit reachable
+          const report = new DungeonValidator().validate(dungeon);
+          expect(report.issues).toEqual([]);
+          expect(report.metrics.roomCount).toBe(dungeon.rooms.length);
+          if (dungeon.rooms.some(room => room.type === 'boss')) {
+            expect(report.metrics.bossPathLength).not.toBeNull();
+          }
           
           return true;
         }
@@ -96,8 +96,9 @@ describe('Property 3: Encounter Mechanics Activation', () => {
                 combatSystem.processCombatTurn(gameState, attackAction, encounterEnemies);
               }).not.toThrow();
               
-              // Game state should reflect combat is active
-              expect(gameState.isInCombat).toBe(true);
+              // Game state should reflect combat is active until every enemy falls;
+              // a critical hit can finish a weak lone enemy in one blow
+              expect(gameState.isInCombat).toBe(encounterEnemies.some(enemy => enemy.isAlive()));
               expect(gameState.turnNumber).toBeGreaterThan(0);
             }
           } else {
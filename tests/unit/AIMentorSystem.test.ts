@@ -1,5 +1,7 @@
 import { AIMentorSystem } from '../../src/ai/AIMentorSystem';
 import { PlayerProfile } from '../../src/player/PlayerProfile';
+import { defaultCharacterClasses } from '../../src/player/CharacterClasses';
+import { defaultRecipeBook } from '../../src/player/RecipeBook';
 import { GameState, PlayerAction } from '../../src/types/GameTypes';
 
 describe('AIMentorSystem', () => {
@@ -188,6 +190,135 @@ describe('AIMentorSystem', () => {
     });
   });
 
+  describe('trap warnings', () => {
+    const spikeTrap = {
+      id: 'trap_0', kind: 'spike' as const, position: { x: 6, y: 5 },
+      difficulty: 8, damage: 10, detected: true, disarmed: false
+    };
+
+    // Hints are rolled, so ask until one comes up
+    const askForHint = () => {
+      let hint = null;
+      for (let i = 0; i < 50 && !hint; i++) {
+        hint = aiMentor.generateHint(testGameState);
+      }
+      return hint;
+    };
+
+    beforeEach(() => {
+      testProfile.preferences.hintFrequency = 'constant';
+      testProfile.behaviorPatterns.riskTolerance = 0.2;
+      aiMentor.initialize(testProfile);
+    });
+
+    test('should warn cautious players about a known trap nearby', () => {
+      aiMentor.recordTrapEvent({ type: 'detected', trap: spikeTrap });
+
+      const hint = askForHint();
+
+      expect(hint?.message).toContain('Spike trap');
+      expect(hint?.urgency).toBe('high');
+    });
+
+    test('should stop warning once the trap is disarmed', () => {
+      aiMentor.recordTrapEvent({ type: 'detected', trap: spikeTrap });
+      aiMentor.recordTrapEvent({ type: 'disarmed', trap: { ...spikeTrap, disarmed: true } });
+
+      const hint = askForHint();
+
+      expect(hint?.message ?? '').not.toContain('Spike trap');
+    });
+
+    test('should not warn bold players who have never sprung a trap', () => {
+      testProfile.behaviorPatterns.riskTolerance = 0.9;
+      testProfile.behaviorPatterns.explorationPattern = 'bold';
+      aiMentor.recordTrapEvent({ type: 'detected', trap: spikeTrap });
+
+      const hint = askForHint();
+
+      expect(hint?.message ?? '').not.toContain('Spike trap');
+    });
+  });
+
+  describe('crafting suggestions', () => {
+    const material = (id: string, quantity: number) => {
+      const item = defaultRecipeBook.createMaterial(defaultRecipeBook.getMaterial(id)!, id, { x: 5, y: 5 });
+      return quantity > 1 ? { ...item, quantity } : item;
+    };
+
+    // Hints are rolled, so ask until one comes up
+    const askForHint = () => {
+      let hint = null;
+      for (let i = 0; i < 50 && !hint; i++) {
+        hint = aiMentor.generateHint(testGameState);
+      }
+      return hint;
+    };
+
+    beforeEach(() => {
+      testProfile.preferences.hintFrequency = 'constant';
+      aiMentor.initialize(testProfile);
+    });
+
+    test('should suggest a favorite recipe the player has the ingredients for', () => {
+      testProfile.statistics.recipesCrafted = { herbal_remedy: 4 };
+      testGameState.player.inventory = [material('healing_herb', 2)];
+
+      const hint = askForHint();
+
+      expect(hint?.message).toContain('Herbal Remedy');
+      expect(hint?.urgency).toBe('medium');
+    });
+
+    test('should point a player whose experiments keep failing to an undiscovered recipe', () => {
+      testGameState.player.inventory = [material('bone_shard', 2), material('ember_crystal', 1)];
+
+      expect(askForHint()?.message ?? '').not.toContain('combining');
+
+      testProfile.statistics.failedCombinations = 3;
+      expect(askForHint()?.message).toBe('Try combining Bone Shard, Ember Crystal.');
+    });
+  });
+
+  describe('class advice', () => {
+    const mage = defaultCharacterClasses.getClass('mage')!;
+
+    // Hints are rolled, so ask until one comes up
+    const askForHint = () => {
+      let hint = null;
+      for (let i = 0; i < 50 && !hint; i++) {
+        hint = aiMentor.generateHint(testGameState);
+      }
+      return hint;
+    };
+
+    beforeEach(() => {
+      testProfile.preferences.hintFrequency = 'constant';
+      testProfile.setCharacterClass('mage');
+      aiMentor.initialize(testProfile);
+    });
+
+    test('should give low health advice for the chosen class', () => {
+      testGameState.player.health = 20;
+
+      expect(askForHint()?.message).toBe(mage.advice.lowHealth);
+    });
+
+    test('should point out a ready signature spell in combat', () => {
+      testGameState.isInCombat = true;
+      testGameState.player = { ...testGameState.player, mana: 30, maxMana: 30, learnedSpells: ['arcane_nova'] };
+
+      expect(askForHint()?.message).toBe(mage.advice.combat);
+    });
+
+    test('should prefer the class of the current run over the profile', () => {
+      testGameState.player.health = 20;
+      testGameState.player.classId = 'warrior';
+
+      expect(askForHint()?.message).toBe(defaultCharacterClasses.getClass('warrior')!.advice.lowHealth);
+    });
+  });
+
   describe('profile updates', () => {
     beforeEach(() => {
       aiMentor.initialize(testProfile);
@@ -0,0 +1,89 @@
+import { Bestiary, BestiaryData, BestiaryEntry } from '../../src/dungeon/Bestiary';
+import { SeededRandom } from '../../src/utils/Random';
+import { GameError } from '../../src/utils/ErrorHandling';
+
+const createEntry = (overrides: Partial<BestiaryEntry> = {}): BestiaryEntry => ({
+  id: 'rat',
+  name: 'Rat',
+  stats: { health: 5, attackPower: 1, defense: 0 },
+  aiType: 'aggressive',
+  detectionRange: 3,
+  attackRange: 1,
+  experience: 5,
+  spawn: { minDepth: 1, weight: 1 },
+  gold: [1, 2],
+  lootTable: 'enemy_common',
+  ...overrides
+});
+
+describe('Bestiary', () => {
+  describe('validation', () => {
+    it('should reject entries with invalid stats', () => {
+      const data: BestiaryData = {
+        version: 1,
+        enemies: [createEntry({ stats: { health: 0, attackPower: 1, defense: 0 } })]
+      };
+
+      expect(() => new Bestiary(data)).toThrow(GameError);
+    });
+
+    it('should reject abilities with unknown status effects', () => {
+      const ability = {
+        name: 'Hex',
+        damageMultiplier: 1,
+        cooldown: 2,
+        effect: { type: 'curse', duration: 2, potency: 1 }
+      } as unknown as NonNullable<BestiaryEntry['ability']>;
+      const data: BestiaryData = { version: 1, enemies: [createEntry({ ability })] };
+
+      expect(() => new Bestiary(data)).toThrow('Invalid ability effect for bestiary entry: rat');
+    });
+
+    it('should require at least one regular enemy', () => {
+      const data: BestiaryData = { version: 1, enemies: [createEntry({ boss: true })] };
+
+      expect(() => new Bestiary(data)).toThrow(GameError);
+    });
+  });
+
+  describe('spawning', () => {
+    const bestiary = new Bestiary({
+      version: 1,
+      enemies: [
+        createEntry({ id: 'rat', spawn: { minDepth: 1, maxDepth: 2, weight: 1 } }),
+        createEntry({ id: 'bat', spawn: { minDepth: 1, maxDepth: 2, weight: 3 } }),
+        createEntry({ id: 'wyrm', spawn: { minDepth: 3, weight: 1 } }),
+        createEntry({ id: 'rat_king', boss: true, spawn: { minDepth: 1, weight: 1 } })
+      ]
+    });
+
+    it('should only spawn entries allowed on the floor', () => {
+      const random = new SeededRandom(1);
+
+      for (let i = 0; i < 50; i++) {
+        expect(['rat', 'bat']).toContain(bestiary.pickEnemy(1, random).id);
+        expect(bestiary.pickEnemy(5, random).id).toBe('wyrm');
+      }
+    });
+
+    it('should favor entries with a higher weight', () => {
+      const random = new SeededRandom(2);
+      const counts: Record<string, number> = { rat: 0, bat: 0 };
+
+      for (let i = 0; i < 400; i++) {
+        counts[bestiary.pickEnemy(1, random).id]!++;
+      }
+
+      expect(counts['bat']!).toBeGreaterThan(counts['rat']! * 2);
+    });
+
+    it('should keep bosses out of regular spawns', () => {
+      const random = new SeededRandom(3);
+
+      for (let i = 0; i < 50; i++) {
+        expect(bestiary.pickEnemy(1, random).boss).toBeFalsy();
+      }
+      expect(bestiary.pickBoss(1, random)?.id).toBe('rat_king');
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  CharacterClasses,
+  CharacterClassData,
+  CharacterClassDefinition,
+  DEFAULT_GROWTH
+} from '../../src/player/CharacterClasses';
+import { GameError } from '../../src/utils/ErrorHandling';
+
+const createClass = (overrides: Partial<CharacterClassDefinition> = {}): CharacterClassDefinition => ({
+  id: 'knight',
+  name: 'Knight',
+  description: 'Sword and board',
+  stats: { strength: 11, defense: 8, agility: 5, intelligence: 4 },
+  health: 110,
+  mana: 10,
+  growth: { strength: 2, defense: 2, agility: 1, intelligence: 0, health: 12, mana: 1 },
+  startingEquipment: [
+    { name: 'Longsword', type: 'weapon', properties: { attack: 4 } },
+    { name: 'Spare Sword', type: 'weapon', properties: { attack: 2 } },
+    { name: 'Health Potion', type: 'consumable', properties: { effect: 'heal', amount: 20 } }
+  ],
+  signatureSpell: 'shield_bash',
+  advice: { combat: 'Bash', lowHealth: 'Retreat', exploration: 'Lead' },
+  ...overrides
+});
+
+describe('CharacterClasses', () => {
+  describe('validation', () => {
+    it('should reject unknown signature spells and an empty class list', () => {
+      const unknownSpell: CharacterClassData = { version: 1, classes: [createClass({ signatureSpell: 'nope' })] };
+
+      expect(() => new CharacterClasses(unknownSpell)).toThrow('Unknown signature spell for class: knight');
+      expect(() => new CharacterClasses({ version: 1, classes: [] })).toThrow('Class data needs at least one class');
+    });
+
+    it('should reject negative stats or growth', () => {
+      const data: CharacterClassData = {
+        version: 1,
+        classes: [createClass({ growth: { ...DEFAULT_GROWTH, defense: -1 } })]
+      };
+
+      expect(() => new CharacterClasses(data)).toThrow(GameError);
+    });
+  });
+
+  describe('new characters', () => {
+    const classes = new CharacterClasses({ version: 1, classes: [createClass()] });
+
+    it('should start with the class stats, gear and signature spell', () => {
+      const player = classes.createPlayer('knight', { x: 3, y: 4 });
+
+      expect(player).toMatchObject({
+        classId: 'knight',
+        health: 110,
+        maxHealth: 110,
+        mana: 10,
+        stats: { strength: 11, defense: 8, agility: 5, intelligence: 4 },
+        learnedSpells: ['shield_bash']
+      });
+      expect(player.equipment.weapon?.name).toBe('Longsword');
+      expect(player.inventory.map(item => item.name)).toEqual(['Spare Sword', 'Health Potion']);
+    });
+
+    it('should throw for an unknown class', () => {
+      expect(() => classes.createPlayer('bard')).toThrow('Unknown class: bard');
+    });
+
+    it('should fall back to the default growth without a class', () => {
+      expect(classes.getGrowth('knight').defense).toBe(2);
+      expect(classes.getGrowth()).toBe(DEFAULT_GROWTH);
+      expect(classes.getGrowth('bard')).toBe(DEFAULT_GROWTH);
+    });
+  });
+});
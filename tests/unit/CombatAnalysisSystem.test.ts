@@ -108,6 +108,179 @@ describe('CombatAnalysisSystem', () => {
     });
   });
 
+  describe('defending', () => {
+    it('should credit defending against a special ability', () => {
+      const combatLog = createOptimalCombatLog();
+      combatLog[0]!.playerAction = { type: 'defend', timestamp: Date.now() };
+      combatLog[0]!.enemyActions = [{ type: 'special_ability', target: 'player1', damage: 20, timestamp: Date.now() }];
+
+      const result = analysisSystem.analyzeCombat(combatLog, 3000, 'victory');
+
+      expect(result.analysis.optimalStrategy[0]?.type).toBe('defend');
+      expect(result.analysis.turns[0]?.efficiency).toBeGreaterThan(0.8);
+    });
+
+    it('should recommend attacking an adjacent enemy instead of repositioning', () => {
+      const combatLog = createOptimalCombatLog();
+      combatLog[0]!.playerAction = { type: 'defend', timestamp: Date.now() };
+      combatLog[0]!.combatResults[0]!.playerDamageDealt = 0;
+
+      const result = analysisSystem.analyzeCombat(combatLog, 3000, 'victory');
+
+      expect(result.analysis.optimalStrategy[0]?.type).toBe('attack');
+    });
+  });
+
+  describe('attack rolls', () => {
+    it('should count player crits and misses', () => {
+      const combatLog = createOptimalCombatLog();
+      combatLog[0]!.combatResults[0]!.critical = true;
+      combatLog[1]!.combatResults[0]!.missed = true;
+      combatLog[1]!.combatResults[0]!.playerDamageDealt = 0;
+
+      const result = analysisSystem.analyzeCombat(combatLog, 3000, 'victory');
+
+      expect(result.analysis.damageAnalysis.criticalHits).toBe(1);
+      expect(result.analysis.damageAnalysis.missedAttacks).toBe(1);
+      expect(result.analysis.turns[0]?.critical).toBe(true);
+      expect(result.analysis.turns[1]?.missed).toBe(true);
+      // A miss is bad luck, not a bad decision
+      expect(result.analysis.optimalStrategy[1]?.type).toBe('attack');
+    });
+  });
+
+  describe('status effects', () => {
+    it('should not count a stunned turn as a wasted action', () => {
+      const combatLog = createOptimalCombatLog();
+      const stunnedTurn = combatLog[0]!;
+      stunnedTurn.playerAction = { type: 'move', timestamp: Date.now() };
+      stunnedTurn.combatResults = [{
+        playerDamageDealt: 0,
+        playerDamageTaken: 0,
+        enemyDefeated: false,
+        playerDefeated: false,
+        experienceGained: 0,
+        combatEnded: false,
+        skippedTurn: true
+      }];
+
+      const result = analysisSystem.analyzeCombat(combatLog, 3000, 'victory');
+
+      expect(result.analysis.turns[0]?.optimalAction.reasoning).toContain('stunned');
+      expect(result.analysis.damageAnalysis.wastedActions).toBe(0);
+    });
+
+    it('should suggest dealing with poison when poisoned for several turns', () => {
+      const combatLog = createOptimalCombatLog();
+      for (const turn of combatLog) {
+        turn.gameStateAfter.playerEffects = [{ type: 'poison', duration: 2, potency: 2, stacks: 1 }];
+      }
+
+      const result = analysisSystem.analyzeCombat(combatLog, 3000, 'victory');
+
+      expect(result.suggestions.some(s => s.message.includes('poison'))).toBe(true);
+    });
+
+    it('should treat pending poison damage as lost health', () => {
+      const combatLog = createOptimalCombatLog();
+      combatLog[0]!.gameStateAfter.playerHealth = 40;
+      combatLog[0]!.gameStateAfter.playerEffects = [{ type: 'poison', duration: 3, potency: 3, stacks: 2 }];
+
+      const result = analysisSystem.analyzeCombat(combatLog, 3000, 'victory');
+
+      expect(result.analysis.optimalStrategy[0]?.type).toBe('use_item');
+    });
+  });
+
+  describe('spells', () => {
+    it('should suggest a castable healing spell at low health', () => {
+      const combatLog = createOptimalCombatLog();
+      combatLog[0]!.gameStateAfter.playerHealth = 20;
+      combatLog[0]!.gameStateAfter.castableSpells = ['firebolt', 'mend'];
+
+      const result = analysisSystem.analyzeCombat(combatLog, 3000, 'victory');
+
+      expect(result.analysis.optimalStrategy[0]).toMatchObject({ type: 'cast_spell', spellId: 'mend' });
+    });
+
+    it('should prefer an area spell over a single attack against a group', () => {
+      const combatLog = createOptimalCombatLog();
+      combatLog[0]!.gameStateAfter.livingEnemies = 3;
+      combatLog[0]!.gameStateAfter.castableSpells = ['fireball'];
+
+      const result = analysisSystem.analyzeCombat(combatLog, 3000, 'victory');
+
+      expect(result.analysis.optimalStrategy[0]).toMatchObject({ type: 'cast_spell', spellId: 'fireball' });
+    });
+
+    it('should flag spells that fizzle for lack of mana', () => {
+      const combatLog = createOptimalCombatLog();
+      for (const turn of combatLog.slice(0, 2)) {
+        turn.playerAction = { type: 'cast_spell', spellId: 'firebolt', timestamp: Date.now() };
+        turn.combatResults[0]!.playerDamageDealt = 0;
+        turn.combatResults[0]!.spellFailure = 'insufficient_mana';
+      }
+
+      const result = analysisSystem.analyzeCombat(combatLog, 3000, 'victory');
+
+      expect(result.analysis.turns[0]?.optimalAction.reasoning).toContain('not enough mana');
+      expect(result.suggestions.some(s => s.message.includes('mana'))).toBe(true);
+    });
+  });
+
+  describe('attack range', () => {
+    it('should not expect a melee attack on an archer shooting from afar', () => {
+      const combatLog = createOptimalCombatLog();
+      const turn = combatLog[0]!;
+      turn.playerAction = { type: 'move', direction: 'east', timestamp: Date.now() };
+      turn.combatResults[0]!.playerDamageDealt = 0;
+      turn.gameStateAfter.enemiesInReach = [];
+
+      const result = analysisSystem.analyzeCombat(combatLog, 3000, 'victory');
+
+      expect(result.analysis.optimalStrategy[0]?.type).toBe('move');
+      expect(result.analysis.damageAnalysis.wastedActions).toBe(0);
+    });
+
+    it('should expect a shot at an enemy within weapon range', () => {
+      const combatLog = createOptimalCombatLog();
+      const turn = combatLog[0]!;
+      turn.playerAction = { type: 'defend', timestamp: Date.now() };
+      turn.enemyActions = [];
+      turn.combatResults[0]!.playerDamageDealt = 0;
+      turn.gameStateAfter.enemiesInReach = ['enemy1'];
+
+      const result = analysisSystem.analyzeCombat(combatLog, 3000, 'victory');
+
+      expect(result.analysis.optimalStrategy[0]?.type).toBe('attack');
+    });
+  });
+
+  describe('fleeing', () => {
+    const fleeTurn = (fled: boolean, playerHealth: number) => {
+      const combatLog = createOptimalCombatLog().slice(0, 1);
+      const turn = combatLog[0]!;
+      turn.playerAction = { type: 'flee', timestamp: Date.now() };
+      turn.combatResults[0]!.playerDamageDealt = 0;
+      turn.combatResults[0]!.fled = fled;
+      turn.gameStateAfter.playerHealth = playerHealth;
+      return combatLog;
+    };
+
+    it('should credit an escape at critically low health', () => {
+      const result = analysisSystem.analyzeCombat(fleeTurn(true, 20), 3000, 'fled');
+
+      expect(result.analysis.outcome).toBe('fled');
+      expect(result.analysis.optimalStrategy[0]).toMatchObject({ type: 'flee', efficiency: 0.85 });
+    });
+
+    it('should report a failed escape attempt', () => {
+      const result = analysisSystem.analyzeCombat(fleeTurn(false, 20), 3000, 'victory');
+
+      expect(result.analysis.turns[0]?.optimalAction.reasoning).toContain('escape attempt failed');
+    });
+  });
+
   describe('analysis history', () => {
     it('should store analysis in history', () => {
       const combatLog1 = createMockCombatLog();
@@ -1,14 +1,36 @@
 import { CombatSystem } from '../../src/combat/CombatSystem';
 import { Enemy } from '../../src/combat/Enemy';
 import { GameState } from '../../src/engine/GameState';
-import { PlayerAction } from '../../src/types/GameTypes';
+import { PlayerAction, Item, Coordinate, DungeonMap } from '../../src/types/GameTypes';
+import {
+  FLEE_BASE_CHANCE,
+  FLEE_CHANCE_PER_POINT,
+  MIN_FLEE_CHANCE,
+  RANGED_COVER_PENALTY,
+  RANGED_CROWD_PENALTY
+} from '../../src/utils/Constants';
+import { LootGenerator } from '../../src/dungeon/LootGenerator';
+import { RandomSource, SeededRandom } from '../../src/utils/Random';
+import { DamageResolver } from '../../src/combat/DamageResolver';
+import { MovementController } from '../../src/player/MovementController';
+import { PlayerCharacter } from '../../src/player/PlayerCharacter';
+
+// Rolls the middle of every range: attacks always hit, never crit and have no variance
+class SteadyRandom implements RandomSource {
+  next(): number { return 0.5; }
+  nextInt(min: number, max: number): number { return Math.floor((min + max) / 2); }
+  chance(probability: number): boolean { return 0.5 < probability; }
+  pick<T>(items: readonly T[]): T { return items[0] as T; }
+}
+
+const createSteadyResolver = () => new DamageResolver(new SteadyRandom());
 
 describe('CombatSystem', () => {
   let combatSystem: CombatSystem;
   let gameState: GameState;
 
   beforeEach(() => {
-    combatSystem = new CombatSystem();
+    combatSystem = new CombatSystem(undefined, undefined, undefined, createSteadyResolver());
     gameState = new GameState();
     
     // Set up a basic game state
@@ -146,6 +168,650 @@ describe('CombatSystem', () => {
       expect(turn.enemyActions).toHaveLength(1);
       expect(turn.enemyActions[0]?.type).toBeDefined();
     });
+
+    it('should apply damage from an enemy special ability', () => {
+      const boss = new Enemy({
+        name: 'Goblin Warlord',
+        position: { x: 6, y: 5 },
+        attackPower: 10,
+        isBoss: true,
+        ability: { name: 'Crushing Blow', damageMultiplier: 2, cooldown: 3 }
+      });
+
+      // Moving without a target holds position without defending
+      const playerAction: PlayerAction = {
+        type: 'move',
+        timestamp: Date.now()
+      };
+
+      const turn = combatSystem.processCombatTurn(gameState, playerAction, [boss]);
+
+      expect(turn.enemyActions[0]?.type).toBe('special_ability');
+      expect(turn.combatResults[1]?.playerDamageTaken).toBe(15); // 20 ability damage - 5 defense
+      expect(gameState.player.health).toBe(85);
+    });
+  });
+
+  describe('defending and initiative', () => {
+    const defend: PlayerAction = { type: 'defend', timestamp: Date.now() };
+
+    beforeEach(() => {
+      gameState.isInCombat = true;
+    });
+
+    it('should halve damage taken while defending', () => {
+      const enemy = new Enemy({ name: 'Orc', position: { x: 6, y: 5 }, attackPower: 15 });
+
+      const turn = combatSystem.processCombatTurn(gameState, defend, [enemy]);
+
+      expect(turn.combatResults[1]?.playerDamageTaken).toBe(5); // (15 - 5 defense) halved
+      expect(turn.gameStateAfter.playerDefending).toBe(true);
+    });
+
+    it('should protect the player even from faster enemies', () => {
+      const enemy = new Enemy({ name: 'Wolf', position: { x: 6, y: 5 }, attackPower: 15, agility: 20 });
+
+      const turn = combatSystem.processCombatTurn(gameState, defend, [enemy]);
+
+      expect(turn.actionOrder?.[0]?.actorId).toBe(enemy.id);
+      expect(turn.combatResults[1]?.playerDamageTaken).toBe(5);
+    });
+
+    it('should not keep the defend stance into the next round', () => {
+      const enemy = new Enemy({ name: 'Orc', position: { x: 6, y: 5 }, attackPower: 15 });
+
+      combatSystem.processCombatTurn(gameState, defend, [enemy]);
+      const turn = combatSystem.processCombatTurn(gameState, { type: 'move', timestamp: Date.now() }, [enemy]);
+
+      expect(turn.combatResults[1]?.playerDamageTaken).toBe(10);
+    });
+
+    it('should order actors by agility and record the order', () => {
+      gameState.player.stats.agility = 8;
+      const fast = new Enemy({ name: 'Spider', position: { x: 6, y: 5 }, agility: 10 });
+      const slow = new Enemy({ name: 'Troll', position: { x: 4, y: 5 }, agility: 3 });
+
+      const turn = combatSystem.processCombatTurn(gameState, defend, [slow, fast]);
+
+      expect(turn.actionOrder?.map(record => record.actorId)).toEqual([fast.id, gameState.player.id, slow.id]);
+      expect(turn.actionOrder?.map(record => record.order)).toEqual([1, 2, 3]);
+      expect(turn.actionOrder?.[1]).toMatchObject({ actor: 'player', action: 'defend', defending: true, initiative: 8 });
+    });
+
+    it('should slow an overloaded player unless carry weight is off', () => {
+      gameState.player.stats.agility = 8;
+      gameState.player.inventory.push({
+        id: 'anvil', name: 'Anvil', type: 'treasure', position: { x: 5, y: 5 }, properties: { weight: 200 }
+      });
+      const enemy = new Enemy({ name: 'Troll', position: { x: 6, y: 5 }, agility: 3 });
+      const penalty = combatSystem.getEncumbrance(gameState.player).agilityPenalty;
+
+      const turn = combatSystem.processCombatTurn(gameState, defend, [enemy]);
+      combatSystem.setCarryWeight(false);
+      const unburdened = combatSystem.processCombatTurn(gameState, defend, [enemy]);
+
+      expect(penalty).toBeGreaterThan(0);
+      expect(turn.actionOrder?.find(record => record.actor === 'player')?.initiative).toBe(Math.max(0, 8 - penalty));
+      expect(unburdened.actionOrder?.find(record => record.actor === 'player')?.initiative).toBe(8);
+    });
+
+    it('should let the player act first on tied initiative', () => {
+      gameState.player.stats.agility = 5;
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 }, health: 1, agility: 5 });
+
+      const turn = combatSystem.processCombatTurn(gameState, { type: 'attack', target: enemy.id, timestamp: Date.now() }, [enemy]);
+
+      expect(turn.actionOrder).toHaveLength(1);
+      expect(turn.enemyActions).toHaveLength(0);
+      expect(gameState.player.health).toBe(100);
+    });
+
+    it('should halve damage dealt to a guarding enemy', () => {
+      const enemy = new Enemy({ name: 'Guard', position: { x: 6, y: 5 }, health: 50, defense: 3, attackPower: 0 });
+      enemy.executeAction({ type: 'defend', timestamp: Date.now() });
+
+      combatSystem.processCombatTurn(gameState, { type: 'attack', target: enemy.id, timestamp: Date.now() }, [enemy]);
+
+      expect(enemy.health).toBe(44); // (15 - 3 defense) halved
+    });
+  });
+
+  describe('hit resolution', () => {
+    const scripted = (rolls: number[]): RandomSource => ({
+      next: () => rolls.shift() ?? 0.5,
+      nextInt: (min: number) => min,
+      chance(probability: number) { return this.next() < probability; },
+      pick: <T>(items: readonly T[]) => items[0] as T
+    });
+
+    beforeEach(() => {
+      gameState.isInCombat = true;
+    });
+
+    it('should record a missed player attack', () => {
+      const system = new CombatSystem(undefined, undefined, undefined, new DamageResolver(scripted([0.99])));
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 }, health: 30 });
+
+      const turn = system.processCombatTurn(gameState, { type: 'attack', target: enemy.id, timestamp: Date.now() }, [enemy]);
+
+      expect(turn.combatResults[0]).toMatchObject({ missed: true, playerDamageDealt: 0 });
+      expect(enemy.health).toBe(30);
+    });
+
+    it('should record a critical player hit', () => {
+      const system = new CombatSystem(undefined, undefined, undefined, new DamageResolver(scripted([0, 0, 0.5])));
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 }, health: 50, defense: 0 });
+
+      const turn = system.processCombatTurn(gameState, { type: 'attack', target: enemy.id, timestamp: Date.now() }, [enemy]);
+
+      expect(turn.combatResults[0]).toMatchObject({ critical: true, playerDamageDealt: 30 });
+    });
+  });
+
+  describe('status effects', () => {
+    const wait: PlayerAction = { type: 'move', timestamp: Date.now() };
+
+    beforeEach(() => {
+      gameState.isInCombat = true;
+    });
+
+    it('should poison the player through an ability and tick it at turn start', () => {
+      const spider = new Enemy({
+        name: 'Giant Spider',
+        position: { x: 6, y: 5 },
+        attackPower: 10,
+        ability: {
+          name: 'Venom Bite',
+          damageMultiplier: 1,
+          cooldown: 3,
+          effect: { type: 'poison', duration: 3, potency: 2 }
+        }
+      });
+
+      const first = combatSystem.processCombatTurn(gameState, wait, [spider]);
+      expect(first.gameStateAfter.playerEffects).toEqual([
+        expect.objectContaining({ type: 'poison', stacks: 1, source: 'Giant Spider' })
+      ]);
+
+      const healthBefore = gameState.player.health;
+      const second = combatSystem.processCombatTurn(gameState, wait, [spider]);
+
+      // Poison tick plus a regular attack of 10 - 5 defense
+      expect(second.combatResults[0]?.playerDamageTaken).toBe(2);
+      expect(gameState.player.health).toBe(healthBefore - 2 - 5);
+    });
+
+    it('should skip the turn of a stunned player', () => {
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 }, health: 30 });
+      gameState.player.statusEffects = [{ type: 'stun', duration: 1, potency: 0, stacks: 1 }];
+
+      const turn = combatSystem.processCombatTurn(gameState, { type: 'attack', target: enemy.id, timestamp: Date.now() }, [enemy]);
+
+      expect(turn.combatResults[0]?.skippedTurn).toBe(true);
+      expect(turn.combatResults[0]?.playerDamageDealt).toBe(0);
+      expect(enemy.health).toBe(30);
+      expect(gameState.player.statusEffects).toHaveLength(0);
+    });
+
+    it('should skip the turn of a stunned enemy', () => {
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 } });
+      enemy.applyStatusEffect({ type: 'stun', duration: 1, potency: 0 });
+
+      const turn = combatSystem.processCombatTurn(gameState, wait, [enemy]);
+
+      expect(turn.enemyActions).toHaveLength(0);
+      expect(turn.combatResults[1]?.skippedTurn).toBe(true);
+      expect(turn.gameStateAfter.enemyEffects[enemy.id]).toEqual([
+        expect.objectContaining({ type: 'stun' })
+      ]);
+    });
+
+    it('should add a strength tonic boost to player damage', () => {
+      const enemy = new Enemy({ name: 'Ogre', position: { x: 6, y: 5 }, health: 100, defense: 0, attackPower: 0 });
+      const tonic: Item = {
+        id: 'tonic',
+        name: 'Strength Tonic',
+        type: 'consumable',
+        position: { x: 0, y: 0 },
+        properties: { effect: 'strength_boost', amount: 3 }
+      };
+      gameState.player.inventory = [tonic];
+
+      combatSystem.processCombatTurn(gameState, { type: 'use_item', item: tonic, timestamp: Date.now() }, [enemy]);
+      const turn = combatSystem.processCombatTurn(gameState, { type: 'attack', target: enemy.id, timestamp: Date.now() }, [enemy]);
+
+      expect(turn.combatResults[0]?.playerDamageDealt).toBe(18); // 15 strength + 3 boost
+      expect(gameState.player.inventory).toHaveLength(0);
+    });
+
+    it('should inflict the on-hit effects of the player\'s weapon', () => {
+      gameState.player.equipment.weapon = {
+        id: 'venom_blade',
+        name: 'Venom Blade',
+        type: 'weapon',
+        position: { x: 0, y: 0 },
+        properties: { attack: 2, onHit: [{ chance: 0.9, type: 'poison', duration: 3, potency: 2 }] }
+      };
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 }, health: 100, defense: 0, attackPower: 0 });
+      const system = new CombatSystem(undefined, new SteadyRandom(), undefined, createSteadyResolver());
+
+      const turn = system.processCombatTurn(gameState, { type: 'attack', target: enemy.id, timestamp: Date.now() }, [enemy]);
+
+      expect(turn.combatResults[0]).toMatchObject({ playerDamageDealt: 17, onHitEffects: ['poison'] });
+      expect(enemy.statusEffects.map(effect => effect.source)).toContain('Venom Blade');
+    });
+
+    it('should include enemy defense modifiers when the player attacks', () => {
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 }, health: 50, defense: 2 });
+      enemy.applyStatusEffect({ type: 'defense_boost', duration: 2, potency: 5 });
+
+      combatSystem.processCombatTurn(gameState, { type: 'attack', target: enemy.id, timestamp: Date.now() }, [enemy]);
+
+      expect(enemy.health).toBe(42); // 15 damage - (2 + 5) defense
+    });
+
+    it('should clear player effects when combat ends', () => {
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 }, health: 1 });
+      gameState.player.statusEffects = [{ type: 'weakness', duration: 5, potency: 1, stacks: 1 }];
+
+      combatSystem.processCombatTurn(gameState, { type: 'attack', target: enemy.id, timestamp: Date.now() }, [enemy]);
+
+      expect(gameState.isInCombat).toBe(false);
+      expect(gameState.player.statusEffects).toEqual([]);
+    });
+  });
+
+  describe('spells', () => {
+    const cast = (spellId: string, target?: PlayerAction['target']): PlayerAction => ({
+      type: 'cast_spell',
+      spellId,
+      ...(target ? { target } : {}),
+      timestamp: Date.now()
+    });
+
+    beforeEach(() => {
+      gameState.isInCombat = true;
+      gameState.player.stats.intelligence = 7;
+    });
+
+    it('should strike the nearest enemy and spend mana', () => {
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 }, health: 30, defense: 2, attackPower: 0 });
+
+      const turn = combatSystem.processCombatTurn(gameState, cast('firebolt'), [enemy]);
+
+      expect(turn.combatResults[0]).toMatchObject({ spellId: 'firebolt', playerDamageDealt: 10, spellTargets: [enemy.id] });
+      expect(enemy.health).toBe(22); // 4 + 0.8 * 7 intelligence, less 2 defense
+      expect(gameState.player.mana).toBe(25);
+    });
+
+    it('should fizzle without spending mana when the caster cannot pay', () => {
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 }, health: 30 });
+      gameState.player.mana = 2;
+
+      const turn = combatSystem.processCombatTurn(gameState, cast('firebolt'), [enemy]);
+
+      expect(turn.combatResults[0]?.spellFailure).toBe('insufficient_mana');
+      expect(gameState.player.mana).toBe(2);
+      expect(enemy.health).toBe(30);
+    });
+
+    it('should heal the player and put the spell on cooldown', () => {
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 }, attackPower: 0 });
+      gameState.player.health = 50;
+
+      const turn = combatSystem.processCombatTurn(gameState, cast('mend'), [enemy]);
+
+      expect(turn.combatResults[0]?.healing).toBe(21); // 10 + 1.5 * 7 intelligence
+      expect(turn.gameStateAfter.castableSpells).toEqual(['firebolt']);
+    });
+
+    it('should report every enemy an area spell kills', () => {
+      gameState.player.stats.intelligence = 12;
+      const first = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 }, health: 5 });
+      const second = new Enemy({ name: 'Goblin', position: { x: 6, y: 6 }, health: 5 });
+
+      const turn = combatSystem.processCombatTurn(gameState, cast('fireball', { x: 6, y: 5 }), [first, second]);
+
+      const kills = turn.combatResults.filter(result => result.enemyDefeated).map(result => result.defeatedEnemyId);
+      expect(kills).toEqual([first.id, second.id]);
+      expect(turn.combatResults[0]?.spellTargets).toHaveLength(2);
+      expect(gameState.isInCombat).toBe(false);
+    });
+  });
+
+  describe('skills', () => {
+    const useSkill = (skillId: string, target?: string): PlayerAction => ({
+      type: 'use_skill',
+      skillId,
+      ...(target ? { target } : {}),
+      timestamp: Date.now()
+    });
+
+    beforeEach(() => {
+      gameState.isInCombat = true;
+      gameState.player.level = 5;
+      gameState.player.talents = { power_strike: 1, whirlwind: 1, second_wind: 1, crippling_blow: 1 };
+    });
+
+    it('should strike an adjacent enemy harder and start the cooldown', () => {
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 }, health: 50, defense: 0, attackPower: 0 });
+
+      const turn = combatSystem.processCombatTurn(gameState, useSkill('power_strike'), [enemy]);
+
+      expect(turn.combatResults[0]).toMatchObject({ skillId: 'power_strike', playerDamageDealt: 27, skillTargets: [enemy.id] });
+      expect(gameState.player.skillCooldowns).toEqual({ power_strike: 2 }); // 3 turns, one already ticked
+      expect(turn.gameStateAfter.usableSkills).not.toContain('power_strike');
+    });
+
+    it('should fail without a cooldown when no enemy is adjacent', () => {
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 8, y: 5 }, attackPower: 0 });
+
+      const turn = combatSystem.processCombatTurn(gameState, useSkill('power_strike'), [enemy]);
+
+      expect(turn.combatResults[0]?.skillFailure).toBe('no_target');
+      expect(gameState.player.skillCooldowns ?? {}).toEqual({});
+    });
+
+    it('should sweep every adjacent enemy and report each kill', () => {
+      const first = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 }, health: 5 });
+      const second = new Enemy({ name: 'Goblin', position: { x: 5, y: 6 }, health: 5 });
+      const distant = new Enemy({ name: 'Goblin', position: { x: 9, y: 9 }, health: 5, attackPower: 0 });
+
+      const turn = combatSystem.processCombatTurn(gameState, useSkill('whirlwind'), [first, second, distant]);
+
+      const kills = turn.combatResults.filter(result => result.enemyDefeated).map(result => result.defeatedEnemyId);
+      expect(kills).toEqual([first.id, second.id]);
+      expect(distant.health).toBe(5);
+    });
+
+    it('should weaken the enemy a crippling blow hits', () => {
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 }, health: 50, attackPower: 0 });
+
+      combatSystem.processCombatTurn(gameState, useSkill('crippling_blow', enemy.id), [enemy]);
+
+      expect(enemy.statusEffects?.map(effect => effect.type)).toContain('weakness');
+    });
+
+    it('should restore a share of max health', () => {
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 }, attackPower: 0 });
+      gameState.player.health = 40;
+
+      const turn = combatSystem.processCombatTurn(gameState, useSkill('second_wind'), [enemy]);
+
+      expect(turn.combatResults[0]?.healing).toBe(30);
+      expect(turn.gameStateAfter.usableSkills).not.toContain('second_wind');
+    });
+
+    it('should refuse skills the player has not learned', () => {
+      gameState.player.talents = {};
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 }, health: 30, attackPower: 0 });
+
+      const turn = combatSystem.processCombatTurn(gameState, useSkill('power_strike'), [enemy]);
+
+      expect(turn.combatResults[0]?.skillFailure).toBe('not_learned');
+      expect(enemy.health).toBe(30);
+    });
+  });
+
+  describe('loot', () => {
+    const attack = (target: string): PlayerAction => ({
+      type: 'attack',
+      target,
+      timestamp: Date.now()
+    });
+
+    it('should drop loot where a defeated enemy fell', () => {
+      const lootGenerator = new LootGenerator({
+        enemy_common: { chance: 1, rolls: [2, 2], entries: [{ category: 'weapon', weight: 1 }], rarityBonus: 0 }
+      });
+      combatSystem = new CombatSystem(lootGenerator, new SeededRandom(1), undefined, createSteadyResolver());
+      gameState.isInCombat = true;
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 }, health: 1, defense: 0 });
+
+      const turn = combatSystem.processCombatTurn(gameState, attack(enemy.id), [enemy]);
+
+      const loot = turn.combatResults[0]?.loot;
+      expect(loot).toHaveLength(2);
+      loot!.forEach(item => {
+        expect(item.type).toBe('weapon');
+        expect(item.position).toEqual({ x: 6, y: 5 });
+      });
+      expect(gameState.items).toEqual(expect.arrayContaining(loot!));
+    });
+
+    it('should not drop loot while the enemy survives', () => {
+      gameState.isInCombat = true;
+      const enemy = new Enemy({ name: 'Troll', position: { x: 6, y: 5 }, health: 500 });
+
+      const turn = combatSystem.processCombatTurn(gameState, attack(enemy.id), [enemy]);
+
+      expect(turn.combatResults[0]?.loot).toBeUndefined();
+      expect(gameState.items).toEqual([]);
+    });
+  });
+
+  describe('ranged combat', () => {
+    const bow = (ammo: number): Item => ({
+      id: 'bow',
+      name: 'Shortbow',
+      type: 'weapon',
+      position: { x: 0, y: 0 },
+      properties: { attack: 4, range: 6, ammo }
+    });
+    const shoot = (target: string): PlayerAction => ({ type: 'attack', target, timestamp: Date.now() });
+    // Straight lines along a row are all these tests need
+    const rowTrace = (from: Coordinate, to: Coordinate) => Array.from(
+      { length: Math.abs(to.x - from.x) + 1 },
+      (_, i) => ({ x: from.x + Math.sign(to.x - from.x) * i, y: from.y })
+    );
+
+    beforeEach(() => {
+      gameState.isInCombat = true;
+      combatSystem.setLineTrace(rowTrace);
+    });
+
+    it('should shoot an enemy in range and spend ammo', () => {
+      gameState.player.equipment.weapon = bow(3);
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 9, y: 5 }, health: 50, attackPower: 0 });
+
+      const turn = combatSystem.processCombatTurn(gameState, shoot(enemy.id), [enemy]);
+
+      expect(turn.combatResults[0]).toMatchObject({ ranged: true, playerDamageDealt: 19 });
+      expect(gameState.player.equipment.weapon?.properties['ammo']).toBe(2);
+      expect(gameState.isInCombat).toBe(true);
+    });
+
+    it('should refuse shots beyond reach, without ammo or out of sight', () => {
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 8, y: 5 }, health: 50, attackPower: 0 });
+      const attack = () => combatSystem.processCombatTurn(gameState, shoot(enemy.id), [enemy]).combatResults[0];
+
+      expect(attack()?.attackFailure).toBe('out_of_range');
+
+      gameState.isInCombat = true;
+      gameState.player.equipment.weapon = bow(0);
+      expect(attack()?.attackFailure).toBe('out_of_ammo');
+
+      gameState.isInCombat = true;
+      gameState.player.equipment.weapon = bow(5);
+      combatSystem.setLineOfSightCheck(() => false);
+      expect(attack()?.attackFailure).toBe('no_line_of_sight');
+      expect(gameState.player.equipment.weapon?.properties['ammo']).toBe(5);
+      expect(enemy.health).toBe(50);
+    });
+
+    it('should not shoot through a closed door', () => {
+      gameState.player.equipment.weapon = bow(5);
+      const dungeon: DungeonMap = {
+        width: 12,
+        height: 10,
+        rooms: [{ id: 'room1', position: { x: 3, y: 3 }, width: 3, height: 5, type: 'normal', items: [], enemies: [], connections: [] }],
+        corridors: [{ id: 'corridor1', startRoom: 'room1', endRoom: 'room2', path: [{ x: 6, y: 5 }, { x: 7, y: 5 }, { x: 8, y: 5 }, { x: 9, y: 5 }] }],
+        doors: [{ id: 'door_0', position: { x: 6, y: 5 }, roomId: 'room1', corridorId: 'corridor1', state: 'closed' }]
+      };
+      const movement = new MovementController(dungeon, new PlayerCharacter({ position: { x: 5, y: 5 } }));
+      combatSystem.setLineOfSightCheck((from, to) => movement.hasLineOfSight(from, to));
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 9, y: 5 }, health: 50, attackPower: 0 });
+
+      const blocked = combatSystem.processCombatTurn(gameState, shoot(enemy.id), [enemy]).combatResults[0];
+      expect(blocked?.attackFailure).toBe('no_line_of_sight');
+      expect(gameState.player.equipment.weapon?.properties['ammo']).toBe(5);
+
+      dungeon.doors![0]!.state = 'open';
+      gameState.isInCombat = true;
+      const hit = combatSystem.processCombatTurn(gameState, shoot(enemy.id), [enemy]).combatResults[0];
+      expect(hit?.attackFailure).toBeUndefined();
+      expect(enemy.health).toBeLessThan(50);
+    });
+
+    it('should lose accuracy to enemies in or beside the line of fire', () => {
+      gameState.player.equipment.weapon = bow(5);
+      const target = new Enemy({ name: 'Goblin', position: { x: 10, y: 5 }, health: 50, attackPower: 0 });
+      const blocker = new Enemy({ name: 'Goblin', position: { x: 7, y: 5 }, health: 50, attackPower: 0 });
+      const bystander = new Enemy({ name: 'Goblin', position: { x: 8, y: 6 }, health: 50, attackPower: 0 });
+      gameState.enemies = [target, blocker, bystander];
+
+      const turn = combatSystem.processCombatTurn(gameState, shoot(target.id), gameState.enemies);
+
+      expect(turn.combatResults[0]?.coverPenalty).toBe(RANGED_COVER_PENALTY + RANGED_CROWD_PENALTY);
+    });
+
+    it('should open fire from an archer that spots the player', () => {
+      gameState.isInCombat = false;
+      const archer = Enemy.createArcher({ x: 9, y: 5 });
+      gameState.enemies = [archer];
+
+      expect(combatSystem.checkForEncounter(gameState)).toEqual([archer]);
+
+      combatSystem.setLineOfSightCheck(() => false);
+      expect(combatSystem.checkForEncounter(gameState)).toEqual([]);
+    });
+
+    it('should reload a ranged weapon from a bundle of arrows', () => {
+      gameState.player.equipment.weapon = bow(1);
+      const arrows: Item = {
+        id: 'arrows',
+        name: 'Bundle of Arrows',
+        type: 'consumable',
+        position: { x: 0, y: 0 },
+        properties: { effect: 'ammo', amount: 10 }
+      };
+      gameState.player.inventory = [arrows];
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 }, attackPower: 0 });
+
+      combatSystem.processCombatTurn(gameState, { type: 'use_item', item: arrows, timestamp: Date.now() }, [enemy]);
+
+      expect(gameState.player.equipment.weapon?.properties['ammo']).toBe(11);
+      expect(gameState.player.inventory).toHaveLength(0);
+    });
+
+    it('should let the player step in a direction during combat', () => {
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 6, y: 5 }, attackPower: 0, aiType: 'guard' });
+      gameState.enemies = [enemy];
+      jest.spyOn(gameState, 'isValidPosition').mockReturnValue(true);
+
+      combatSystem.processCombatTurn(gameState, { type: 'move', direction: 'east', timestamp: Date.now() }, [enemy]);
+      expect(gameState.player.position).toEqual({ x: 5, y: 5 }); // The goblin blocks the way east
+
+      combatSystem.processCombatTurn(gameState, { type: 'move', direction: 'north', timestamp: Date.now() }, [enemy]);
+      expect(gameState.player.position).toEqual({ x: 5, y: 4 });
+      expect(gameState.isInCombat).toBe(false); // Out of the goblin's reach
+    });
+  });
+
+  describe('fleeing', () => {
+    // Flee rolls come from the system's random source, attack rolls from the steady resolver
+    const fleeRoll = (roll: number): RandomSource => ({
+      next: () => roll,
+      nextInt: (min: number) => min,
+      chance: (probability: number) => roll < probability,
+      pick: <T>(items: readonly T[]) => items[0] as T
+    });
+    const flee: PlayerAction = { type: 'flee', timestamp: Date.now() };
+    const createSystem = (roll: number) => new CombatSystem(undefined, fleeRoll(roll), undefined, createSteadyResolver());
+
+    beforeEach(() => {
+      gameState.isInCombat = true;
+      jest.spyOn(gameState, 'isValidPosition').mockReturnValue(true);
+    });
+
+    it('should weigh the escape chance by agility against the fastest engaged enemy', () => {
+      const slow = new Enemy({ name: 'Zombie', position: { x: 6, y: 5 }, agility: 4 });
+      const quick = new Enemy({ name: 'Wolf', position: { x: 4, y: 5 }, agility: 8 });
+
+      expect(combatSystem.getFleeChance(gameState, [slow])).toBeCloseTo(FLEE_BASE_CHANCE + 4 * FLEE_CHANCE_PER_POINT);
+      expect(combatSystem.getFleeChance(gameState, [slow, quick])).toBeCloseTo(FLEE_BASE_CHANCE);
+      expect(combatSystem.getFleeChance(gameState, [new Enemy({ name: 'Bat', position: { x: 6, y: 5 }, agility: 40 })]))
+        .toBe(MIN_FLEE_CHANCE);
+    });
+
+    it('should take an attack of opportunity, break away and leave slower enemies behind', () => {
+      const enemy = new Enemy({ name: 'Zombie', position: { x: 6, y: 5 }, attackPower: 10, agility: 4 });
+      gameState.enemies = [enemy];
+
+      const turn = createSystem(0).processCombatTurn(gameState, flee, [enemy]);
+
+      expect(turn.combatResults[0]).toMatchObject({ fled: true, pursuedBy: [] });
+      expect(turn.combatResults[1]).toMatchObject({ attackOfOpportunity: true, playerDamageTaken: 5 });
+      expect(turn.enemyActions).toHaveLength(0); // The round ends with the escape
+      expect(gameState.isInCombat).toBe(false);
+      expect(gameState.player.position).toEqual({ x: 5, y: 4 });
+      expect(enemy.hasLostTrack()).toBe(true);
+      expect(combatSystem.checkForEncounter(gameState)).toHaveLength(0);
+    });
+
+    it('should be chased by quicker hunters', () => {
+      const wolf = new Enemy({ name: 'Wolf', position: { x: 6, y: 5 }, agility: 12, aiType: 'aggressive' });
+
+      const turn = createSystem(0).processCombatTurn(gameState, flee, [wolf]);
+
+      expect(turn.combatResults[0]?.pursuedBy).toEqual([wolf.id]);
+      expect(wolf.hasLostTrack()).toBe(false);
+    });
+
+    it('should waste the turn when the escape roll fails', () => {
+      const enemy = new Enemy({ name: 'Zombie', position: { x: 6, y: 5 }, agility: 4 });
+
+      const turn = createSystem(0.99).processCombatTurn(gameState, flee, [enemy]);
+
+      expect(turn.combatResults[0]?.fled).toBe(false);
+      expect(turn.enemyActions).toHaveLength(1);
+      expect(gameState.player.position).toEqual({ x: 5, y: 5 });
+      expect(gameState.isInCombat).toBe(true);
+    });
+  });
+
+  describe('group tactics', () => {
+    beforeEach(() => {
+      gameState.isInCombat = true;
+      jest.spyOn(gameState, 'isValidPosition').mockReturnValue(true);
+    });
+
+    it('should let a healer mend a wounded ally during the round', () => {
+      const orc = new Enemy({ name: 'Orc', position: { x: 6, y: 5 }, health: 4, maxHealth: 20, agility: 1 });
+      const shaman = new Enemy({
+        name: 'Shaman',
+        position: { x: 7, y: 5 },
+        aiType: 'defensive',
+        ability: { name: 'Mend', damageMultiplier: 0, cooldown: 3, healing: 6 }
+      });
+
+      const turn = combatSystem.processCombatTurn(gameState, { type: 'defend', timestamp: Date.now() }, [orc, shaman]);
+
+      expect(turn.combatResults).toContainEqual(expect.objectContaining({ allyHealed: orc.id, enemyHealing: 6 }));
+      expect(orc.health).toBe(10);
+      expect(turn.gameStateAfter.enemyRoles).toEqual({ [orc.id]: 'tank', [shaman.id]: 'healer' });
+    });
+
+    it('should report the allies a guard calls in', () => {
+      const guard = new Enemy({ name: 'Guard', position: { x: 6, y: 5 }, aiType: 'guard' });
+      const sleeper = new Enemy({ name: 'Goblin', position: { x: 10, y: 7 } });
+      gameState.enemies = [guard, sleeper];
+
+      const turn = combatSystem.processCombatTurn(gameState, { type: 'defend', timestamp: Date.now() }, [guard, sleeper]);
+
+      expect(turn.combatResults).toContainEqual(expect.objectContaining({ alertedAllies: [sleeper.id] }));
+      expect(sleeper.aiType).toBe('aggressive');
+    });
   });
 
   describe('combat resolution', () => {
@@ -0,0 +1,89 @@
+import { DamageResolver } from '../../src/combat/DamageResolver';
+import { RandomSource, SeededRandom } from '../../src/utils/Random';
+import {
+  CRITICAL_HIT_MULTIPLIER,
+  DAMAGE_VARIANCE,
+  MAX_HIT_CHANCE,
+  MIN_HIT_CHANCE
+} from '../../src/utils/Constants';
+
+// Replays a fixed list of rolls, in the order the resolver asks for them
+class ScriptedRandom implements RandomSource {
+  constructor(private rolls: number[]) {}
+  next(): number { return this.rolls.shift() ?? 0.5; }
+  nextInt(min: number, max: number): number { return Math.floor(this.next() * (max - min + 1)) + min; }
+  chance(probability: number): boolean { return this.next() < probability; }
+  pick<T>(items: readonly T[]): T { return items[0] as T; }
+}
+
+describe('DamageResolver', () => {
+  const profile = { power: 10, accuracy: 8, defense: 8 };
+
+  describe('hit chance', () => {
+    it('should improve with agility over defense within the limits', () => {
+      const resolver = new DamageResolver(new SeededRandom(1));
+
+      expect(resolver.getHitChance(10, 5)).toBeGreaterThan(resolver.getHitChance(5, 5));
+      expect(resolver.getHitChance(100, 0)).toBe(MAX_HIT_CHANCE);
+      expect(resolver.getHitChance(0, 100)).toBe(MIN_HIT_CHANCE);
+    });
+
+    it('should miss when the roll exceeds the hit chance', () => {
+      const resolver = new DamageResolver(new ScriptedRandom([0.99]));
+
+      expect(resolver.resolve(profile)).toMatchObject({ hit: false, critical: false, damage: 0 });
+    });
+  });
+
+  describe('damage rolls', () => {
+    it('should deal the base power on a middle variance roll', () => {
+      const resolver = new DamageResolver(new ScriptedRandom([0, 0.5, 0.5]));
+
+      expect(resolver.resolve(profile)).toMatchObject({ hit: true, critical: false, damage: 10 });
+    });
+
+    it('should multiply critical hits', () => {
+      const resolver = new DamageResolver(new ScriptedRandom([0, 0, 0.5]));
+      const roll = resolver.resolve(profile);
+
+      expect(roll.critical).toBe(true);
+      expect(roll.damage).toBe(Math.round(10 * CRITICAL_HIT_MULTIPLIER));
+    });
+
+    it('should add the attacker\'s crit chance bonus', () => {
+      const roll = (critChance: number) => new DamageResolver(new ScriptedRandom([0, 0.3, 0.5])).resolve({ ...profile, critChance });
+
+      expect(roll(0).critical).toBe(false);
+      expect(roll(0.3).critical).toBe(true);
+    });
+
+    it('should not crit when the attack cannot crit', () => {
+      const resolver = new DamageResolver(new ScriptedRandom([0, 0.5]));
+
+      expect(resolver.resolve({ ...profile, canCrit: false }).critical).toBe(false);
+    });
+
+    it('should keep damage within the variance range', () => {
+      const resolver = new DamageResolver(new SeededRandom(42));
+      const low = Math.round(100 * (1 - DAMAGE_VARIANCE));
+      const high = Math.round(100 * (1 + DAMAGE_VARIANCE));
+
+      for (let i = 0; i < 200; i++) {
+        const roll = resolver.resolve({ power: 100, accuracy: 8, defense: 8, canCrit: false });
+        if (roll.hit) {
+          expect(roll.damage).toBeGreaterThanOrEqual(low);
+          expect(roll.damage).toBeLessThanOrEqual(high);
+        }
+      }
+    });
+
+    it('should be reproducible with the same seed', () => {
+      const first = new DamageResolver(new SeededRandom(7));
+      const second = new DamageResolver(new SeededRandom(7));
+
+      for (let i = 0; i < 20; i++) {
+        expect(first.resolve(profile)).toEqual(second.resolve(profile));
+      }
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { loadEntries, DataEntry } from '../../src/data/DataFile';
+import { GameError } from '../../src/utils/ErrorHandling';
+
+interface Widget extends DataEntry {
+  parts?: string[];
+}
+
+const format = { key: 'widgets', kind: 'widget', code: 'INVALID_WIDGETS' };
+
+describe('loadEntries', () => {
+  it('should load entries by id in file order', () => {
+    const widgets = loadEntries<Widget>({ version: 1, widgets: [{ id: 'b', name: 'B' }, { id: 'a', name: 'A' }] }, format);
+
+    expect(Array.from(widgets.keys())).toEqual(['b', 'a']);
+  });
+
+  it('should reject other versions and a missing entries array', () => {
+    expect(() => loadEntries({ version: 2, widgets: [] }, format)).toThrow('Unsupported data version for widgets: 2');
+    expect(() => loadEntries(null, format)).toThrow(GameError);
+    expect(() => loadEntries({ version: 1 }, format)).toThrow('Data must contain a widgets array');
+  });
+
+  it('should reject entries without an id or name, and repeated ids', () => {
+    expect(() => loadEntries({ version: 1, widgets: [{ id: 'a' }] }, format)).toThrow('Widget is missing an id or name');
+    expect(() => loadEntries({ version: 1, widgets: [{ id: 'a', name: 'A' }, { id: 'a', name: 'A' }] }, format))
+      .toThrow('Duplicate widget: a');
+  });
+
+  it('should run the loader checks against the entries before each one', () => {
+    const seen: string[][] = [];
+    loadEntries<Widget>({ version: 1, widgets: [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }] }, format,
+      (_, loaded) => { seen.push(Array.from(loaded.keys())); });
+
+    expect(seen).toEqual([[], ['a']]);
+  });
+});
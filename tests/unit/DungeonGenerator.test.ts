@@ -0,0 +1,529 @@
+import { DungeonGenerator, DungeonConfig } from '../../src/dungeon/DungeonGenerator';
+import { SeededRandom } from '../../src/utils/Random';
+import { MAX_DUNGEON_DEPTH } from '../../src/utils/Constants';
+import { Bestiary, defaultBestiary } from '../../src/dungeon/Bestiary';
+import { LootGenerator } from '../../src/dungeon/LootGenerator';
+import { VaultLayout } from '../../src/dungeon/VaultLayout';
+import { VaultLibrary } from '../../src/dungeon/VaultLibrary';
+import { RoomsLayout } from '../../src/dungeon/RoomsLayout';
+import { DungeonValidator } from '../../src/dungeon/DungeonValidator';
+import { FloorPlan, LayoutConfig, LayoutGenerator, createRoom, getRoomCenter } from '../../src/dungeon/LayoutGenerator';
+import { RandomSource } from '../../src/utils/Random';
+import { GameError } from '../../src/utils/ErrorHandling';
+import { Coordinate, DungeonMap, Room } from '../../src/types/GameTypes';
+
+describe('DungeonGenerator', () => {
+  let generator: DungeonGenerator;
+  const baseConfig: DungeonConfig = {
+    width: 30,
+    height: 30,
+    minRooms: 5,
+    maxRooms: 10
+  };
+
+  beforeEach(() => {
+    generator = new DungeonGenerator();
+  });
+
+  describe('seeded generation', () => {
+    it('should produce identical dungeons for the same seed', () => {
+      const first = generator.generate({ ...baseConfig, seed: 12345 });
+      const second = generator.generate({ ...baseConfig, seed: 12345 });
+
+      expect(second).toEqual(first);
+    });
+
+    it('should produce different dungeons for different seeds', () => {
+      const first = generator.generate({ ...baseConfig, seed: 1 });
+      const second = generator.generate({ ...baseConfig, seed: 2 });
+
+      expect(second).not.toEqual(first);
+    });
+
+    it('should record the seed on the generated map', () => {
+      const dungeon = generator.generate({ ...baseConfig, seed: 777 });
+
+      expect(dungeon.seed).toBe(777);
+    });
+
+    it('should pick and record a seed when none is given', () => {
+      const dungeon = generator.generate(baseConfig);
+
+      expect(typeof dungeon.seed).toBe('number');
+
+      // Regenerating with the recorded seed reproduces the layout
+      const replay = generator.generate({ ...baseConfig, seed: dungeon.seed! });
+      expect(replay).toEqual(dungeon);
+    });
+
+    it('should use an injected random factory', () => {
+      const seeds: number[] = [];
+      const trackingGenerator = new DungeonGenerator(seed => {
+        seeds.push(seed);
+        return new SeededRandom(seed);
+      });
+
+      trackingGenerator.generate({ ...baseConfig, seed: 42 });
+
+      expect(seeds).toEqual([42]);
+    });
+  });
+
+  describe('room layout', () => {
+    const seeds = Array.from({ length: 25 }, (_, i) => i + 1);
+
+    it('should never place overlapping rooms', () => {
+      for (const seed of seeds) {
+        const { rooms } = generator.generate({ ...baseConfig, seed });
+
+        for (let i = 0; i < rooms.length; i++) {
+          for (let j = i + 1; j < rooms.length; j++) {
+            const a = rooms[i]!;
+            const b = rooms[j]!;
+            const overlaps = a.position.x < b.position.x + b.width &&
+                             b.position.x < a.position.x + a.width &&
+                             a.position.y < b.position.y + b.height &&
+                             b.position.y < a.position.y + a.height;
+            expect(overlaps).toBe(false);
+          }
+        }
+      }
+    });
+
+    it('should connect every room to the first room', () => {
+      for (const seed of seeds) {
+        const { rooms } = generator.generate({ ...baseConfig, seed });
+        const visited = new Set<string>([rooms[0]!.id]);
+        const queue = [rooms[0]!];
+
+        while (queue.length > 0) {
+          const room = queue.shift()!;
+          for (const neighborId of room.connections) {
+            if (!visited.has(neighborId)) {
+              visited.add(neighborId);
+              queue.push(rooms.find(r => r.id === neighborId)!);
+            }
+          }
+        }
+
+        expect(visited.size).toBe(rooms.length);
+      }
+    });
+
+    it('should attach corridors to the edges of the rooms they join', () => {
+      const isNextToRoom = (x: number, y: number, roomId: string, rooms: any[]) => {
+        const room = rooms.find(r => r.id === roomId);
+        const insideX = x >= room.position.x && x < room.position.x + room.width;
+        const insideY = y >= room.position.y && y < room.position.y + room.height;
+        return (insideY && (x === room.position.x - 1 || x === room.position.x + room.width)) ||
+               (insideX && (y === room.position.y - 1 || y === room.position.y + room.height));
+      };
+
+      for (const seed of seeds) {
+        const { rooms, corridors } = generator.generate({ ...baseConfig, seed });
+
+        for (const corridor of corridors) {
+          const first = corridor.path[0]!;
+          const last = corridor.path[corridor.path.length - 1]!;
+          expect(isNextToRoom(first.x, first.y, corridor.startRoom, rooms)).toBe(true);
+          expect(isNextToRoom(last.x, last.y, corridor.endRoom, rooms)).toBe(true);
+        }
+      }
+    });
+
+    it('should record corridor endpoints in room connections', () => {
+      const { rooms, corridors } = generator.generate({ ...baseConfig, seed: 3 });
+
+      for (const corridor of corridors) {
+        const start = rooms.find(r => r.id === corridor.startRoom)!;
+        const end = rooms.find(r => r.id === corridor.endRoom)!;
+        expect(start.connections).toContain(end.id);
+        expect(end.connections).toContain(start.id);
+      }
+    });
+  });
+
+  describe('special rooms', () => {
+    const seeds = Array.from({ length: 25 }, (_, i) => i + 1);
+
+    it('should guard the stairs with a single boss', () => {
+      for (const seed of seeds) {
+        const { rooms, stairsDown } = generator.generate({ ...baseConfig, seed });
+        const bossRooms = rooms.filter(room => room.type === 'boss');
+
+        expect(bossRooms).toHaveLength(1);
+        const bossRoom = bossRooms[0]!;
+        expect(bossRoom.id).not.toBe(rooms[0]!.id);
+        expect(bossRoom.enemies.filter(enemy => enemy.isBoss)).toHaveLength(1);
+        expect(bossRoom.enemies[0]!.ability).toBeDefined();
+        expect(stairsDown!.x).toBeGreaterThanOrEqual(bossRoom.position.x);
+        expect(stairsDown!.x).toBeLessThan(bossRoom.position.x + bossRoom.width);
+        expect(stairsDown!.y).toBeGreaterThanOrEqual(bossRoom.position.y);
+        expect(stairsDown!.y).toBeLessThan(bossRoom.position.y + bossRoom.height);
+      }
+    });
+
+    it('should reach secret rooms only through a hidden corridor', () => {
+      let secretRooms = 0;
+
+      for (const seed of seeds) {
+        const { rooms, corridors } = generator.generate({ ...baseConfig, seed });
+
+        for (const room of rooms.filter(r => r.type === 'secret')) {
+          secretRooms++;
+          const links = corridors.filter(c => c.startRoom === room.id || c.endRoom === room.id);
+          expect(links).toHaveLength(1);
+          expect(links[0]!.hidden).toBe(true);
+          expect(links[0]!.discovered).toBe(false);
+          expect(room.items.length).toBeGreaterThan(0);
+        }
+
+        // Only secret rooms hide their corridors
+        const hidden = corridors.filter(c => c.hidden);
+        expect(hidden.length).toBe(rooms.filter(r => r.type === 'secret').length);
+      }
+
+      expect(secretRooms).toBeGreaterThan(0);
+    });
+  });
+
+  describe('doors and keys', () => {
+    const seeds = Array.from({ length: 25 }, (_, i) => i + 1);
+
+    it('should hang doors on corridor ends outside the rooms', () => {
+      for (const seed of seeds) {
+        const { rooms, corridors, doors } = generator.generate({ ...baseConfig, seed });
+
+        for (const door of doors!) {
+          const corridor = corridors.find(c => c.id === door.corridorId)!;
+          const ends = [corridor.path[0], corridor.path[corridor.path.length - 1]];
+          expect(ends).toContainEqual(door.position);
+          expect(corridor.hidden).toBeFalsy();
+          expect(rooms.some(room =>
+            door.position.x >= room.position.x && door.position.x < room.position.x + room.width &&
+            door.position.y >= room.position.y && door.position.y < room.position.y + room.height
+          )).toBe(false);
+        }
+      }
+    });
+
+    it('should put every key somewhere reachable before its locked door', () => {
+      let lockedDoors = 0;
+
+      for (const seed of seeds) {
+        const { rooms, corridors, doors } = generator.generate({ ...baseConfig, seed });
+
+        // Walk from the start without passing any locked door or secret passage
+        const reachable = new Set([rooms[0]!.id]);
+        const queue = [rooms[0]!.id];
+        while (queue.length > 0) {
+          const roomId = queue.shift()!;
+          for (const corridor of corridors) {
+            const locked = doors!.some(d => d.corridorId === corridor.id && d.state === 'locked');
+            if (corridor.hidden || locked) continue;
+            const next = corridor.startRoom === roomId ? corridor.endRoom :
+                         corridor.endRoom === roomId ? corridor.startRoom : null;
+            if (next && !reachable.has(next)) {
+              reachable.add(next);
+              queue.push(next);
+            }
+          }
+        }
+
+        for (const door of doors!.filter(d => d.state === 'locked')) {
+          lockedDoors++;
+          const keyRoom = rooms.find(room => room.items.some(item => item.id === door.keyId))!;
+          expect(keyRoom).toBeDefined();
+          expect(reachable.has(keyRoom.id)).toBe(true);
+          expect(keyRoom.items.find(item => item.id === door.keyId)!.type).toBe('key');
+        }
+      }
+
+      expect(lockedDoors).toBeGreaterThan(0);
+    });
+  });
+
+  describe('traps', () => {
+    it('should hide traps inside rooms other than the first', () => {
+      let traps = 0;
+
+      for (const seed of Array.from({ length: 25 }, (_, i) => i + 1)) {
+        const dungeon = generator.generate({ ...baseConfig, seed });
+
+        for (const trap of dungeon.traps!) {
+          traps++;
+          const room = dungeon.rooms.find(r =>
+            trap.position.x >= r.position.x && trap.position.x < r.position.x + r.width &&
+            trap.position.y >= r.position.y && trap.position.y < r.position.y + r.height
+          );
+          expect(room).toBeDefined();
+          expect(room!.id).not.toBe(dungeon.rooms[0]!.id);
+          expect(trap.detected).toBe(false);
+          expect(trap.position).not.toEqual(dungeon.stairsDown);
+        }
+      }
+
+      expect(traps).toBeGreaterThan(0);
+    });
+  });
+
+  describe('enemies', () => {
+    it('should spawn enemies defined in the bestiary', () => {
+      for (const seed of [1, 2, 3, 4, 5]) {
+        const { rooms } = generator.generate({ ...baseConfig, seed });
+
+        for (const enemy of rooms.flatMap(room => room.enemies)) {
+          const entry = defaultBestiary.getEntry(enemy.type!);
+          expect(entry).toBeDefined();
+          expect(enemy.name).toBe(entry!.name);
+          expect(enemy.aiType).toBe(entry!.aiType);
+          expect(enemy.experience).toBe(entry!.experience);
+        }
+      }
+    });
+
+    it('should use an injected bestiary', () => {
+      const bestiary = new Bestiary({
+        version: 1,
+        enemies: [{
+          id: 'slime',
+          name: 'Slime',
+          stats: { health: 4, attackPower: 1, defense: 0 },
+          aiType: 'defensive',
+          detectionRange: 2,
+          attackRange: 1,
+          experience: 3,
+          spawn: { minDepth: 1, weight: 1 },
+          gold: [0, 1],
+          lootTable: 'enemy_common'
+        }]
+      });
+      const slimeGenerator = new DungeonGenerator(undefined, bestiary);
+
+      const enemies = slimeGenerator.generate({ ...baseConfig, seed: 4 }).rooms.flatMap(room => room.enemies);
+
+      expect(enemies.length).toBeGreaterThan(0);
+      enemies.forEach(enemy => expect(enemy.type).toBe('slime'));
+    });
+  });
+
+  describe('alternative layouts', () => {
+    const seeds = Array.from({ length: 15 }, (_, i) => i + 1);
+
+    const isWalkable = (dungeon: DungeonMap, position: Coordinate) =>
+      dungeon.rooms.some(room =>
+        position.x >= room.position.x && position.x < room.position.x + room.width &&
+        position.y >= room.position.y && position.y < room.position.y + room.height
+      ) ||
+      dungeon.corridors.some(corridor => corridor.path.some(p => p.x === position.x && p.y === position.y));
+
+    // Flood the walkable tiles from the start room, ignoring doors
+    const reachableFromStart = (dungeon: DungeonMap) => {
+      const start = dungeon.rooms[0]!.position;
+      const reached = new Set<string>([`${start.x},${start.y}`]);
+      const queue: Coordinate[] = [start];
+
+      while (queue.length > 0) {
+        const { x, y } = queue.shift()!;
+        for (const next of [{ x, y: y - 1 }, { x, y: y + 1 }, { x: x + 1, y }, { x: x - 1, y }]) {
+          const key = `${next.x},${next.y}`;
+          if (!reached.has(key) && isWalkable(dungeon, next)) {
+            reached.add(key);
+            queue.push(next);
+          }
+        }
+      }
+
+      return reached;
+    };
+
+    it.each(['caves', 'vaults'] as const)('should connect every %s room to the start', layout => {
+      for (const seed of seeds) {
+        const dungeon = generator.generate({ ...baseConfig, seed, layout, depth: 3 });
+        const reached = reachableFromStart(dungeon);
+
+        expect(dungeon.layout).toBe(layout);
+        dungeon.rooms.forEach(room => expect(reached.has(`${room.position.x},${room.position.y}`)).toBe(true));
+        expect(reached.has(`${dungeon.stairsDown!.x},${dungeon.stairsDown!.y}`)).toBe(true);
+      }
+    });
+
+    it('should carve caves without doors or secret rooms', () => {
+      for (const seed of seeds) {
+        const dungeon = generator.generate({ ...baseConfig, seed, layout: 'caves' });
+
+        expect(dungeon.doors).toEqual([]);
+        expect(dungeon.rooms.some(room => room.type === 'secret')).toBe(false);
+        expect(dungeon.corridors.some(corridor => corridor.startRoom === corridor.endRoom)).toBe(true);
+      }
+    });
+
+    it('should only let corridors into a vault through its entrances', () => {
+      const rows = ['#######', '#.....#', '#.....#', '#.#.#.#', '###+###'];
+      const library = new VaultLibrary({
+        version: 1,
+        vaults: [{ id: 'cell', name: 'Cell', roomType: 'treasure', spawn: { minDepth: 1, weight: 1 }, rows }]
+      });
+      const vaultGenerator = new DungeonGenerator(undefined, defaultBestiary, new LootGenerator(), {
+        vaults: new VaultLayout(library)
+      });
+      const template = library.getTemplate('cell')!;
+
+      for (const seed of seeds) {
+        const dungeon = vaultGenerator.generate({ ...baseConfig, seed, layout: 'vaults' });
+        const halls = dungeon.corridors.filter(corridor => corridor.id.startsWith('vault_'));
+        expect(halls.length).toBeGreaterThan(0);
+
+        for (const hall of halls) {
+          const chamber = dungeon.rooms.find(room => room.id === hall.startRoom)!;
+          const origin = { x: chamber.position.x - template.chamber.x, y: chamber.position.y - template.chamber.y };
+
+          rows.forEach((row, y) => [...row].forEach((tile, x) => {
+            const position = { x: origin.x + x, y: origin.y + y };
+            expect(isWalkable(dungeon, position)).toBe(tile !== '#');
+          }));
+        }
+      }
+    });
+
+    it('should pick the layout per floor', () => {
+      const config = { ...baseConfig, seed: 5, floorLayouts: { 2: 'caves' as const } };
+
+      expect(generator.generate({ ...config, depth: 1 }).layout).toBe('rooms');
+      expect(generator.generate({ ...config, depth: 2 }).layout).toBe('caves');
+      expect(generator.generate({ ...config, depth: 2 })).toEqual(generator.generate({ ...config, depth: 2 }));
+    });
+  });
+
+  describe('validation', () => {
+    // Two rooms with nothing joining them, which can never pass validation
+    const disconnected = (): FloorPlan => ({
+      rooms: [createRoom('room_0', 1, 1, 4, 4), createRoom('room_1', 20, 20, 4, 4)],
+      corridors: [],
+      gated: true
+    });
+
+    it('should only return dungeons that pass validation', () => {
+      const validator = new DungeonValidator();
+
+      for (let seed = 0; seed < 40; seed++) {
+        const dungeon = generator.generate({ ...baseConfig, seed, layout: seed % 2 ? 'caves' : 'rooms' });
+        expect(validator.validate(dungeon).issues).toEqual([]);
+      }
+    });
+
+    it('should fit the stairs on the smallest floors, leaving out what has no room', () => {
+      const validator = new DungeonValidator();
+
+      for (let seed = 1; seed <= 60; seed++) {
+        const dungeon = generator.generate({ width: 5, height: 5, minRooms: 1, maxRooms: 3, seed });
+        expect(validator.validate(dungeon).issues).toEqual([]);
+      }
+    });
+
+    describe('repairing the spawn', () => {
+      const bossOn = (room: Room) => {
+        const entry = defaultBestiary.pickBoss(1, new SeededRandom(1))!;
+        room.enemies.push(generator['createEnemy'](entry, 'boss_room_0', getRoomCenter(room), 1));
+      };
+      const floorOf = (rooms: Room[]): DungeonMap => ({ rooms, corridors: [], width: 30, height: 30 });
+      const issuesOf = (dungeon: DungeonMap) =>
+        new DungeonValidator().validate(dungeon).issues.filter(issue => issue.type === 'spawn_blocked');
+
+      it('should move enemies off the spawn into another room', () => {
+        const dungeon = floorOf([createRoom('room_0', 1, 1, 3, 3), createRoom('room_1', 10, 10, 3, 3)]);
+        bossOn(dungeon.rooms[0]!);
+
+        expect(generator['repair'](dungeon, issuesOf(dungeon))).toBe(true);
+        expect(dungeon.rooms[0]!.enemies[0]!.position).toEqual({ x: 10, y: 10 });
+      });
+
+      it('should reroll rather than leave out a boss or key with nowhere to go', () => {
+        const bossFloor = floorOf([createRoom('room_0', 1, 1, 1, 1)]);
+        bossOn(bossFloor.rooms[0]!);
+        const keyFloor = floorOf([createRoom('room_0', 1, 1, 1, 1)]);
+        keyFloor.rooms[0]!.items.push({ id: 'key_0', name: 'Key', type: 'key', position: { x: 1, y: 1 }, properties: {} });
+
+        expect(generator['repair'](bossFloor, issuesOf(bossFloor))).toBe(false);
+        expect(generator['repair'](keyFloor, issuesOf(keyFloor))).toBe(false);
+        expect(bossFloor.rooms[0]!.enemies).toHaveLength(1);
+        expect(keyFloor.rooms[0]!.items).toHaveLength(1);
+      });
+    });
+
+    it('should reroll a floor that fails validation', () => {
+      let calls = 0;
+      const flaky: LayoutGenerator = {
+        generate: (config: LayoutConfig, random: RandomSource) =>
+          calls++ === 0 ? disconnected() : new RoomsLayout().generate(config, random)
+      };
+      const flakyGenerator = new DungeonGenerator(undefined, defaultBestiary, new LootGenerator(), { rooms: flaky });
+
+      const dungeon = flakyGenerator.generate({ ...baseConfig, seed: 8 });
+
+      expect(calls).toBe(2);
+      expect(new DungeonValidator().validate(dungeon).valid).toBe(true);
+    });
+
+    it('should give up with an error when no floor passes validation', () => {
+      const broken: LayoutGenerator = { generate: disconnected };
+      const brokenGenerator = new DungeonGenerator(undefined, defaultBestiary, new LootGenerator(), { rooms: broken });
+
+      expect(() => brokenGenerator.generate({ ...baseConfig, seed: 1 })).toThrow(GameError);
+    });
+  });
+
+  describe('floors', () => {
+    it('should place the stairs down inside a room', () => {
+      const { rooms, stairsDown } = generator.generate({ ...baseConfig, seed: 8 });
+
+      expect(stairsDown).toBeDefined();
+      const inRoom = rooms.some(room =>
+        stairsDown!.x >= room.position.x && stairsDown!.x < room.position.x + room.width &&
+        stairsDown!.y >= room.position.y && stairsDown!.y < room.position.y + room.height
+      );
+      expect(inRoom).toBe(true);
+    });
+
+    it('should not place stairs on the deepest floor', () => {
+      const dungeon = generator.generate({ ...baseConfig, seed: 8, depth: MAX_DUNGEON_DEPTH });
+
+      expect(dungeon.stairsDown).toBeUndefined();
+    });
+
+    it('should make enemies stronger on deeper floors', () => {
+      const enemiesAt = (depth: number) =>
+        generator.generate({ ...baseConfig, seed: 5, depth }).rooms.flatMap(room => room.enemies);
+
+      const shallow = enemiesAt(1);
+      const deep = enemiesAt(5);
+
+      expect(shallow.length).toBeGreaterThan(0);
+      deep.forEach((enemy, index) => {
+        expect(enemy.maxHealth).toBeGreaterThan(shallow[index]!.maxHealth);
+        expect(enemy.attackPower).toBeGreaterThan(shallow[index]!.attackPower);
+      });
+    });
+  });
+});
+
+describe('SeededRandom', () => {
+  it('should repeat the same sequence for the same seed', () => {
+    const a = new SeededRandom(99);
+    const b = new SeededRandom(99);
+
+    for (let i = 0; i < 20; i++) {
+      expect(a.next()).toBe(b.next());
+    }
+  });
+
+  it('should keep integers within the inclusive range', () => {
+    const random = new SeededRandom(5);
+
+    for (let i = 0; i < 200; i++) {
+      const value = random.nextInt(3, 7);
+      expect(value).toBeGreaterThanOrEqual(3);
+      expect(value).toBeLessThanOrEqual(7);
+    }
+  });
+});
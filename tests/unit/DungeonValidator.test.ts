@@ -0,0 +1,126 @@
+import { DungeonValidator } from '../../src/dungeon/DungeonValidator';
+import { createRoom } from '../../src/dungeon/LayoutGenerator';
+import { Corridor, DungeonMap, Item } from '../../src/types/GameTypes';
+
+describe('DungeonValidator', () => {
+  const validator = new DungeonValidator();
+
+  // Two rooms joined by a straight corridor along y = 3; the player spawns at (3, 3)
+  const createDungeon = (): DungeonMap => {
+    const corridor: Corridor = {
+      id: 'corridor_0',
+      startRoom: 'room_0',
+      endRoom: 'room_1',
+      path: [{ x: 6, y: 3 }, { x: 7, y: 3 }, { x: 8, y: 3 }]
+    };
+    return {
+      rooms: [createRoom('room_0', 1, 1, 5, 5), createRoom('room_1', 9, 1, 5, 5)],
+      corridors: [corridor],
+      width: 20,
+      height: 10,
+      stairsDown: { x: 11, y: 3 },
+      doors: [],
+      traps: []
+    };
+  };
+
+  const createKey = (id: string, x: number, y: number): Item => ({
+    id,
+    name: 'Iron Key',
+    type: 'key',
+    position: { x, y },
+    properties: {}
+  });
+
+  it('should accept a connected dungeon and measure it', () => {
+    const result = validator.validate(createDungeon());
+
+    expect(result.valid).toBe(true);
+    expect(result.metrics).toMatchObject({
+      roomCount: 2,
+      corridorCount: 1,
+      walkableTiles: 53,
+      deadEnds: 0,
+      bossPathLength: null,
+      exitPathLength: 8
+    });
+  });
+
+  it('should measure the path to the boss', () => {
+    const dungeon = createDungeon();
+    dungeon.rooms[1]!.type = 'boss';
+
+    expect(validator.validate(dungeon).metrics.bossPathLength).toBe(8);
+  });
+
+  it('should report rooms and corridors outside the map', () => {
+    const dungeon = createDungeon();
+    dungeon.rooms.push(createRoom('room_2', 18, 8, 4, 4));
+    dungeon.corridors[0]!.path.push({ x: -1, y: 3 });
+
+    const types = validator.validate(dungeon).issues.map(issue => issue.type);
+
+    expect(types.filter(type => type === 'out_of_bounds')).toHaveLength(2);
+  });
+
+  it('should report overlapping rooms', () => {
+    const dungeon = createDungeon();
+    dungeon.rooms.push(createRoom('room_2', 4, 4, 3, 3));
+
+    expect(validator.validate(dungeon).issues.map(issue => issue.type)).toContain('overlapping_rooms');
+  });
+
+  it('should report rooms that cannot be reached', () => {
+    const dungeon = createDungeon();
+    dungeon.corridors = [];
+
+    const result = validator.validate(dungeon);
+
+    expect(result.issues).toContainEqual(expect.objectContaining({ type: 'disconnected' }));
+    expect(result.issues).toContainEqual(expect.objectContaining({ type: 'unreachable_exit' }));
+  });
+
+  it('should count a secret passage as connected but not as the way to the exit', () => {
+    const dungeon = createDungeon();
+    dungeon.corridors[0]!.hidden = true;
+    dungeon.corridors[0]!.discovered = false;
+
+    const types = validator.validate(dungeon).issues.map(issue => issue.type);
+
+    expect(types).not.toContain('disconnected');
+    expect(types).toContain('unreachable_exit');
+  });
+
+  it('should report anything placed on the player spawn', () => {
+    const dungeon = createDungeon();
+    dungeon.rooms[0]!.items.push(createKey('key_0', 3, 3));
+
+    expect(validator.validate(dungeon).issues).toEqual([
+      expect.objectContaining({ type: 'spawn_blocked', position: { x: 3, y: 3 } })
+    ]);
+  });
+
+  describe('locked doors', () => {
+    const lockCorridor = (dungeon: DungeonMap) => {
+      dungeon.doors = [{ id: 'door_0', position: { x: 8, y: 3 }, roomId: 'room_1', corridorId: 'corridor_0', state: 'locked', keyId: 'key_door_0' }];
+    };
+
+    it('should accept a lock whose key lies on this side of it', () => {
+      const dungeon = createDungeon();
+      lockCorridor(dungeon);
+      dungeon.rooms[0]!.items.push(createKey('key_door_0', 1, 1));
+
+      expect(validator.validate(dungeon).valid).toBe(true);
+    });
+
+    it('should report a key locked behind its own door', () => {
+      const dungeon = createDungeon();
+      lockCorridor(dungeon);
+      dungeon.rooms[1]!.items.push(createKey('key_door_0', 12, 2));
+
+      const types = validator.validate(dungeon).issues.map(issue => issue.type);
+
+      expect(types).toEqual(['unreachable_key', 'unreachable_exit']);
+    });
+  });
+});
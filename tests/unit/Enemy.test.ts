@@ -1,4 +1,5 @@
 import { Enemy } from '../../src/combat/Enemy';
+import { DijkstraMap } from '../../src/dungeon/Pathfinding';
 import { PlayerCharacter } from '../../src/types/GameTypes';
 
 describe('Enemy', () => {
@@ -76,6 +77,31 @@ describe('Enemy', () => {
       enemy.takeDamage(5); // 5 - 20 = -15, but minimum 1 damage
       expect(enemy.health).toBe(29);
     });
+
+    it('should guard after defending until its next turn starts', () => {
+      const enemy = new Enemy({ name: 'Guard', health: 30, defense: 2 });
+
+      enemy.executeAction({ type: 'defend', timestamp: Date.now() });
+      enemy.takeDamage(12);
+      expect(enemy.isGuarding()).toBe(true);
+      expect(enemy.health).toBe(25); // (12 - 2) halved
+
+      enemy.startTurn();
+      expect(enemy.isGuarding()).toBe(false);
+    });
+
+    it('should guard only when its AI chooses to, not on an idle turn', () => {
+      const goblin = new Enemy({ name: 'Goblin', position: { x: 5, y: 5 }, aiType: 'aggressive' });
+      goblin.executeAction(goblin.decideAction({ ...mockPlayer, position: { x: 15, y: 15 } }, mockIsValidPosition));
+      expect(goblin.isGuarding()).toBe(false);
+
+      const guard = new Enemy({ name: 'Guard', position: { x: 5, y: 5 }, aiType: 'guard' });
+      guard.executeAction(guard.decideAction({ ...mockPlayer, position: { x: 15, y: 15 } }, mockIsValidPosition));
+      expect(guard.isGuarding()).toBe(false);
+
+      guard.executeAction(guard.decideAction({ ...mockPlayer, position: { x: 7, y: 5 } }, mockIsValidPosition));
+      expect(guard.isGuarding()).toBe(true);
+    });
   });
 
   describe('detection and range', () => {
@@ -106,6 +132,40 @@ describe('Enemy', () => {
     });
   });
 
+  describe('losing track', () => {
+    it('should ignore the player until it stops searching or is alerted', () => {
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 5, y: 5 } });
+      const nearPlayer = { ...mockPlayer, position: { x: 6, y: 5 } };
+
+      enemy.loseTrack(2);
+      expect(enemy.canDetectPlayer(nearPlayer)).toBe(false);
+      expect(enemy.decideAction(nearPlayer, mockIsValidPosition).type).toBe('wait');
+
+      enemy.tickLostTrack();
+      enemy.tickLostTrack();
+      expect(enemy.canDetectPlayer(nearPlayer)).toBe(true);
+
+      enemy.loseTrack(5);
+      enemy.alertTo(nearPlayer.position);
+      expect(enemy.hasLostTrack()).toBe(false);
+    });
+  });
+
+  describe('bestiary ranges', () => {
+    it('should use configured detection and attack ranges', () => {
+      const enemy = new Enemy({
+        name: 'Skeleton',
+        position: { x: 5, y: 5 },
+        detectionRange: 6,
+        attackRange: 2
+      });
+
+      expect(enemy.canDetectPlayer({ ...mockPlayer, position: { x: 10, y: 5 } })).toBe(true);
+      expect(enemy.canAttackPlayer({ ...mockPlayer, position: { x: 7, y: 5 } })).toBe(true);
+      expect(enemy.serialize().detectionRange).toBe(6);
+    });
+  });
+
   describe('AI behavior', () => {
     it('should attack when player is in range (aggressive)', () => {
       const enemy = new Enemy({ 
@@ -135,7 +195,28 @@ describe('Enemy', () => {
       expect(action.target).toEqual({ x: 6, y: 5 });
     });
 
-    it('should defend when player is not detected', () => {
+    it('should path around a wall instead of getting stuck on it', () => {
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 5, y: 5 }, aiType: 'aggressive' });
+      const wall = (pos: { x: number; y: number }) => pos.x === 6 && pos.y >= 3 && pos.y <= 6;
+      const isValid = (pos: { x: number; y: number }) => mockIsValidPosition(pos) && !wall(pos);
+
+      const action = enemy.decideAction({ ...mockPlayer, position: { x: 7, y: 5 } }, isValid);
+
+      expect(action.type).toBe('move');
+      expect(action.target).toEqual({ x: 5, y: 6 });
+    });
+
+    it('should follow a shared chase map when one is given', () => {
+      const enemy = new Enemy({ name: 'Goblin', position: { x: 5, y: 5 }, aiType: 'aggressive' });
+      const player = { ...mockPlayer, position: { x: 5, y: 7 } };
+      const chaseMap = new DijkstraMap([player.position], mockIsValidPosition, { width: 20, height: 20 });
+
+      const action = enemy.decideAction(player, mockIsValidPosition, chaseMap);
+
+      expect(action.target).toEqual({ x: 5, y: 6 });
+    });
+
+    it('should wait when player is not detected', () => {
       const enemy = new Enemy({ 
         name: 'Goblin', 
         position: { x: 5, y: 5 },
@@ -145,7 +226,71 @@ describe('Enemy', () => {
       const farPlayer = { ...mockPlayer, position: { x: 15, y: 15 } };
       const action = enemy.decideAction(farPlayer, mockIsValidPosition);
       
-      expect(action.type).toBe('defend');
+      expect(action.type).toBe('wait');
+    });
+  });
+
+  describe('ranged behavior', () => {
+    const createArcher = () => Enemy.createArcher({ x: 5, y: 5 });
+
+    it('should shoot a player in range and in sight', () => {
+      const action = createArcher().decideAction({ ...mockPlayer, position: { x: 9, y: 5 } }, mockIsValidPosition);
+
+      expect(action.type).toBe('attack');
+    });
+
+    it('should back away from a player who closes in', () => {
+      const action = createArcher().decideAction({ ...mockPlayer, position: { x: 6, y: 5 } }, mockIsValidPosition);
+
+      expect(action.type).toBe('move');
+      expect(action.target).toEqual({ x: 5, y: 4 }); // Two steps from the player, still in range
+    });
+
+    it('should move for a clear shot when a wall is in the way', () => {
+      const action = createArcher().decideAction(
+        { ...mockPlayer, position: { x: 9, y: 5 } }, mockIsValidPosition, undefined, () => false
+      );
+
+      expect(action.type).toBe('move');
+      expect(action.target).toEqual({ x: 6, y: 5 });
+    });
+
+    it('should stay an archer when alerted', () => {
+      const archer = createArcher();
+      archer.alertTo({ x: 15, y: 5 });
+
+      expect(archer.aiType).toBe('ranged');
+      expect(archer.canDetectPlayer({ ...mockPlayer, position: { x: 15, y: 5 } })).toBe(true);
+    });
+  });
+
+  describe('special abilities', () => {
+    const createBoss = () => new Enemy({
+      name: 'Goblin Warlord',
+      position: { x: 5, y: 5 },
+      attackPower: 10,
+      aiType: 'guard',
+      isBoss: true,
+      ability: { name: 'Crushing Blow', damageMultiplier: 2, cooldown: 2 }
+    });
+
+    it('should open with its ability and then wait for the cooldown', () => {
+      const boss = createBoss();
+      const nearPlayer = { ...mockPlayer, position: { x: 6, y: 5 } };
+
+      const first = boss.decideAction(nearPlayer, mockIsValidPosition);
+      expect(first.type).toBe('special_ability');
+      expect(first.damage).toBe(20);
+
+      expect(boss.decideAction(nearPlayer, mockIsValidPosition).type).toBe('attack');
+      expect(boss.decideAction(nearPlayer, mockIsValidPosition).type).toBe('special_ability');
+    });
+
+    it('should keep boss data through serialization', () => {
+      const restored = Enemy.deserialize(createBoss().serialize());
+
+      expect(restored.isBoss).toBe(true);
+      expect(restored.ability).toEqual({ name: 'Crushing Blow', damageMultiplier: 2, cooldown: 2 });
     });
   });
 
@@ -204,6 +349,26 @@ describe('Enemy', () => {
       expect(deserialized.health).toBe(original.health);
       expect(deserialized.aiType).toBe(original.aiType);
     });
+
+    it('should keep its guard post, search and ability cooldown through a save', () => {
+      const guard = new Enemy({
+        name: 'Guard',
+        position: { x: 5, y: 5 },
+        aiType: 'guard',
+        ability: { name: 'Shield Bash', damageMultiplier: 2, cooldown: 3 }
+      });
+      guard.decideAction({ ...mockPlayer, position: { x: 6, y: 5 } }, mockIsValidPosition);
+      guard.executeAction({ type: 'move', target: { x: 5, y: 7 }, timestamp: Date.now() });
+      guard.loseTrack(2);
+
+      const restored = Enemy.deserialize(JSON.parse(JSON.stringify(guard.serialize())));
+
+      expect(restored.serialize()).toEqual(guard.serialize());
+      expect(restored.serialize()).toMatchObject({ guardPosition: { x: 5, y: 5 }, lostTrackTurns: 2, abilityCooldown: 3 });
+      expect(restored.hasLostTrack()).toBe(true);
+      expect(restored.decideAction({ ...mockPlayer, position: { x: 15, y: 15 } }, mockIsValidPosition).target)
+        .toEqual({ x: 5, y: 6 });
+    });
   });
 
   describe('factory methods', () => {
@@ -0,0 +1,84 @@
+import { EquipmentStats, EquipmentSet, EquipmentSetData } from '../../src/player/EquipmentStats';
+import { Item } from '../../src/types/GameTypes';
+import { GameError } from '../../src/utils/ErrorHandling';
+
+const createItem = (type: Item['type'], properties: Record<string, any>): Item => ({
+  id: `test_${type}`,
+  name: `Test ${type}`,
+  type,
+  position: { x: 0, y: 0 },
+  properties
+});
+
+const createSet = (overrides: Partial<EquipmentSet> = {}): EquipmentSet => ({
+  id: 'twins',
+  name: 'Twins',
+  pieces: [
+    { name: 'Left Twin', type: 'weapon', properties: { attack: 2 } },
+    { name: 'Right Twin', type: 'ring', properties: { strength: 1 } }
+  ],
+  bonuses: [{ pieces: 2, description: '+50% attack', multiply: { attack: 1.5 } }],
+  ...overrides
+});
+
+describe('EquipmentStats', () => {
+  describe('validation', () => {
+    it('should reject bonuses that need more pieces than the set has', () => {
+      const data: EquipmentSetData = {
+        version: 1,
+        sets: [createSet({ bonuses: [{ pieces: 3, description: 'Too many', add: { attack: 1 } }] })]
+      };
+
+      expect(() => new EquipmentStats(data)).toThrow('Invalid bonuses for equipment set: twins');
+    });
+
+    it('should reject unknown on-hit effects and slots', () => {
+      const effect = {
+        version: 1,
+        sets: [{ ...createSet(), bonuses: [{ pieces: 2, description: 'Odd', onHit: [{ chance: 0.5, type: 'burn', duration: 2, potency: 1 }] }] }]
+      } as unknown as EquipmentSetData;
+      const slot = {
+        version: 1,
+        sets: [{ ...createSet(), pieces: [{ name: 'Cape', type: 'cloak', properties: {} }, createSet().pieces[0]] }]
+      } as unknown as EquipmentSetData;
+
+      expect(() => new EquipmentStats(effect)).toThrow(GameError);
+      expect(() => new EquipmentStats(slot)).toThrow('Invalid pieces for equipment set: twins');
+    });
+  });
+
+  describe('modifiers', () => {
+    const stats = new EquipmentStats({ version: 1, sets: [createSet()] });
+
+    it('should add flat bonuses before compounding multipliers', () => {
+      const equipment = {
+        weapon: createItem('weapon', { attack: 4, multipliers: { attack: 1.5 } }),
+        helmet: createItem('helmet', { defense: 2 }),
+        boots: createItem('boots', { agility: 1, multipliers: { agility: 2 } }),
+        ring: createItem('ring', { multipliers: { attack: 2 } })
+      };
+
+      expect(stats.getAttackPower(equipment, 10)).toBe(42); // (10 + 4) * 1.5 * 2
+      expect(stats.getStat(equipment, 'defense', 5)).toBe(7);
+      expect(stats.getStat(equipment, 'agility', 5)).toBe(12);
+    });
+
+    it('should apply set bonuses once enough pieces are equipped', () => {
+      const set = stats.getSet('twins')!;
+      const weapon = stats.createPiece(set, set.pieces[0]!, 'left', { x: 0, y: 0 });
+      const ring = stats.createPiece(set, set.pieces[1]!, 'right', { x: 0, y: 0 });
+
+      expect(stats.getAttackPower({ weapon }, 10)).toBe(12);
+      expect(stats.getAttackPower({ weapon, ring }, 10)).toBe(19); // (10 + 1 strength + 2) * 1.5
+      expect(stats.getActiveSets({ weapon, ring })).toEqual([{ set, pieces: 2, bonuses: set.bonuses }]);
+    });
+
+    it('should collect on-hit effects with their source', () => {
+      const weapon = createItem('weapon', { onHit: [{ chance: 0.5, type: 'poison', duration: 2, potency: 1 }] });
+
+      expect(stats.getModifiers({ weapon }).onHit).toEqual([
+        { chance: 0.5, type: 'poison', duration: 2, potency: 1, source: 'Test weapon' }
+      ]);
+    });
+  });
+});
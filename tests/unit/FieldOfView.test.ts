@@ -0,0 +1,68 @@
+import { FieldOfView, VisibilityLookup, tileKey } from '../../src/dungeon/FieldOfView';
+import { Coordinate } from '../../src/types/GameTypes';
+
+// Builds a transparency check from an ASCII map where '#' blocks sight
+const fromMap = (rows: string[]) => (position: Coordinate): boolean =>
+  rows[position.y]?.[position.x] === '.';
+
+describe('FieldOfView', () => {
+  const room = [
+    '###########',
+    '#.........#',
+    '#.........#',
+    '#....#....#',
+    '#.........#',
+    '###########'
+  ];
+
+  it('should see the whole open room and its walls', () => {
+    const visible = new FieldOfView(10).compute({ x: 1, y: 1 }, fromMap(room));
+
+    expect(visible.has(tileKey({ x: 1, y: 1 }))).toBe(true);
+    expect(visible.has(tileKey({ x: 9, y: 1 }))).toBe(true);
+    expect(visible.has(tileKey({ x: 10, y: 1 }))).toBe(true); // far wall
+    expect(visible.has(tileKey({ x: 5, y: 3 }))).toBe(true); // the pillar itself
+  });
+
+  it('should not see through a pillar', () => {
+    const visible = new FieldOfView(10).compute({ x: 3, y: 3 }, fromMap(room));
+
+    expect(visible.has(tileKey({ x: 4, y: 3 }))).toBe(true);
+    expect(visible.has(tileKey({ x: 7, y: 3 }))).toBe(false);
+  });
+
+  it('should not see past walls into the next room', () => {
+    const split = [
+      '#########',
+      '#...#...#',
+      '#...#...#',
+      '#########'
+    ];
+    const visible = new FieldOfView(10).compute({ x: 1, y: 1 }, fromMap(split));
+
+    expect(visible.has(tileKey({ x: 4, y: 1 }))).toBe(true);
+    expect(visible.has(tileKey({ x: 6, y: 1 }))).toBe(false);
+  });
+
+  it('should stop at the sight radius', () => {
+    const corridor = ['.'.repeat(30)];
+    const visible = new FieldOfView(5).compute({ x: 0, y: 0 }, fromMap(corridor));
+
+    expect(visible.has(tileKey({ x: 5, y: 0 }))).toBe(true);
+    expect(visible.has(tileKey({ x: 6, y: 0 }))).toBe(false);
+  });
+});
+
+describe('VisibilityLookup', () => {
+  it('should tell visible, remembered and unseen tiles apart', () => {
+    const lookup = new VisibilityLookup({ visibleTiles: ['1,1'], exploredTiles: ['1,1', '2,2'] });
+
+    expect(lookup.get({ x: 1, y: 1 })).toBe('visible');
+    expect(lookup.get({ x: 2, y: 2 })).toBe('remembered');
+    expect(lookup.get({ x: 3, y: 3 })).toBe('unseen');
+  });
+
+  it('should treat states without a field of view as fully visible', () => {
+    expect(new VisibilityLookup({}).get({ x: 3, y: 3 })).toBe('visible');
+  });
+});
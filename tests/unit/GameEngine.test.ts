@@ -1,5 +1,19 @@
 import { GameEngine } from '../../src/engine/GameEngine';
-import { PlayerAction } from '../../src/types/GameTypes';
+import { Coordinate, PlayerAction } from '../../src/types/GameTypes';
+import { DamageResolver } from '../../src/combat/DamageResolver';
+import { Enemy } from '../../src/combat/Enemy';
+import { RandomSource } from '../../src/utils/Random';
+
+const engineCast = (engine: GameEngine, spellId: string) =>
+  engine['handlePlayerAction']({ type: 'cast_spell', spellId, timestamp: Date.now() });
+
+// Rolls the bottom of every range, so every attack and spell lands
+class SureRandom implements RandomSource {
+  next(): number { return 0; }
+  nextInt(min: number): number { return min; }
+  chance(): boolean { return true; }
+  pick<T>(items: readonly T[]): T { return items[0] as T; }
+}
 
 describe('GameEngine', () => {
   let gameEngine: GameEngine;
@@ -95,4 +109,454 @@ describe('GameEngine', () => {
     expect(gameState.player.maxHealth).toBeGreaterThan(0);
     expect(gameState.difficulty).toMatch(/^(easy|medium|hard)$/);
   });
-});
\ No newline at end of file
+
+  test('should start a new game as the chosen class and keep it across save and load', () => {
+    gameEngine.startNewGame('rogue');
+    const state = gameEngine.getGameState();
+
+    expect(state.floor).toBe(1);
+    expect(state.player).toMatchObject({ classId: 'rogue', learnedSpells: ['venom_strike'], level: 1 });
+    expect(state.player.equipment.weapon?.name).toBe('Dagger');
+    expect(state.validate()).toBe(true);
+
+    const newEngine = new GameEngine();
+    newEngine.loadGame(gameEngine.saveGame());
+
+    expect(newEngine.getGameState().player.classId).toBe('rogue');
+    newEngine.stop();
+  });
+
+  test('should spend and refund talent points between fights and keep them across save and load', () => {
+    const state = JSON.parse(gameEngine.saveGame());
+    state.player.level = 2;
+    state.player.talentPoints = 1;
+    gameEngine.loadGame(JSON.stringify(state));
+
+    expect(gameEngine.spendTalentPoint('toughness')).toBeNull();
+    expect(gameEngine.getGameState().player).toMatchObject({ talentPoints: 0, talents: { toughness: 1 }, maxHealth: 110 });
+
+    const newEngine = new GameEngine();
+    newEngine.loadGame(gameEngine.saveGame());
+    expect(newEngine.getGameState().player.talents).toEqual({ toughness: 1 });
+    newEngine.stop();
+
+    expect(gameEngine.respecTalents()).toBeNull();
+    expect(gameEngine.respecTalents()).toBe('nothing_to_refund');
+    expect(gameEngine.getGameState().player).toMatchObject({ talentPoints: 1, maxHealth: 100 });
+  });
+
+  test('should pick up what lies underfoot and drop it again', () => {
+    const state = JSON.parse(gameEngine.saveGame());
+    const position = state.player.position;
+    state.enemies = [];
+    state.player.gold = 0;
+    state.player.inventory = [];
+    state.items = [
+      { id: 'floor_potion', name: 'Health Potion', type: 'consumable', position, properties: { effect: 'heal' }, quantity: 2 },
+      { id: 'floor_gold', name: 'Gold Coins', type: 'treasure', position, properties: { value: 12 } }
+    ];
+    gameEngine.loadGame(JSON.stringify(state));
+    const events: string[] = [];
+    gameEngine.onItem(event => events.push(`${event.type}:${event.items.length}`));
+    gameEngine['gameState'].player.health = 30; // Hurt after loading, the way a trap would
+
+    gameEngine['handlePlayerAction']({ type: 'pick_up', timestamp: Date.now() });
+
+    let player = gameEngine.getGameState().player;
+    expect(player.gold).toBe(12);
+    expect(player.health).toBe(30);
+    expect(player.inventory).toMatchObject([{ id: 'floor_potion', quantity: 2 }]);
+    expect(gameEngine.getGameState().items).toEqual([]);
+
+    gameEngine['handlePlayerAction']({ type: 'drop', item: player.inventory[0]!, timestamp: Date.now() });
+
+    player = gameEngine.getGameState().player;
+    expect(player.inventory).toEqual([]);
+    expect(gameEngine.getGameState().items).toMatchObject([{ id: 'floor_potion', position, quantity: 2 }]);
+    expect(events).toEqual(['picked_up:2', 'dropped:1']);
+  });
+
+  test('should heal the player with a potion used outside combat', () => {
+    const state = JSON.parse(gameEngine.saveGame());
+    const position = state.player.position;
+    state.enemies = [];
+    state.player.inventory = [
+      { id: 'potion', name: 'Health Potion', type: 'consumable', position, properties: { effect: 'heal', amount: 30 }, quantity: 2 }
+    ];
+    gameEngine.loadGame(JSON.stringify(state));
+    gameEngine['gameState'].player.health = 40;
+
+    const potion = gameEngine.getGameState().player.inventory[0]!;
+    gameEngine['handlePlayerAction']({ type: 'use_item', item: potion, timestamp: Date.now() });
+
+    const player = gameEngine.getGameState().player;
+    expect(player.health).toBe(70);
+    expect(player.inventory.map(item => [item.id, item.quantity ?? 1])).toEqual([['potion', 1]]);
+  });
+
+  test('should not close a door on an enemy or item in the doorway', () => {
+    const state = JSON.parse(gameEngine.saveGame());
+    const { x, y } = state.player.position;
+    const doorway = { x: x + 1, y };
+    state.enemies = [];
+    state.isInCombat = false;
+    state.dungeon.doors = [{ id: 'door_0', position: doorway, roomId: 'room_0', corridorId: 'corridor_0', state: 'open' }];
+    state.items = [{ id: 'dagger', name: 'Dagger', type: 'weapon', position: doorway, properties: { attack: 2 } }];
+    gameEngine.loadGame(JSON.stringify(state));
+    const closeDoor = () => gameEngine['handlePlayerAction']({ type: 'interact', direction: 'east', timestamp: Date.now() });
+    const doorState = () => gameEngine.getGameState().dungeon.doors![0]!.state;
+
+    closeDoor();
+    expect(doorState()).toBe('open');
+
+    gameEngine['gameState'].items = [];
+    gameEngine['gameState'].enemies = [new Enemy({ name: 'Goblin', position: doorway, aiType: 'guard' })];
+    closeDoor();
+    expect(doorState()).toBe('open');
+
+    gameEngine['gameState'].enemies = [];
+    closeDoor();
+    expect(doorState()).toBe('closed');
+  });
+
+  test('should craft known recipes and discover others by combining items', () => {
+    const state = JSON.parse(gameEngine.saveGame());
+    const book = gameEngine.getRecipeBook();
+    const position = state.player.position;
+    state.enemies = [];
+    state.isInCombat = false;
+    state.player.inventory = [
+      { ...book.createMaterial(book.getMaterial('healing_herb')!, 'herbs', position), quantity: 4 },
+      book.createMaterial(book.getMaterial('slime_gel')!, 'gel', position)
+    ];
+    gameEngine.loadGame(JSON.stringify(state));
+    gameEngine['gameState'].player.health = 25;
+    gameEngine['gameState'].player.mana = 10;
+    const events: string[] = [];
+    gameEngine.onCraft(event => events.push(`${event.recipeId ?? '-'}:${event.failure ?? event.discovered}`));
+
+    expect(gameEngine.craft('herbal_remedy')).toBeNull();
+    expect(gameEngine.combineItems(['gel'])).toBe('no_recipe');
+    const potion = gameEngine.getGameState().player.inventory.find(item => item.name === 'Health Potion')!;
+    expect(gameEngine.combineItems(['herbs', 'gel', potion.id])).toBeNull();
+
+    const player = gameEngine.getGameState().player;
+    expect(player.knownRecipes).toEqual(['greater_remedy']);
+    expect(player).toMatchObject({ health: 25, mana: 10 });
+    expect(player.inventory.map(item => item.name)).toEqual(['Greater Health Potion']);
+    expect(events).toEqual(['herbal_remedy:false', '-:no_recipe', 'greater_remedy:true']);
+  });
+
+  describe('floor progression', () => {
+    // Save the current state with the player standing on the stairs, then reload it
+    const moveOntoStairs = (engine: GameEngine) => {
+      const state = JSON.parse(engine.saveGame());
+      state.player.position = { ...state.dungeon.stairsDown };
+      engine.loadGame(JSON.stringify(state));
+    };
+
+    test('should start on the first floor', () => {
+      expect(gameEngine.getCurrentFloor()).toBe(1);
+      expect(gameEngine.getGameState().dungeon.stairsDown).toBeDefined();
+    });
+
+    test('should not descend when the player is not on the stairs', () => {
+      const state = JSON.parse(gameEngine.saveGame());
+      state.player.position = { x: state.dungeon.stairsDown.x + 1, y: state.dungeon.stairsDown.y };
+      gameEngine.loadGame(JSON.stringify(state));
+
+      expect(gameEngine.descend()).toBe(false);
+      expect(gameEngine.getCurrentFloor()).toBe(1);
+    });
+
+    test('should descend to a new floor and keep player progress', () => {
+      moveOntoStairs(gameEngine);
+      const before = gameEngine.getGameState();
+
+      expect(gameEngine.descend()).toBe(true);
+
+      const after = gameEngine.getGameState();
+      expect(after.floor).toBe(2);
+      expect(after.dungeon.seed).not.toBe(before.dungeon.seed);
+      expect(after.player.level).toBe(before.player.level);
+      expect(after.player.experience).toBe(before.player.experience);
+      expect(after.player.inventory).toEqual(before.player.inventory);
+      expect(after.validate()).toBe(true);
+    });
+
+    test('should keep the floor across save and load', () => {
+      moveOntoStairs(gameEngine);
+      gameEngine.descend();
+
+      const newEngine = new GameEngine();
+      newEngine.loadGame(gameEngine.saveGame());
+
+      expect(newEngine.getCurrentFloor()).toBe(2);
+      newEngine.stop();
+    });
+  });
+
+  describe('combat rewards', () => {
+    // Reload the current state with a single weak goblin next to the player, plus any bystanders
+    const placeWeakGoblin = (engine: GameEngine, bystanders: object[] = []) => {
+      const state = JSON.parse(engine.saveGame());
+      const { x, y } = state.player.position;
+      state.enemies = [...bystanders, {
+        id: 'weak_goblin',
+        name: 'Goblin',
+        type: 'goblin',
+        position: { x: x + 1, y },
+        health: 1,
+        maxHealth: 1,
+        attackPower: 1,
+        defense: 0,
+        aiType: 'aggressive',
+        experience: 150
+      }];
+      engine.loadGame(JSON.stringify(state));
+    };
+
+    const attackUntilCombatEnds = (engine: GameEngine) => {
+      for (let i = 0; i < 30 && engine.getGameState().enemies.some(e => e.id === 'weak_goblin' && e.isAlive()); i++) {
+        engine['handlePlayerAction']({ type: 'attack', target: 'weak_goblin', timestamp: Date.now() });
+      }
+    };
+
+    test('should award experience and gold and report the level up', () => {
+      const levelUps: number[] = [];
+      gameEngine.onLevelUp(event => levelUps.push(event.level));
+      placeWeakGoblin(gameEngine);
+
+      attackUntilCombatEnds(gameEngine);
+
+      const player = gameEngine.getGameState().player;
+      expect(player.experience).toBe(150);
+      expect(player.level).toBe(2);
+      expect(player.gold).toBeGreaterThanOrEqual(5);
+      expect(levelUps).toEqual([2]);
+    });
+
+    test('should emit a victory with the collected rewards when combat ends', () => {
+      const outcomes: string[] = [];
+      let rewardedExperience = 0;
+      gameEngine.onCombatEnd(event => {
+        outcomes.push(event.outcome);
+        rewardedExperience = event.rewards.experience;
+      });
+      placeWeakGoblin(gameEngine);
+
+      attackUntilCombatEnds(gameEngine);
+
+      expect(outcomes).toEqual(['victory']);
+      expect(rewardedExperience).toBe(150);
+      expect(gameEngine.getGameState().isInCombat).toBe(false);
+    });
+
+    test('should report a victory while enemies outside the fight live on', () => {
+      const outcomes: string[] = [];
+      gameEngine.onCombatEnd(event => outcomes.push(event.outcome));
+      const farRoom = gameEngine.getGameState().dungeon.rooms[gameEngine.getGameState().dungeon.rooms.length - 1]!;
+      placeWeakGoblin(gameEngine, [{
+        id: 'far_goblin',
+        name: 'Goblin',
+        type: 'goblin',
+        position: { ...farRoom.position },
+        health: 30,
+        maxHealth: 30,
+        attackPower: 1,
+        defense: 0,
+        aiType: 'guard',
+        experience: 10
+      }]);
+
+      attackUntilCombatEnds(gameEngine);
+
+      expect(outcomes).toEqual(['victory']);
+      expect(gameEngine.getGameState().enemies.map(enemy => enemy.id)).toEqual(['far_goblin']);
+    });
+
+    test('should pay out a kill made with a spell', () => {
+      const casts: string[][] = [];
+      gameEngine.onSpellCast(event => casts.push(event.defeated));
+      gameEngine['combatSystem']['damageResolver'] = new DamageResolver(new SureRandom());
+      placeWeakGoblin(gameEngine);
+
+      engineCast(gameEngine, 'firebolt');
+
+      const player = gameEngine.getGameState().player;
+      expect(casts).toEqual([['weak_goblin']]);
+      expect(player.experience).toBe(150);
+      expect(player.level).toBe(2);
+      expect(player.mana).toBe(player.maxMana); // The level up refills what the cast spent
+    });
+
+    test('should spend mana on spells cast while exploring', () => {
+      const state = JSON.parse(gameEngine.saveGame());
+      state.enemies = [];
+      state.player.health = 50;
+      state.player.mana = 30;
+      gameEngine.loadGame(JSON.stringify(state));
+
+      engineCast(gameEngine, 'mend');
+
+      const player = gameEngine.getGameState().player;
+      expect(player.mana).toBe(22);
+      expect(player.health).toBeGreaterThan(50);
+    });
+
+    test('should report a fizzled spell without spending mana', () => {
+      const failures: Array<string | undefined> = [];
+      gameEngine.onSpellCast(event => failures.push(event.failure));
+
+      engineCast(gameEngine, 'battle_fury');
+
+      expect(failures).toEqual(['not_learned']);
+      expect(gameEngine.getGameState().player.mana).toBe(gameEngine.getGameState().player.maxMana);
+    });
+  });
+
+  describe('field of view', () => {
+    test('should see the player tile and remember it', () => {
+      const state = gameEngine.getGameState();
+
+      expect(state.isTileVisible(state.player.position)).toBe(true);
+      expect(state.exploredTiles).toContain(`${state.player.position.x},${state.player.position.y}`);
+    });
+
+    test('should hide enemies outside the field of view', () => {
+      const state = gameEngine.getGameState();
+      const visibleIds = gameEngine.getVisibleEnemies().map(enemy => enemy.id);
+
+      state.enemies.forEach(enemy => {
+        expect(visibleIds.includes(enemy.id)).toBe(state.isTileVisible(enemy.position));
+      });
+    });
+
+    test('should keep explored tiles across save and load', () => {
+      const state = JSON.parse(gameEngine.saveGame());
+      state.exploredTiles.push('-5,-5');
+
+      gameEngine.loadGame(JSON.stringify(state));
+
+      expect(gameEngine.getGameState().exploredTiles).toContain('-5,-5');
+    });
+
+    test('should start a new floor unexplored', () => {
+      const state = JSON.parse(gameEngine.saveGame());
+      state.player.position = { ...state.dungeon.stairsDown };
+      state.exploredTiles.push('-5,-5');
+      gameEngine.loadGame(JSON.stringify(state));
+
+      gameEngine.descend();
+
+      const after = gameEngine.getGameState();
+      expect(after.exploredTiles).not.toContain('-5,-5');
+      expect(after.isTileVisible(after.player.position)).toBe(true);
+    });
+  });
+
+  describe('travel', () => {
+    // Reload the current floor without enemies or traps so nothing cuts a walk short
+    const clearFloor = (engine: GameEngine) => {
+      const state = JSON.parse(engine.saveGame());
+      state.enemies = [];
+      state.dungeon.traps = [];
+      engine.loadGame(JSON.stringify(state));
+    };
+
+    const walk = (engine: GameEngine, maxSteps: number = 2000) => {
+      for (let i = 0; i < maxSteps && engine.isTraveling(); i++) {
+        engine['advanceTravel']();
+      }
+    };
+
+    // An explored tile a few steps away from the player
+    const findReachableExploredTile = (engine: GameEngine): Coordinate => {
+      const state = engine.getGameState();
+      const target = state.exploredTiles
+        .map(key => { const [x, y] = key.split(',').map(Number); return { x: x!, y: y! }; })
+        .find(tile => (engine['playerPathfinder'].findPath(state.player.position, tile)?.length ?? 0) >= 2);
+      expect(target).toBeDefined();
+      return target!;
+    };
+
+    test('should walk to a clicked tile one step at a time', () => {
+      clearFloor(gameEngine);
+      const stops: string[] = [];
+      gameEngine.onTravelStop(reason => stops.push(reason));
+      const target = findReachableExploredTile(gameEngine);
+
+      gameEngine.queueAction({ type: 'move', target, timestamp: Date.now() });
+      gameEngine['processInput']();
+      expect(gameEngine.isTraveling()).toBe(true);
+
+      walk(gameEngine);
+
+      expect(gameEngine.getGameState().player.position).toEqual(target);
+      expect(gameEngine.getPlayerCharacter().position).toEqual(target);
+      expect(stops).toEqual(['arrived']);
+    });
+
+    test('should refuse to walk to tiles the player has never seen', () => {
+      const { width, height } = gameEngine.getGameState().dungeon;
+
+      expect(gameEngine.travelTo({ x: width + 5, y: height + 5 })).toBe(false);
+      expect(gameEngine.isTraveling()).toBe(false);
+    });
+
+    test('should stop walking when the player gives another command', () => {
+      clearFloor(gameEngine);
+      const stops: string[] = [];
+      gameEngine.onTravelStop(reason => stops.push(reason));
+      gameEngine.travelTo(findReachableExploredTile(gameEngine));
+
+      gameEngine.queueAction({ type: 'defend', timestamp: Date.now() });
+
+      expect(gameEngine.isTraveling()).toBe(false);
+      expect(stops).toEqual(['interrupted']);
+    });
+
+    test('should auto-explore every reachable tile', () => {
+      clearFloor(gameEngine);
+      const stops: string[] = [];
+      gameEngine.onTravelStop(reason => stops.push(reason));
+      const exploredBefore = gameEngine.getGameState().exploredTiles.length;
+
+      expect(gameEngine.autoExplore()).toBe(true);
+      walk(gameEngine);
+
+      expect(stops).toEqual(['explored']);
+      expect(gameEngine.getGameState().exploredTiles.length).toBeGreaterThan(exploredBefore);
+      expect(gameEngine['getExploreStep']()).toBeNull();
+    });
+
+    test('should stop auto-exploring when an enemy comes into view', () => {
+      const state = JSON.parse(gameEngine.saveGame());
+      state.dungeon.traps = [];
+      state.enemies = [];
+      gameEngine.loadGame(JSON.stringify(state));
+
+      // Hide a sleeping enemy in a reachable room the player cannot see yet
+      const current = gameEngine.getGameState();
+      const lair = current.dungeon.rooms
+        .map(room => ({ x: room.position.x + Math.floor(room.width / 2), y: room.position.y + Math.floor(room.height / 2) }))
+        .find(center => !current.isTileVisible(center) &&
+          gameEngine['playerPathfinder'].findPath(current.player.position, center) !== null);
+      if (!lair) return; // Every room is already in view
+
+      state.enemies = [{
+        id: 'lurker', name: 'Goblin', position: lair, health: 10, maxHealth: 10,
+        attackPower: 1, defense: 0, aiType: 'guard', detectionRange: 0
+      }];
+      gameEngine.loadGame(JSON.stringify(state));
+      const stops: string[] = [];
+      gameEngine.onTravelStop(reason => stops.push(reason));
+
+      gameEngine.autoExplore();
+      walk(gameEngine);
+
+      expect(stops).toEqual(['enemy_spotted']);
+      expect(gameEngine.getVisibleEnemies().map(enemy => enemy.id)).toEqual(['lurker']);
+    });
+  });
+});
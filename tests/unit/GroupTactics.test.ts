@@ -0,0 +1,111 @@
+import { GroupTactics } from '../../src/combat/GroupTactics';
+import { Enemy } from '../../src/combat/Enemy';
+import { Coordinate, PlayerCharacter } from '../../src/types/GameTypes';
+
+describe('GroupTactics', () => {
+  const player: PlayerCharacter = {
+    id: 'player_1',
+    position: { x: 5, y: 5 },
+    health: 100,
+    maxHealth: 100,
+    level: 1,
+    experience: 0,
+    inventory: [],
+    equipment: {},
+    stats: { strength: 10, defense: 5, agility: 8, intelligence: 7 }
+  };
+  const isValidPosition = (pos: Coordinate) => pos.x >= 0 && pos.x < 20 && pos.y >= 0 && pos.y < 20;
+
+  let tactics: GroupTactics;
+
+  beforeEach(() => {
+    tactics = new GroupTactics();
+  });
+
+  describe('roles', () => {
+    it('should put the sturdiest melee fighter in front and the rest on the flanks', () => {
+      const orc = new Enemy({ name: 'Orc', defense: 3, health: 18 });
+      const goblin = new Enemy({ name: 'Goblin', defense: 1, health: 10 });
+      const archer = Enemy.createArcher({ x: 9, y: 5 });
+      const shaman = new Enemy({
+        name: 'Shaman',
+        ability: { name: 'Mend', damageMultiplier: 0, cooldown: 3, healing: 6 }
+      });
+
+      tactics.beginRound([goblin, orc, archer, shaman]);
+
+      expect(tactics.getRoles()).toEqual({
+        [orc.id]: 'tank',
+        [goblin.id]: 'flanker',
+        [archer.id]: 'ranged',
+        [shaman.id]: 'healer'
+      });
+    });
+  });
+
+  describe('movement', () => {
+    it('should never move two enemies onto the same tile', () => {
+      const enemies = [
+        new Enemy({ name: 'Goblin1', position: { x: 4, y: 7 }, detectionRange: 10 }),
+        new Enemy({ name: 'Goblin2', position: { x: 6, y: 7 }, detectionRange: 10 }),
+        new Enemy({ name: 'Goblin3', position: { x: 5, y: 8 }, detectionRange: 10 })
+      ];
+
+      for (let round = 0; round < 4; round++) {
+        tactics.beginRound(enemies);
+        for (const enemy of enemies) {
+          enemy.executeAction(tactics.decideAction(enemy, player, enemies, isValidPosition));
+        }
+
+        const tiles = new Set(enemies.map(enemy => `${enemy.position.x},${enemy.position.y}`));
+        expect(tiles.size).toBe(enemies.length);
+      }
+    });
+
+    it('should send a flanker to the far side of the player from the tank', () => {
+      const tank = new Enemy({ name: 'Orc', position: { x: 6, y: 5 }, defense: 3 });
+      const flanker = new Enemy({ name: 'Goblin', position: { x: 7, y: 7 }, defense: 1, detectionRange: 5 });
+      const group = [tank, flanker];
+
+      for (let round = 0; round < 5; round++) {
+        tactics.beginRound(group);
+        group.forEach(enemy => enemy.executeAction(tactics.decideAction(enemy, player, group, isValidPosition)));
+      }
+
+      expect(tank.position).toEqual({ x: 6, y: 5 });
+      expect(flanker.position).toEqual({ x: 4, y: 5 });
+    });
+  });
+
+  describe('support', () => {
+    it('should let a guard call nearby allies into the fight once', () => {
+      const guard = new Enemy({ name: 'Guard', position: { x: 5, y: 6 }, aiType: 'guard' });
+      const nearby = new Enemy({ name: 'Goblin', position: { x: 8, y: 8 } });
+      const distant = new Enemy({ name: 'Orc', position: { x: 15, y: 15 } });
+      const allies = [guard, nearby, distant];
+
+      expect(tactics.callForHelp(guard, player, allies)).toEqual([nearby.id]);
+      expect(nearby.canDetectPlayer(player)).toBe(true);
+      expect(distant.canDetectPlayer(player)).toBe(false);
+      expect(tactics.callForHelp(guard, player, allies)).toEqual([]);
+    });
+
+    it('should have a healer mend the most wounded ally in reach', () => {
+      const shaman = new Enemy({
+        name: 'Shaman',
+        position: { x: 5, y: 8 },
+        aiType: 'defensive',
+        ability: { name: 'Mend', damageMultiplier: 0, cooldown: 3, healing: 6 }
+      });
+      const scratched = new Enemy({ name: 'Goblin', position: { x: 5, y: 6 }, health: 8, maxHealth: 20 });
+      const bleeding = new Enemy({ name: 'Orc', position: { x: 6, y: 6 }, health: 3, maxHealth: 20 });
+      const allies = [shaman, scratched, bleeding];
+      tactics.beginRound(allies);
+
+      const action = tactics.decideAction(shaman, player, allies, isValidPosition);
+
+      expect(action).toMatchObject({ type: 'special_ability', target: bleeding.id, healing: 6 });
+      expect(tactics.decideAction(shaman, player, allies, isValidPosition).type).not.toBe('special_ability');
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { InventorySystem } from '../../src/player/Inventory';
+import { Item } from '../../src/types/GameTypes';
+import { MAX_INVENTORY_SLOTS, MAX_STACK_SIZE } from '../../src/utils/Constants';
+
+const createItem = (id: string, type: Item['type'], properties: Record<string, any> = {}, quantity?: number): Item => ({
+  id,
+  name: `Test ${type}`,
+  type,
+  position: { x: 0, y: 0 },
+  properties,
+  ...(quantity !== undefined ? { quantity } : {})
+});
+
+describe('InventorySystem', () => {
+  const inventory = new InventorySystem();
+
+  describe('stacking', () => {
+    it('should stack matching consumables and keep gear apart', () => {
+      const items: Item[] = [];
+
+      inventory.add(items, createItem('potion_1', 'consumable', { effect: 'heal' }));
+      inventory.add(items, createItem('potion_2', 'consumable', { effect: 'heal' }, 2));
+      inventory.add(items, createItem('sword_1', 'weapon'));
+      inventory.add(items, createItem('sword_2', 'weapon'));
+
+      expect(items.map(item => [item.id, inventory.getQuantity(item)])).toEqual([
+        ['potion_1', 3],
+        ['sword_1', 1],
+        ['sword_2', 1]
+      ]);
+    });
+
+    it('should not stack consumables whose properties differ', () => {
+      const items: Item[] = [];
+
+      inventory.add(items, createItem('potion', 'consumable', { effect: 'heal', amount: 20 }));
+      inventory.add(items, createItem('potent_potion', 'consumable', { effect: 'heal', amount: 30 }));
+
+      expect(items).toHaveLength(2);
+    });
+
+    it('should spill a full stack into new slots', () => {
+      const items: Item[] = [createItem('arrows', 'consumable', {}, MAX_STACK_SIZE - 1)];
+
+      expect(inventory.add(items, createItem('more_arrows', 'consumable', {}, MAX_STACK_SIZE + 2))).toBe(true);
+
+      expect(items.map(item => [item.id, inventory.getQuantity(item)])).toEqual([
+        ['arrows', MAX_STACK_SIZE],
+        ['more_arrows', MAX_STACK_SIZE],
+        ['more_arrows_1', 1]
+      ]);
+    });
+
+    it('should add nothing unless all of it fits', () => {
+      const items: Item[] = Array.from({ length: MAX_INVENTORY_SLOTS - 1 }, (_, i) => createItem(`gem_${i}`, 'treasure'));
+
+      expect(inventory.add(items, createItem('potions', 'consumable', {}, MAX_STACK_SIZE + 1))).toBe(false);
+      expect(items).toHaveLength(MAX_INVENTORY_SLOTS - 1);
+      expect(inventory.add(items, createItem('potions', 'consumable', {}, MAX_STACK_SIZE - 1))).toBe(true);
+      expect(inventory.add(items, createItem('potion', 'consumable'))).toBe(true);
+      expect(inventory.add(items, createItem('last_potion', 'consumable'))).toBe(false);
+      expect(inventory.add(items, createItem('sword', 'weapon'))).toBe(false);
+    });
+
+    it('should use up one item at a time', () => {
+      const items: Item[] = [createItem('potions', 'consumable', {}, 2)];
+
+      expect(inventory.consume(items, 'potions')?.quantity).toBeUndefined();
+      expect(inventory.getQuantity(items[0]!)).toBe(1);
+      expect(inventory.consume(items, 'potions')).not.toBeNull();
+      expect(items).toEqual([]);
+      expect(inventory.consume(items, 'potions')).toBeNull();
+    });
+  });
+
+  describe('carry weight', () => {
+    const carrier = (items: Item[], strength: number) => ({ inventory: items, equipment: {}, stats: { strength } });
+
+    it('should cost agility once the load passes the capacity', () => {
+      const heavy = [createItem('anvil', 'treasure', { weight: 50 })];
+
+      expect(inventory.getEncumbrance(carrier(heavy, 5), true)).toEqual({ weight: 50, capacity: 55, agilityPenalty: 0 });
+      expect(inventory.getEncumbrance(carrier(heavy, 2), true)).toEqual({ weight: 50, capacity: 46, agilityPenalty: 1 });
+    });
+
+    it('should count stacks and equipped gear, and drop the penalty when carry weight is off', () => {
+      const load = {
+        ...carrier([createItem('potions', 'consumable', {}, 10)], 0),
+        equipment: { armor: createItem('plate', 'armor', { weight: 45 }) }
+      };
+
+      expect(inventory.getEncumbrance(load, true)).toEqual({ weight: 55, capacity: 40, agilityPenalty: 3 });
+      expect(inventory.getEncumbrance(load, false).agilityPenalty).toBe(0);
+    });
+  });
+
+  describe('sorting and filtering', () => {
+    const items = [
+      createItem('key', 'key'),
+      createItem('potion', 'consumable', { value: 5 }),
+      createItem('sword', 'weapon', { value: 40 }),
+      createItem('ring', 'ring', { value: 90 })
+    ];
+
+    it('should sort copies by type, value and weight', () => {
+      expect(inventory.sort(items, 'type').map(item => item.id)).toEqual(['sword', 'ring', 'potion', 'key']);
+      expect(inventory.sort(items, 'value').map(item => item.id)).toEqual(['ring', 'sword', 'potion', 'key']);
+      expect(inventory.sort(items, 'weight').map(item => item.id)).toEqual(['sword', 'potion', 'key', 'ring']);
+      expect(items[0]?.id).toBe('key');
+    });
+
+    it('should filter equipment, consumables and keys', () => {
+      expect(inventory.filter(items, 'equipment').map(item => item.id)).toEqual(['sword', 'ring']);
+      expect(inventory.filter(items, 'consumable').map(item => item.id)).toEqual(['potion']);
+      expect(inventory.filter(items, 'key').map(item => item.id)).toEqual(['key']);
+      expect(inventory.filter(items, 'all')).toHaveLength(4);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { LootGenerator, LootContext, LOOT_TABLES } from '../../src/dungeon/LootGenerator';
+import { SeededRandom } from '../../src/utils/Random';
+import { GameError } from '../../src/utils/ErrorHandling';
+import { defaultRecipeBook } from '../../src/player/RecipeBook';
+
+describe('LootGenerator', () => {
+  const context = (depth: number = 1): LootContext => ({
+    depth,
+    idPrefix: 'loot',
+    getPosition: () => ({ x: 2, y: 3 })
+  });
+
+  let generator: LootGenerator;
+
+  beforeEach(() => {
+    generator = new LootGenerator();
+  });
+
+  it('should roll the same loot for the same seed', () => {
+    const first = generator.rollTable('room_treasure', context(), new SeededRandom(7));
+    const second = generator.rollTable('room_treasure', context(), new SeededRandom(7));
+
+    expect(second).toEqual(first);
+  });
+
+  it('should throw for an unknown table', () => {
+    expect(() => generator.rollTable('missing', context(), new SeededRandom(1))).toThrow(GameError);
+  });
+
+  it('should respect the table drop chance and roll count', () => {
+    const lootGenerator = new LootGenerator({
+      never: { chance: 0, rolls: [1, 1], entries: [{ category: 'gold', weight: 1 }], rarityBonus: 0 },
+      always: { chance: 1, rolls: [3, 3], entries: [{ category: 'gold', weight: 1 }], rarityBonus: 0 }
+    });
+    const random = new SeededRandom(3);
+
+    expect(lootGenerator.rollTable('never', context(), random)).toEqual([]);
+
+    const items = lootGenerator.rollTable('always', context(), random);
+    expect(items.map(item => item.id)).toEqual(['loot_0', 'loot_1', 'loot_2']);
+    items.forEach(item => {
+      expect(item.type).toBe('treasure');
+      expect(item.position).toEqual({ x: 2, y: 3 });
+      expect(item.properties['value']).toBeGreaterThan(0);
+    });
+  });
+
+  it('should give equipment the stats combat reads', () => {
+    const random = new SeededRandom(11);
+
+    const weapon = generator.createItem('weapon', 'common', 'w', context(), random);
+    const armor = generator.createItem('armor', 'common', 'a', context(), random);
+    const potion = generator.createItem('consumable', 'common', 'p', context(), random);
+
+    expect(weapon.properties['attack']).toBeGreaterThan(0);
+    expect(armor.properties['defense']).toBeGreaterThan(0);
+    expect(['heal', 'strength_boost', 'ammo']).toContain(potion.properties['effect']);
+    expect(potion.properties['amount']).toBeGreaterThan(0);
+  });
+
+  it('should scale ammo but not range with rarity', () => {
+    const random = new SeededRandom(9);
+    const ranged = Array.from({ length: 40 }, (_, i) => generator.createItem('weapon', 'legendary', `w${i}`, context(), random))
+      .filter(item => item.properties['range'] !== undefined);
+
+    expect(ranged.length).toBeGreaterThan(0);
+    ranged.forEach(item => {
+      expect([3, 5, 6]).toContain(item.properties['range']);
+      expect(item.properties['ammo']).toBeGreaterThan(10);
+    });
+  });
+
+  it('should add affixes to rarer items and name them after the affixes', () => {
+    const random = new SeededRandom(5);
+
+    const common = generator.createItem('accessory', 'common', 'c', context(), random);
+    const legendary = generator.createItem('accessory', 'legendary', 'l', context(), random);
+
+    expect(common.properties['affixes']).toEqual([]);
+    expect(legendary.properties['rarity']).toBe('legendary');
+    expect(legendary.properties['affixes']).toHaveLength(3);
+    legendary.properties['affixes'].forEach((affix: string) => expect(legendary.name).toContain(affix));
+  });
+
+  it('should drop pieces of equipment sets with their fixed stats', () => {
+    const piece = generator.createItem('set_piece', 'common', 's', context(), new SeededRandom(3));
+
+    expect(piece.properties['set']).toEqual(expect.any(String));
+    expect(piece.properties['rarity']).toBe('epic');
+    expect(['weapon', 'armor', 'helmet', 'boots', 'ring']).toContain(piece.type);
+  });
+
+  it('should drop crafting materials that are not gold', () => {
+    const material = generator.createItem('material', 'legendary', 'm', context(), new SeededRandom(5));
+
+    expect(material.type).toBe('treasure');
+    expect(defaultRecipeBook.getMaterial(material.properties['material'])?.name).toBe(material.name);
+    expect(material.properties['rarity']).toBeUndefined();
+  });
+
+  it('should find rarer items on deeper floors', () => {
+    const rareCount = (depth: number) => {
+      const random = new SeededRandom(9);
+      let count = 0;
+      for (let i = 0; i < 300; i++) {
+        const items = generator.rollTable('room_treasure', context(depth), random);
+        count += items.filter(item => item.properties['rarity'] !== 'common').length;
+      }
+      return count;
+    };
+
+    expect(rareCount(8)).toBeGreaterThan(rareCount(1));
+  });
+
+  it('should find rarer items with more luck', () => {
+    const rareCount = (luck: number) => {
+      const random = new SeededRandom(9);
+      let count = 0;
+      for (let i = 0; i < 300; i++) {
+        const items = generator.rollTable('room_treasure', { ...context(), luck }, random);
+        count += items.filter(item => item.properties['rarity'] !== 'common').length;
+      }
+      return count;
+    };
+
+    expect(rareCount(0.45)).toBeGreaterThan(rareCount(0));
+  });
+
+  it('should define a table for every room type', () => {
+    for (const type of ['normal', 'treasure', 'boss', 'secret']) {
+      expect(LOOT_TABLES[`room_${type}`]).toBeDefined();
+    }
+  });
+});
@@ -193,6 +193,92 @@ describe('MovementController', () => {
     });
   });
 
+  describe('secret passages', () => {
+    beforeEach(() => {
+      dungeon.corridors[0]!.hidden = true;
+      dungeon.corridors[0]!.discovered = false;
+    });
+
+    it('should treat an undiscovered passage as a wall', () => {
+      expect(movementController.validateMovement({ x: 6, y: 4 }).success).toBe(false);
+    });
+
+    it('should reveal a passage when standing next to its entrance', () => {
+      expect(movementController.discoverSecretsNear({ x: 3, y: 3 })).toEqual([]);
+
+      const found = movementController.discoverSecretsNear({ x: 5, y: 4 });
+
+      expect(found.map(corridor => corridor.id)).toEqual(['corridor1']);
+      expect(movementController.validateMovement({ x: 6, y: 4 }).success).toBe(true);
+    });
+
+    it('should only report a passage the first time it is found', () => {
+      movementController.discoverSecretsNear({ x: 5, y: 4 });
+
+      expect(movementController.discoverSecretsNear({ x: 5, y: 4 })).toEqual([]);
+    });
+  });
+
+  describe('doors', () => {
+    beforeEach(() => {
+      dungeon.doors = [{ id: 'door_0', position: { x: 6, y: 4 }, roomId: 'room1', corridorId: 'corridor1', state: 'closed' }];
+      player.moveTo({ x: 5, y: 4 });
+    });
+
+    const moveEast: PlayerAction = { type: 'move', direction: 'east', timestamp: 0 };
+
+    it('should open a closed door when walking into it', () => {
+      const result = movementController.executeMovement(moveEast);
+
+      expect(result.success).toBe(false);
+      expect(result.door?.state).toBe('open');
+      expect(player.position).toEqual({ x: 5, y: 4 });
+      expect(movementController.executeMovement(moveEast).success).toBe(true);
+    });
+
+    it('should keep a locked door shut without its key', () => {
+      dungeon.doors![0]!.state = 'locked';
+      dungeon.doors![0]!.keyId = 'key_door_0';
+
+      const result = movementController.openDoor({ x: 6, y: 4 });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('The door is locked');
+      expect(movementController.validateMovement({ x: 6, y: 4 }).success).toBe(false);
+    });
+
+    it('should unlock a door with its key and use the key up', () => {
+      dungeon.doors![0]!.state = 'locked';
+      dungeon.doors![0]!.keyId = 'key_door_0';
+      player.addItem({ id: 'key_door_0', name: 'Iron Key', type: 'key', position: { x: 0, y: 0 }, properties: {} });
+
+      const result = movementController.openDoor({ x: 6, y: 4 });
+
+      expect(result.success).toBe(true);
+      expect(dungeon.doors![0]!.state).toBe('open');
+      expect(player.inventory).toHaveLength(0);
+    });
+
+    it('should close an open door but not one out of reach', () => {
+      dungeon.doors![0]!.state = 'open';
+
+      expect(movementController.closeDoor({ x: 6, y: 4 }, () => false).success).toBe(true);
+      expect(dungeon.doors![0]!.state).toBe('closed');
+
+      player.moveTo({ x: 3, y: 3 });
+      expect(movementController.openDoor({ x: 6, y: 4 }).message).toBe('The door is out of reach');
+    });
+
+    it('should not close a door on something in the doorway', () => {
+      dungeon.doors![0]!.state = 'open';
+
+      const result = movementController.closeDoor({ x: 6, y: 4 }, position => position.x === 6 && position.y === 4);
+
+      expect(result).toMatchObject({ success: false, message: 'Something is in the doorway' });
+      expect(dungeon.doors![0]!.state).toBe('open');
+    });
+  });
+
   describe('dungeon updates', () => {
     it('should update dungeon reference', () => {
       const newDungeon: DungeonMap = {
@@ -0,0 +1,93 @@
+import { findPath, DijkstraMap, Pathfinder } from '../../src/dungeon/Pathfinding';
+import { Coordinate } from '../../src/types/GameTypes';
+
+// Builds a walkability check from an ASCII map where '#' is a wall
+const fromMap = (rows: string[]) => (position: Coordinate): boolean =>
+  rows[position.y]?.[position.x] !== undefined && rows[position.y]?.[position.x] !== '#';
+
+const boundsOf = (rows: string[]) => ({ width: rows[0]!.length, height: rows.length });
+
+describe('findPath', () => {
+  const walled = [
+    '.......',
+    '.#####.',
+    '.....#.',
+    '######.',
+    '.......'
+  ];
+
+  it('should walk around walls along the shortest route', () => {
+    const path = findPath({ x: 0, y: 2 }, { x: 0, y: 4 }, fromMap(walled));
+
+    expect(path).not.toBeNull();
+    expect(path).toHaveLength(18);
+    expect(path![path!.length - 1]).toEqual({ x: 0, y: 4 });
+    path!.forEach(step => expect(fromMap(walled)(step)).toBe(true));
+  });
+
+  it('should return an empty path when already at the goal', () => {
+    expect(findPath({ x: 2, y: 2 }, { x: 2, y: 2 }, fromMap(walled))).toEqual([]);
+  });
+
+  it('should return null when the goal is walled off', () => {
+    const sealed = ['..#..', '..#..'];
+
+    expect(findPath({ x: 0, y: 0 }, { x: 4, y: 1 }, fromMap(sealed))).toBeNull();
+    expect(findPath({ x: 0, y: 0 }, { x: 2, y: 0 }, fromMap(sealed))).toBeNull();
+  });
+
+  it('should give up once the search budget runs out', () => {
+    const open = () => true;
+
+    expect(findPath({ x: 0, y: 0 }, { x: 30, y: 0 }, open, { maxNodes: 10 })).toBeNull();
+  });
+
+  it('should route around expensive tiles', () => {
+    const room = ['...', '...', '...'];
+    const avoidCenter = (_from: Coordinate, to: Coordinate) => (to.x === 1 && to.y === 1 ? 10 : 1);
+
+    const path = findPath({ x: 1, y: 0 }, { x: 1, y: 2 }, fromMap(room), { cost: avoidCenter });
+
+    expect(path).toHaveLength(4);
+    expect(path).not.toContainEqual({ x: 1, y: 1 });
+  });
+});
+
+describe('DijkstraMap', () => {
+  const room = [
+    '.....',
+    '.###.',
+    '.....'
+  ];
+
+  it('should measure walking distance to the nearest goal', () => {
+    const map = new DijkstraMap([{ x: 0, y: 0 }], fromMap(room), boundsOf(room));
+
+    expect(map.getDistance({ x: 0, y: 0 })).toBe(0);
+    expect(map.getDistance({ x: 2, y: 2 })).toBe(4);
+    expect(map.getDistance({ x: 2, y: 1 })).toBe(Infinity);
+  });
+
+  it('should step downhill towards a goal and stop on it', () => {
+    const map = new DijkstraMap([{ x: 0, y: 0 }, { x: 4, y: 2 }], fromMap(room), boundsOf(room));
+
+    expect(map.nextStep({ x: 3, y: 2 })).toEqual({ x: 4, y: 2 });
+    expect(map.nextStep({ x: 1, y: 0 })).toEqual({ x: 0, y: 0 });
+    expect(map.nextStep({ x: 0, y: 0 })).toBeNull();
+  });
+});
+
+describe('Pathfinder', () => {
+  const room = ['....', '....'];
+
+  it('should reuse the map for the same goal until the cache is cleared', () => {
+    const pathfinder = new Pathfinder(boundsOf(room), fromMap(room));
+    const map = pathfinder.getDijkstraMap({ x: 0, y: 0 });
+
+    expect(pathfinder.getDijkstraMap({ x: 0, y: 0 })).toBe(map);
+    expect(pathfinder.getDijkstraMap({ x: 3, y: 1 })).not.toBe(map);
+
+    pathfinder.clearCache();
+    expect(pathfinder.getDijkstraMap({ x: 0, y: 0 })).not.toBe(map);
+  });
+});
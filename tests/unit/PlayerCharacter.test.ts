@@ -1,5 +1,6 @@
 import { PlayerCharacter } from '../../src/player/PlayerCharacter';
 import { Item } from '../../src/types/GameTypes';
+import { defaultCharacterClasses } from '../../src/player/CharacterClasses';
 
 describe('PlayerCharacter', () => {
   let player: PlayerCharacter;
@@ -103,6 +104,14 @@ describe('PlayerCharacter', () => {
       expect(player.inventory).not.toContain(testItem);
     });
 
+    it('should stack consumables of the same kind', () => {
+      player.addItem(testItem);
+      player.addItem({ ...testItem, id: 'another_test_item' });
+
+      expect(player.inventory).toHaveLength(1);
+      expect(player.inventory[0]?.quantity).toBe(2);
+    });
+
     it('should return null when removing non-existent item', () => {
       const removedItem = player.removeItem('non_existent');
       
@@ -136,6 +145,78 @@ describe('PlayerCharacter', () => {
       
       expect(player.getEffectiveAttack()).toBe(baseAttack + 5);
     });
+
+    it('should equip accessories and count their affix bonuses', () => {
+      const ring: Item = {
+        id: 'test_ring',
+        name: 'Sharp Ring',
+        type: 'accessory',
+        position: { x: 0, y: 0 },
+        properties: { attack: 2, defense: 1, affixes: ['Sharp', 'Sturdy'] }
+      };
+      const baseAttack = player.getEffectiveAttack();
+      const baseDefense = player.getEffectiveDefense();
+
+      player.addItem(ring);
+      expect(player.equipItem(ring.id)).toBe(true);
+
+      expect(player.equipment.accessory).toEqual(ring);
+      expect(player.getEffectiveAttack()).toBe(baseAttack + 2);
+      expect(player.getEffectiveDefense()).toBe(baseDefense + 1);
+    });
+
+    it('should fill the helmet, boots and ring slots and swap out the old item', () => {
+      const helmet: Item = { id: 'helm', name: 'Iron Helm', type: 'helmet', position: { x: 0, y: 0 }, properties: { defense: 2 } };
+      const oldHelmet: Item = { ...helmet, id: 'cap', name: 'Leather Cap', properties: { defense: 1 } };
+      const boots: Item = { id: 'boots', name: 'Soft Boots', type: 'boots', position: { x: 0, y: 0 }, properties: { agility: 1 } };
+      const ring: Item = {
+        id: 'band',
+        name: 'Band of Might',
+        type: 'ring',
+        position: { x: 0, y: 0 },
+        properties: { multipliers: { attack: 1.5 } }
+      };
+      [oldHelmet, helmet, boots, ring].forEach(item => player.addItem(item));
+
+      [oldHelmet, helmet, boots, ring].forEach(item => expect(player.equipItem(item.id)).toBe(true));
+
+      expect(player.equipment).toMatchObject({ helmet, boots, ring });
+      expect(player.inventory).toEqual([oldHelmet]);
+      expect(player.getEffectiveDefense()).toBe(7);
+      expect(player.getEffectiveAttack()).toBe(15); // 10 strength * 1.5
+      expect(player.unequipItem('ring')).toBe(true);
+      expect(player.getEffectiveAttack()).toBe(10);
+    });
+  });
+
+  describe('mana', () => {
+    it('should refuse to spend more mana than the player has', () => {
+      expect(player.spendMana(25)).toBe(true);
+      expect(player.spendMana(10)).toBe(false);
+      expect(player.mana).toBe(5);
+
+      player.restoreMana(100);
+      expect(player.mana).toBe(player.maxMana);
+    });
+  });
+
+  describe('status effects', () => {
+    it('should include status effect modifiers in effective stats', () => {
+      player.applyStatusEffect({ type: 'strength_boost', duration: 2, potency: 3 });
+      player.applyStatusEffect({ type: 'defense_boost', duration: 1, potency: 2 });
+
+      expect(player.getEffectiveAttack()).toBe(player.stats.strength + 3);
+      expect(player.getEffectiveDefense()).toBe(player.stats.defense + 2);
+    });
+
+    it('should tick effects through the turn hooks', () => {
+      player.applyStatusEffect({ type: 'poison', duration: 1, potency: 4 });
+
+      expect(player.startTurn().damage).toBe(4);
+      expect(player.health).toBe(96);
+      expect(player.endTurn().expired).toEqual(['poison']);
+      expect(player.statusEffects).toHaveLength(0);
+    });
   });
 
   describe('experience and leveling', () => {
@@ -156,6 +237,78 @@ describe('PlayerCharacter', () => {
       expect(player.level).toBeGreaterThan(initialLevel);
       expect(player.stats.strength).toBeGreaterThan(initialStats.strength);
     });
+
+    it('should gain several levels from one large reward', () => {
+      expect(player.gainExperience(300)).toBe(true);
+
+      expect(player.level).toBe(3);
+      expect(player.health).toBe(player.maxHealth);
+    });
+
+    it('should grow and refill the mana pool on level up', () => {
+      player.spendMana(20);
+      player.gainExperience(150);
+
+      expect(player.maxMana).toBe(37); // 30 + 3 + half of 8 intelligence
+      expect(player.mana).toBe(37);
+    });
+
+    it('should grow along the class curve', () => {
+      const mage = new PlayerCharacter(defaultCharacterClasses.createPlayer('mage'));
+      mage.gainExperience(150);
+
+      expect(mage.stats).toEqual({ strength: 7, defense: 4, agility: 9, intelligence: 15 });
+      expect(mage.maxHealth).toBe(84); // 75 + 6 + half of 7 strength
+      expect(mage.maxMana).toBe(57); // 45 + 5 + half of 15 intelligence
+    });
+
+    it('should earn a talent point per level', () => {
+      player.gainExperience(300);
+
+      expect(player.talentPoints).toBe(2);
+      expect(new PlayerCharacter({ level: 4 }).talentPoints).toBe(3); // Saves made before talents existed
+    });
+
+    it('should only add whole, positive amounts of gold', () => {
+      player.addGold(12.7);
+      player.addGold(-5);
+
+      expect(player.gold).toBe(12);
+    });
+  });
+
+  describe('talents', () => {
+    beforeEach(() => {
+      player = new PlayerCharacter({ level: 3, talentPoints: 3 });
+    });
+
+    it('should spend points on talents and apply their bonuses', () => {
+      expect(player.spendTalentPoint('toughness')).toBeNull();
+      expect(player.spendTalentPoint('brawn')).toBeNull();
+
+      expect(player.talents).toEqual({ toughness: 1, brawn: 1 });
+      expect(player.talentPoints).toBe(1);
+      expect(player.maxHealth).toBe(110);
+      expect(player.health).toBe(110);
+      expect(player.stats.strength).toBe(11);
+    });
+
+    it('should check prerequisites before spending', () => {
+      expect(player.spendTalentPoint('iron_skin')).toBe('missing_prerequisite');
+      expect(player.spendTalentPoint('nonsense')).toBe('unknown_talent');
+      expect(player.talentPoints).toBe(3);
+    });
+
+    it('should refund every point and remove the bonuses on a respec', () => {
+      player.spendTalentPoint('toughness');
+      player.spendTalentPoint('iron_skin');
+
+      expect(player.respecTalents()).toBe(2);
+      expect(player.talents).toEqual({});
+      expect(player.talentPoints).toBe(3);
+      expect(player.maxHealth).toBe(100);
+      expect(player.stats.defense).toBe(5);
+    });
   });
 
   describe('serialization', () => {
@@ -170,5 +323,27 @@ describe('PlayerCharacter', () => {
       expect(deserialized.health).toBe(player.health);
       expect(deserialized.level).toBe(player.level);
     });
+
+    it('should keep the class and learned spells', () => {
+      const warrior = new PlayerCharacter(defaultCharacterClasses.createPlayer('warrior'));
+      const deserialized = PlayerCharacter.deserialize(warrior.serialize());
+
+      expect(deserialized.classId).toBe('warrior');
+      expect(deserialized.learnedSpells).toEqual(['shield_bash']);
+      expect(deserialized.getSummary()).toBe('Level 1 Warrior (120/120 HP)');
+    });
+
+    it('should keep talents, points and skill cooldowns', () => {
+      player = new PlayerCharacter({ level: 3, talentPoints: 2 });
+      player.spendTalentPoint('fleet_foot');
+      player.skillCooldowns = { crippling_blow: 2 };
+
+      const deserialized = PlayerCharacter.deserialize(player.serialize());
+
+      expect(deserialized.talents).toEqual({ fleet_foot: 1 });
+      expect(deserialized.talentPoints).toBe(1);
+      expect(deserialized.skillCooldowns).toEqual({ crippling_blow: 2 });
+      expect(deserialized.stats.agility).toBe(player.stats.agility);
+    });
   });
 });
\ No newline at end of file
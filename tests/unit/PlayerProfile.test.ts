@@ -79,6 +79,16 @@ describe('PlayerProfile', () => {
       expect(profile.statistics.averageEfficiency).toBe(0.4);
     });
 
+    it('should count escapes towards efficiency but not the win rate', () => {
+      profile.recordCombatResult('victory', 0.8);
+      profile.recordCombatResult('fled', 0.5);
+
+      expect(profile.statistics.combatsWon).toBe(1);
+      expect(profile.statistics.combatsLost).toBe(0);
+      expect(profile.statistics.combatsFled).toBe(1);
+      expect(profile.statistics.averageEfficiency).toBeCloseTo(0.65);
+    });
+
     it('should update skill level based on performance', () => {
       // Record multiple high-performance wins
       for (let i = 0; i < 5; i++) {
@@ -110,6 +120,12 @@ describe('PlayerProfile', () => {
       expect(restored.preferences).toEqual(profile.preferences);
       expect(restored.statistics).toEqual(profile.statistics);
     });
+
+    it('should keep the chosen character class', () => {
+      profile.setCharacterClass('rogue');
+
+      expect(PlayerProfile.fromJSON(profile.toJSON()).characterClass).toBe('rogue');
+    });
   });
 
   describe('exploration tracking', () => {
@@ -129,6 +145,28 @@ describe('PlayerProfile', () => {
     });
   });
 
+  describe('crafting tracking', () => {
+    it('should count crafted items per recipe and discoveries', () => {
+      profile.recordCraftingOutcome('herbal_remedy');
+      profile.recordCraftingOutcome('bone_tonic', true);
+      profile.recordCraftingOutcome('herbal_remedy');
+
+      expect(profile.statistics).toMatchObject({
+        itemsCrafted: 3,
+        recipesDiscovered: 1,
+        failedCombinations: 0,
+        recipesCrafted: { herbal_remedy: 2, bone_tonic: 1 }
+      });
+    });
+
+    it('should count combinations that made nothing', () => {
+      profile.recordCraftingOutcome(null);
+
+      expect(profile.statistics.failedCombinations).toBe(1);
+      expect(profile.statistics.itemsCrafted).toBe(0);
+    });
+  });
+
   describe('play time tracking', () => {
     it('should update play time correctly', () => {
       const initialTime = profile.statistics.totalPlayTime;
@@ -0,0 +1,106 @@
+import { RecipeBook, Recipe, RecipeData, CraftingHolder } from '../../src/player/RecipeBook';
+import { Item } from '../../src/types/GameTypes';
+import { MAX_INVENTORY_SLOTS } from '../../src/utils/Constants';
+import { SeededRandom } from '../../src/utils/Random';
+
+const createRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  id: 'salve',
+  name: 'Salve',
+  description: 'Herbs and gel',
+  known: true,
+  ingredients: [{ material: 'herb', quantity: 2 }, { material: 'gel', quantity: 1 }],
+  result: { name: 'Salve', type: 'consumable', properties: { effect: 'heal', amount: 15 } },
+  ...overrides
+});
+
+const createData = (recipes: Recipe[] = [createRecipe()]): RecipeData => ({
+  version: 1,
+  materials: [
+    { id: 'herb', name: 'Herb', value: 2, weight: 0, dropWeight: 3 },
+    { id: 'gel', name: 'Gel', value: 1, weight: 1, dropWeight: 1 }
+  ],
+  recipes
+});
+
+describe('RecipeBook', () => {
+  describe('validation', () => {
+    it('should reject unknown materials and two recipes with the same ingredients', () => {
+      const unknownMaterial = createData([createRecipe({ ingredients: [{ material: 'ore', quantity: 1 }] })]);
+      const clash = createData([createRecipe(), createRecipe({ id: 'poultice' })]);
+
+      expect(() => new RecipeBook(unknownMaterial)).toThrow('Invalid ingredients for recipe: salve');
+      expect(() => new RecipeBook(clash)).toThrow('Recipe poultice has the same ingredients as salve');
+    });
+
+    it('should reject results that are not items', () => {
+      const data = createData([createRecipe({ result: { name: 'Spell', type: 'spell' as Item['type'], properties: {} } })]);
+
+      expect(() => new RecipeBook(data)).toThrow('Invalid result for recipe: salve');
+    });
+  });
+
+  describe('crafting', () => {
+    const book = new RecipeBook(createData([
+      createRecipe(),
+      createRecipe({
+        id: 'strong_salve',
+        name: 'Strong Salve',
+        known: false,
+        ingredients: [{ item: 'Salve', quantity: 1 }, { material: 'herb', quantity: 1 }],
+        result: { name: 'Strong Salve', type: 'consumable', properties: { effect: 'heal', amount: 40 } }
+      })
+    ]));
+    const material = (id: string, quantity: number = 1): Item => {
+      const item = book.createMaterial(book.getMaterial(id)!, `${id}_1`, { x: 0, y: 0 });
+      return quantity > 1 ? { ...item, quantity } : item;
+    };
+    const createHolder = (inventory: Item[]): CraftingHolder => ({ position: { x: 1, y: 1 }, inventory });
+
+    it('should turn ingredients into the result', () => {
+      const holder = createHolder([material('herb', 3), material('gel')]);
+
+      expect(book.checkCraft(holder, 'salve')).toBeNull();
+      const item = book.craft(holder, book.getRecipe('salve')!, 'crafted');
+
+      expect(item).toMatchObject({ id: 'crafted', name: 'Salve', position: { x: 1, y: 1 } });
+      expect(holder.inventory.map(carried => [carried.name, carried.quantity ?? 1])).toEqual([['Herb', 1], ['Salve', 1]]);
+    });
+
+    it('should explain why a recipe cannot be crafted', () => {
+      const full = createHolder([
+        material('herb', 3),
+        material('gel', 2),
+        ...Array.from({ length: MAX_INVENTORY_SLOTS - 2 }, (_, i): Item =>
+          ({ id: `key_${i}`, name: 'Key', type: 'key', position: { x: 0, y: 0 }, properties: {} }))
+      ]);
+
+      expect(book.checkCraft(createHolder([material('herb')]), 'salve')).toBe('missing_ingredients');
+      expect(book.checkCraft(createHolder([]), 'strong_salve')).toBe('not_discovered');
+      expect(book.checkCraft(createHolder([]), 'elixir')).toBe('unknown_recipe');
+      expect(book.checkCraft(full, 'salve')).toBe('inventory_full');
+    });
+
+    it('should discover a recipe by combining exactly its ingredients', () => {
+      const holder = createHolder([material('herb'), material('gel')]);
+      book.craft(holder, book.getRecipe('salve')!, 'salve_1');
+      holder.inventory.push(material('herb'));
+
+      const recipe = book.findCombination(holder, holder.inventory.map(item => item.id));
+      expect(recipe?.id).toBe('strong_salve');
+      expect(book.getDiscoverable(holder).map(found => found.id)).toEqual(['strong_salve']);
+      expect(book.findCombination(holder, ['herb_1'])).toBeUndefined();
+
+      book.craft(holder, recipe!, 'strong_1');
+
+      expect(holder.knownRecipes).toEqual(['strong_salve']);
+      expect(holder.inventory.map(item => item.name)).toEqual(['Strong Salve']);
+    });
+
+    it('should pick materials by drop weight', () => {
+      const random = new SeededRandom(11);
+      const picks = Array.from({ length: 200 }, () => book.pickMaterial(random).id);
+
+      expect(picks.filter(id => id === 'herb').length).toBeGreaterThan(picks.filter(id => id === 'gel').length);
+    });
+  });
+});
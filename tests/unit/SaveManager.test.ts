@@ -2,6 +2,7 @@ import { SaveManager, SaveStorage, SaveData } from '../../src/data/SaveManager';
 import { PlayerProfileManager } from '../../src/data/PlayerProfileManager';
 import { PlayerProfile } from '../../src/player/PlayerProfile';
 import { GameState } from '../../src/types/GameTypes';
+import { Enemy } from '../../src/combat/Enemy';
 import { setSuppressErrorLogging } from '../../src/utils/ErrorHandling';
 
 // Mock storage implementation for testing
@@ -174,6 +175,49 @@ describe('SaveManager', () => {
       expect(result).toBeNull();
     });
 
+    it('should restore the explored and visible tiles', async () => {
+      const foggedState = { ...testGameState, visibleTiles: ['1,1'], exploredTiles: ['0,0', '1,1'] };
+      await saveManager.saveGame('fog-save', foggedState, testProfile);
+
+      const result = await saveManager.loadGame('fog-save');
+
+      expect(result!.gameState.visibleTiles).toEqual(['1,1']);
+      expect(result!.gameState.exploredTiles).toEqual(['0,0', '1,1']);
+    });
+
+    it('should treat malformed explored tiles as a corrupted save', async () => {
+      const brokenState = { ...testGameState, exploredTiles: [{ x: 0, y: 0 }] } as unknown as GameState;
+      await saveManager.saveGame('fog-save', brokenState, testProfile);
+
+      expect(await saveManager.loadGame('fog-save')).toBeNull();
+    });
+
+    it('should restore door states', async () => {
+      const door = { id: 'door_0', position: { x: 1, y: 1 }, roomId: 'room1', corridorId: 'c1', state: 'locked' as const, keyId: 'key_door_0' };
+      const doorState = { ...testGameState, dungeon: { ...testGameState.dungeon, doors: [door] } };
+      await saveManager.saveGame('door-save', doorState, testProfile);
+
+      const result = await saveManager.loadGame('door-save');
+
+      expect(result!.gameState.dungeon.doors).toEqual([door]);
+    });
+
+    it('should treat an unknown door state as a corrupted save', async () => {
+      const brokenDoor = { id: 'door_0', position: { x: 1, y: 1 }, roomId: 'room1', corridorId: 'c1', state: 'ajar' };
+      const brokenState = { ...testGameState, dungeon: { ...testGameState.dungeon, doors: [brokenDoor] } } as unknown as GameState;
+      await saveManager.saveGame('door-save', brokenState, testProfile);
+
+      expect(await saveManager.loadGame('door-save')).toBeNull();
+    });
+
+    it('should treat a malformed enemy AI state as a corrupted save', async () => {
+      const brokenEnemy = { ...Enemy.createGuard({ x: 1, y: 1 }).serialize(), lostTrackTurns: -1 };
+      const brokenState = { ...testGameState, enemies: [brokenEnemy] } as unknown as GameState;
+      await saveManager.saveGame('enemy-save', brokenState, testProfile);
+
+      expect(await saveManager.loadGame('enemy-save')).toBeNull();
+    });
+
     it('should throw error if associated profile not found', async () => {
       mockProfileManager.clear();
       
@@ -0,0 +1,110 @@
+import { Spellbook, SpellbookData, SpellCaster } from '../../src/combat/Spellbook';
+
+describe('Spellbook', () => {
+  const data: SpellbookData = {
+    version: 1,
+    spells: [
+      { id: 'bolt', name: 'Bolt', kind: 'damage', minIntelligence: 5, manaCost: 4, cooldown: 0, range: 4, power: 4, scaling: 1 },
+      { id: 'cure', name: 'Cure', kind: 'heal', minIntelligence: 6, manaCost: 6, cooldown: 2, range: 0, power: 10, scaling: 0 },
+      { id: 'blast', name: 'Blast', kind: 'area', minIntelligence: 9, manaCost: 10, cooldown: 3, range: 5, radius: 1, power: 3, scaling: 0.5 }
+    ]
+  };
+  const alwaysVisible = () => true;
+  let spellbook: Spellbook;
+  let caster: SpellCaster;
+
+  beforeEach(() => {
+    spellbook = new Spellbook(data);
+    caster = { position: { x: 5, y: 5 }, stats: { intelligence: 10 }, mana: 20, maxMana: 30 };
+  });
+
+  describe('validation', () => {
+    it('should reject offensive spells without a range and area spells without a radius', () => {
+      const bolt = data.spells[0]!;
+      const blast = data.spells[2]!;
+
+      expect(() => new Spellbook({ version: 1, spells: [{ ...bolt, range: 0 }] })).toThrow('Offensive spell needs a range: bolt');
+      expect(() => new Spellbook({ version: 1, spells: [{ ...blast, radius: undefined as unknown as number }] }))
+        .toThrow('Area spell needs a radius: blast');
+    });
+  });
+
+  describe('learning and casting', () => {
+    it('should know spells by intelligence, easiest first', () => {
+      expect(spellbook.getKnownSpells(6).map(spell => spell.id)).toEqual(['bolt', 'cure']);
+      expect(spellbook.getKnownSpells(4)).toEqual([]);
+    });
+
+    it('should know granted-only spells just when they are learned', () => {
+      const withSignature = new Spellbook({
+        version: 1,
+        spells: [...data.spells, { ...data.spells[0]!, id: 'smite', name: 'Smite', minIntelligence: 0, grantedOnly: true }]
+      });
+
+      expect(withSignature.getKnownSpells(20).map(spell => spell.id)).toEqual(['bolt', 'cure', 'blast']);
+      expect(withSignature.getKnownSpells(4, ['smite']).map(spell => spell.id)).toEqual(['smite']);
+      expect(withSignature.checkCast(caster, 'smite')).toBe('not_learned');
+      expect(withSignature.checkCast({ ...caster, stats: { intelligence: 1 }, learnedSpells: ['smite'] }, 'smite')).toBeNull();
+    });
+
+    it('should explain why a spell cannot be cast', () => {
+      expect(spellbook.checkCast(caster, 'nope')).toBe('unknown_spell');
+      expect(spellbook.checkCast({ ...caster, stats: { intelligence: 5 } }, 'blast')).toBe('not_learned');
+      expect(spellbook.checkCast({ ...caster, mana: 3 }, 'bolt')).toBe('insufficient_mana');
+      expect(spellbook.checkCast({ ...caster, spellCooldowns: { cure: 1 } }, 'cure')).toBe('on_cooldown');
+      expect(spellbook.checkCast(caster, 'bolt')).toBeNull();
+    });
+
+    it('should spend mana and count cooldowns down', () => {
+      spellbook.beginCast(caster, spellbook.getSpell('blast')!);
+      expect(caster.mana).toBe(10);
+      expect(spellbook.getCastableSpells(caster).map(spell => spell.id)).toEqual(['bolt', 'cure']);
+
+      spellbook.tickCooldowns(caster);
+      spellbook.tickCooldowns(caster);
+      expect(caster.spellCooldowns).toEqual({ blast: 1 });
+      spellbook.tickCooldowns(caster);
+      expect(caster.spellCooldowns).toEqual({});
+    });
+
+    it('should scale power with intelligence and cap restored mana', () => {
+      expect(spellbook.getPower(spellbook.getSpell('bolt')!, 10)).toBe(14);
+
+      spellbook.restoreMana(caster, 50);
+      expect(caster.mana).toBe(30);
+    });
+  });
+
+  describe('targeting', () => {
+    const near = { id: 'near', position: { x: 7, y: 5 } };
+    const far = { id: 'far', position: { x: 12, y: 5 } };
+    const beside = { id: 'beside', position: { x: 7, y: 6 } };
+
+    it('should pick the nearest enemy in range when no target is given', () => {
+      const targeting = spellbook.selectTargets(caster, spellbook.getSpell('bolt')!, undefined, [far, near], alwaysVisible);
+
+      expect(targeting.targets).toEqual([near]);
+    });
+
+    it('should refuse targets out of range or out of sight', () => {
+      const bolt = spellbook.getSpell('bolt')!;
+
+      expect(spellbook.selectTargets(caster, bolt, 'far', [far], alwaysVisible).failure).toBe('out_of_range');
+      expect(spellbook.selectTargets(caster, bolt, 'near', [near], () => false).failure).toBe('no_line_of_sight');
+      expect(spellbook.selectTargets(caster, bolt, undefined, [near], () => false).failure).toBe('no_target');
+    });
+
+    it('should hit every enemy within the radius of an area spell', () => {
+      const targeting = spellbook.selectTargets(
+        caster, spellbook.getSpell('blast')!, { x: 7, y: 5 }, [near, far, beside], alwaysVisible
+      );
+
+      expect(targeting.targets.map(target => target.id)).toEqual(['near', 'beside']);
+      expect(targeting.center).toEqual({ x: 7, y: 5 });
+    });
+
+    it('should not need a target for spells on the caster', () => {
+      expect(spellbook.selectTargets(caster, spellbook.getSpell('cure')!, undefined, [], alwaysVisible)).toEqual({ targets: [] });
+    });
+  });
+});
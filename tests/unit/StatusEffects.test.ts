@@ -0,0 +1,88 @@
+import { StatusEffectSystem, StatusEffectTarget } from '../../src/combat/StatusEffects';
+
+describe('StatusEffectSystem', () => {
+  let system: StatusEffectSystem;
+  let target: StatusEffectTarget;
+
+  beforeEach(() => {
+    system = new StatusEffectSystem();
+    target = { health: 50, maxHealth: 100 };
+  });
+
+  describe('stacking', () => {
+    it('should stack poison up to its limit and keep the longest duration', () => {
+      for (let i = 0; i < 7; i++) {
+        system.apply(target, { type: 'poison', duration: i === 0 ? 4 : 2, potency: 2 });
+      }
+
+      expect(target.statusEffects).toHaveLength(1);
+      expect(target.statusEffects?.[0]).toMatchObject({ type: 'poison', stacks: 5, duration: 4 });
+    });
+
+    it('should refresh stat modifiers instead of stacking them', () => {
+      system.apply(target, { type: 'strength_boost', duration: 2, potency: 3 });
+      system.apply(target, { type: 'strength_boost', duration: 4, potency: 2 });
+
+      expect(target.statusEffects?.[0]).toMatchObject({ stacks: 1, duration: 4, potency: 3 });
+      expect(system.getAttackModifier(target)).toBe(3);
+    });
+
+    it('should extend regeneration duration', () => {
+      system.apply(target, { type: 'regeneration', duration: 2, potency: 5 });
+      system.apply(target, { type: 'regeneration', duration: 3, potency: 5 });
+
+      expect(target.statusEffects?.[0]?.duration).toBe(5);
+    });
+  });
+
+  describe('turn hooks', () => {
+    it('should deal poison damage per stack at turn start', () => {
+      system.apply(target, { type: 'poison', duration: 3, potency: 2 });
+      system.apply(target, { type: 'poison', duration: 3, potency: 2 });
+
+      const tick = system.onTurnStart(target);
+
+      expect(tick.damage).toBe(4);
+      expect(target.health).toBe(46);
+    });
+
+    it('should skip the turn while stunned', () => {
+      system.apply(target, { type: 'stun', duration: 1, potency: 0 });
+
+      expect(system.onTurnStart(target).skipTurn).toBe(true);
+    });
+
+    it('should heal at turn end without exceeding max health', () => {
+      target.health = 98;
+      system.apply(target, { type: 'regeneration', duration: 2, potency: 5 });
+
+      const tick = system.onTurnEnd(target);
+
+      expect(tick.healing).toBe(5);
+      expect(target.health).toBe(100);
+    });
+
+    it('should expire effects when their duration runs out', () => {
+      system.apply(target, { type: 'stun', duration: 1, potency: 0 });
+      system.apply(target, { type: 'weakness', duration: 2, potency: 2 });
+
+      const tick = system.onTurnEnd(target);
+
+      expect(tick.expired).toEqual(['stun']);
+      expect(system.hasEffect(target, 'stun')).toBe(false);
+      expect(system.getAttackModifier(target)).toBe(-2);
+    });
+  });
+
+  describe('snapshots', () => {
+    it('should return copies that do not change with the live effects', () => {
+      system.apply(target, { type: 'defense_boost', duration: 2, potency: 4 });
+      const snapshot = system.snapshot(target);
+
+      system.onTurnEnd(target);
+
+      expect(snapshot[0]?.duration).toBe(2);
+      expect(system.getDefenseModifier(target)).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { TalentTree, TalentHolder, TalentNode, TalentTreeData, defaultTalentTree } from '../../src/player/TalentTree';
+import { GameError } from '../../src/utils/ErrorHandling';
+
+const createNode = (overrides: Partial<TalentNode> = {}): TalentNode => ({
+  id: 'grit',
+  name: 'Grit',
+  description: '+1 defense per rank.',
+  maxRank: 2,
+  bonuses: { defense: 1 },
+  ...overrides
+});
+
+describe('TalentTree', () => {
+  describe('validation', () => {
+    it('should reject prerequisites that are not defined earlier', () => {
+      const data: TalentTreeData = {
+        version: 1,
+        talents: [createNode({ requires: [{ id: 'later', rank: 1 }] }), createNode({ id: 'later' })]
+      };
+
+      expect(() => new TalentTree(data)).toThrow('Invalid prerequisite for talent: grit');
+    });
+
+    it('should reject skills with several ranks or without power', () => {
+      const ranked: TalentTreeData = {
+        version: 1,
+        talents: [createNode({ skill: { kind: 'strike', cooldown: 2, damageMultiplier: 2 } })]
+      };
+      const powerless: TalentTreeData = {
+        version: 1,
+        talents: [createNode({ maxRank: 1, skill: { kind: 'recover', cooldown: 2 } })]
+      };
+
+      expect(() => new TalentTree(ranked)).toThrow(GameError);
+      expect(() => new TalentTree(powerless)).toThrow('Skill needs a damage multiplier or healing: grit');
+    });
+  });
+
+  describe('spending', () => {
+    const tree = new TalentTree({
+      version: 1,
+      talents: [
+        createNode(),
+        createNode({ id: 'bulwark', name: 'Bulwark', maxRank: 1, minLevel: 3, requires: [{ id: 'grit', rank: 2 }] })
+      ]
+    });
+
+    it('should explain why a point cannot be spent', () => {
+      expect(tree.checkSpend({ level: 5, talentPoints: 0 }, 'grit')).toBe('no_points');
+      expect(tree.checkSpend({ level: 5, talentPoints: 1 }, 'missing')).toBe('unknown_talent');
+      expect(tree.checkSpend({ level: 5, talentPoints: 1, talents: { grit: 2 } }, 'grit')).toBe('max_rank');
+      expect(tree.checkSpend({ level: 2, talentPoints: 1, talents: { grit: 2 } }, 'bulwark')).toBe('level_too_low');
+      expect(tree.checkSpend({ level: 5, talentPoints: 1, talents: { grit: 1 } }, 'bulwark')).toBe('missing_prerequisite');
+      expect(tree.checkSpend({ level: 5, talentPoints: 1, talents: { grit: 2 } }, 'bulwark')).toBeNull();
+    });
+
+    it('should add up bonuses and spent points across ranks', () => {
+      const holder: TalentHolder = { level: 5, talents: { keen_edge: 2, brawn: 3 } };
+
+      expect(defaultTalentTree.getBonus(holder, 'critChance')).toBeCloseTo(0.06);
+      expect(defaultTalentTree.getBonus(holder, 'strength')).toBe(3);
+      expect(defaultTalentTree.getSpentPoints(holder)).toBe(5);
+    });
+  });
+
+  describe('skills', () => {
+    it('should list the learned skills in tree order', () => {
+      const holder: TalentHolder = { level: 5, talents: { power_strike: 1, whirlwind: 1, second_wind: 1 } };
+
+      expect(defaultTalentTree.getSkills(holder).map(node => node.id)).toEqual(['power_strike', 'whirlwind', 'second_wind']);
+    });
+
+    it('should start and count down cooldowns', () => {
+      const holder: TalentHolder = { level: 3, talents: { power_strike: 1 } };
+      const node = defaultTalentTree.getNode('power_strike')!;
+
+      expect(defaultTalentTree.checkSkill(holder, 'power_strike')).toBeNull();
+      defaultTalentTree.beginSkill(holder, node);
+      expect(defaultTalentTree.checkSkill(holder, 'power_strike')).toBe('on_cooldown');
+
+      defaultTalentTree.tickCooldowns(holder);
+      defaultTalentTree.tickCooldowns(holder);
+      defaultTalentTree.tickCooldowns(holder);
+      expect(holder.skillCooldowns).toEqual({});
+      expect(defaultTalentTree.checkSkill(holder, 'power_strike')).toBeNull();
+    });
+
+    it('should refuse skills that are unknown or not learned', () => {
+      expect(defaultTalentTree.checkSkill({ level: 5 }, 'brawn')).toBe('unknown_skill');
+      expect(defaultTalentTree.checkSkill({ level: 5 }, 'whirlwind')).toBe('not_learned');
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { TrapSystem, TrapContext, findTrapAt } from '../../src/dungeon/TrapSystem';
+import { Enemy } from '../../src/combat/Enemy';
+import { DungeonMap, PlayerCharacter, Trap } from '../../src/types/GameTypes';
+import { RandomSource } from '../../src/utils/Random';
+
+// Every roll lands on the same value
+class FixedRandom implements RandomSource {
+  constructor(private value: number) {}
+  next(): number { return this.value; }
+  nextInt(min: number, max: number): number { return Math.floor(this.value * (max - min + 1)) + min; }
+  chance(probability: number): boolean { return this.value < probability; }
+  pick<T>(items: readonly T[]): T { return items[Math.floor(this.value * items.length)] as T; }
+}
+
+describe('TrapSystem', () => {
+  let dungeon: DungeonMap;
+  let player: PlayerCharacter;
+  let trap: Trap;
+
+  const createContext = (enemies: Enemy[] = []): TrapContext => ({
+    player,
+    enemies,
+    dungeon,
+    isValidPosition: () => true
+  });
+
+  beforeEach(() => {
+    trap = { id: 'trap_0', kind: 'spike', position: { x: 3, y: 3 }, difficulty: 7, damage: 12, detected: false, disarmed: false };
+    dungeon = {
+      rooms: [
+        { id: 'room_0', position: { x: 1, y: 1 }, width: 5, height: 5, type: 'normal', items: [], enemies: [], connections: [] },
+        { id: 'room_1', position: { x: 10, y: 1 }, width: 4, height: 4, type: 'normal', items: [], enemies: [], connections: [] }
+      ],
+      corridors: [],
+      width: 20,
+      height: 10,
+      traps: [trap]
+    };
+    player = {
+      id: 'player_1',
+      position: { x: 3, y: 2 },
+      health: 100,
+      maxHealth: 100,
+      level: 1,
+      experience: 0,
+      inventory: [],
+      equipment: {},
+      stats: { strength: 10, defense: 5, agility: 8, intelligence: 7 }
+    };
+  });
+
+  describe('detection', () => {
+    it('should spot nearby traps when the roll succeeds', () => {
+      const found = new TrapSystem(new FixedRandom(0)).detectTraps(dungeon, player);
+
+      expect(found).toEqual([trap]);
+      expect(trap.detected).toBe(true);
+    });
+
+    it('should miss traps on a failed roll or out of range', () => {
+      expect(new TrapSystem(new FixedRandom(0.99)).detectTraps(dungeon, player)).toEqual([]);
+
+      player.position = { x: 10, y: 8 };
+      expect(new TrapSystem(new FixedRandom(0)).detectTraps(dungeon, player)).toEqual([]);
+    });
+  });
+
+  describe('disarming', () => {
+    it('should disarm the trap on a successful check', () => {
+      const event = new TrapSystem(new FixedRandom(0)).disarm(trap, createContext());
+
+      expect(event.type).toBe('disarmed');
+      expect(findTrapAt(dungeon, trap.position)).toBeUndefined();
+    });
+
+    it('should leave the trap armed after a clean failure', () => {
+      const event = new TrapSystem(new FixedRandom(0.99)).disarm(trap, createContext());
+
+      expect(event.type).toBe('disarm_failed');
+      expect(findTrapAt(dungeon, trap.position)).toBe(trap);
+    });
+  });
+
+  describe('triggering', () => {
+    const trapSystem = new TrapSystem(new FixedRandom(0.5));
+
+    it('should wound the player but never kill', () => {
+      expect(trapSystem.trigger(trap, createContext()).damage).toBe(12);
+      expect(player.health).toBe(88);
+
+      player.health = 5;
+      trapSystem.trigger(trap, createContext());
+      expect(player.health).toBe(1);
+      expect(trap.detected).toBe(true);
+    });
+
+    it('should poison the player with a dart', () => {
+      trap.kind = 'poison_dart';
+      trap.damage = 4;
+
+      trapSystem.trigger(trap, createContext());
+
+      expect(player.health).toBe(96);
+      expect(player.statusEffects?.[0]).toMatchObject({ type: 'poison', stacks: 1 });
+    });
+
+    it('should send the player to another room', () => {
+      trap.kind = 'teleport';
+
+      const { teleportedTo } = trapSystem.trigger(trap, createContext());
+
+      expect(teleportedTo!.x).toBeGreaterThanOrEqual(10);
+      expect(teleportedTo!.x).toBeLessThan(14);
+    });
+
+    it('should wake enemies in earshot and then fall silent', () => {
+      trap.kind = 'alarm';
+      const near = new Enemy({ id: 'near', name: 'Goblin', position: { x: 8, y: 3 }, aiType: 'guard', detectionRange: 2 });
+      const far = new Enemy({ id: 'far', name: 'Goblin', position: { x: 30, y: 30 }, aiType: 'guard' });
+
+      const event = trapSystem.trigger(trap, createContext([near, far]));
+
+      expect(event.alertedEnemies).toEqual(['near']);
+      expect(near.aiType).toBe('aggressive');
+      expect(near.detectionRange).toBe(5);
+      expect(far.aiType).toBe('guard');
+      expect(findTrapAt(dungeon, trap.position)).toBeUndefined();
+    });
+  });
+});
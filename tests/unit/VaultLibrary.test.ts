@@ -0,0 +1,80 @@
+import { VaultLibrary, VaultEntry } from '../../src/dungeon/VaultLibrary';
+import { SeededRandom } from '../../src/utils/Random';
+import { GameError } from '../../src/utils/ErrorHandling';
+
+const createEntry = (overrides: Partial<VaultEntry> = {}): VaultEntry => ({
+  id: 'cell',
+  name: 'Cell',
+  roomType: 'normal',
+  spawn: { minDepth: 1, weight: 1 },
+  rows: [
+    '#####',
+    '#...#',
+    '#...#',
+    '#.#.#',
+    '#...#',
+    '##+##'
+  ],
+  ...overrides
+});
+
+describe('VaultLibrary', () => {
+  describe('parsing', () => {
+    it('should find the floor, entrances and largest open chamber', () => {
+      const template = new VaultLibrary({ version: 1, vaults: [createEntry()] }).getTemplate('cell')!;
+
+      expect(template.width).toBe(5);
+      expect(template.height).toBe(6);
+      expect(template.entrances).toEqual([{ x: 2, y: 5 }]);
+      expect(template.floor).toHaveLength(12);
+      expect(template.chamber).toEqual({ x: 1, y: 1, width: 3, height: 2 });
+    });
+
+    it('should reject floor on the outer edge', () => {
+      const rows = ['#.###', '#...#', '#...#', '#...#', '##+##'];
+
+      expect(() => new VaultLibrary({ version: 1, vaults: [createEntry({ rows })] })).toThrow(GameError);
+    });
+
+    it('should reject vaults without an entrance or with unreachable floor', () => {
+      const sealed = ['#####', '#...#', '#...#', '#####'];
+      const split = ['#####', '#..##', '#####', '#..##', '#+###'];
+
+      expect(() => new VaultLibrary({ version: 1, vaults: [createEntry({ rows: sealed })] })).toThrow(GameError);
+      expect(() => new VaultLibrary({ version: 1, vaults: [createEntry({ rows: split })] })).toThrow(GameError);
+    });
+
+    it('should reject unknown tiles and ragged rows', () => {
+      const unknown = ['#####', '#.X.#', '#...#', '##+##'];
+      const ragged = ['#####', '#...#', '#..#', '##+##'];
+
+      expect(() => new VaultLibrary({ version: 1, vaults: [createEntry({ rows: unknown })] })).toThrow(GameError);
+      expect(() => new VaultLibrary({ version: 1, vaults: [createEntry({ rows: ragged })] })).toThrow(GameError);
+    });
+
+    it('should reject unknown room types', () => {
+      const vault = { ...createEntry(), roomType: 'armory' } as unknown as VaultEntry;
+
+      expect(() => new VaultLibrary({ version: 1, vaults: [vault] })).toThrow('Unknown room type for vault: cell');
+    });
+  });
+
+  describe('selection', () => {
+    it('should only pick vaults allowed on the floor', () => {
+      const library = new VaultLibrary({
+        version: 1,
+        vaults: [
+          createEntry({ id: 'shallow', spawn: { minDepth: 1, maxDepth: 2, weight: 1 } }),
+          createEntry({ id: 'deep', spawn: { minDepth: 5, weight: 1 } })
+        ]
+      });
+      const random = new SeededRandom(3);
+
+      for (let i = 0; i < 20; i++) {
+        expect(library.pickVault(1, random)?.entry.id).toBe('shallow');
+        expect(library.pickVault(6, random)?.entry.id).toBe('deep');
+      }
+      expect(library.pickVault(3, random)).toBeNull();
+    });
+  });
+});